@@ -0,0 +1,14 @@
+import { YardHeader } from '@/app/components/YardHeader'
+
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <div className="flex min-h-screen flex-col">
+      <YardHeader />
+      {children}
+    </div>
+  )
+}
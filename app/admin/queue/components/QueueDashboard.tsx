@@ -0,0 +1,380 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type {
+  ListedJobState,
+  QueueJobSummary,
+  QueueOverview,
+} from '@/services/queue/queue-admin'
+
+const JOB_STATES: ListedJobState[] = [
+  'failed',
+  'active',
+  'waiting',
+  'prioritized',
+  'waiting-children',
+  'delayed',
+  'completed',
+]
+
+// Overview refresh interval
+const REFRESH_INTERVAL_MS = 10 * 1000
+
+type QueueAction =
+  | 'pause'
+  | 'resume'
+  | 'retry-failed'
+  | 'drain'
+  | 'requeue-failed'
+
+const ACTION_CONFIRMATIONS: Partial<Record<QueueAction, string>> = {
+  'retry-failed':
+    'Retry the most recent failures? Their repositories are analyzed again.',
+  drain:
+    'Remove runs that have not finished after 24 hours and mark their repositories failed?',
+  'requeue-failed':
+    'Queue an analysis of every repository whose analysis failed?',
+}
+
+/**
+ * QueueDashboard Component
+ *
+ * Admin view of the analysis queue, from /api/admin/queue:
+ * - Depth by state, throughput, and failures grouped by error type
+ * - Jobs by state, with a job's logs on selection
+ * - Actions: pause/resume, retry failed jobs, drain stale runs,
+ *   re-queue failed repositories
+ */
+export function QueueDashboard() {
+  const [overview, setOverview] = useState<QueueOverview | null>(null)
+  const [jobState, setJobState] = useState<ListedJobState>('failed')
+  const [page, setPage] = useState(0)
+  const [jobs, setJobs] = useState<QueueJobSummary[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [selectedJob, setSelectedJob] = useState<{
+    job: QueueJobSummary
+    logs: string[]
+  } | null>(null)
+  const [runningAction, setRunningAction] = useState<QueueAction | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/queue')
+      if (!response.ok) throw new Error('Failed to load queue overview')
+      setOverview(await response.json())
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load queue overview'
+      )
+    }
+  }, [])
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/admin/queue/jobs?state=${jobState}&page=${page}`
+      )
+      if (!response.ok) throw new Error('Failed to load jobs')
+      const data = await response.json()
+      setJobs(data.jobs)
+      setHasMore(data.hasMore)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load jobs')
+    }
+  }, [jobState, page])
+
+  useEffect(() => {
+    fetchOverview()
+    const interval = setInterval(fetchOverview, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchOverview])
+
+  useEffect(() => {
+    fetchJobs()
+  }, [fetchJobs])
+
+  const showJob = async (jobId: string) => {
+    try {
+      const response = await fetch(
+        `/api/admin/queue/jobs/${encodeURIComponent(jobId)}`
+      )
+      if (!response.ok) throw new Error('Failed to load job')
+      setSelectedJob(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load job')
+    }
+  }
+
+  const runAction = async (action: QueueAction) => {
+    const confirmation = ACTION_CONFIRMATIONS[action]
+    if (confirmation && !confirm(confirmation)) return
+
+    setRunningAction(action)
+    setMessage(null)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/admin/queue/${action}`, {
+        method: 'POST',
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Action failed')
+
+      setMessage(actionMessage(action, data))
+      await Promise.all([fetchOverview(), fetchJobs()])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed')
+    } finally {
+      setRunningAction(null)
+    }
+  }
+
+  if (!overview) {
+    return <p className="yard-meta text-sm">{error || 'loading...'}</p>
+  }
+
+  const { depth, throughput, failures } = overview
+
+  return (
+    <div className="space-y-6">
+      {/* Depth */}
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <StatCard label="waiting" value={depth.waiting + depth.prioritized} />
+        <StatCard label="active" value={depth.active} />
+        <StatCard label="delayed" value={depth.delayed} />
+        <StatCard label="waiting on stages" value={depth.waitingChildren} />
+        <StatCard
+          label="completed / hour"
+          value={throughput.completedLastHour}
+        />
+        <StatCard label="completed / day" value={throughput.completedLastDay} />
+        <StatCard
+          label="failed / hour"
+          value={throughput.failedLastHour}
+          highlight={throughput.failedLastHour > 0}
+        />
+        <StatCard
+          label="failed repositories"
+          value={overview.failedRepositories}
+          highlight={overview.failedRepositories > 0}
+        />
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="yard-meta mr-2 text-sm">
+          queue {depth.paused ? 'paused' : 'running'}
+        </span>
+        <button
+          onClick={() => runAction(depth.paused ? 'resume' : 'pause')}
+          className="yard-button"
+          disabled={runningAction !== null}
+        >
+          {depth.paused ? '▶ resume' : '❚❚ pause'}
+        </button>
+        <button
+          onClick={() => runAction('retry-failed')}
+          className="yard-button-secondary"
+          disabled={runningAction !== null}
+        >
+          ↻ retry failed jobs
+        </button>
+        <button
+          onClick={() => runAction('drain')}
+          className="yard-button-secondary"
+          disabled={runningAction !== null}
+        >
+          drain stale runs
+        </button>
+        <button
+          onClick={() => runAction('requeue-failed')}
+          className="yard-button-secondary"
+          disabled={runningAction !== null}
+        >
+          re-queue failed repositories
+        </button>
+        {message && <span className="yard-meta text-sm">{message}</span>}
+        {error && <span className="text-xs text-[--yard-error]">{error}</span>}
+      </div>
+
+      {/* Failures */}
+      <div className="border border-[--yard-border]">
+        <div className="border-b border-[--yard-border] p-4">
+          <h2 className="mono text-lg font-bold">failure reasons</h2>
+          <p className="yard-meta text-xs">
+            Most recent failed jobs, by error type
+          </p>
+        </div>
+        {failures.length === 0 ? (
+          <p className="yard-meta p-4 text-sm">No recent failures</p>
+        ) : (
+          <ul>
+            {failures.map((group) => (
+              <li key={group.type} className="yard-item text-sm">
+                <div className="flex items-start justify-between gap-4">
+                  <span className="mono break-all">{group.type}</span>
+                  <span className="mono font-bold">{group.count}</span>
+                </div>
+                <div className="yard-meta">
+                  last {new Date(group.lastFailedAt).toLocaleString()} ·{' '}
+                  {group.jobIds.map((id) => (
+                    <button
+                      key={id}
+                      onClick={() => showJob(id)}
+                      className="mr-2 hover:text-[--yard-orange] hover:underline"
+                    >
+                      {id}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Jobs */}
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="border border-[--yard-border]">
+          <div className="flex items-center justify-between border-b border-[--yard-border] p-4">
+            <h2 className="mono text-lg font-bold">jobs</h2>
+            <select
+              value={jobState}
+              onChange={(e) => {
+                setJobState(e.target.value as ListedJobState)
+                setPage(0)
+              }}
+              className="border border-[--yard-border] px-2 py-1 text-sm"
+            >
+              {JOB_STATES.map((state) => (
+                <option key={state} value={state}>
+                  {state}
+                </option>
+              ))}
+            </select>
+          </div>
+          {jobs.length === 0 ? (
+            <p className="yard-meta p-4 text-sm">No {jobState} jobs</p>
+          ) : (
+            <ul>
+              {jobs.map((job) => (
+                <li
+                  key={job.id}
+                  onClick={() => showJob(job.id)}
+                  className={`yard-item cursor-pointer text-sm ${
+                    selectedJob?.job.id === job.id ? 'bg-[--yard-hover]' : ''
+                  }`}
+                >
+                  <div className="mono">
+                    {job.repository}
+                    {job.stage && (
+                      <span className="yard-meta"> · {job.stage}</span>
+                    )}
+                  </div>
+                  <div className="yard-meta">
+                    {job.id} · {new Date(job.createdAt).toLocaleString()}
+                    {job.attemptsMade > 0 && ` · ${job.attemptsMade} attempts`}
+                  </div>
+                  {job.failedReason && (
+                    <div className="truncate text-xs text-[--yard-error]">
+                      {job.failedReason}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-between p-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              className="yard-button-secondary"
+              disabled={page === 0}
+            >
+              ← newer
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              className="yard-button-secondary"
+              disabled={!hasMore}
+            >
+              older →
+            </button>
+          </div>
+        </div>
+
+        <div className="border border-[--yard-border]">
+          <div className="border-b border-[--yard-border] p-4">
+            <h2 className="mono text-lg font-bold">logs</h2>
+            {selectedJob && (
+              <p className="yard-meta text-xs">
+                {selectedJob.job.id} · {selectedJob.job.state}
+              </p>
+            )}
+          </div>
+          {!selectedJob ? (
+            <p className="yard-meta p-4 text-sm">
+              Select a job to see its logs
+            </p>
+          ) : selectedJob.logs.length === 0 ? (
+            <p className="yard-meta p-4 text-sm">No logs</p>
+          ) : (
+            <pre className="mono max-h-[32rem] overflow-y-auto whitespace-pre-wrap break-all p-4 text-xs">
+              {selectedJob.logs.join('\n')}
+            </pre>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Result of an action, for display
+ */
+function actionMessage(
+  action: QueueAction,
+  data: Record<string, unknown>
+): string {
+  switch (action) {
+    case 'pause':
+      return 'Queue paused'
+    case 'resume':
+      return 'Queue resumed'
+    case 'retry-failed':
+      return `Re-queued ${data.requeued} repositories${failedSuffix(data)}`
+    case 'drain':
+      return `Removed ${data.removed} stale runs`
+    case 'requeue-failed':
+      return `Queued ${data.queued} repositories${failedSuffix(data)}`
+  }
+}
+
+/**
+ * Note on repositories an action could not queue
+ */
+function failedSuffix(data: Record<string, unknown>): string {
+  return data.failed ? `, ${data.failed} failed (see logs)` : ''
+}
+
+function StatCard({
+  label,
+  value,
+  highlight = false,
+}: {
+  label: string
+  value: number
+  highlight?: boolean
+}) {
+  return (
+    <div
+      className={`border border-[--yard-border] p-4 ${
+        highlight ? 'border-[--yard-orange] bg-[--yard-light-orange]' : ''
+      }`}
+    >
+      <div className="mono text-2xl font-bold">{value}</div>
+      <div className="yard-meta mt-1 text-xs">{label}</div>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { auth } from '@/lib/auth'
+import { isAdmin } from '@/lib/admin'
+import { QueueDashboard } from './components/QueueDashboard'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminQueuePage() {
+  const session = await auth()
+
+  // Not an admin: the page does not exist
+  if (!isAdmin(session)) {
+    notFound()
+  }
+
+  return (
+    <main className="mx-auto w-full max-w-6xl flex-1 p-4">
+      {/* Breadcrumb */}
+      <div className="yard-meta mb-4 text-xs">
+        <Link href="/" className="hover:text-[--yard-orange] hover:underline">
+          ← back to yard lot
+        </Link>
+      </div>
+
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="mono mb-2 text-3xl font-bold">analysis queue</h1>
+        <p className="yard-meta text-sm">
+          Queue depth, throughput and failures of repository analyses
+        </p>
+      </div>
+
+      <QueueDashboard />
+    </main>
+  )
+}
@@ -0,0 +1,49 @@
+/**
+ * POST /api/admin/queue/drain
+ *
+ * Removes analysis runs that have not finished after `olderThanHours`
+ * (default 24), frees their users' slots and marks their repositories
+ * failed, then cleans old completed and failed jobs.
+ * Admin only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { adminOnly } from '@/lib/admin'
+import { drainStaleRuns, STALE_RUN_AGE_MS } from '@/services/queue/queue-admin'
+
+/**
+ * POST - Drain stale runs
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const denied = adminOnly(await auth())
+    if (denied) return denied
+
+    const body = await request.json().catch(() => ({}))
+    const olderThanHours = Number(body.olderThanHours)
+
+    if (body.olderThanHours !== undefined && !(olderThanHours > 0)) {
+      return NextResponse.json(
+        { error: 'olderThanHours must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      await drainStaleRuns(
+        olderThanHours ? olderThanHours * 60 * 60 * 1000 : STALE_RUN_AGE_MS
+      )
+    )
+  } catch (error) {
+    console.error('Failed to drain stale runs:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to drain stale runs',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
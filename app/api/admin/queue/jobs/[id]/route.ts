@@ -0,0 +1,43 @@
+/**
+ * GET /api/admin/queue/jobs/[id]
+ *
+ * An analysis queue job and its logs. A run's logs include those of its
+ * stages.
+ * Admin only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { adminOnly } from '@/lib/admin'
+import { getJobWithLogs } from '@/services/queue/queue-admin'
+
+/**
+ * GET - Get job with logs
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const denied = adminOnly(await auth())
+    if (denied) return denied
+
+    const result = await getJobWithLogs(params.id)
+
+    if (!result) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Failed to get queue job:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to get queue job',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
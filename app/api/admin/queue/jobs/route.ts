@@ -0,0 +1,48 @@
+/**
+ * GET /api/admin/queue/jobs?state=failed&page=0
+ *
+ * Lists analysis queue jobs in a state, newest first, a page at a time.
+ * Admin only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { adminOnly } from '@/lib/admin'
+import {
+  LISTED_JOB_STATES,
+  listQueueJobs,
+  type ListedJobState,
+} from '@/services/queue/queue-admin'
+
+/**
+ * GET - List jobs
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const denied = adminOnly(await auth())
+    if (denied) return denied
+
+    const { searchParams } = new URL(request.url)
+    const state = searchParams.get('state') || 'failed'
+    const page = Math.max(0, parseInt(searchParams.get('page') || '0') || 0)
+
+    if (!LISTED_JOB_STATES.includes(state as ListedJobState)) {
+      return NextResponse.json(
+        { error: `Invalid state. Use one of: ${LISTED_JOB_STATES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(await listQueueJobs(state as ListedJobState, page))
+  } catch (error) {
+    console.error('Failed to list queue jobs:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list queue jobs',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * POST /api/admin/queue/pause
+ *
+ * Pauses the analysis queue: workers finish the jobs they hold and take no
+ * new ones until it is resumed.
+ * Admin only.
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { adminOnly } from '@/lib/admin'
+import { analysisQueue } from '@/services/queue/analysis-queue'
+
+/**
+ * POST - Pause queue
+ */
+export async function POST() {
+  try {
+    const denied = adminOnly(await auth())
+    if (denied) return denied
+
+    await analysisQueue.pause()
+
+    return NextResponse.json({ paused: true })
+  } catch (error) {
+    console.error('Failed to pause queue:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to pause queue',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * POST /api/admin/queue/requeue-failed
+ *
+ * Queues an analysis of every repository whose analysis failed, at low
+ * priority. Uses no user's quota.
+ * Admin only.
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { adminOnly } from '@/lib/admin'
+import { requeueFailedRepositories } from '@/services/queue/queue-admin'
+
+/**
+ * POST - Re-queue failed repositories
+ */
+export async function POST() {
+  try {
+    const denied = adminOnly(await auth())
+    if (denied) return denied
+
+    return NextResponse.json(await requeueFailedRepositories())
+  } catch (error) {
+    console.error('Failed to re-queue failed repositories:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to re-queue failed repositories',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * POST /api/admin/queue/resume
+ *
+ * Resumes a paused analysis queue.
+ * Admin only.
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { adminOnly } from '@/lib/admin'
+import { analysisQueue } from '@/services/queue/analysis-queue'
+
+/**
+ * POST - Resume queue
+ */
+export async function POST() {
+  try {
+    const denied = adminOnly(await auth())
+    if (denied) return denied
+
+    await analysisQueue.resume()
+
+    return NextResponse.json({ paused: false })
+  } catch (error) {
+    console.error('Failed to resume queue:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to resume queue',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
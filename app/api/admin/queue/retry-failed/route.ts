@@ -0,0 +1,34 @@
+/**
+ * POST /api/admin/queue/retry-failed
+ *
+ * Retries the most recent failures: repositories of failed jobs and of runs
+ * that completed without an analysis are analyzed again, unless analyzed
+ * successfully since. Admin only.
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { adminOnly } from '@/lib/admin'
+import { retryFailedJobs } from '@/services/queue/queue-admin'
+
+/**
+ * POST - Retry failed jobs
+ */
+export async function POST() {
+  try {
+    const denied = adminOnly(await auth())
+    if (denied) return denied
+
+    return NextResponse.json(await retryFailedJobs())
+  } catch (error) {
+    console.error('Failed to retry failed jobs:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to retry failed jobs',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * GET /api/admin/queue
+ *
+ * Analysis queue overview: depth, throughput, failures grouped by error
+ * type, and the number of repositories whose analysis failed.
+ * Admin only.
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { adminOnly } from '@/lib/admin'
+import { getQueueOverview } from '@/services/queue/queue-admin'
+
+/**
+ * GET - Get queue overview
+ */
+export async function GET() {
+  try {
+    const denied = adminOnly(await auth())
+    if (denied) return denied
+
+    return NextResponse.json(await getQueueOverview())
+  } catch (error) {
+    console.error('Failed to get queue overview:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to get queue overview',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
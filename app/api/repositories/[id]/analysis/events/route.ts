@@ -0,0 +1,118 @@
+/**
+ * GET /api/repositories/[id]/analysis/events
+ *
+ * Streams live progress of the repository's latest analysis job as
+ * Server-Sent Events: a `state` event first, then `progress` (percentage
+ * and stage name), `log` lines, and a final `completed` or `failed`.
+ * Public endpoint (no authentication required), like the analysis itself.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { analysisQueue } from '@/services/queue/analysis-queue'
+import {
+  watchAnalysisJob,
+  type AnalysisJobEvent,
+} from '@/services/queue/analysis-events'
+
+// Streams must never be cached or prerendered
+export const dynamic = 'force-dynamic'
+
+/**
+ * Interval of comments keeping idle connections open through proxies
+ */
+const HEARTBEAT_MS = 15 * 1000
+
+/**
+ * GET - Stream analysis progress
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const repository = await prisma.repository.findUnique({
+      where: { id: params.id },
+      select: { id: true, analysisStatus: true },
+    })
+
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Repository not found' },
+        { status: 404 }
+      )
+    }
+
+    const latestJob = await analysisQueue.getLatestRepositoryJob(repository.id)
+    const encoder = new TextEncoder()
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false
+        const write = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk))
+        }
+        const send = (event: AnalysisJobEvent) =>
+          write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+
+        // Nothing queued: report the stored status and end the stream with
+        // a final event, so EventSource clients close instead of reconnecting
+        if (!latestJob?.id) {
+          send({
+            type: 'state',
+            state: repository.analysisStatus,
+            progress: 0,
+            stage: null,
+            logs: [],
+          })
+          if (
+            repository.analysisStatus === 'completed' ||
+            repository.analysisStatus === 'partial'
+          ) {
+            send({ type: 'completed' })
+          } else if (repository.analysisStatus === 'failed') {
+            send({ type: 'failed', error: 'Analysis failed' })
+          } else {
+            // Pending, or processing with its job removed
+            send({ type: 'failed', error: 'No analysis queued' })
+          }
+          controller.close()
+          return
+        }
+
+        const close = () => {
+          if (closed) return
+          closed = true
+          clearInterval(heartbeat)
+          unwatch()
+          controller.close()
+        }
+
+        const unwatch = watchAnalysisJob(latestJob.id, (event) => {
+          send(event)
+          if (event.type === 'completed' || event.type === 'failed') close()
+        })
+        const heartbeat = setInterval(
+          () => write(': keep-alive\n\n'),
+          HEARTBEAT_MS
+        )
+
+        request.signal.addEventListener('abort', close)
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    console.error('Error streaming analysis progress:', error)
+    return NextResponse.json(
+      { error: 'Failed to stream analysis progress' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * GET /api/repositories/[id]/analysis/history
+ *
+ * Lists completed analysis runs (newest first) and diffs two of them.
+ * Public endpoint (no authentication required).
+ *
+ * Query parameters:
+ * - limit: number of runs to return (default 20, max 100)
+ * - from, to: run IDs to diff; defaults to the two most recent runs
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { diffAnalysisRuns } from '@/services/analysis/analysis-history'
+
+/**
+ * GET - List analysis runs and diff two of them
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const repositoryId = params.id
+    const { searchParams } = new URL(request.url)
+
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1),
+      100
+    )
+    const fromId = searchParams.get('from')
+    const toId = searchParams.get('to')
+
+    if ((fromId && !toId) || (!fromId && toId)) {
+      return NextResponse.json(
+        { error: 'Both from and to run IDs are required to compare runs' },
+        { status: 400 }
+      )
+    }
+
+    const repository = await prisma.repository.findUnique({
+      where: { id: repositoryId },
+      select: { id: true },
+    })
+
+    if (!repository) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 })
+    }
+
+    const runs = await prisma.analysisRun.findMany({
+      where: { repositoryId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+
+    // Diff the requested runs, or the two most recent ones
+    let diff = null
+
+    if (fromId && toId) {
+      const compared = await prisma.analysisRun.findMany({
+        where: { repositoryId, id: { in: [fromId, toId] } },
+      })
+      const from = compared.find((run) => run.id === fromId)
+      const to = compared.find((run) => run.id === toId)
+
+      if (!from || !to) {
+        return NextResponse.json({ error: 'Analysis run not found' }, { status: 404 })
+      }
+
+      diff = diffAnalysisRuns(from, to)
+    } else if (runs.length >= 2) {
+      diff = diffAnalysisRuns(runs[1], runs[0])
+    }
+
+    return NextResponse.json({ runs, diff })
+  } catch (error) {
+    console.error('Failed to retrieve analysis history:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to retrieve analysis history',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -47,23 +47,37 @@ export async function GET(
           // AI Detection
           aiDetected: repository.analysis.aiDetected,
           aiProvider: repository.analysis.aiProvider,
+          aiProviders: repository.analysis.aiProviderBreakdown,
           aiConfidence: repository.analysis.aiConfidence,
           aiEvidence: repository.analysis.aiEvidence,
+          aiAuthorship: repository.analysis.aiAuthorship,
           // Analysis Results
+          commitSha: repository.analysis.commitSha,
           projectType: repository.analysis.projectType,
           framework: repository.analysis.framework,
+          runtime: repository.analysis.runtime,
+          runtimeVersion: repository.analysis.runtimeVersion,
+          dependencies: repository.analysis.dependencies,
+          dependencyHealth: repository.analysis.dependencyHealth,
+          ciHealth: repository.analysis.ciHealth,
           completenessScore: repository.analysis.completenessScore,
+          completenessBreakdown: repository.analysis.completenessBreakdown,
+          scoringProfile: repository.analysis.scoringProfile,
           // AI Insights
           purpose: repository.analysis.purpose,
           techStack: repository.analysis.techStack,
           features: repository.analysis.features,
           improvements: repository.analysis.improvements,
           mistakes: repository.analysis.mistakes,
+          insightSources: repository.analysis.insightSources,
           // Timeline
           firstCommitAt: repository.analysis.firstCommitAt,
           lastCommitAt: repository.analysis.lastCommitAt,
           commitCount: repository.analysis.commitCount,
           contributorCount: repository.analysis.contributorCount,
+          commitActivity: repository.analysis.commitActivity,
+          // Stages left out of a partial analysis
+          failedStages: repository.analysis.failedStages,
           // Metadata
           createdAt: repository.analysis.createdAt,
           updatedAt: repository.analysis.updatedAt,
@@ -92,7 +106,8 @@ export async function GET(
             failedReason: jobStatus.failedReason,
           },
           message:
-            jobStatus.state === 'active'
+            jobStatus.state === 'active' ||
+            jobStatus.state === 'waiting-children'
               ? 'Analysis in progress'
               : jobStatus.state === 'waiting'
               ? 'Analysis queued'
@@ -2,20 +2,28 @@
  * POST /api/repositories/[id]/analyze
  *
  * Triggers repository analysis by adding a job to the queue.
- * Requires authentication.
+ * Requires authentication. Each queued analysis uses one of the user's
+ * daily quota, reported in X-RateLimit-* headers; over the quota the
+ * response is 429 with Retry-After. The priority is assigned here, not
+ * taken from the request.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { analysisQueue } from '@/services/queue/analysis-queue'
+import {
+  AnalysisQuotaExceededError,
+  createAnalysisQuotaService,
+  quotaHeaders,
+} from '@/services/queue/analysis-quotas'
 import { JOB_PRIORITIES } from '@/services/queue/queue-config'
 
 /**
  * POST - Trigger repository analysis
  */
 export async function POST(
-  request: NextRequest,
+  _request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
@@ -80,47 +88,81 @@ export async function POST(
       )
     }
 
-    // Check if analysis is already in progress
-    if (repository.analysisStatus === 'processing') {
-      // Check if there's an active job
-      const latestJob = await analysisQueue.getLatestRepositoryJob(repositoryId)
-
-      if (latestJob) {
-        const state = await latestJob.getState()
-        if (state === 'active' || state === 'waiting') {
-          return NextResponse.json(
-            {
-              message: 'Analysis already in progress',
-              jobId: latestJob.id,
-              status: repository.analysisStatus,
-            },
-            { status: 200 }
-          )
-        }
+    const quotas = createAnalysisQuotaService()
+
+    // Check if analysis is already queued or in progress (uses no quota)
+    const latestJob = await analysisQueue.getLatestRepositoryJob(repositoryId)
+
+    if (latestJob) {
+      const state = await latestJob.getState()
+      // Runs wait in waiting-children while their stages run
+      if (
+        state === 'active' ||
+        state === 'waiting' ||
+        state === 'prioritized' ||
+        state === 'waiting-children' ||
+        state === 'delayed'
+      ) {
+        return NextResponse.json(
+          {
+            message: 'Analysis already in progress',
+            jobId: latestJob.id,
+            status: repository.analysisStatus,
+          },
+          { status: 200, headers: quotaHeaders(await quotas.getQuota(user.id)) }
+        )
       }
     }
 
-    // Parse request body for priority (optional)
-    let priority = JOB_PRIORITIES.NORMAL
+    // Use one of the user's analyses for today
+    const consumedAt = new Date()
+    let quota
     try {
-      const body = await request.json()
-      if (body.priority && typeof body.priority === 'number') {
-        priority = body.priority
+      quota = await quotas.consume(user.id, consumedAt)
+    } catch (error) {
+      if (error instanceof AnalysisQuotaExceededError) {
+        return NextResponse.json(
+          {
+            error: 'Daily analysis quota reached',
+            message: error.message,
+            limit: error.quota.limit,
+            resetAt: error.quota.resetAt,
+          },
+          { status: 429, headers: quotaHeaders(error.quota) }
+        )
       }
-    } catch {
-      // No body or invalid JSON, use default priority
+      throw error
     }
 
     // Add analysis job to queue
-    const job = await analysisQueue.addAnalysisJob(
-      {
-        repositoryId: repository.id,
-        owner: repository.owner,
-        repo: repository.name,
-        userId: user.id,
-      },
-      priority
-    )
+    const { job, created } = await analysisQueue
+      .addAnalysisJob(
+        {
+          repositoryId: repository.id,
+          owner: repository.owner,
+          repo: repository.name,
+          userId: user.id,
+        },
+        JOB_PRIORITIES.NORMAL
+      )
+      .catch(async (error) => {
+        // Nothing was queued: give the analysis back
+        await quotas.refund(user.id, consumedAt)
+        throw error
+      })
+
+    // A concurrent request queued the repository first: join its run
+    if (!created) {
+      await quotas.refund(user.id, consumedAt)
+      return NextResponse.json(
+        {
+          message: 'Analysis already in progress',
+          jobId: job.id,
+          status: repository.analysisStatus,
+        },
+        { status: 200, headers: quotaHeaders(await quotas.getQuota(user.id)) }
+      )
+    }
 
     console.log(
       `Analysis job ${job.id} queued for repository ${repository.owner}/${repository.name}`
@@ -133,7 +175,7 @@ export async function POST(
         repositoryId: repository.id,
         status: 'queued',
       },
-      { status: 202 } // 202 Accepted
+      { status: 202, headers: quotaHeaders(quota) } // 202 Accepted
     )
   } catch (error) {
     console.error('Failed to queue analysis job:', error)
@@ -0,0 +1,74 @@
+/**
+ * GET /api/repositories/[id]/ci
+ *
+ * Live GitHub Actions health on the repository's default branch.
+ * Public endpoint (no authentication required); runs are fetched with the
+ * owner's GitHub token and cached for a few minutes. Falls back to the CI
+ * health recorded by the last analysis when they cannot be fetched.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { createGitHubClient } from '@/services/integrations/github-client'
+import { createCIHealthAnalyzer } from '@/services/analysis/ci-health'
+
+/**
+ * GET - Get CI health
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const repository = await prisma.repository.findUnique({
+      where: { id: params.id },
+      select: {
+        owner: true,
+        name: true,
+        user: { select: { githubAccessToken: true } },
+        analysis: { select: { ciHealth: true } },
+      },
+    })
+
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Repository not found' },
+        { status: 404 }
+      )
+    }
+    if (!repository.owner || !repository.name) {
+      return NextResponse.json(
+        { error: 'Not a GitHub repository' },
+        { status: 404 }
+      )
+    }
+
+    const recorded = repository.analysis?.ciHealth ?? null
+    const token = repository.user.githubAccessToken
+    if (!token) {
+      return NextResponse.json({ ciHealth: recorded, live: false })
+    }
+
+    try {
+      const githubClient = createGitHubClient(token)
+      const { default_branch } = await githubClient.getRepository(
+        repository.owner,
+        repository.name
+      )
+      const ciHealth = await createCIHealthAnalyzer(
+        githubClient
+      ).analyzeCIHealth(repository.owner, repository.name, default_branch)
+
+      return NextResponse.json({ ciHealth, live: true })
+    } catch (error) {
+      console.error('Error fetching live CI health:', error)
+      return NextResponse.json({ ciHealth: recorded, live: false })
+    }
+  } catch (error) {
+    console.error('Error fetching CI health:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch CI health' },
+      { status: 500 }
+    )
+  }
+}
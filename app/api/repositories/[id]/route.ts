@@ -3,12 +3,14 @@ import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { Prisma } from '@prisma/client'
 import { z } from 'zod'
+import { SCORING_PROFILES } from '@/services/analysis/scoring-profiles'
 
 const updateRepoSchema = z.object({
   title: z.string().min(1).max(200).optional(),
   description: z.string().max(1000).nullable().optional(),
   screenshotUrl: z.string().url().nullable().optional(),
   deployedUrl: z.string().url().nullable().optional(),
+  scoringProfile: z.enum(SCORING_PROFILES).nullable().optional(), // null = from project type
   collaborationTypes: z.array(z.enum([
     'CODE_REVIEW',
     'BUG_FIX_HELP',
@@ -130,6 +132,7 @@ export async function PATCH(
       description,
       screenshotUrl,
       deployedUrl,
+      scoringProfile,
       collaborationTypes,
       collaborationDetails,
       isAcceptingCollaborators
@@ -150,6 +153,9 @@ export async function PATCH(
     if (deployedUrl !== undefined) {
       updateData.deployedUrl = deployedUrl || null
     }
+    if (scoringProfile !== undefined) {
+      updateData.scoringProfile = scoringProfile
+    }
     if (collaborationTypes !== undefined) {
       updateData.collaborationTypes = collaborationTypes
       if (collaborationTypes.length > 0) {
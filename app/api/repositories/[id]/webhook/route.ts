@@ -0,0 +1,192 @@
+/**
+ * POST /api/repositories/[id]/webhook
+ * DELETE /api/repositories/[id]/webhook
+ *
+ * Installs or removes the GitHub webhook that keeps a vibe in sync and
+ * re-analyzes it after pushes and releases. Owner only; installing needs
+ * admin access to the repository and the admin:repo_hook scope.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { createGitHubClient } from '@/services/integrations/github-client'
+import {
+  WEBHOOK_EVENTS,
+  webhookUrl,
+} from '@/services/integrations/github-webhooks'
+import {
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from '@/lib/errors/github-errors'
+
+/**
+ * Load a GitHub-linked vibe owned by the signed-in user
+ */
+async function loadOwnedRepository(repositoryId: string) {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    return {
+      error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+    }
+  }
+
+  const repository = await prisma.repository.findUnique({
+    where: { id: repositoryId },
+    select: {
+      id: true,
+      owner: true,
+      name: true,
+      userId: true,
+      webhookId: true,
+      user: { select: { githubAccessToken: true } },
+    },
+  })
+
+  if (!repository) {
+    return {
+      error: NextResponse.json(
+        { error: 'Repository not found' },
+        { status: 404 }
+      ),
+    }
+  }
+  if (repository.userId !== session.user.id) {
+    return {
+      error: NextResponse.json(
+        { error: 'You do not have permission to manage this repository' },
+        { status: 403 }
+      ),
+    }
+  }
+  if (!repository.owner || !repository.name) {
+    return {
+      error: NextResponse.json(
+        { error: 'Webhooks are only available for GitHub-linked vibes' },
+        { status: 400 }
+      ),
+    }
+  }
+  if (!repository.user.githubAccessToken) {
+    return {
+      error: NextResponse.json(
+        { error: 'GitHub account not connected' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  return {
+    repository: {
+      ...repository,
+      owner: repository.owner,
+      name: repository.name,
+      token: repository.user.githubAccessToken,
+    },
+  }
+}
+
+/**
+ * POST - Install the webhook
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const secret = process.env.GITHUB_WEBHOOK_SECRET
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Webhooks are not configured' },
+        { status: 503 }
+      )
+    }
+
+    const { repository, error } = await loadOwnedRepository(params.id)
+    if (error) return error
+
+    if (repository.webhookId) {
+      return NextResponse.json({ webhookId: repository.webhookId })
+    }
+
+    let webhookId: number
+    try {
+      webhookId = await createGitHubClient(
+        repository.token
+      ).createRepositoryWebhook(repository.owner, repository.name, {
+        url: webhookUrl(),
+        secret,
+        events: [...WEBHOOK_EVENTS],
+      })
+    } catch (githubError) {
+      if (
+        githubError instanceof ForbiddenError ||
+        githubError instanceof NotFoundError ||
+        githubError instanceof UnauthorizedError
+      ) {
+        return NextResponse.json(
+          {
+            error:
+              'GitHub did not allow creating the webhook. Sign in again to grant webhook access, or ask a repository admin.',
+          },
+          { status: 403 }
+        )
+      }
+      throw githubError
+    }
+
+    await prisma.repository.update({
+      where: { id: repository.id },
+      data: { webhookId },
+    })
+
+    return NextResponse.json({ webhookId }, { status: 201 })
+  } catch (error) {
+    console.error('Error installing webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to install webhook' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE - Remove the webhook
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { repository, error } = await loadOwnedRepository(params.id)
+    if (error) return error
+
+    if (repository.webhookId) {
+      try {
+        await createGitHubClient(repository.token).deleteRepositoryWebhook(
+          repository.owner,
+          repository.name,
+          repository.webhookId
+        )
+      } catch (githubError) {
+        // Already removed on GitHub
+        if (!(githubError instanceof NotFoundError)) throw githubError
+      }
+
+      await prisma.repository.update({
+        where: { id: repository.id },
+        data: { webhookId: null },
+      })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove webhook' },
+      { status: 500 }
+    )
+  }
+}
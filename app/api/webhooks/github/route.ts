@@ -0,0 +1,62 @@
+/**
+ * POST /api/webhooks/github
+ *
+ * Receives GitHub repository webhooks (push, release, repository).
+ * Deliveries must be signed with GITHUB_WEBHOOK_SECRET; verified deliveries
+ * refresh the vibe's metadata and schedule a debounced re-analysis.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  handleWebhookEvent,
+  verifyWebhookSignature,
+  type WebhookPayload,
+} from '@/services/integrations/github-webhooks'
+
+/**
+ * POST - Handle a webhook delivery
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.GITHUB_WEBHOOK_SECRET
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Webhooks are not configured' },
+        { status: 503 }
+      )
+    }
+
+    // The signature covers the raw body, so read it before parsing
+    const body = await request.text()
+    const signature = request.headers.get('x-hub-signature-256')
+
+    if (!verifyWebhookSignature(body, signature, secret)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+    }
+
+    const event = request.headers.get('x-github-event') ?? ''
+    if (event === 'ping') {
+      return NextResponse.json({ message: 'pong' })
+    }
+
+    let payload: WebhookPayload
+    try {
+      payload = JSON.parse(body)
+    } catch {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 })
+    }
+
+    const outcome = await handleWebhookEvent(event, payload)
+
+    return NextResponse.json(
+      { outcome },
+      { status: outcome === 'ignored' ? 200 : 202 }
+    )
+  } catch (error) {
+    console.error('Error handling GitHub webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to handle webhook' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import Link from 'next/link'
+
+interface DependencyFilterProps {
+  selected: string | null
+  basePath: string
+  params?: Record<string, string> // Other active filters to keep
+}
+
+/**
+ * Form that narrows a listing to repositories declaring an exact dependency
+ */
+export function DependencyFilter({ selected, basePath, params = {} }: DependencyFilterProps) {
+  const clearHref = Object.keys(params).length
+    ? `${basePath}?${new URLSearchParams(params)}`
+    : basePath
+
+  return (
+    <form action={basePath} method="get" className="yard-meta flex items-center gap-1 text-xs">
+      {Object.entries(params).map(([name, value]) => (
+        <input key={name} type="hidden" name={name} value={value} />
+      ))}
+      <label htmlFor="dep">uses:</label>
+      <input
+        id="dep"
+        name="dep"
+        defaultValue={selected ?? ''}
+        placeholder="package"
+        className="yard-input w-28"
+      />
+      {selected && (
+        <Link href={clearHref} className="hover:text-[--yard-orange] hover:underline">
+          clear
+        </Link>
+      )}
+    </form>
+  )
+}
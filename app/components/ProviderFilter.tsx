@@ -0,0 +1,47 @@
+import Link from 'next/link'
+
+interface ProviderFilterProps {
+  providers: string[]
+  selected: string | null
+  basePath: string
+  params?: Record<string, string> // Other active filters to keep
+}
+
+/**
+ * Links that narrow a listing to repositories built with one AI provider
+ */
+export function ProviderFilter({ providers, selected, basePath, params = {} }: ProviderFilterProps) {
+  if (providers.length === 0) {
+    return <div />
+  }
+
+  const hrefFor = (provider: string | null) => {
+    const query = new URLSearchParams(params)
+    if (provider) query.set('provider', provider)
+    const search = query.toString()
+    return search ? `${basePath}?${search}` : basePath
+  }
+
+  const linkClass = (active: boolean) =>
+    active
+      ? 'text-[--yard-orange] font-medium'
+      : 'hover:text-[--yard-orange] hover:underline'
+
+  return (
+    <nav className="yard-meta flex flex-wrap items-center gap-2 text-xs">
+      <span>built with:</span>
+      <Link href={hrefFor(null)} className={linkClass(selected === null)}>
+        all
+      </Link>
+      {providers.map((provider) => (
+        <Link
+          key={provider}
+          href={hrefFor(provider)}
+          className={linkClass(selected === provider)}
+        >
+          {provider}
+        </Link>
+      ))}
+    </nav>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import type { AnalysisJobEvent } from '@/services/queue/analysis-events'
 
 interface AnalysisStatusProps {
   repositoryId: string
@@ -9,14 +10,26 @@ interface AnalysisStatusProps {
   size?: 'sm' | 'md'
 }
 
-type AnalysisState = 'pending' | 'processing' | 'completed' | 'failed'
+type AnalysisState = 'pending' | 'processing' | 'completed' | 'partial' | 'failed'
+
+const EVENT_TYPES: AnalysisJobEvent['type'][] = [
+  'state',
+  'progress',
+  'log',
+  'completed',
+  'failed',
+]
+
+// Log lines kept for display
+const MAX_LOG_LINES = 3
 
 /**
  * AnalysisStatus Component
  *
- * Shows analysis status: pending, processing, completed, failed
- * - Loading spinner for processing
- * - "Analyze" button for pending/failed
+ * Shows analysis status: pending, processing, completed, partial, failed
+ * - Loading spinner with live progress, stage and log lines for processing,
+ *   streamed from GET /api/repositories/[id]/analysis/events
+ * - "Analyze" button for pending/failed, "retry" for partial analyses
  * - Integrates with POST /api/repositories/[id]/analyze endpoint
  */
 export function AnalysisStatus({
@@ -29,39 +42,52 @@ export function AnalysisStatus({
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [progress, setProgress] = useState(0)
+  const [stage, setStage] = useState<string | null>(null)
+  const [logs, setLogs] = useState<string[]>([])
 
-  // Poll for status updates when processing
+  // Stream progress while processing
   useEffect(() => {
     if (status !== 'processing') return
 
-    const pollInterval = setInterval(async () => {
-      try {
-        const response = await fetch(`/api/repositories/${repositoryId}/analysis`)
-
-        if (!response.ok) {
-          throw new Error('Failed to fetch status')
-        }
-
-        const data = await response.json()
+    const source = new EventSource(
+      `/api/repositories/${repositoryId}/analysis/events`
+    )
 
-        if (data.status === 'completed' && data.analysis) {
-          setStatus('completed')
+    const handleEvent = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as AnalysisJobEvent
+
+      switch (event.type) {
+        case 'state':
+          setProgress(event.progress)
+          setStage(event.stage)
+          setLogs(event.logs.slice(-MAX_LOG_LINES))
+          break
+        case 'progress':
+          setProgress(event.progress)
+          setStage(event.stage)
+          break
+        case 'log':
+          setLogs((lines) => [...lines, event.line].slice(-MAX_LOG_LINES))
+          break
+        case 'completed':
+          source.close()
+          setStatus(event.failedStages?.length ? 'partial' : 'completed')
           setProgress(100)
           onAnalysisComplete?.()
-          clearInterval(pollInterval)
-        } else if (data.status === 'failed') {
+          break
+        case 'failed':
+          source.close()
           setStatus('failed')
-          setError(data.message || 'Analysis failed')
-          clearInterval(pollInterval)
-        } else if (data.job?.progress) {
-          setProgress(data.job.progress)
-        }
-      } catch (err) {
-        console.error('Error polling status:', err)
+          setError(event.error || 'Analysis failed')
+          break
       }
-    }, 3000) // Poll every 3 seconds
+    }
 
-    return () => clearInterval(pollInterval)
+    for (const type of EVENT_TYPES) {
+      source.addEventListener(type, handleEvent)
+    }
+
+    return () => source.close()
   }, [status, repositoryId, onAnalysisComplete])
 
   const handleAnalyze = async () => {
@@ -83,6 +109,8 @@ export function AnalysisStatus({
       if (data.status === 'queued') {
         setStatus('processing')
         setProgress(0)
+        setStage(null)
+        setLogs([])
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to start analysis')
@@ -105,16 +133,26 @@ export function AnalysisStatus({
   // Processing state
   if (status === 'processing' || isAnalyzing) {
     return (
-      <div className={`inline-flex items-center gap-2 ${sizeClasses[size]}`}>
-        <Spinner size={size} />
-        <span className="yard-meta">
-          analyzing{progress > 0 && ` (${progress}%)`}...
-        </span>
+      <div className={sizeClasses[size]}>
+        <div className="inline-flex items-center gap-2" title={logs.join('\n')}>
+          <Spinner size={size} />
+          <span className="yard-meta">
+            analyzing{progress > 0 && ` (${progress}%)`}
+            {stage ? ` · ${stage.toLowerCase()}` : ''}...
+          </span>
+        </div>
+        {size === 'md' && logs.length > 0 && (
+          <ul className="yard-meta mono mt-1 text-xs">
+            {logs.map((line, i) => (
+              <li key={i}>{line}</li>
+            ))}
+          </ul>
+        )}
       </div>
     )
   }
 
-  // Pending or Failed state - show analyze button
+  // Pending, Partial or Failed state - show analyze button
   return (
     <div className="inline-flex items-center gap-2">
       <button
@@ -122,7 +160,11 @@ export function AnalysisStatus({
         className={`yard-button ${sizeClasses[size]}`}
         disabled={isAnalyzing}
       >
-        {status === 'failed' ? '↻ retry analysis' : '→ analyze'}
+        {status === 'failed'
+          ? '↻ retry analysis'
+          : status === 'partial'
+          ? '↻ retry failed stages'
+          : '→ analyze'}
       </button>
       {error && (
         <span className="text-xs text-[--yard-error]" title={error}>
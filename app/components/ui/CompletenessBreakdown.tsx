@@ -2,6 +2,16 @@
 
 import { useState, useEffect } from 'react'
 import { StarRating } from './StarRating'
+import type {
+  CompletenessBreakdown as CompletenessBreakdownData,
+  CompletenessCategory,
+} from '@/services/analysis/completeness-scorer'
+import type { TestMetrics } from '@/services/analysis/test-quality'
+import {
+  getScoringProfile,
+  isScoringProfileName,
+  type ScoringProfileName,
+} from '@/services/analysis/scoring-profiles'
 
 interface CompletenessBreakdownProps {
   repositoryId: string
@@ -16,6 +26,9 @@ interface ScoreCategory {
   maxScore: number
   description: string
   tips: string[]
+  earned: string[]
+  missed: string[]
+  metrics?: Array<{ label: string; value: string }>
 }
 
 /**
@@ -24,15 +37,21 @@ interface ScoreCategory {
  * Displays detailed breakdown of repository completeness scoring:
  * - README Quality (25 pts)
  * - Package Manager (10 pts)
- * - Test Coverage (15 pts)
+ * - Test Quality (15 pts, with measured test suite metrics)
  * - Configuration (10 pts)
  * - Documentation (10 pts)
  * - License (5 pts)
  * - Git Maturity (10 pts)
  * - Contributors (5 pts)
- * - CI/CD (10 pts)
+ * - CI/CD (10 pts, with the pass rate of recent runs)
+ * - Security (10 pts, only when secrets or dependency health were checked)
+ * - Project Checks (only for scoring profiles with applicable checks)
  *
- * Shows progress bars and improvement tips for each category
+ * Points above are the default profile's; the scoring profile used for the
+ * analysis reweights them and is shown in the header.
+ *
+ * Shows progress bars, the files/signals that earned or missed points,
+ * and improvement tips for each category
  */
 export function CompletenessBreakdown({
   repositoryId,
@@ -41,6 +60,8 @@ export function CompletenessBreakdown({
   onClose
 }: CompletenessBreakdownProps) {
   const [categories, setCategories] = useState<ScoreCategory[]>([])
+  const [hasDetails, setHasDetails] = useState(true)
+  const [profile, setProfile] = useState<ScoringProfileName | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -57,12 +78,15 @@ export function CompletenessBreakdown({
 
         const data = await response.json()
 
-        // Calculate detailed breakdown based on analysis data
-        const breakdown = calculateBreakdown(data.analysis)
-        setCategories(breakdown)
+        // Build categories from the stored scorer breakdown
+        const breakdown = data.analysis?.completenessBreakdown ?? null
+        setHasDetails(!!breakdown)
+        setProfile(isScoringProfileName(breakdown?.profile) ? breakdown.profile : null)
+        setCategories(breakdown ? buildCategories(breakdown) : getDefaultCategories())
       } catch (error) {
         console.error('Error fetching breakdown:', error)
         // Set default categories with zero scores
+        setHasDetails(false)
         setCategories(getDefaultCategories())
       } finally {
         setLoading(false)
@@ -107,6 +131,11 @@ export function CompletenessBreakdown({
                     <span className="yard-meta text-sm">
                       {completenessScore}/100 points
                     </span>
+                    {profile && (
+                      <span className="yard-meta text-xs">
+                        · scored as {getScoringProfile(profile).label}
+                      </span>
+                    )}
                   </div>
                 </div>
                 <button
@@ -127,6 +156,13 @@ export function CompletenessBreakdown({
                 </div>
               ) : (
                 <div className="space-y-4">
+                  {!hasDetails && (
+                    <p className="text-xs yard-meta">
+                      Detailed breakdown is not available for this analysis.
+                      Re-run the analysis to see per-category scores.
+                    </p>
+                  )}
+
                   {categories.map((category) => (
                     <CategoryBreakdown key={category.name} category={category} />
                   ))}
@@ -194,6 +230,41 @@ function CategoryBreakdown({ category }: CategoryBreakdownProps) {
         />
       </div>
 
+      {/* Measured metrics */}
+      {category.metrics && category.metrics.length > 0 && (
+        <dl className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+          {category.metrics.map((metric) => (
+            <div key={metric.label} className="flex gap-1">
+              <dt className="yard-meta">{metric.label}:</dt>
+              <dd className="mono">{metric.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {/* Signals behind the score */}
+      {category.earned.length > 0 && (
+        <div className="mt-2 text-xs yard-meta">
+          <div className="font-medium mb-1">Found:</div>
+          <ul className="space-y-0.5 ml-3 mono">
+            {category.earned.map((signal, i) => (
+              <li key={i}>✓ {signal}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {category.missed.length > 0 && (
+        <div className="mt-2 text-xs yard-meta">
+          <div className="font-medium mb-1">Missing:</div>
+          <ul className="space-y-0.5 ml-3 mono">
+            {category.missed.map((signal, i) => (
+              <li key={i}>✗ {signal}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Tips for improvement */}
       {!isComplete && category.tips.length > 0 && (
         <div className="mt-2 text-xs yard-meta">
@@ -209,220 +280,185 @@ function CategoryBreakdown({ category }: CategoryBreakdownProps) {
   )
 }
 
-interface AnalysisData {
-  completenessScore?: number | null
-  commitCount?: number | null
-  contributorCount?: number | null
-}
-
 /**
- * Calculate breakdown from analysis data
+ * Display metadata for each scored category
+ * Optional categories are only shown when the breakdown includes them
  */
-function calculateBreakdown(analysis: AnalysisData | null | undefined): ScoreCategory[] {
-  if (!analysis) {
-    return getDefaultCategories()
-  }
-
-  // This is a simplified breakdown calculation
-  // In production, the backend should provide detailed scoring
-  const categories: ScoreCategory[] = []
-
-  // README Quality (25 pts)
-  categories.push({
+const CATEGORY_INFO: Record<
+  CompletenessCategory,
+  { name: string; maxScore: number; description: string; tips: string[]; optional?: boolean }
+> = {
+  readme: {
     name: 'README Quality',
-    score: analysis.completenessScore ? Math.min(25, Math.round(analysis.completenessScore * 0.25)) : 0,
     maxScore: 25,
     description: 'Clear project description, installation, and usage instructions',
     tips: [
       'Add installation instructions',
       'Include usage examples',
       'Add screenshots or demos',
-      'Document API/features clearly'
-    ]
-  })
-
-  // Package Manager (10 pts)
-  categories.push({
+      'Document API/features clearly',
+    ],
+  },
+  packageManager: {
     name: 'Package Manager',
-    score: 10, // Assume present if analyzed
     maxScore: 10,
     description: 'Valid package.json, requirements.txt, or equivalent',
-    tips: []
-  })
-
-  // Test Coverage (15 pts)
-  categories.push({
-    name: 'Test Coverage',
-    score: analysis.completenessScore ? Math.min(15, Math.round(analysis.completenessScore * 0.15)) : 0,
+    tips: ['Add package manager configuration'],
+  },
+  tests: {
+    name: 'Test Quality',
     maxScore: 15,
-    description: 'Unit tests, integration tests, and CI test runs',
+    description: 'Test cases, tested modules, test runner and coverage config',
     tips: [
       'Add unit tests for core functionality',
       'Set up test framework (Jest, pytest, etc.)',
-      'Aim for >80% code coverage',
-      'Add integration tests'
-    ]
-  })
-
-  // Configuration (10 pts)
-  categories.push({
+      'Configure coverage collection and thresholds',
+      'Remove or fill in empty test files',
+    ],
+  },
+  config: {
     name: 'Configuration',
-    score: analysis.completenessScore ? Math.min(10, Math.round(analysis.completenessScore * 0.10)) : 0,
     maxScore: 10,
     description: 'Environment config, linting, formatting tools',
     tips: [
       'Add .env.example file',
       'Set up ESLint/Prettier',
       'Configure TypeScript/type checking',
-      'Add editorconfig'
-    ]
-  })
-
-  // Documentation (10 pts)
-  categories.push({
+      'Add editorconfig',
+    ],
+  },
+  documentation: {
     name: 'Documentation',
-    score: analysis.completenessScore ? Math.min(10, Math.round(analysis.completenessScore * 0.10)) : 0,
     maxScore: 10,
     description: 'API docs, architecture diagrams, contributing guide',
     tips: [
       'Add CONTRIBUTING.md',
       'Create API documentation',
       'Add code comments',
-      'Document architecture decisions'
-    ]
-  })
-
-  // License (5 pts)
-  categories.push({
+      'Document architecture decisions',
+    ],
+  },
+  license: {
     name: 'License',
-    score: analysis.completenessScore && analysis.completenessScore > 0 ? 5 : 0,
     maxScore: 5,
     description: 'Open source license file',
-    tips: ['Add LICENSE file (MIT, Apache, GPL, etc.)']
-  })
-
-  // Git Maturity (10 pts)
-  const commitScore = analysis.commitCount
-    ? Math.min(10, Math.floor(analysis.commitCount / 10))
-    : 0
-  categories.push({
+    tips: ['Add LICENSE file (MIT, Apache, GPL, etc.)'],
+  },
+  gitMaturity: {
     name: 'Git Maturity',
-    score: commitScore,
     maxScore: 10,
     description: 'Regular commits, meaningful messages, branch strategy',
     tips: [
       'Make regular commits',
       'Write descriptive commit messages',
       'Use feature branches',
-      'Set up branch protection'
-    ]
-  })
-
-  // Contributors (5 pts)
-  const contributorScore = analysis.contributorCount
-    ? Math.min(5, analysis.contributorCount)
-    : 0
-  categories.push({
+      'Set up branch protection',
+    ],
+  },
+  contributors: {
     name: 'Contributors',
-    score: contributorScore,
     maxScore: 5,
     description: 'Multiple contributors and community engagement',
     tips: [
       'Add CODEOWNERS file',
       'Welcome first-time contributors',
       'Respond to issues/PRs promptly',
-      'Create good first issues'
-    ]
-  })
-
-  // CI/CD (10 pts)
-  categories.push({
+      'Create good first issues',
+    ],
+  },
+  cicd: {
     name: 'CI/CD',
-    score: analysis.completenessScore ? Math.min(10, Math.round(analysis.completenessScore * 0.10)) : 0,
     maxScore: 10,
-    description: 'Automated testing, builds, and deployments',
+    description: 'CI configuration and pass rate of recent GitHub Actions runs',
     tips: [
       'Set up GitHub Actions',
+      'Fix failing builds on the default branch',
+      'Stabilize flaky workflows instead of re-running them',
       'Add automated tests on PR',
       'Configure auto-deploy',
-      'Add build status badge'
-    ]
-  })
+      'Add build status badge',
+    ],
+  },
+  security: {
+    name: 'Security',
+    maxScore: 10,
+    optional: true,
+    description: 'No committed secrets, known vulnerabilities, or stale dependencies',
+    tips: [
+      'Rotate leaked keys and keep .env files out of git',
+      'Upgrade packages with known vulnerabilities',
+      'Commit a lockfile so installed versions can be checked',
+      'Enable Dependabot or Renovate',
+      'Replace deprecated or unmaintained packages',
+    ],
+  },
+  projectChecks: {
+    name: 'Project Checks',
+    maxScore: 15,
+    optional: true,
+    description: 'What this kind of project needs, e.g. a live deployment or published package',
+    tips: [
+      'Add the live URL of your deployed app',
+      'Document installation and usage in the README',
+      'Fill in package metadata and publish the package',
+      'Pin your environment and document data and models',
+    ],
+  },
+}
 
-  return categories
+/**
+ * Build display categories from the stored scorer breakdown
+ */
+function buildCategories(breakdown: CompletenessBreakdownData): ScoreCategory[] {
+  return (Object.keys(CATEGORY_INFO) as CompletenessCategory[])
+    .filter((key) => !CATEGORY_INFO[key].optional || breakdown.details?.[key])
+    .map((key) => {
+      const detail = breakdown.details?.[key]
+
+      return {
+        ...CATEGORY_INFO[key],
+        score: breakdown[key] ?? 0,
+        maxScore: detail?.maxScore ?? CATEGORY_INFO[key].maxScore,
+        earned: detail?.earned ?? [],
+        missed: detail?.missed ?? [],
+        metrics:
+          key === 'tests' && breakdown.testMetrics
+            ? formatTestMetrics(breakdown.testMetrics)
+            : undefined,
+      }
+    })
 }
 
 /**
- * Get default categories with zero scores
+ * Key test suite metrics for display
  */
-function getDefaultCategories(): ScoreCategory[] {
+function formatTestMetrics(metrics: TestMetrics): Array<{ label: string; value: string }> {
   return [
+    { label: 'test cases', value: `~${metrics.estimatedTestCases}` },
+    { label: 'test files', value: String(metrics.testFiles) },
+    { label: 'empty', value: `${metrics.emptyTestFiles}/${metrics.filesInspected} inspected` },
     {
-      name: 'README Quality',
-      score: 0,
-      maxScore: 25,
-      description: 'Clear project description, installation, and usage instructions',
-      tips: ['Add a comprehensive README with installation and usage instructions']
-    },
-    {
-      name: 'Package Manager',
-      score: 0,
-      maxScore: 10,
-      description: 'Valid package.json, requirements.txt, or equivalent',
-      tips: ['Add package manager configuration']
-    },
-    {
-      name: 'Test Coverage',
-      score: 0,
-      maxScore: 15,
-      description: 'Unit tests, integration tests, and CI test runs',
-      tips: ['Add test framework and write tests']
+      label: 'modules tested',
+      value: `${metrics.testedModules}/${metrics.sourceModules} (${Math.round(metrics.testedRatio * 100)}%)`,
     },
-    {
-      name: 'Configuration',
-      score: 0,
-      maxScore: 10,
-      description: 'Environment config, linting, formatting tools',
-      tips: ['Add configuration files']
-    },
-    {
-      name: 'Documentation',
-      score: 0,
-      maxScore: 10,
-      description: 'API docs, architecture diagrams, contributing guide',
-      tips: ['Add documentation']
-    },
-    {
-      name: 'License',
-      score: 0,
-      maxScore: 5,
-      description: 'Open source license file',
-      tips: ['Add LICENSE file']
-    },
-    {
-      name: 'Git Maturity',
-      score: 0,
-      maxScore: 10,
-      description: 'Regular commits, meaningful messages, branch strategy',
-      tips: ['Improve git practices']
-    },
-    {
-      name: 'Contributors',
-      score: 0,
-      maxScore: 5,
-      description: 'Multiple contributors and community engagement',
-      tips: ['Welcome contributors']
-    },
-    {
-      name: 'CI/CD',
-      score: 0,
-      maxScore: 10,
-      description: 'Automated testing, builds, and deployments',
-      tips: ['Set up CI/CD pipeline']
-    }
+    { label: 'coverage config', value: metrics.coverageConfigs.length > 0 ? 'yes' : 'no' },
   ]
 }
 
+/**
+ * Get default categories with zero scores
+ */
+function getDefaultCategories(): ScoreCategory[] {
+  return (Object.keys(CATEGORY_INFO) as CompletenessCategory[])
+    .filter((key) => !CATEGORY_INFO[key].optional)
+    .map((key) => ({
+      ...CATEGORY_INFO[key],
+      score: 0,
+      earned: [],
+      missed: [],
+    }))
+}
+
 /**
  * Get quick wins based on categories with low scores
  */
@@ -31,6 +31,8 @@ function getNotificationIcon(type: NotificationType): string {
       return '💡'
     case 'NEW_ANALYSIS_COMPLETE':
       return '✓'
+    case 'SECRET_LEAK_DETECTED':
+      return '⚠'
     default:
       return '•'
   }
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
 import { GET } from '../route'
 import { prisma } from '@/lib/prisma'
 
@@ -11,6 +12,8 @@ vi.mock('@/lib/prisma', () => ({
   },
 }))
 
+const feedRequest = () => new NextRequest('http://localhost/feed.xml')
+
 describe('RSS Feed Route', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -47,7 +50,7 @@ describe('RSS Feed Route', () => {
 
     ;(prisma.repository.findMany as any).mockResolvedValue(mockRepos)
 
-    const response = await GET()
+    const response = await GET(feedRequest())
     expect(response.status).toBe(200)
 
     const xml = await response.text()
@@ -78,7 +81,7 @@ describe('RSS Feed Route', () => {
   it('should handle empty repository list', async () => {
     ;(prisma.repository.findMany as jest.Mock).mockResolvedValue([])
 
-    const response = await GET()
+    const response = await GET(feedRequest())
     expect(response.status).toBe(200)
 
     const xml = await response.text()
@@ -103,7 +106,7 @@ describe('RSS Feed Route', () => {
 
     ;(prisma.repository.findMany as any).mockResolvedValue(mockRepos)
 
-    const response = await GET()
+    const response = await GET(feedRequest())
     const xml = await response.text()
 
     // Verify special characters are escaped
@@ -117,7 +120,7 @@ describe('RSS Feed Route', () => {
   it('should set correct headers', async () => {
     ;(prisma.repository.findMany as jest.Mock).mockResolvedValue([])
 
-    const response = await GET()
+    const response = await GET(feedRequest())
 
     expect(response.headers.get('Content-Type')).toBe('application/xml')
     expect(response.headers.get('Cache-Control')).toContain('public')
@@ -127,7 +130,7 @@ describe('RSS Feed Route', () => {
   it('should query only public repositories', async () => {
     ;(prisma.repository.findMany as jest.Mock).mockResolvedValue([])
 
-    await GET()
+    await GET(feedRequest())
 
     expect(prisma.repository.findMany).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -142,12 +145,45 @@ describe('RSS Feed Route', () => {
     )
   })
 
+  it('should filter by any detected provider', async () => {
+    ;(prisma.repository.findMany as any).mockResolvedValue([
+      {
+        id: 'repo-1',
+        name: 'mixed-repo',
+        owner: 'testuser',
+        description: 'Built with several tools',
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        user: {
+          githubUsername: 'testuser',
+        },
+        analysis: {
+          aiProvider: 'cursor',
+          aiProviders: ['cursor', 'claude-code'],
+        },
+      },
+    ])
+
+    const response = await GET(new NextRequest('http://localhost/feed.xml?provider=claude-code'))
+    const xml = await response.text()
+
+    expect(prisma.repository.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          isPrivate: false,
+          analysis: { aiProviders: { has: 'claude-code' } },
+        },
+      })
+    )
+    expect(xml).toContain('<category>cursor</category>')
+    expect(xml).toContain('<category>claude-code</category>')
+  })
+
   it('should handle database errors gracefully', async () => {
     ;(prisma.repository.findMany as jest.Mock).mockRejectedValue(
       new Error('Database error')
     )
 
-    const response = await GET()
+    const response = await GET(feedRequest())
 
     expect(response.status).toBe(500)
     const text = await response.text()
@@ -1,16 +1,22 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 
 /**
  * GET /feed.xml
  * Returns an RSS 2.0 feed of the latest public repositories
+ *
+ * Query params:
+ * - provider: only include repositories where this AI provider was detected
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const provider = request.nextUrl.searchParams.get('provider') || null
+
     // Fetch the last 50 public repositories, sorted by creation date (newest first)
     const repositories = await prisma.repository.findMany({
       where: {
         isPrivate: false,
+        ...(provider && { analysis: { aiProviders: { has: provider } } }),
       },
       orderBy: {
         createdAt: 'desc',
@@ -25,6 +31,7 @@ export async function GET() {
         analysis: {
           select: {
             aiProvider: true,
+            aiProviders: true,
           },
         },
       },
@@ -38,7 +45,9 @@ export async function GET() {
 
     // Build RSS feed
     const lastBuildDate = new Date().toUTCString()
-    const feedUrl = `${baseUrl}/feed.xml`
+    const feedUrl = provider
+      ? `${baseUrl}/feed.xml?provider=${encodeURIComponent(provider)}`
+      : `${baseUrl}/feed.xml`
 
     // Escape XML special characters
     const escapeXml = (str: string | null | undefined): string => {
@@ -58,16 +67,22 @@ export async function GET() {
         const description = escapeXml(repo.description || 'No description provided')
         const link = `${baseUrl}/vibe/${repo.owner}/${repo.name}`
         const pubDate = new Date(repo.createdAt).toUTCString()
-        const category = repo.analysis?.aiProvider
-          ? escapeXml(repo.analysis.aiProvider)
-          : ''
+        // One category per detected provider; older analyses only recorded one
+        const providers = repo.analysis?.aiProviders?.length
+          ? repo.analysis.aiProviders
+          : repo.analysis?.aiProvider
+            ? [repo.analysis.aiProvider]
+            : []
+        const categories = providers
+          .map((name) => `\n      <category>${escapeXml(name)}</category>`)
+          .join('')
 
         return `    <item>
       <title>${title}</title>
       <description>${description}</description>
       <link>${link}</link>
       <guid isPermaLink="true">${link}</guid>
-      <pubDate>${pubDate}</pubDate>${category ? `\n      <category>${category}</category>` : ''}
+      <pubDate>${pubDate}</pubDate>${categories}
     </item>`
       })
       .join('\n')
@@ -78,7 +93,7 @@ export async function GET() {
   <channel>
     <title>Vibeyard - Latest Repositories</title>
     <description>A junkyard for vibecode with potential. Discover AI-assisted code projects.</description>
-    <link>${baseUrl}</link>
+    <link>${provider ? `${baseUrl}/?provider=${encodeURIComponent(provider)}` : baseUrl}</link>
     <atom:link href="${feedUrl}" rel="self" type="application/rss+xml"/>
     <language>en-us</language>
     <lastBuildDate>${lastBuildDate}</lastBuildDate>
@@ -4,14 +4,39 @@ import { YardHeader } from './components/YardHeader'
 import { RepoItem } from './components/RepoItem'
 import { AddVibeForm } from './components/AddVibeForm'
 import { YardFooter } from './components/YardFooter'
+import { ProviderFilter } from './components/ProviderFilter'
+import { DependencyFilter } from './components/DependencyFilter'
 
 export const dynamic = 'force-dynamic'
 
-export default async function HomePage() {
+interface HomePageProps {
+  searchParams: { provider?: string; dep?: string }
+}
+
+export default async function HomePage({ searchParams }: HomePageProps) {
   const session = await auth()
+  const provider = searchParams.provider || null
+  const dependency = searchParams.dep?.trim() || null
+
+  // Providers detected in any analyzed repository, for the filter bar
+  const detectedProviders = await prisma.$queryRaw<{ provider: string }[]>`
+    SELECT DISTINCT unnest("aiProviders") AS provider
+    FROM repository_analyses
+    ORDER BY provider
+  `
 
   // Fetch all repositories, ordered by votes then creation date
   const repositories = await prisma.repository.findMany({
+    where:
+      provider || dependency
+        ? {
+            analysis: {
+              ...(provider && { aiProviders: { has: provider } }),
+              // Exact declared dependency name, e.g. "next" or "@prisma/client"
+              ...(dependency && { dependencyNames: { has: dependency } }),
+            },
+          }
+        : undefined,
     orderBy: [{ votesCount: 'desc' }, { createdAt: 'desc' }],
     take: 50, // Limit to top 50
     include: {
@@ -51,17 +76,45 @@ export default async function HomePage() {
 
       <main className="flex-1 max-w-4xl w-full mx-auto">
         {/* Add vibe bar */}
-        <div className="border-b border-[--yard-border] p-2 flex items-center justify-end">
-          <AddVibeForm />
+        <div className="border-b border-[--yard-border] p-2 flex items-center justify-between gap-2">
+          <ProviderFilter
+            providers={detectedProviders.map((row) => row.provider)}
+            selected={provider}
+            basePath="/"
+            params={dependency ? { dep: dependency } : undefined}
+          />
+          <div className="flex items-center gap-2">
+            <DependencyFilter
+              selected={dependency}
+              basePath="/"
+              params={provider ? { provider } : undefined}
+            />
+            <AddVibeForm />
+          </div>
         </div>
 
         {/* Repository list */}
         {repositories.length === 0 ? (
           <div className="p-8 text-center yard-meta">
-            <p className="mb-2">No vibes in the yard yet.</p>
-            <p className="text-xs">
-              Be the first to add a vibe using the &quot;+ add vibe&quot; button above.
-            </p>
+            {provider || dependency ? (
+              <p>
+                No vibes
+                {provider && <> built with {provider}</>}
+                {dependency && (
+                  <>
+                    {' '}using <span className="mono">{dependency}</span>
+                  </>
+                )}{' '}
+                yet.
+              </p>
+            ) : (
+              <>
+                <p className="mb-2">No vibes in the yard yet.</p>
+                <p className="text-xs">
+                  Be the first to add a vibe using the &quot;+ add vibe&quot; button above.
+                </p>
+              </>
+            )}
           </div>
         ) : (
           <div>
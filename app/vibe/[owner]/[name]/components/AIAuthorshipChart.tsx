@@ -0,0 +1,95 @@
+'use client'
+
+import type { AIAuthorship } from '@/services/analysis/commit-authorship'
+
+interface AIAuthorshipChartProps {
+  authorship: AIAuthorship
+}
+
+const CHART_WIDTH = 240
+const CHART_HEIGHT = 40
+
+/**
+ * Most recent months charted
+ */
+const MAX_PERIODS = 24
+
+/**
+ * AIAuthorshipChart Component
+ *
+ * Shows the share of AI-authored commits overall and per month,
+ * as stacked bars of AI (orange) and human (gray) commits
+ */
+export function AIAuthorshipChart({ authorship }: AIAuthorshipChartProps) {
+  if (authorship.totalCommits === 0) return null
+
+  const periods = authorship.series.slice(-MAX_PERIODS)
+  const maxCommits = Math.max(...periods.map((p) => p.aiCommits + p.humanCommits), 1)
+  const barWidth = CHART_WIDTH / Math.max(periods.length, 1)
+  const providers = Object.entries(authorship.providers).sort(([, a], [, b]) => b - a)
+
+  return (
+    <div className="mt-3 text-xs yard-meta">
+      <div className="mb-1">
+        AI-authored commits: {(authorship.aiCommitRatio * 100).toFixed(0)}% (
+        {authorship.aiCommits} of {authorship.totalCommits}
+        {authorship.truncated ? '+' : ''})
+      </div>
+      {authorship.aiLineRatio !== null && (
+        <div className="mb-1">
+          AI-authored lines: {(authorship.aiLineRatio * 100).toFixed(0)}%
+        </div>
+      )}
+      {providers.length > 0 && (
+        <div className="mb-1">
+          {providers.map(([provider, count]) => `${provider} ${count}`).join(' · ')}
+        </div>
+      )}
+
+      {periods.length > 1 && (
+        <>
+          <svg
+            width={CHART_WIDTH}
+            height={CHART_HEIGHT}
+            className="border border-[--yard-border] bg-[--yard-light-gray]"
+            role="img"
+            aria-label="AI and human commits per month"
+          >
+            {periods.map((period, i) => {
+              const aiHeight = (period.aiCommits / maxCommits) * CHART_HEIGHT
+              const humanHeight = (period.humanCommits / maxCommits) * CHART_HEIGHT
+              const x = i * barWidth + 0.5
+              const width = Math.max(barWidth - 1, 1)
+
+              return (
+                <g key={period.period}>
+                  <title>
+                    {period.period}: {period.aiCommits} AI / {period.humanCommits} human
+                  </title>
+                  <rect
+                    x={x}
+                    y={CHART_HEIGHT - aiHeight - humanHeight}
+                    width={width}
+                    height={humanHeight}
+                    fill="var(--yard-gray)"
+                  />
+                  <rect
+                    x={x}
+                    y={CHART_HEIGHT - aiHeight}
+                    width={width}
+                    height={aiHeight}
+                    fill="var(--yard-orange)"
+                  />
+                </g>
+              )
+            })}
+          </svg>
+          <div className="flex justify-between mt-0.5" style={{ width: CHART_WIDTH }}>
+            <span>{periods[0].period}</span>
+            <span>{periods[periods.length - 1].period}</span>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
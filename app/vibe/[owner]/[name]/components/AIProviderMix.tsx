@@ -0,0 +1,68 @@
+'use client'
+
+import { useState } from 'react'
+import type { AIProviderAttribution } from '@/services/analysis/ai-detector'
+
+interface AIProviderMixProps {
+  providers: AIProviderAttribution[]
+}
+
+/**
+ * AIProviderMix Component
+ *
+ * Shows each detected AI provider's share of the combined confidence,
+ * with its own evidence on demand
+ */
+export function AIProviderMix({ providers }: AIProviderMixProps) {
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const total = providers.reduce((sum, p) => sum + p.confidence, 0)
+
+  if (total === 0) return null
+
+  return (
+    <ul className="space-y-1 mb-1">
+      {providers.map(({ provider, confidence, evidence }) => {
+        const share = Math.round((confidence / total) * 100)
+        const items = [
+          ...(evidence.agentConfigs ?? []).map((config) => config.path),
+          ...evidence.files,
+          ...evidence.config,
+          ...evidence.commits,
+          ...evidence.readme,
+        ]
+
+        return (
+          <li key={provider}>
+            <button
+              onClick={() => setExpanded(expanded === provider ? null : provider)}
+              className="w-full text-left hover:text-[--yard-orange]"
+            >
+              <div className="flex justify-between">
+                <span className="mono">{provider}</span>
+                <span>
+                  {share}% · {(confidence * 100).toFixed(0)}% confidence
+                </span>
+              </div>
+              <div className="h-1.5 bg-[--yard-light-gray]">
+                <div
+                  className="h-full bg-[--yard-orange]"
+                  style={{ width: `${share}%` }}
+                />
+              </div>
+            </button>
+            {expanded === provider && items.length > 0 && (
+              <ul className="mt-1 ml-2 space-y-0.5">
+                {items.map((item) => (
+                  <li key={item} className="mono break-all">
+                    {item}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -4,6 +4,17 @@ import { useState } from 'react'
 import { StarRating } from '@/app/components/ui/StarRating'
 import { CompletenessBreakdown } from '@/app/components/ui/CompletenessBreakdown'
 import { AnalysisStatus } from '@/app/components/ui/AnalysisStatus'
+import { AnalysisTrend } from './AnalysisTrend'
+import { AIProviderMix } from './AIProviderMix'
+import { AIAuthorshipChart } from './AIAuthorshipChart'
+import { CommitActivityChart } from './CommitActivityChart'
+import type { AIProviderAttribution } from '@/services/analysis/ai-detector'
+import type { AIAuthorship } from '@/services/analysis/commit-authorship'
+import type { CommitActivity } from '@/services/analysis/commit-activity'
+import {
+  STAGE_LABELS,
+  isAnalysisStage,
+} from '@/services/analysis/analysis-stages'
 
 interface AnalysisSectionProps {
   repositoryId: string
@@ -11,7 +22,11 @@ interface AnalysisSectionProps {
   analysisStatus: string
   aiDetected?: boolean
   aiProvider?: string | null
+  aiProviders?: AIProviderAttribution[]
   aiConfidence?: number | null
+  aiAuthorship?: AIAuthorship | null
+  commitActivity?: CommitActivity | null
+  failedStages?: string[]
   isOwner?: boolean
 }
 
@@ -21,7 +36,11 @@ export function AnalysisSection({
   analysisStatus,
   aiDetected = false,
   aiProvider = null,
+  aiProviders = [],
   aiConfidence = null,
+  aiAuthorship = null,
+  commitActivity = null,
+  failedStages = [],
   isOwner = false,
 }: AnalysisSectionProps) {
   const [showBreakdown, setShowBreakdown] = useState(false)
@@ -66,12 +85,41 @@ export function AnalysisSection({
           )}
         </div>
 
+        {/* Stages left out of a partial analysis */}
+        {analysisStatus === 'partial' && failedStages.length > 0 && (
+          <div className="mb-3 text-xs yard-meta">
+            <p className="mb-1">
+              Partial analysis, missing:{' '}
+              {failedStages
+                .map((stage) =>
+                  isAnalysisStage(stage) ? STAGE_LABELS[stage] : stage
+                )
+                .join(', ')}
+            </p>
+            {isOwner && (
+              <AnalysisStatus
+                repositoryId={repositoryId}
+                initialStatus={analysisStatus}
+                size="sm"
+                onAnalysisComplete={() => window.location.reload()}
+              />
+            )}
+          </div>
+        )}
+
         {/* AI Detection */}
         {aiDetected && (
           <div className="text-xs yard-meta">
-            <p className="mb-1">
-              AI detected: {aiProvider || 'unknown'}
-            </p>
+            {aiProviders.length > 1 ? (
+              <>
+                <p className="mb-1">AI detected: mix of {aiProviders.length} tools</p>
+                <AIProviderMix providers={aiProviders} />
+              </>
+            ) : (
+              <p className="mb-1">
+                AI detected: {aiProvider || 'unknown'}
+              </p>
+            )}
             {aiConfidence !== null && (
               <p>
                 Confidence: {(aiConfidence * 100).toFixed(0)}%
@@ -85,6 +133,17 @@ export function AnalysisSection({
             <p>No AI assistance detected</p>
           </div>
         )}
+
+        {/* AI vs human commits over time */}
+        {aiAuthorship && <AIAuthorshipChart authorship={aiAuthorship} />}
+
+        {/* Commit history, weekly activity and bus factor */}
+        {commitActivity && <CommitActivityChart activity={commitActivity} />}
+
+        {/* Score history across analysis runs */}
+        {completenessScore !== null && (
+          <AnalysisTrend repositoryId={repositoryId} />
+        )}
       </div>
 
       {/* Completeness Breakdown Modal */}
@@ -0,0 +1,133 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { formatDate } from '@/lib/utils'
+import type { AnalysisRunDiff } from '@/services/analysis/analysis-history'
+
+interface AnalysisTrendProps {
+  repositoryId: string
+}
+
+interface AnalysisRunPoint {
+  id: string
+  createdAt: string
+  completenessScore: number | null
+}
+
+const CHART_WIDTH = 240
+const CHART_HEIGHT = 60
+
+/**
+ * AnalysisTrend Component
+ *
+ * Charts completeness score across analysis runs and summarizes
+ * what changed since the previous run
+ */
+export function AnalysisTrend({ repositoryId }: AnalysisTrendProps) {
+  const [runs, setRuns] = useState<AnalysisRunPoint[]>([])
+  const [diff, setDiff] = useState<AnalysisRunDiff | null>(null)
+
+  useEffect(() => {
+    async function fetchHistory() {
+      try {
+        const response = await fetch(
+          `/api/repositories/${repositoryId}/analysis/history?limit=20`
+        )
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch analysis history')
+        }
+
+        const data = await response.json()
+        // API returns newest first, chart reads left to right
+        setRuns([...data.runs].reverse())
+        setDiff(data.diff)
+      } catch (error) {
+        console.error('Error fetching analysis history:', error)
+      }
+    }
+
+    fetchHistory()
+  }, [repositoryId])
+
+  const scored = runs.filter((run) => run.completenessScore !== null)
+
+  if (scored.length < 2) return null
+
+  const step = CHART_WIDTH / (scored.length - 1)
+  const points = scored
+    .map((run, i) => {
+      const x = i * step
+      const y = CHART_HEIGHT - ((run.completenessScore ?? 0) / 100) * CHART_HEIGHT
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  const first = scored[0]
+  const last = scored[scored.length - 1]
+
+  return (
+    <div className="mt-3 text-xs yard-meta">
+      <div className="mb-1">Score trend ({scored.length} runs):</div>
+      <svg
+        width={CHART_WIDTH}
+        height={CHART_HEIGHT}
+        viewBox={`-2 -2 ${CHART_WIDTH + 4} ${CHART_HEIGHT + 4}`}
+        className="border border-[--yard-border] bg-[--yard-light-gray]"
+        role="img"
+        aria-label={`Completeness score from ${first.completenessScore} to ${last.completenessScore}`}
+      >
+        <polyline
+          points={points}
+          fill="none"
+          stroke="var(--yard-orange)"
+          strokeWidth="2"
+        />
+        {scored.map((run, i) => (
+          <circle
+            key={run.id}
+            cx={i * step}
+            cy={CHART_HEIGHT - ((run.completenessScore ?? 0) / 100) * CHART_HEIGHT}
+            r="2.5"
+            fill="var(--yard-orange)"
+          >
+            <title>
+              {formatDate(run.createdAt)}: {run.completenessScore}/100
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between mt-0.5" style={{ width: CHART_WIDTH }}>
+        <span>{formatDate(first.createdAt)}</span>
+        <span>{formatDate(last.createdAt)}</span>
+      </div>
+
+      {/* Changes since previous run */}
+      {diff && (
+        <ul className="mt-2 space-y-0.5">
+          {diff.scoreDelta !== null && diff.scoreDelta !== 0 && (
+            <li>
+              Since last run: {diff.scoreDelta > 0 ? '+' : ''}
+              {diff.scoreDelta} points
+              {Object.entries(diff.categoryDeltas)
+                .filter(([, delta]) => delta !== 0)
+                .map(([category, delta]) => ` · ${category} ${delta > 0 ? '+' : ''}${delta}`)
+                .join('')}
+            </li>
+          )}
+          {diff.techStack.added.length > 0 && (
+            <li>New tech: {diff.techStack.added.join(', ')}</li>
+          )}
+          {diff.techStack.removed.length > 0 && (
+            <li>Removed tech: {diff.techStack.removed.join(', ')}</li>
+          )}
+          {diff.aiProvider.changed && (
+            <li>
+              AI provider: {diff.aiProvider.from || 'none'} → {diff.aiProvider.to || 'none'}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatRelativeTime } from '@/lib/utils'
+import type { CIHealth } from '@/services/analysis/ci-health'
+
+interface CIHealthIndicatorProps {
+  repositoryId: string
+  initial: CIHealth | null // Recorded by the last analysis
+}
+
+/**
+ * How often the live status is refreshed
+ */
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * CIHealthIndicator
+ *
+ * Live GitHub Actions status for the default branch: latest run, pass rate,
+ * last green build, median duration and flaky workflows. Starts from the
+ * last analysis and refreshes from the CI endpoint.
+ */
+export function CIHealthIndicator({ repositoryId, initial }: CIHealthIndicatorProps) {
+  const [ciHealth, setCIHealth] = useState<CIHealth | null>(initial)
+  const [live, setLive] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function fetchCIHealth() {
+      try {
+        const response = await fetch(`/api/repositories/${repositoryId}/ci`)
+        if (!response.ok) return
+
+        const data = await response.json()
+        if (!cancelled) {
+          setCIHealth(data.ciHealth ?? null)
+          setLive(!!data.live)
+        }
+      } catch (error) {
+        console.error('Error fetching CI health:', error)
+      }
+    }
+
+    fetchCIHealth()
+    const interval = setInterval(fetchCIHealth, REFRESH_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [repositoryId])
+
+  if (!ciHealth?.lastRun) return null
+
+  const { lastRun } = ciHealth
+  const state =
+    lastRun.conclusion === null
+      ? { label: 'running', color: 'bg-[--yard-orange]' }
+      : lastRun.conclusion === 'success'
+        ? { label: 'passing', color: 'bg-[--yard-success]' }
+        : { label: lastRun.conclusion, color: 'bg-[--yard-error]' }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 yard-meta text-xs mt-2">
+      <a
+        href={lastRun.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-1.5 hover:text-[--yard-orange]"
+        title={live ? 'Live status from GitHub Actions' : 'Status at the last analysis'}
+      >
+        <span className={`inline-block w-2 h-2 rounded-full ${state.color}`} />
+        <span className="mono">
+          CI {state.label} on {ciHealth.branch}
+        </span>
+      </a>
+      <span>•</span>
+      <span>
+        {Math.round(ciHealth.passRate * 100)}% of {ciHealth.runsAnalyzed} runs passed
+      </span>
+      {ciHealth.lastGreenAt && ciHealth.lastGreenUrl && (
+        <>
+          <span>•</span>
+          <a
+            href={ciHealth.lastGreenUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="hover:text-[--yard-orange] hover:underline"
+          >
+            last green {formatRelativeTime(new Date(ciHealth.lastGreenAt))}
+          </a>
+        </>
+      )}
+      {ciHealth.medianDurationSeconds !== null && (
+        <>
+          <span>•</span>
+          <span>median {formatDuration(ciHealth.medianDurationSeconds)}</span>
+        </>
+      )}
+      {ciHealth.flakyWorkflows.length > 0 && (
+        <>
+          <span>•</span>
+          <span className="text-[--yard-error]" title="Workflows that failed and passed on the same commit">
+            flaky: {ciHealth.flakyWorkflows.join(', ')}
+          </span>
+        </>
+      )}
+    </div>
+  )
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
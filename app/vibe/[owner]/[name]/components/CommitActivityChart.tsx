@@ -0,0 +1,92 @@
+'use client'
+
+import type { CommitActivity } from '@/services/analysis/commit-activity'
+
+interface CommitActivityChartProps {
+  activity: CommitActivity
+}
+
+const CHART_WIDTH = 240
+const CHART_HEIGHT = 32
+
+/**
+ * CommitActivityChart Component
+ *
+ * Shows commit totals, active/dormant status and bus factor, with weekly
+ * commits over the last year as bars
+ */
+export function CommitActivityChart({ activity }: CommitActivityChartProps) {
+  if (activity.totalCommits === 0) return null
+
+  const weeks = activity.weekly
+  const maxCommits = Math.max(...weeks.map((w) => w.commits), 1)
+  const barWidth = CHART_WIDTH / Math.max(weeks.length, 1)
+  const since = activity.firstCommitAt
+    ? new Date(activity.firstCommitAt).getFullYear()
+    : null
+
+  return (
+    <div className="yard-meta mt-3 text-xs">
+      <div className="mb-1">
+        {activity.totalCommits.toLocaleString()} commits
+        {since && ` since ${since}`} · {activity.contributorCount} contributor
+        {activity.contributorCount === 1 ? '' : 's'}
+      </div>
+      <div className="mb-1">
+        <span
+          className={activity.status === 'active' ? 'text-[--yard-orange]' : ''}
+        >
+          {activity.status === 'active' ? '● Active' : '○ Dormant'}
+        </span>
+        {activity.busFactor !== null && (
+          <span
+            title={`Half of all commits: ${activity.busFactorContributors.join(', ')}`}
+          >
+            {' '}
+            · Bus factor {activity.busFactor}
+          </span>
+        )}
+      </div>
+
+      {weeks.length > 1 && (
+        <>
+          <svg
+            width={CHART_WIDTH}
+            height={CHART_HEIGHT}
+            className="border border-[--yard-border] bg-[--yard-light-gray]"
+            role="img"
+            aria-label="Commits per week over the last year"
+          >
+            {weeks.map((week, i) => {
+              const height = (week.commits / maxCommits) * CHART_HEIGHT
+
+              return (
+                <rect
+                  key={week.week}
+                  x={i * barWidth + 0.5}
+                  y={CHART_HEIGHT - height}
+                  width={Math.max(barWidth - 1, 1)}
+                  height={height}
+                  fill="var(--yard-orange)"
+                >
+                  <title>
+                    Week of {week.week}: {week.commits} commits
+                  </title>
+                </rect>
+              )
+            })}
+          </svg>
+          <div
+            className="mt-0.5 flex justify-between"
+            style={{ width: CHART_WIDTH }}
+          >
+            <span>{weeks[0].week}</span>
+            <span>
+              {activity.weeklyTruncated ? 'recent commits only' : 'weekly'}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+import Link from 'next/link'
+import type { ManifestDependency } from '@/services/analysis/manifest-analyzer'
+import type { DependencyHealth } from '@/services/analysis/dependency-health'
+
+interface DependenciesSectionProps {
+  dependencies: ManifestDependency[]
+  framework: string | null
+  runtime: string | null
+  runtimeVersion: string | null
+  health: DependencyHealth | null
+}
+
+function DependencyList({ dependencies }: { dependencies: ManifestDependency[] }) {
+  return (
+    <ul className="flex flex-wrap gap-1">
+      {dependencies.map((dependency) => (
+        <li key={`${dependency.ecosystem}:${dependency.name}`}>
+          <Link
+            href={`/?dep=${encodeURIComponent(dependency.name)}`}
+            className="mono bg-[--yard-light-gray] px-1.5 py-0.5 text-[--yard-gray] hover:text-[--yard-orange]"
+            title={`Other vibes using ${dependency.name} (${dependency.manifest})`}
+          >
+            {dependency.name}
+            {dependency.version && (
+              <span className="ml-1 opacity-60">{dependency.version}</span>
+            )}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function HealthReport({ health }: { health: DependencyHealth }) {
+  const { vulnerabilities, outdated, abandoned } = health
+
+  return (
+    <div className="mt-3">
+      <div className="yard-meta mb-1 flex flex-wrap gap-3">
+        <span>
+          {health.packageCount} resolved packages
+          {health.lockfiles.length > 0 && ` from ${health.lockfiles.join(', ')}`}
+        </span>
+        {!health.advisoriesChecked && <span>advisories not checked</span>}
+        {health.advisoriesChecked && vulnerabilities.length === 0 && (
+          <span className="text-[--yard-success]">no known vulnerabilities</span>
+        )}
+      </div>
+      {vulnerabilities.length > 0 && (
+        <ul className="mb-2 space-y-0.5">
+          {vulnerabilities.map((vulnerability) => (
+            <li key={`${vulnerability.id}:${vulnerability.package}@${vulnerability.version}`}>
+              <span className="mono font-semibold text-[--yard-error]">{vulnerability.severity}</span>{' '}
+              <span className="mono">
+                {vulnerability.package}@{vulnerability.version}
+              </span>{' '}
+              <a
+                href={`https://osv.dev/vulnerability/${vulnerability.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="hover:text-[--yard-orange] hover:underline"
+              >
+                {vulnerability.id}
+              </a>
+              {vulnerability.summary && <span className="yard-meta"> {vulnerability.summary}</span>}
+              {vulnerability.fixedVersion && (
+                <span className="yard-meta"> (fixed in {vulnerability.fixedVersion})</span>
+              )}
+              {!vulnerability.direct && <span className="yard-meta"> transitive</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {outdated.length > 0 && (
+        <div className="mb-1">
+          <span className="yard-meta">outdated: </span>
+          {outdated.map((dependency, index) => (
+            <span key={`${dependency.ecosystem}:${dependency.name}`} className="mono">
+              {index > 0 && ', '}
+              {dependency.name} {dependency.version} → {dependency.latestVersion}
+            </span>
+          ))}
+        </div>
+      )}
+      {abandoned.length > 0 && (
+        <div>
+          <span className="yard-meta">abandoned: </span>
+          {abandoned.map((dependency, index) => (
+            <span key={`${dependency.ecosystem}:${dependency.name}`} className="mono">
+              {index > 0 && ', '}
+              {dependency.name}
+              <span className="yard-meta">
+                {dependency.deprecated
+                  ? ' (deprecated)'
+                  : dependency.lastPublishedAt &&
+                    ` (last release ${dependency.lastPublishedAt.slice(0, 10)})`}
+              </span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * DependenciesSection Component
+ *
+ * Shows the framework, runtime and exact dependencies declared in the
+ * repository's manifests. Each dependency links to other vibes using it.
+ * Known vulnerabilities and stale packages are listed below when checked.
+ */
+export function DependenciesSection({
+  dependencies,
+  framework,
+  runtime,
+  runtimeVersion,
+  health,
+}: DependenciesSectionProps) {
+  const runtimeDependencies = dependencies.filter((dependency) => !dependency.dev)
+  const devDependencies = dependencies.filter((dependency) => dependency.dev)
+
+  return (
+    <div className="text-xs">
+      <h2 className="mono mb-3 text-sm font-semibold">Dependencies</h2>
+      <div className="yard-meta mb-2 flex flex-wrap gap-3">
+        {framework && <span>framework: <span className="mono">{framework}</span></span>}
+        {runtime && (
+          <span>
+            runtime: <span className="mono">{runtime}{runtimeVersion && ` ${runtimeVersion}`}</span>
+          </span>
+        )}
+        <span>
+          {runtimeDependencies.length} runtime, {devDependencies.length} dev
+        </span>
+      </div>
+      <DependencyList dependencies={runtimeDependencies} />
+      {devDependencies.length > 0 && (
+        <details className="mt-2">
+          <summary className="yard-meta cursor-pointer">development dependencies</summary>
+          <div className="mt-1">
+            <DependencyList dependencies={devDependencies} />
+          </div>
+        </details>
+      )}
+      {health && <HealthReport health={health} />}
+    </div>
+  )
+}
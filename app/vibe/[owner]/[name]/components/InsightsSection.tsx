@@ -0,0 +1,84 @@
+import type {
+  InsightField,
+  InsightProvenance,
+  InsightSources,
+} from '@/services/analysis/insights-generator'
+
+interface InsightsSectionProps {
+  sources: InsightSources
+}
+
+const FIELDS: Array<{
+  field: Exclude<InsightField, 'purpose'>
+  label: string
+}> = [
+  { field: 'techStack', label: 'Tech stack' },
+  { field: 'features', label: 'Features' },
+  { field: 'improvements', label: 'Could improve' },
+  { field: 'mistakes', label: 'Watch out for' },
+]
+
+/**
+ * Source IDs rendered as small tags, e.g. "readme#Usage" or "package.json"
+ */
+function SourceTags({ sources }: { sources: string[] }) {
+  if (sources.length === 0) return null
+
+  return (
+    <span className="ml-1">
+      {sources.map((source) => (
+        <span
+          key={source}
+          className="mono ml-1 bg-[--yard-light-gray] px-1 text-[10px] text-[--yard-gray]"
+          title={`Based on ${source}`}
+        >
+          {source.replace(/^(manifest|file):/, '')}
+        </span>
+      ))}
+    </span>
+  )
+}
+
+function InsightItem({ item }: { item: InsightProvenance }) {
+  return (
+    <li>
+      {item.text}
+      <SourceTags sources={item.sources} />
+    </li>
+  )
+}
+
+/**
+ * InsightsSection Component
+ *
+ * Shows generated insights with the repository sources each one is based on
+ */
+export function InsightsSection({ sources }: InsightsSectionProps) {
+  const purpose = sources.purpose[0]
+
+  return (
+    <div className="text-xs">
+      <h2 className="mono mb-3 text-sm font-semibold">Insights</h2>
+      {purpose && (
+        <p className="mb-3">
+          {purpose.text}
+          <SourceTags sources={purpose.sources} />
+        </p>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        {FIELDS.filter(({ field }) => sources[field].length > 0).map(
+          ({ field, label }) => (
+            <div key={field}>
+              <div className="yard-meta mb-1">{label}:</div>
+              <ul className="ml-4 list-disc space-y-0.5">
+                {sources[field].map((item) => (
+                  <InsightItem key={item.text} item={item} />
+                ))}
+              </ul>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
@@ -6,11 +6,21 @@ import { notFound } from 'next/navigation'
 import { formatDate } from '@/lib/utils'
 import { CollaborationSection } from './components/CollaborationSection'
 import { AnalysisSection } from './components/AnalysisSection'
+import { InsightsSection } from './components/InsightsSection'
+import { DependenciesSection } from './components/DependenciesSection'
+import { CIHealthIndicator } from './components/CIHealthIndicator'
 import { FollowButton } from '@/app/components/ui/FollowButton'
 import { DeployedBadge } from '@/app/components/ui/DeployedBadge'
 import { ClaimButton } from '@/app/components/ui/ClaimButton'
 import { CommentThread } from '@/app/components/comments/CommentThread'
 import { ScreenshotImage } from '@/app/components/ui/ScreenshotImage'
+import type { AIProviderAttribution } from '@/services/analysis/ai-detector'
+import type { AIAuthorship } from '@/services/analysis/commit-authorship'
+import type { InsightSources } from '@/services/analysis/insights-generator'
+import type { ManifestDependency } from '@/services/analysis/manifest-analyzer'
+import type { DependencyHealth } from '@/services/analysis/dependency-health'
+import type { CIHealth } from '@/services/analysis/ci-health'
+import type { CommitActivity } from '@/services/analysis/commit-activity'
 
 export const dynamic = 'force-dynamic'
 
@@ -111,6 +121,13 @@ export default async function VibeDetailPage({ params }: PageProps) {
     !isOwner &&
     session?.user?.githubUsername?.toLowerCase() === repository.owner.toLowerCase()
 
+  // Dependencies declared in the repository's manifests
+  const dependencies =
+    (repository.analysis?.dependencies as unknown as ManifestDependency[] | null) ?? []
+  const dependencyHealth =
+    (repository.analysis?.dependencyHealth as unknown as DependencyHealth | null) ?? null
+  const ciHealth = (repository.analysis?.ciHealth as unknown as CIHealth | null) ?? null
+
   // Check if current user is following
   let isFollowing = false
   if (session?.user?.id) {
@@ -201,6 +218,11 @@ export default async function VibeDetailPage({ params }: PageProps) {
                 )}
               </div>
 
+              {/* Live GitHub Actions status */}
+              {repository.htmlUrl && (
+                <CIHealthIndicator repositoryId={repository.id} initial={ciHealth} />
+              )}
+
               {/* Topics */}
               {repository.topics && repository.topics.length > 0 && (
                 <div className="flex flex-wrap gap-1 mt-3">
@@ -298,6 +320,21 @@ export default async function VibeDetailPage({ params }: PageProps) {
                       <dt className="yard-meta">Visibility:</dt>
                       <dd>{repository.isPrivate ? '🔒 Private' : '🌍 Public'}</dd>
                     </div>
+                    {repository.analysis?.commitSha && (
+                      <div className="flex justify-between">
+                        <dt className="yard-meta">Analyzed commit:</dt>
+                        <dd>
+                          <a
+                            href={`${repository.htmlUrl}/tree/${repository.analysis.commitSha}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="mono hover:text-[--yard-orange] hover:underline"
+                          >
+                            {repository.analysis.commitSha.slice(0, 7)}
+                          </a>
+                        </dd>
+                      </div>
+                    )}
                   </>
                 )}
               </dl>
@@ -327,13 +364,59 @@ export default async function VibeDetailPage({ params }: PageProps) {
                 analysisStatus={repository.analysisStatus}
                 aiDetected={repository.analysis?.aiDetected}
                 aiProvider={repository.analysis?.aiProvider}
+                aiProviders={
+                  (repository.analysis?.aiProviderBreakdown as unknown as
+                    | AIProviderAttribution[]
+                    | null) ?? undefined
+                }
                 aiConfidence={repository.analysis?.aiConfidence}
+                aiAuthorship={
+                  repository.analysis?.aiAuthorship as unknown as AIAuthorship | null
+                }
+                commitActivity={
+                  repository.analysis?.commitActivity as unknown as CommitActivity | null
+                }
+                failedStages={repository.analysis?.failedStages}
                 isOwner={isOwner}
               />
             </div>
           </div>
         </div>
 
+        {/* Insights with provenance */}
+        {repository.analysis?.purpose && (
+          <div className="p-4 border-t border-[--yard-border]">
+            <InsightsSection
+              sources={
+                (repository.analysis.insightSources as unknown as InsightSources | null) ?? {
+                  // Analyses from before provenance was recorded
+                  purpose: [{ text: repository.analysis.purpose, sources: [] }],
+                  techStack: repository.analysis.techStack.map((text) => ({ text, sources: [] })),
+                  features: repository.analysis.features.map((text) => ({ text, sources: [] })),
+                  improvements: repository.analysis.improvements.map((text) => ({
+                    text,
+                    sources: [],
+                  })),
+                  mistakes: repository.analysis.mistakes.map((text) => ({ text, sources: [] })),
+                }
+              }
+            />
+          </div>
+        )}
+
+        {/* Declared dependencies */}
+        {repository.analysis && dependencies.length > 0 && (
+          <div className="p-4 border-t border-[--yard-border]">
+            <DependenciesSection
+              dependencies={dependencies}
+              framework={repository.analysis.framework}
+              runtime={repository.analysis.runtime}
+              runtimeVersion={repository.analysis.runtimeVersion}
+              health={dependencyHealth}
+            />
+          </div>
+        )}
+
         {/* Collaboration Section */}
         <div className="p-4 border-t border-[--yard-border]">
           <CollaborationSection
@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+
+interface Props {
+  repositoryId: string
+  initialEnabled: boolean
+}
+
+/**
+ * Installs or removes the GitHub webhook that re-analyzes a vibe after
+ * pushes and releases
+ */
+export function AutoAnalysisToggle({ repositoryId, initialEnabled }: Props) {
+  const [enabled, setEnabled] = useState(initialEnabled)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleToggle = async () => {
+    setError(null)
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(
+        `/api/repositories/${repositoryId}/webhook`,
+        {
+          method: enabled ? 'DELETE' : 'POST',
+        }
+      )
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to update')
+      }
+
+      setEnabled(!enabled)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="yard-meta">
+          {enabled ? 'auto-analysis on push: on' : 'auto-analysis on push: off'}
+        </span>
+        <button
+          onClick={handleToggle}
+          disabled={isLoading}
+          className="yard-meta hover:text-[--yard-orange] disabled:opacity-50"
+        >
+          {isLoading ? '...' : enabled ? 'turn off' : 'turn on'}
+        </button>
+      </div>
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -35,13 +35,18 @@ describe('EditVibeModal', () => {
     openIssuesCount: 0,
     license: null,
     isPrivate: false,
+    githubStatus: 'active',
+    metadataSyncedAt: null,
     deployedUrl: 'https://example.com',
     screenshotUrl: 'https://example.com/screenshot.png',
+    scoringProfile: null,
     votesCount: 0,
     followersCount: 0,
     viewsCount: 0,
     analysisStatus: 'pending',
     lastAnalyzedAt: null,
+    webhookId: null,
+    webhookDeliveredAt: null,
     collaborationRole: 'SEEKER',
     collaborationTypes: ['CODE_REVIEW'] as CollaborationType[],
     collaborationDetails: 'Need help with testing',
@@ -5,6 +5,12 @@ import { useRouter } from 'next/navigation'
 import { Repository, CollaborationType } from '@prisma/client'
 import { CollaborationOptions } from '@/types/collaboration'
 import { CollaborationOptionsForm } from '@/app/components/CollaborationOptionsForm'
+import {
+  SCORING_PROFILES,
+  getScoringProfile,
+  isScoringProfileName,
+  type ScoringProfileName,
+} from '@/services/analysis/scoring-profiles'
 
 interface Props {
   isOpen: boolean
@@ -20,6 +26,9 @@ export function EditVibeModal({ isOpen, onClose, repository }: Props) {
   const [description, setDescription] = useState(repository.description || '')
   const [screenshotUrl, setScreenshotUrl] = useState(repository.screenshotUrl || '')
   const [deployedUrl, setDeployedUrl] = useState(repository.deployedUrl || '')
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfileName | ''>(
+    isScoringProfileName(repository.scoringProfile) ? repository.scoringProfile : ''
+  )
   const [collaborationOptions, setCollaborationOptions] = useState<CollaborationOptions>({
     role: 'SEEKER',
     types: (repository.collaborationTypes as CollaborationType[]) || [],
@@ -73,6 +82,7 @@ export function EditVibeModal({ isOpen, onClose, repository }: Props) {
         description?: string | null
         screenshotUrl?: string | null
         deployedUrl?: string | null
+        scoringProfile?: ScoringProfileName | null
         collaborationTypes?: CollaborationType[]
         collaborationDetails?: string | null
         isAcceptingCollaborators?: boolean
@@ -90,6 +100,11 @@ export function EditVibeModal({ isOpen, onClose, repository }: Props) {
       payload.screenshotUrl = screenshotUrl.trim() || null
       payload.deployedUrl = deployedUrl.trim() || null
 
+      // Scoring profile (empty = picked from the detected project type)
+      if (repository.githubId) {
+        payload.scoringProfile = scoringProfile || null
+      }
+
       // Collaboration
       payload.collaborationTypes = collaborationOptions.types
       payload.collaborationDetails = collaborationOptions.details || null
@@ -255,6 +270,32 @@ export function EditVibeModal({ isOpen, onClose, repository }: Props) {
               </p>
             </div>
 
+            {/* Scoring Profile (completeness is only scored for GitHub vibes) */}
+            {isGitHubVibe && (
+              <div>
+                <label htmlFor="scoringProfile" className="block text-sm font-medium mb-2 mono">
+                  Scoring Profile
+                </label>
+                <select
+                  id="scoringProfile"
+                  value={scoringProfile}
+                  onChange={(e) => setScoringProfile(e.target.value as ScoringProfileName | '')}
+                  className="yard-input w-full"
+                  disabled={isLoading}
+                >
+                  <option value="">Auto (from project type)</option>
+                  {SCORING_PROFILES.map((name) => (
+                    <option key={name} value={name}>
+                      {getScoringProfile(name).label}
+                    </option>
+                  ))}
+                </select>
+                <p className="yard-meta text-xs mt-1">
+                  Weights the completeness score for your kind of project; applies from the next analysis
+                </p>
+              </div>
+            )}
+
             {/* Collaboration Options */}
             <div className="border-t border-[--yard-border] pt-4">
               <h3 className="text-sm font-medium mb-3 mono">Collaboration Options</h3>
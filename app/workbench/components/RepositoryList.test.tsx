@@ -51,13 +51,18 @@ describe('RepositoryList', () => {
     openIssuesCount: 0,
     license: null,
     isPrivate: false,
+    githubStatus: 'active',
+    metadataSyncedAt: null,
     deployedUrl: 'https://myapp.vercel.app',
     screenshotUrl: 'https://example.com/screenshot.png',
+    scoringProfile: null,
     votesCount: 0,
     followersCount: 0,
     viewsCount: 0,
     analysisStatus: 'completed',
     lastAnalyzedAt: new Date(),
+    webhookId: null,
+    webhookDeliveredAt: null,
     collaborationRole: 'SEEKER',
     collaborationTypes: ['CODE_REVIEW', 'MENTORSHIP'] as CollaborationType[],
     collaborationDetails: 'Need help with testing',
@@ -93,13 +98,18 @@ describe('RepositoryList', () => {
     openIssuesCount: 5,
     license: 'MIT',
     isPrivate: false,
+    githubStatus: 'active',
+    metadataSyncedAt: null,
     deployedUrl: null,
     screenshotUrl: null,
+    scoringProfile: null,
     votesCount: 0,
     followersCount: 0,
     viewsCount: 0,
     analysisStatus: 'pending',
     lastAnalyzedAt: null,
+    webhookId: null,
+    webhookDeliveredAt: null,
     collaborationRole: null,
     collaborationTypes: [],
     collaborationDetails: null,
@@ -611,6 +621,7 @@ describe('RepositoryList', () => {
         description: null,
         deployedUrl: null,
         screenshotUrl: null,
+        scoringProfile: null,
         collaborationRole: null,
         collaborationTypes: [],
         collaborationDetails: null,
@@ -6,6 +6,7 @@ import { Repository } from '@prisma/client'
 import { StarRating } from '@/app/components/ui/StarRating'
 import { AnalysisStatus } from '@/app/components/ui/AnalysisStatus'
 import { EditVibeModal } from './EditVibeModal'
+import { AutoAnalysisToggle } from './AutoAnalysisToggle'
 
 interface RepositoryWithAnalytics extends Repository {
   _count: {
@@ -23,6 +24,13 @@ interface Props {
   repositories: RepositoryWithAnalytics[]
 }
 
+// Shown when the last sync found the repository changed on GitHub
+const GITHUB_STATUS_NOTES: Record<string, string> = {
+  renamed: 'Renamed on GitHub',
+  private: 'Made private on GitHub',
+  deleted: 'Deleted on GitHub (or no longer accessible)',
+}
+
 export function RepositoryList({ repositories }: Props) {
   const [editingRepo, setEditingRepo] = useState<RepositoryWithAnalytics | null>(null)
 
@@ -64,6 +72,12 @@ export function RepositoryList({ repositories }: Props) {
               )}
             </div>
 
+            {repo.githubId && repo.githubStatus !== 'active' && (
+              <p className="text-xs text-red-500 mb-2">
+                {GITHUB_STATUS_NOTES[repo.githubStatus] ?? repo.githubStatus}
+              </p>
+            )}
+
             {repo.description && (
               <p className="text-sm yard-meta mb-2">{repo.description}</p>
             )}
@@ -126,6 +140,14 @@ export function RepositoryList({ repositories }: Props) {
               </div>
             )}
 
+            {/* Auto-analysis webhook (GitHub vibes only) */}
+            {repo.githubId && (
+              <AutoAnalysisToggle
+                repositoryId={repo.id}
+                initialEnabled={!!repo.webhookId}
+              />
+            )}
+
             {/* Collaboration - Read Only Display */}
             {(repo.collaborationTypes && repo.collaborationTypes.length > 0) || repo.isAcceptingCollaborators ? (
               <div className="mt-2 flex items-center gap-2 text-xs">
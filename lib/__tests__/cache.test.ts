@@ -257,6 +257,11 @@ describe('CacheService', () => {
       expect(key).toBe('github:repo:owner/repo:contents:src/index.ts')
     })
 
+    it('should generate GitHub contents key at a ref', () => {
+      const key = cacheService.githubRepoContentsKey('owner', 'repo', 'README.md', 'abc123')
+      expect(key).toBe('github:repo:owner/repo:contents@abc123:README.md')
+    })
+
     it('should generate GitHub commits key', () => {
       const key = cacheService.githubCommitsKey('owner', 'repo', 3)
       expect(key).toBe('github:repo:owner/repo:commits:3')
@@ -0,0 +1,58 @@
+/**
+ * Public URL Requests Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  headPublicUrl,
+  isPublicAddress,
+  NonPublicUrlError,
+} from '../public-url'
+
+describe('isPublicAddress', () => {
+  it('should accept public addresses', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true)
+    expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true)
+  })
+
+  it('should reject private, loopback and link-local addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      'not-an-address',
+    ]) {
+      expect(isPublicAddress(address)).toBe(false)
+    }
+  })
+})
+
+describe('headPublicUrl', () => {
+  it('should refuse protocols other than http and https', async () => {
+    await expect(headPublicUrl('file:///etc/passwd', 1000)).rejects.toThrow(
+      NonPublicUrlError
+    )
+  })
+
+  it('should refuse private IP hosts', async () => {
+    await expect(
+      headPublicUrl('http://169.254.169.254/latest/meta-data', 1000)
+    ).rejects.toThrow(NonPublicUrlError)
+    await expect(headPublicUrl('http://[::1]:3000', 1000)).rejects.toThrow(
+      NonPublicUrlError
+    )
+  })
+
+  it('should refuse hosts that resolve to private addresses', async () => {
+    await expect(headPublicUrl('http://localhost:3000', 1000)).rejects.toThrow(
+      NonPublicUrlError
+    )
+  })
+})
@@ -0,0 +1,41 @@
+/**
+ * Admin Access
+ *
+ * Admins are the users whose GitHub usernames are listed in
+ * ADMIN_GITHUB_USERNAMES. There is no admin role in the database.
+ */
+
+import { NextResponse } from 'next/server'
+import type { Session } from 'next-auth'
+
+/**
+ * GitHub usernames of admins, from ADMIN_GITHUB_USERNAMES (comma-separated)
+ */
+function adminUsernames(): string[] {
+  return (process.env.ADMIN_GITHUB_USERNAMES || '')
+    .split(',')
+    .map((username) => username.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Whether the signed-in user is an admin
+ */
+export function isAdmin(session: Session | null): boolean {
+  const username = session?.user?.githubUsername?.toLowerCase()
+  return !!username && adminUsernames().includes(username)
+}
+
+/**
+ * Response refusing a request from anyone but an admin
+ * Returns null when the user is an admin.
+ */
+export function adminOnly(session: Session | null): NextResponse | null {
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!isAdmin(session)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+  return null
+}
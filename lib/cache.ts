@@ -113,16 +113,54 @@ export class CacheService {
    * Generate cache key for repository contents/file
    * TTL: 1 hour
    */
-  githubRepoContentsKey(owner: string, repo: string, path: string): string {
-    return `github:repo:${owner}/${repo}:contents:${path}`
+  githubRepoContentsKey(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string
+  ): string {
+    return ref
+      ? `github:repo:${owner}/${repo}:contents@${ref}:${path}`
+      : `github:repo:${owner}/${repo}:contents:${path}`
   }
 
   /**
    * Generate cache key for commit history
    * TTL: 1 hour
    */
-  githubCommitsKey(owner: string, repo: string, page: number = 1): string {
-    return `github:repo:${owner}/${repo}:commits:${page}`
+  githubCommitsKey(
+    owner: string,
+    repo: string,
+    page: number = 1,
+    sha?: string
+  ): string {
+    return sha
+      ? `github:repo:${owner}/${repo}:commits@${sha}:${page}`
+      : `github:repo:${owner}/${repo}:commits:${page}`
+  }
+
+  /**
+   * Generate cache key for commit count and root commit at a ref
+   * TTL: 1 hour
+   */
+  githubCommitTotalsKey(owner: string, repo: string, sha?: string): string {
+    return `github:repo:${owner}/${repo}:commit-totals@${sha ?? 'default'}`
+  }
+
+  /**
+   * Generate cache key for repository contributors
+   * TTL: 1 day (statistics computed by GitHub)
+   */
+  githubContributorsKey(owner: string, repo: string): string {
+    return `github:repo:${owner}/${repo}:contributors`
+  }
+
+  /**
+   * Generate cache key for weekly commit activity
+   * TTL: 1 day (statistics computed by GitHub)
+   */
+  githubCommitActivityKey(owner: string, repo: string): string {
+    return `github:repo:${owner}/${repo}:commit-activity`
   }
 
   /**
@@ -142,11 +180,19 @@ export class CacheService {
   }
 
   /**
-   * Generate cache key for repository tree/file structure
+   * Generate cache key for repository tree/file structure at a ref
    * TTL: 1 hour
    */
-  githubTreeKey(owner: string, repo: string, branch: string = 'main'): string {
-    return `github:repo:${owner}/${repo}:tree:${branch}`
+  githubTreeKey(owner: string, repo: string, ref: string = 'main'): string {
+    return `github:repo:${owner}/${repo}:tree:${ref}`
+  }
+
+  /**
+   * Generate cache key for GitHub Actions workflow runs
+   * TTL: 5 minutes (shown as live CI status)
+   */
+  githubWorkflowRunsKey(owner: string, repo: string, branch: string): string {
+    return `github:repo:${owner}/${repo}:workflow-runs:${branch}`
   }
 
   /**
@@ -174,6 +220,22 @@ export class CacheService {
     return `repository:${repositoryId}:analysis`
   }
 
+  /**
+   * Generate cache key for package registry metadata
+   * TTL: 1 day (used for dependency staleness checks)
+   */
+  packageRegistryKey(ecosystem: string, name: string): string {
+    return `registry:${ecosystem}:${name}`
+  }
+
+  /**
+   * Generate cache key for fingerprints of secrets already reported to the owner
+   * TTL: 30 days (avoids re-notifying on every re-analysis)
+   */
+  secretFingerprintsKey(repositoryId: string): string {
+    return `repository:${repositoryId}:secret-fingerprints`
+  }
+
   /**
    * Invalidate all GitHub-related cache for a specific repository
    * Useful when repository is updated or disconnected
@@ -203,6 +265,10 @@ export const CACHE_TTL = {
   TOPICS: 24 * 60 * 60, // 1 day
   LANGUAGES: 24 * 60 * 60, // 1 day
   TREE: 60 * 60, // 1 hour
+  WORKFLOW_RUNS: 5 * 60, // 5 minutes
+  REPO_STATS: 24 * 60 * 60, // 1 day
   RATE_LIMIT: 60, // 1 minute
   REPO_LIST: 2 * 60, // 2 minutes
+  PACKAGE_METADATA: 24 * 60 * 60, // 1 day
+  SECRET_FINGERPRINTS: 30 * 24 * 60 * 60, // 30 days
 } as const
@@ -0,0 +1,183 @@
+import { lookup as dnsLookup, type LookupAddress } from 'dns'
+import http from 'http'
+import https from 'https'
+import { BlockList, isIP, type LookupFunction } from 'net'
+
+/**
+ * Requests to User-Supplied URLs
+ *
+ * For URLs that come from users (e.g. a vibe's deployed URL), which the
+ * server must not be made to reach inside its own network:
+ * - Only http and https
+ * - Hosts must resolve to public addresses only; private, loopback,
+ *   link-local and other reserved ranges are refused. The check runs when
+ *   connecting, on the resolved address actually used, so a host cannot
+ *   resolve to a public address first and a private one later
+ * - Redirects are followed by hand, each hop checked the same way
+ */
+
+/**
+ * Redirects followed at most
+ */
+const MAX_REDIRECTS = 5
+
+/**
+ * Address ranges that are not on the public internet
+ */
+const NON_PUBLIC_RANGES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local (cloud metadata)
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // Documentation
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['198.51.100.0', 24], // Documentation
+  ['203.0.113.0', 24], // Documentation
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved, broadcast
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], // Unspecified
+  ['::1', 128], // Loopback
+  ['64:ff9b::', 96], // IPv4/IPv6 translation
+  ['100::', 64], // Discard
+  ['2001:db8::', 32], // Documentation
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * Thrown when a URL may not be requested
+ */
+export class NonPublicUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NonPublicUrlError'
+  }
+}
+
+/**
+ * Whether an IP address is on the public internet
+ *
+ * @param address - IPv4 or IPv6 address
+ * @returns False for private, loopback, link-local and reserved addresses
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 0) return false
+
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (mapped) return isPublicAddress(mapped[1])
+
+  return !NON_PUBLIC_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Send a HEAD request to a user-supplied URL, following redirects
+ *
+ * @param url - URL to request
+ * @param timeoutMs - Timeout per request
+ * @returns Response status of the last hop
+ * @throws NonPublicUrlError for unsupported protocols and non-public hosts
+ */
+export async function headPublicUrl(
+  url: string,
+  timeoutMs: number
+): Promise<number> {
+  let current = new URL(url)
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const { status, location } = await head(current, timeoutMs)
+    if (status < 300 || status >= 400 || !location) {
+      return status
+    }
+    current = new URL(location, current)
+  }
+
+  throw new Error(`Too many redirects from ${url}`)
+}
+
+/**
+ * One HEAD request to a checked host
+ * @private
+ */
+function head(
+  url: URL,
+  timeoutMs: number
+): Promise<{ status: number; location?: string }> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new NonPublicUrlError(`Unsupported protocol ${url.protocol}`)
+  }
+
+  // IP literals are connected to without a lookup
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new NonPublicUrlError(`${host} is not a public address`)
+  }
+
+  const client = url.protocol === 'https:' ? https : http
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      url,
+      {
+        method: 'HEAD',
+        headers: { 'User-Agent': 'vibeyard/1.0' },
+        lookup: publicLookup,
+        timeout: timeoutMs,
+      },
+      (response) => {
+        response.resume()
+        resolve({
+          status: response.statusCode ?? 0,
+          location: response.headers.location,
+        })
+      }
+    )
+    request.on('timeout', () =>
+      request.destroy(new Error(`Request to ${url.host} timed out`))
+    )
+    request.on('error', reject)
+    request.end()
+  })
+}
+
+/**
+ * DNS lookup that refuses hosts resolving to non-public addresses
+ * @private
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address as string, family)
+      return
+    }
+
+    const addresses: LookupAddress[] = Array.isArray(address)
+      ? address
+      : [{ address, family: family ?? 4 }]
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address))
+    if (blocked) {
+      callback(
+        new NonPublicUrlError(
+          `${hostname} resolves to ${blocked.address}, not a public address`
+        ),
+        '',
+        0
+      )
+      return
+    }
+
+    callback(null, address as string, family)
+  })
+}
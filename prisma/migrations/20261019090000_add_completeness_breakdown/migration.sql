@@ -0,0 +1,2 @@
+-- Add completenessBreakdown field to repository_analyses table
+ALTER TABLE "repository_analyses" ADD COLUMN "completenessBreakdown" JSONB;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "analysis_runs" (
+    "id" TEXT NOT NULL,
+    "repositoryId" TEXT NOT NULL,
+    "completenessScore" INTEGER,
+    "completenessBreakdown" JSONB,
+    "aiDetected" BOOLEAN NOT NULL DEFAULT false,
+    "aiProvider" TEXT,
+    "aiConfidence" DOUBLE PRECISION,
+    "aiEvidence" JSONB,
+    "projectType" TEXT,
+    "framework" TEXT,
+    "purpose" TEXT,
+    "techStack" TEXT[],
+    "features" TEXT[],
+    "improvements" TEXT[],
+    "mistakes" TEXT[],
+    "firstCommitAt" TIMESTAMP(3),
+    "lastCommitAt" TIMESTAMP(3),
+    "commitCount" INTEGER,
+    "contributorCount" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "analysis_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "analysis_runs_repositoryId_createdAt_idx" ON "analysis_runs"("repositoryId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "analysis_runs" ADD CONSTRAINT "analysis_runs_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "repositories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "repository_analyses" ADD COLUMN     "aiProviderBreakdown" JSONB,
+ADD COLUMN     "aiProviders" TEXT[];
+
+-- AlterTable
+ALTER TABLE "analysis_runs" ADD COLUMN     "aiProviderBreakdown" JSONB,
+ADD COLUMN     "aiProviders" TEXT[];
+
+-- Backfill from the single provider recorded by earlier analyses
+UPDATE "repository_analyses" SET "aiProviders" = ARRAY["aiProvider"] WHERE "aiProvider" IS NOT NULL;
+UPDATE "analysis_runs" SET "aiProviders" = ARRAY["aiProvider"] WHERE "aiProvider" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "repository_analyses_aiProviders_idx" ON "repository_analyses" USING GIN ("aiProviders");
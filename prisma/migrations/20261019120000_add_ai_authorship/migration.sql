@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "repository_analyses" ADD COLUMN     "aiAuthorship" JSONB;
+
+-- AlterTable
+ALTER TABLE "analysis_runs" ADD COLUMN     "aiAuthorship" JSONB;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "repository_analyses" ADD COLUMN     "insightSources" JSONB;
+
+-- AlterTable
+ALTER TABLE "analysis_runs" ADD COLUMN     "insightSources" JSONB;
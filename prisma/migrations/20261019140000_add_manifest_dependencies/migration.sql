@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "repository_analyses" ADD COLUMN     "dependencies" JSONB,
+ADD COLUMN     "dependencyNames" TEXT[],
+ADD COLUMN     "runtime" TEXT,
+ADD COLUMN     "runtimeVersion" TEXT;
+
+-- AlterTable
+ALTER TABLE "analysis_runs" ADD COLUMN     "dependencies" JSONB,
+ADD COLUMN     "dependencyNames" TEXT[],
+ADD COLUMN     "runtime" TEXT,
+ADD COLUMN     "runtimeVersion" TEXT;
+
+-- CreateIndex
+CREATE INDEX "repository_analyses_dependencyNames_idx" ON "repository_analyses" USING GIN ("dependencyNames");
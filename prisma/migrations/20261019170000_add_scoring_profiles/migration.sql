@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "repositories" ADD COLUMN     "scoringProfile" TEXT;
+
+-- AlterTable
+ALTER TABLE "repository_analyses" ADD COLUMN     "scoringProfile" TEXT;
+
+-- AlterTable
+ALTER TABLE "analysis_runs" ADD COLUMN     "scoringProfile" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "repository_analyses" ADD COLUMN     "ciHealth" JSONB;
+
+-- AlterTable
+ALTER TABLE "analysis_runs" ADD COLUMN     "ciHealth" JSONB;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "repository_analyses" ADD COLUMN     "commitSha" TEXT;
+
+-- AlterTable
+ALTER TABLE "analysis_runs" ADD COLUMN     "commitSha" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "repository_analyses" ADD COLUMN     "commitActivity" JSONB;
+
+-- AlterTable
+ALTER TABLE "analysis_runs" ADD COLUMN     "commitActivity" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "repositories" ADD COLUMN     "webhookDeliveredAt" TIMESTAMP(3),
+ADD COLUMN     "webhookId" INTEGER;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "repositories" ADD COLUMN     "githubStatus" TEXT NOT NULL DEFAULT 'active',
+ADD COLUMN     "metadataSyncedAt" TIMESTAMP(3);
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "repository_analyses" ADD COLUMN     "failedStages" TEXT[];
+
+-- AlterTable
+ALTER TABLE "analysis_runs" ADD COLUMN     "failedStages" TEXT[];
+
+-- CreateTable
+CREATE TABLE "analysis_stage_results" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "repositoryId" TEXT NOT NULL,
+    "commitSha" TEXT,
+    "stage" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "analysis_stage_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "analysis_stage_results_runId_stage_key" ON "analysis_stage_results"("runId", "stage");
+
+-- CreateIndex
+CREATE INDEX "analysis_stage_results_repositoryId_commitSha_stage_idx" ON "analysis_stage_results"("repositoryId", "commitSha", "stage");
+
+-- AddForeignKey
+ALTER TABLE "analysis_stage_results" ADD CONSTRAINT "analysis_stage_results_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "repositories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,209 @@
+/**
+ * AI Detector Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { AIDetector } from '../ai-detector'
+import { DetectorRegistry } from '../detectors/registry'
+import { BUILT_IN_DETECTORS } from '../detectors/built-in'
+import type { RepositorySnapshot } from '../repository-snapshot'
+
+function treeOf(paths: string[]) {
+  return {
+    sha: 'tree-sha',
+    url: '',
+    truncated: false,
+    tree: paths.map((path) => ({ path, mode: '100644', type: 'blob', sha: path, url: '' })),
+  }
+}
+
+const CLAUDE_MD = `# Project guide
+
+- Run \`npm test\` before every commit and keep the suite green
+- Use the GitHub MCP tools (mcp__github__create_issue) to file follow-ups
+- Prefer claude-sonnet-4 for reviews
+`
+
+const CURSOR_RULES = `You are an expert TypeScript developer working on a Next.js app.
+Always use functional React components and keep files under 300 lines.
+`
+
+function commitOf(sha: string, message: string) {
+  return { sha, commit: { message, author: { name: 'dev', email: 'dev@example.com', date: '' } } }
+}
+
+function snapshotOf({
+  paths = [],
+  files = {},
+  commits = [],
+}: {
+  paths?: string[]
+  files?: Record<string, string>
+  commits?: ReturnType<typeof commitOf>[]
+}): RepositorySnapshot {
+  const readme = files['README.md']
+  return {
+    owner: 'owner',
+    repo: 'repo',
+    repository: {} as RepositorySnapshot['repository'],
+    commitSha: null,
+    tree: treeOf(paths) as RepositorySnapshot['tree'],
+    readme: readme === undefined ? null : { path: 'README.md', content: readme },
+    commits: commits as unknown as RepositorySnapshot['commits'],
+    files,
+  }
+}
+
+describe('AIDetector', () => {
+  let detector: AIDetector
+
+  beforeEach(() => {
+    detector = new AIDetector(new DetectorRegistry(BUILT_IN_DETECTORS))
+  })
+
+  it('should detect Claude Code from .claude directory and co-author trailers', () => {
+    const result = detector.detectAIUsage(
+      snapshotOf({
+        paths: ['CLAUDE.md', '.claude/settings.json', 'src/index.ts'],
+        files: { 'CLAUDE.md': CLAUDE_MD },
+        commits: [
+          commitOf('abc1234def', 'Add feature\n\nCo-Authored-By: Claude <noreply@anthropic.com>'),
+        ],
+      })
+    )
+
+    expect(result.detected).toBe(true)
+    expect(result.provider).toBe('claude-code')
+    expect(result.evidence.files).toEqual(['.claude/settings.json (claude-code)'])
+    expect(result.evidence.agentConfigs[0]).toMatchObject({
+      path: 'CLAUDE.md',
+      provider: 'claude-code',
+      mcpServers: ['github'],
+      models: ['claude-sonnet-4'],
+    })
+    expect(result.evidence.agentConfigs[0].conventions[0]).toContain('npm test')
+    expect(result.evidence.commits[0]).toContain('(claude-code)')
+  })
+
+  it('should rank every attributed provider with its own evidence', () => {
+    const result = detector.detectAIUsage(
+      snapshotOf({
+        paths: ['.cursor/rules/main.mdc', '.cursorrules', 'CLAUDE.md'],
+        files: { '.cursorrules': CURSOR_RULES, 'CLAUDE.md': CLAUDE_MD },
+      })
+    )
+
+    expect(result.providers.map((p) => p.provider)).toEqual(['cursor', 'claude-code'])
+    expect(result.provider).toBe('cursor')
+    expect(result.providers[0].confidence).toBeGreaterThan(result.providers[1].confidence)
+    expect(result.providers[1].evidence.agentConfigs.map((c) => c.path)).toEqual(['CLAUDE.md'])
+  })
+
+  it('should not attribute providers below the minimum confidence', () => {
+    const result = detector.detectAIUsage(
+      snapshotOf({
+        paths: ['.cursor/rules/main.mdc', '.cursorrules', 'README.md'],
+        files: { '.cursorrules': CURSOR_RULES, 'README.md': 'Works great with GitHub Copilot.' },
+      })
+    )
+
+    expect(result.providers.map((p) => p.provider)).toEqual(['cursor'])
+    expect(result.evidence.readme.length).toBeGreaterThan(0)
+  })
+
+  it('should not treat unrelated file names as tool evidence', () => {
+    const result = detector.detectAIUsage(
+      snapshotOf({ paths: ['db/cursor.ts', 'src/copilotHelpers.ts', 'lib/windsurfing.md'] })
+    )
+
+    expect(result.detected).toBe(false)
+    expect(result.evidence.files).toEqual([])
+  })
+
+  it('should ignore agent config files whose contents do not validate', () => {
+    const result = detector.detectAIUsage(
+      snapshotOf({
+        paths: ['CLAUDE.md', '.cursorrules', '.mcp.json'],
+        files: {
+          'CLAUDE.md': '# CLAUDE.md\n\n<!-- Add project instructions here -->\n',
+          '.cursorrules': '',
+          '.mcp.json': '{"mcpServers": {}}',
+        },
+      })
+    )
+
+    expect(result.detected).toBe(false)
+    expect(result.evidence.files).toEqual([])
+    expect(result.evidence.agentConfigs).toEqual([])
+  })
+
+  it('should parse aider settings and MCP server declarations', () => {
+    const result = detector.detectAIUsage(
+      snapshotOf({
+        paths: ['.aider.conf.yml', '.mcp.json'],
+        files: {
+          '.aider.conf.yml': 'model: gpt-4o\nauto-commits: false  # review first\nread:\n  - CONVENTIONS.md\n',
+          '.mcp.json': '{"mcpServers": {"postgres": {"command": "npx"}, "sentry": {}}}',
+        },
+      })
+    )
+
+    expect(result.evidence.agentConfigs).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          path: '.aider.conf.yml',
+          provider: 'aider',
+          models: ['gpt-4o'],
+          conventions: ['auto-commits: false', 'read: CONVENTIONS.md'],
+        }),
+        expect.objectContaining({
+          path: '.mcp.json',
+          provider: 'claude-code',
+          mcpServers: ['postgres', 'sentry'],
+        }),
+      ])
+    )
+    expect(result.providers.map((p) => p.provider)).toEqual(
+      expect.arrayContaining(['aider', 'claude-code'])
+    )
+  })
+
+  it('should detect tools from config file contents', () => {
+    const result = detector.detectAIUsage(
+      snapshotOf({
+        paths: ['package.json'],
+        files: { 'package.json': '{"devDependencies": {"lovable-tagger": "^1.0.0"}}' },
+      })
+    )
+
+    expect(result.evidence.config).toEqual([
+      'package.json: lovable-tagger dependency (lovable)',
+    ])
+    expect(result.confidence).toBeGreaterThan(0)
+  })
+
+  it('should evaluate detectors registered as plugins', () => {
+    const registry = new DetectorRegistry()
+    registry.register({
+      provider: 'acme-agent',
+      name: 'Acme Agent',
+      files: [/(^|\/)\.acme(\/|$)/],
+    })
+
+    const result = new AIDetector(registry).detectAIUsage(
+      snapshotOf({ paths: ['.acme/config.json', '.acme/rules.md', 'CLAUDE.md'] })
+    )
+
+    expect(result.provider).toBe('acme-agent')
+    expect(result.evidence.files).toEqual([
+      '.acme/config.json (acme-agent)',
+      '.acme/rules.md (acme-agent)',
+    ])
+  })
+
+  it('should reject detectors using the reserved unknown provider', () => {
+    const registry = new DetectorRegistry()
+
+    expect(() => registry.register({ provider: 'unknown', name: 'Unknown' })).toThrow()
+  })
+})
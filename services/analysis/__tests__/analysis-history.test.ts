@@ -0,0 +1,82 @@
+/**
+ * Analysis History Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffAnalysisRuns, type AnalysisRunSnapshot } from '../analysis-history'
+import { createEmptyBreakdown } from '../completeness-scorer'
+
+function createRun(overrides: Partial<AnalysisRunSnapshot> = {}): AnalysisRunSnapshot {
+  return {
+    id: 'run-1',
+    createdAt: '2026-01-01T00:00:00Z',
+    completenessScore: 40,
+    completenessBreakdown: null,
+    aiDetected: true,
+    aiProvider: 'cursor',
+    aiConfidence: 0.5,
+    techStack: ['React', 'TypeScript'],
+    ...overrides,
+  }
+}
+
+describe('diffAnalysisRuns', () => {
+  it('should compute score delta and tech stack changes', () => {
+    const from = createRun()
+    const to = createRun({
+      id: 'run-2',
+      completenessScore: 55,
+      techStack: ['react', 'TypeScript', 'Prisma'],
+    })
+
+    const diff = diffAnalysisRuns(from, to)
+
+    expect(diff.fromRunId).toBe('run-1')
+    expect(diff.toRunId).toBe('run-2')
+    expect(diff.scoreDelta).toBe(15)
+    expect(diff.techStack.added).toEqual(['Prisma'])
+    expect(diff.techStack.removed).toEqual([])
+  })
+
+  it('should report per-category deltas when both runs have breakdowns', () => {
+    const fromBreakdown = { ...createEmptyBreakdown(), readme: 16, tests: 0 }
+    const toBreakdown = { ...createEmptyBreakdown(), readme: 25, tests: 7 }
+
+    const diff = diffAnalysisRuns(
+      createRun({ completenessBreakdown: fromBreakdown }),
+      createRun({ id: 'run-2', completenessBreakdown: toBreakdown })
+    )
+
+    expect(diff.categoryDeltas.readme).toBe(9)
+    expect(diff.categoryDeltas.tests).toBe(7)
+    expect(diff.categoryDeltas.license).toBe(0)
+  })
+
+  it('should skip category deltas for runs saved without a breakdown', () => {
+    const diff = diffAnalysisRuns(
+      createRun(),
+      createRun({ id: 'run-2', completenessBreakdown: createEmptyBreakdown() })
+    )
+
+    expect(diff.categoryDeltas).toEqual({})
+  })
+
+  it('should detect AI provider changes', () => {
+    const diff = diffAnalysisRuns(
+      createRun(),
+      createRun({ id: 'run-2', aiProvider: 'claude', aiConfidence: 0.8 })
+    )
+
+    expect(diff.aiProvider).toEqual({ from: 'cursor', to: 'claude', changed: true })
+    expect(diff.aiConfidenceDelta).toBe(0.3)
+  })
+
+  it('should return null score delta when a run has no score', () => {
+    const diff = diffAnalysisRuns(
+      createRun({ completenessScore: null }),
+      createRun({ id: 'run-2' })
+    )
+
+    expect(diff.scoreDelta).toBeNull()
+  })
+})
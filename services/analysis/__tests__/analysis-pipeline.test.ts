@@ -0,0 +1,212 @@
+/**
+ * Analysis Pipeline Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { UnrecoverableError } from 'bullmq'
+import {
+  finalizeAnalysisRun,
+  runAnalysisStage,
+  type AnalysisRunContext,
+} from '../analysis-pipeline'
+import { prisma } from '@/lib/prisma'
+import { redis } from '@/lib/redis'
+import type { RepositoryAnalyzer } from '../repository-analyzer'
+
+// Mock dependencies
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    repository: { update: vi.fn() },
+    analysisStageResult: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}))
+vi.mock('@/lib/redis', () => ({
+  redis: { get: vi.fn(), setex: vi.fn(), del: vi.fn() },
+}))
+
+const run: AnalysisRunContext = {
+  runId: 'analysis-repo-1-1',
+  repositoryId: 'repo-1',
+  owner: 'ada',
+  repo: 'app',
+}
+
+const snapshot = { owner: 'ada', repo: 'app', commitSha: 'abc123' }
+
+const mockAnalyzer = {
+  resolveHead: vi.fn(),
+  loadSnapshot: vi.fn(),
+  runStage: vi.fn(),
+  saveAnalysis: vi.fn(),
+}
+const analyzer = mockAnalyzer as unknown as RepositoryAnalyzer
+
+describe('runAnalysisStage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should skip a stage an earlier attempt of the run already stored', async () => {
+    vi.mocked(prisma.analysisStageResult.findUnique).mockResolvedValue({
+      status: 'completed',
+    } as never)
+
+    await runAnalysisStage(analyzer, run, 'ci_health')
+
+    expect(mockAnalyzer.runStage).not.toHaveBeenCalled()
+    expect(prisma.analysisStageResult.upsert).not.toHaveBeenCalled()
+  })
+
+  it('should keep the snapshot out of the stored results', async () => {
+    vi.mocked(prisma.analysisStageResult.findUnique).mockResolvedValue(null)
+    mockAnalyzer.resolveHead.mockResolvedValue({ commitSha: 'abc123' })
+    mockAnalyzer.loadSnapshot.mockResolvedValue(snapshot)
+
+    await runAnalysisStage(analyzer, run, 'snapshot')
+
+    expect(redis.setex).toHaveBeenCalledWith(
+      `analysis:snapshot:${run.runId}`,
+      expect.any(Number),
+      JSON.stringify(snapshot)
+    )
+    expect(prisma.analysisStageResult.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({
+          status: 'completed',
+          commitSha: 'abc123',
+          result: Prisma.JsonNull,
+        }),
+      })
+    )
+  })
+
+  it('should run the stage on the run snapshot and store its result', async () => {
+    vi.mocked(prisma.analysisStageResult.findUnique).mockResolvedValue(null)
+    vi.mocked(redis.get).mockResolvedValue(JSON.stringify(snapshot))
+    vi.mocked(prisma.analysisStageResult.findFirst).mockResolvedValue(null)
+    mockAnalyzer.runStage.mockResolvedValue({ passRate: 0.9 })
+
+    await runAnalysisStage(analyzer, run, 'ci_health')
+
+    expect(mockAnalyzer.runStage).toHaveBeenCalledWith(
+      'ci_health',
+      snapshot,
+      undefined
+    )
+    expect(prisma.analysisStageResult.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { runId_stage: { runId: run.runId, stage: 'ci_health' } },
+        update: expect.objectContaining({
+          status: 'completed',
+          commitSha: 'abc123',
+          result: { passRate: 0.9 },
+        }),
+      })
+    )
+  })
+
+  it('should reuse a completed result for the same commit', async () => {
+    vi.mocked(prisma.analysisStageResult.findUnique).mockResolvedValue(null)
+    vi.mocked(redis.get).mockResolvedValue(JSON.stringify(snapshot))
+    vi.mocked(prisma.analysisStageResult.findFirst).mockResolvedValue({
+      result: { purpose: 'A todo app' },
+    } as never)
+
+    await runAnalysisStage(analyzer, run, 'insights')
+
+    expect(mockAnalyzer.runStage).not.toHaveBeenCalled()
+    expect(prisma.analysisStageResult.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          repositoryId: 'repo-1',
+          commitSha: 'abc123',
+          stage: 'insights',
+          status: 'completed',
+        }),
+      })
+    )
+    expect(prisma.analysisStageResult.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ result: { purpose: 'A todo app' } }),
+      })
+    )
+  })
+
+  it('should not retry stages of a run without a snapshot', async () => {
+    vi.mocked(prisma.analysisStageResult.findUnique).mockResolvedValue(null)
+    vi.mocked(redis.get).mockResolvedValue(null)
+
+    await expect(runAnalysisStage(analyzer, run, 'detection')).rejects.toThrow(
+      UnrecoverableError
+    )
+  })
+})
+
+describe('finalizeAnalysisRun', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should save the completed stages and keep them when some failed', async () => {
+    vi.mocked(prisma.analysisStageResult.findMany).mockResolvedValue([
+      { stage: 'snapshot', status: 'completed', result: null, error: null },
+      { stage: 'ci_health', status: 'completed', result: null, error: null },
+      { stage: 'insights', status: 'failed', result: null, error: 'timeout' },
+    ] as never)
+    mockAnalyzer.saveAnalysis.mockResolvedValue({
+      repositoryId: 'repo-1',
+      analysisId: 'analysis-1',
+      success: true,
+      failedStages: ['detection', 'insights'],
+    })
+    vi.mocked(redis.get).mockResolvedValue(JSON.stringify(snapshot))
+
+    const result = await finalizeAnalysisRun(analyzer, run)
+
+    expect(result.failedStages).toEqual(['detection', 'insights'])
+    expect(mockAnalyzer.saveAnalysis).toHaveBeenCalledWith(
+      'repo-1',
+      snapshot,
+      { ci_health: null },
+      undefined
+    )
+    expect(prisma.analysisStageResult.deleteMany).toHaveBeenCalledWith({
+      where: { runId: run.runId, status: { not: 'completed' } },
+    })
+    expect(prisma.analysisStageResult.deleteMany).toHaveBeenCalledWith({
+      where: { repositoryId: 'repo-1', createdAt: { lt: expect.any(Date) } },
+    })
+    expect(prisma.analysisStageResult.deleteMany).toHaveBeenCalledTimes(2)
+    expect(redis.del).toHaveBeenCalledWith(`analysis:snapshot:${run.runId}`)
+  })
+
+  it('should fail the analysis when the snapshot stage failed', async () => {
+    vi.mocked(prisma.analysisStageResult.findMany).mockResolvedValue([
+      {
+        stage: 'snapshot',
+        status: 'failed',
+        result: null,
+        error: 'Repository not found',
+      },
+    ] as never)
+
+    const result = await finalizeAnalysisRun(analyzer, run)
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Repository not found',
+    })
+    expect(mockAnalyzer.saveAnalysis).not.toHaveBeenCalled()
+    expect(prisma.repository.update).toHaveBeenCalledWith({
+      where: { id: 'repo-1' },
+      data: { analysisStatus: 'failed' },
+    })
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * CI Health Analyzer Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { summarizeWorkflowRuns } from '../ci-health'
+import type { GitHubWorkflowRun } from '@/types/github'
+
+let nextId = 1
+
+function createRun(
+  overrides: Partial<GitHubWorkflowRun> = {}
+): GitHubWorkflowRun {
+  const id = nextId++
+  return {
+    id,
+    name: 'CI',
+    workflow_id: 1,
+    head_branch: 'main',
+    head_sha: `sha-${id}`,
+    event: 'push',
+    status: 'completed',
+    conclusion: 'success',
+    run_attempt: 1,
+    html_url: `https://github.com/owner/repo/actions/runs/${id}`,
+    created_at: '2026-10-01T10:00:00Z',
+    run_started_at: '2026-10-01T10:00:00Z',
+    updated_at: '2026-10-01T10:02:00Z',
+    ...overrides,
+  }
+}
+
+describe('summarizeWorkflowRuns', () => {
+  it('should measure pass rate, last green build and median duration', () => {
+    const failing = createRun({
+      conclusion: 'failure',
+      created_at: '2026-10-03T10:00:00Z',
+      run_started_at: '2026-10-03T10:00:00Z',
+      updated_at: '2026-10-03T10:05:00Z',
+    })
+    const green = createRun({
+      created_at: '2026-10-02T10:00:00Z',
+      run_started_at: '2026-10-02T10:00:00Z',
+      updated_at: '2026-10-02T10:03:00Z',
+    })
+
+    const health = summarizeWorkflowRuns(
+      [
+        createRun({ status: 'in_progress', conclusion: null }),
+        failing,
+        createRun({ conclusion: 'cancelled' }),
+        green,
+        createRun(),
+      ],
+      'main',
+      new Date('2026-10-04T00:00:00Z')
+    )
+
+    expect(health).toMatchObject({
+      branch: 'main',
+      runsAnalyzed: 3,
+      passRate: 0.67,
+      lastRun: { conclusion: null },
+      lastGreenAt: '2026-10-02T10:03:00Z',
+      lastGreenUrl: green.html_url,
+      medianDurationSeconds: 180,
+      flakyWorkflows: [],
+      checkedAt: '2026-10-04T00:00:00.000Z',
+    })
+  })
+
+  it('should flag workflows that failed and passed on the same commit', () => {
+    const health = summarizeWorkflowRuns(
+      [
+        createRun({ name: 'E2E', workflow_id: 2, head_sha: 'abc' }),
+        createRun({
+          name: 'E2E',
+          workflow_id: 2,
+          head_sha: 'abc',
+          conclusion: 'failure',
+        }),
+        createRun({ name: 'Lint', workflow_id: 3 }),
+        createRun({ name: 'Deploy', workflow_id: 4, run_attempt: 2 }),
+      ],
+      'main'
+    )
+
+    expect(health?.flakyWorkflows).toEqual(['E2E', 'Deploy'])
+    expect(health?.workflows.find(({ name }) => name === 'E2E')).toEqual({
+      name: 'E2E',
+      runs: 2,
+      passRate: 0.5,
+      flaky: true,
+    })
+  })
+
+  it('should return null without runs', () => {
+    expect(summarizeWorkflowRuns([], 'main')).toBeNull()
+  })
+})
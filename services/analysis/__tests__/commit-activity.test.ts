@@ -0,0 +1,124 @@
+/**
+ * Commit Activity Analyzer Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  estimateBusFactor,
+  summarizeCommitActivity,
+  type CommitActivityInputs,
+} from '../commit-activity'
+import type { GitHubCommit, GitHubContributor } from '@/types/github'
+
+function commitAt(date: string): GitHubCommit {
+  return {
+    sha: date,
+    commit: {
+      message: '',
+      author: { name: 'dev', email: 'dev@example.com', date },
+    },
+  } as unknown as GitHubCommit
+}
+
+function contributor(
+  login: string,
+  contributions: number,
+  type = 'User'
+): GitHubContributor {
+  return { login, type, contributions }
+}
+
+function inputsOf(
+  overrides: Partial<CommitActivityInputs> = {}
+): CommitActivityInputs {
+  return {
+    totalCommits: 1250,
+    firstCommit: commitAt('2021-03-14T12:00:00Z'),
+    recentCommits: [
+      commitAt('2026-10-12T09:00:00Z'),
+      commitAt('2026-10-05T09:00:00Z'),
+    ],
+    contributors: [contributor('ada', 10)],
+    contributorCount: 140,
+    weeklyStats: null,
+    archived: false,
+    ...overrides,
+  }
+}
+
+const NOW = new Date('2026-10-19T00:00:00Z') // A Monday
+
+describe('summarizeCommitActivity', () => {
+  it('should report full history totals instead of the loaded page', () => {
+    const activity = summarizeCommitActivity(
+      inputsOf({
+        weeklyStats: Array.from({ length: 52 }, (_, i) => ({
+          week: Date.UTC(2025, 9, 26) / 1000 + i * 7 * 24 * 3600,
+          total: i,
+          days: [],
+        })),
+      }),
+      NOW
+    )
+
+    expect(activity).toMatchObject({
+      totalCommits: 1250,
+      contributorCount: 140,
+      firstCommitAt: '2021-03-14T12:00:00Z',
+      lastCommitAt: '2026-10-12T09:00:00Z',
+      status: 'active',
+      weeklyTruncated: false,
+    })
+    expect(activity.weekly).toHaveLength(52)
+    expect(activity.weekly[0]).toEqual({ week: '2025-10-26', commits: 0 })
+    expect(activity.weekly[51]).toEqual({ week: '2026-10-18', commits: 51 })
+  })
+
+  it('should bucket loaded commits by week while statistics are computed', () => {
+    const activity = summarizeCommitActivity(inputsOf(), NOW)
+
+    expect(activity.weekly).toHaveLength(52)
+    expect(activity.weekly.slice(-3)).toEqual([
+      { week: '2026-10-04', commits: 1 },
+      { week: '2026-10-11', commits: 1 },
+      { week: '2026-10-18', commits: 0 },
+    ])
+    expect(activity.weeklyTruncated).toBe(true)
+  })
+
+  it('should mark repositories without recent commits or archived as dormant', () => {
+    const stale = inputsOf({
+      recentCommits: [commitAt('2026-05-01T00:00:00Z')],
+    })
+
+    expect(summarizeCommitActivity(stale, NOW).status).toBe('dormant')
+    expect(
+      summarizeCommitActivity(inputsOf({ archived: true }), NOW).status
+    ).toBe('dormant')
+  })
+})
+
+describe('estimateBusFactor', () => {
+  it('should count the fewest humans who authored half of the commits', () => {
+    expect(
+      estimateBusFactor([
+        contributor('dependabot[bot]', 500, 'Bot'),
+        contributor('ada', 40),
+        contributor('grace', 30),
+        contributor('linus', 20),
+        {
+          name: 'Anon',
+          email: 'anon@example.com',
+          type: 'Anonymous',
+          contributions: 10,
+        },
+      ])
+    ).toEqual(['ada', 'grace'])
+  })
+
+  it('should return no contributors without human commits', () => {
+    expect(
+      estimateBusFactor([contributor('renovate[bot]', 12, 'Bot')])
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Commit Authorship Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { CommitAuthorshipAnalyzer, parseCoAuthors } from '../commit-authorship'
+import { DetectorRegistry } from '../detectors/registry'
+import { BUILT_IN_DETECTORS } from '../detectors/built-in'
+import type { GitHubClient } from '@/services/integrations/github-client'
+import type { GitHubCommit } from '@/types/github'
+
+const mockGitHubClient = {
+  getCommitHistory: vi.fn(),
+}
+
+function commitOf(
+  sha: string,
+  message: string,
+  date: string,
+  email: string = 'dev@example.com'
+): GitHubCommit {
+  return {
+    sha,
+    commit: { message, author: { name: 'dev', email, date } },
+  } as unknown as GitHubCommit
+}
+
+describe('CommitAuthorshipAnalyzer', () => {
+  let analyzer: CommitAuthorshipAnalyzer
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    analyzer = new CommitAuthorshipAnalyzer(
+      mockGitHubClient as unknown as GitHubClient,
+      new DetectorRegistry(BUILT_IN_DETECTORS)
+    )
+  })
+
+  it('should parse co-author trailers', () => {
+    expect(
+      parseCoAuthors('Fix bug\n\nCo-authored-by: Claude <noreply@anthropic.com>\nco-authored-by: Jane <jane@example.com>')
+    ).toEqual([
+      { name: 'Claude', email: 'noreply@anthropic.com' },
+      { name: 'Jane', email: 'jane@example.com' },
+    ])
+  })
+
+  it('should attribute commits by bot author, trailer and marker', () => {
+    const date = '2026-01-01T00:00:00Z'
+
+    expect(
+      analyzer.attributeCommit(commitOf('a', 'Add login', date, 'cursoragent@cursor.com'))
+    ).toMatchObject({ provider: 'cursor', signal: 'author' })
+    expect(
+      analyzer.attributeCommit(
+        commitOf('b', 'Add login\n\nCo-authored-by: Copilot <198982749+Copilot@users.noreply.github.com>', date)
+      )
+    ).toMatchObject({ provider: 'copilot', signal: 'trailer' })
+    expect(
+      analyzer.attributeCommit(
+        commitOf('c', 'Merge pull request #4\n\nhttps://app.devin.ai/sessions/123', date)
+      )
+    ).toMatchObject({ provider: 'devin', signal: 'marker' })
+    expect(analyzer.attributeCommit(commitOf('d', 'Fix typo', date))).toMatchObject({
+      provider: null,
+      signal: null,
+    })
+  })
+
+  it('should not attribute commits co-authored by people named like a tool', () => {
+    const date = '2026-01-01T00:00:00Z'
+
+    for (const coAuthor of [
+      'Brooke Smith <brooke@example.com>',
+      'Devin Lee <devin.lee@corp.com>',
+      'Claude Martin <claude@example.com>',
+      'Copilot Fan <copilot.fan@example.com>',
+      'Roo Patel <roo@example.com>',
+    ]) {
+      expect(
+        analyzer.attributeCommit(commitOf('e', `Pair on login\n\nCo-authored-by: ${coAuthor}`, date))
+      ).toMatchObject({ provider: null, signal: null })
+    }
+    expect(
+      analyzer.attributeCommit(
+        commitOf(
+          'f',
+          'Fix\n\nCo-authored-by: devin-ai-integration[bot] <158243242+devin-ai-integration[bot]@users.noreply.github.com>',
+          date
+        )
+      )
+    ).toMatchObject({ provider: 'devin', signal: 'trailer' })
+  })
+
+  it('should paginate the full history and bucket commits by month', async () => {
+    const firstPage = Array.from({ length: 100 }, (_, i) =>
+      commitOf(`h${i}`, 'Human change', '2026-02-10T00:00:00Z')
+    )
+    mockGitHubClient.getCommitHistory
+      .mockResolvedValueOnce(firstPage)
+      .mockResolvedValueOnce([
+        commitOf('ai1', 'Scaffold\n\nCo-Authored-By: Claude <noreply@anthropic.com>', '2026-01-05T00:00:00Z'),
+        commitOf('h100', 'Initial commit', '2026-01-01T00:00:00Z'),
+      ])
+
+    const authorship = await analyzer.analyzeAuthorship('owner', 'repo')
+
+    expect(mockGitHubClient.getCommitHistory).toHaveBeenCalledTimes(2)
+    expect(mockGitHubClient.getCommitHistory).toHaveBeenLastCalledWith('owner', 'repo', {
+      per_page: 100,
+      page: 2,
+    })
+    expect(authorship.totalCommits).toBe(102)
+    expect(authorship.aiCommits).toBe(1)
+    expect(authorship.providers).toEqual({ 'claude-code': 1 })
+    expect(authorship.aiLineRatio).toBeNull()
+    expect(authorship.truncated).toBe(false)
+    expect(authorship.series.map((p) => [p.period, p.aiCommits, p.humanCommits])).toEqual([
+      ['2026-01', 1, 1],
+      ['2026-02', 0, 100],
+    ])
+  })
+})
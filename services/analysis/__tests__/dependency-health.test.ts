@@ -0,0 +1,241 @@
+/**
+ * Dependency Health Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { DependencyHealthChecker } from '../dependency-health'
+import { parseLockfile } from '../dependencies/lockfiles'
+import { AdvisoryDatabase } from '../dependencies/osv-database'
+import { compareVersions } from '../dependencies/versions'
+import type { PackageRegistry } from '../dependencies/registry'
+import type { ManifestDependency } from '../manifest-analyzer'
+import type { RepositorySnapshot } from '../repository-snapshot'
+
+const LODASH_ADVISORY = {
+  id: 'GHSA-35jh-r3h4-6jhm',
+  aliases: ['CVE-2021-23337'],
+  summary: 'Command Injection in lodash',
+  database_specific: { severity: 'HIGH' },
+  affected: [
+    {
+      package: { ecosystem: 'npm', name: 'lodash' },
+      ranges: [
+        { type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.21' }] },
+      ],
+    },
+  ],
+}
+
+function dependency(
+  name: string,
+  version: string | null,
+  dev = false
+): ManifestDependency {
+  return { name, version, ecosystem: 'npm', dev, manifest: 'package.json' }
+}
+
+function snapshotOf(files: Record<string, string>) {
+  return {
+    tree: {
+      tree: Object.keys(files).map((path) => ({ path, type: 'blob' })),
+    },
+    files,
+  } as unknown as RepositorySnapshot
+}
+
+describe('parseLockfile', () => {
+  it('should resolve every installed package from package-lock.json v3', () => {
+    const packages = parseLockfile(
+      'package-lock.json',
+      JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'app' },
+          'node_modules/lodash': { version: '4.17.20' },
+          'node_modules/@scope/pkg': { version: '1.0.0' },
+          'node_modules/a/node_modules/lodash': { version: '3.10.1' },
+        },
+      })
+    )
+
+    expect(packages).toEqual([
+      { name: 'lodash', version: '4.17.20', ecosystem: 'npm' },
+      { name: '@scope/pkg', version: '1.0.0', ecosystem: 'npm' },
+      { name: 'lodash', version: '3.10.1', ecosystem: 'npm' },
+    ])
+  })
+
+  it('should parse yarn.lock and Cargo.lock entries', () => {
+    expect(
+      parseLockfile(
+        'yarn.lock',
+        [
+          '"@babel/core@^7.0.0", "@babel/core@^7.1.0":',
+          '  version "7.24.0"',
+          '',
+          'lodash@^4.17.0:',
+          '  version "4.17.21"',
+        ].join('\n')
+      )
+    ).toEqual([
+      { name: '@babel/core', version: '7.24.0', ecosystem: 'npm' },
+      { name: 'lodash', version: '4.17.21', ecosystem: 'npm' },
+    ])
+
+    expect(
+      parseLockfile(
+        'Cargo.lock',
+        '[[package]]\nname = "serde"\nversion = "1.0.200"\n'
+      )
+    ).toEqual([{ name: 'serde', version: '1.0.200', ecosystem: 'cargo' }])
+  })
+})
+
+describe('compareVersions', () => {
+  it('should order releases numerically with pre-releases first', () => {
+    expect(compareVersions('4.17.9', '4.17.21')).toBeLessThan(0)
+    expect(compareVersions('2.0.0-beta.1', '2.0.0')).toBeLessThan(0)
+    expect(compareVersions('v1.2.0', '1.2')).toBe(0)
+  })
+})
+
+describe('AdvisoryDatabase', () => {
+  it('should match versions inside affected ranges only', () => {
+    const database = new AdvisoryDatabase([LODASH_ADVISORY])
+
+    expect(database.query('npm', 'lodash', '4.17.20')).toEqual([
+      {
+        id: 'GHSA-35jh-r3h4-6jhm',
+        aliases: ['CVE-2021-23337'],
+        summary: 'Command Injection in lodash',
+        severity: 'high',
+        fixedVersion: '4.17.21',
+      },
+    ])
+    expect(database.query('npm', 'lodash', '4.17.21')).toEqual([])
+    expect(database.query('pypi', 'lodash', '4.17.20')).toEqual([])
+  })
+})
+
+describe('DependencyHealthChecker', () => {
+  it('should report vulnerable locked packages, outdated and abandoned dependencies', async () => {
+    const snapshot = snapshotOf({
+      'package-lock.json': JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          'node_modules/lodash': { version: '4.17.20' },
+          'node_modules/request': { version: '2.88.2' },
+          'node_modules/react': { version: '16.14.0' },
+        },
+      }),
+    })
+    const registry: PackageRegistry = {
+      getPackageInfo: vi.fn(async (_ecosystem, name: string) => {
+        switch (name) {
+          case 'react':
+            return {
+              latestVersion: '19.0.0',
+              lastPublishedAt: '2026-09-01T00:00:00Z',
+              deprecated: false,
+            }
+          case 'request':
+            return {
+              latestVersion: '2.88.2',
+              lastPublishedAt: '2020-02-11T00:00:00Z',
+              deprecated: true,
+            }
+          default:
+            return null
+        }
+      }),
+    }
+
+    const checker = new DependencyHealthChecker({
+      advisories: new AdvisoryDatabase([LODASH_ADVISORY]),
+      registry,
+      now: () => new Date('2026-10-19T00:00:00Z'),
+    })
+
+    const health = await checker.checkDependencies(snapshot, [
+      dependency('react', '^16.8.0'),
+      dependency('request', '^2.88.0'),
+      dependency('eslint', '^9.0.0', true),
+    ])
+
+    expect(health).toMatchObject({
+      lockfiles: ['package-lock.json'],
+      packageCount: 3,
+      advisoriesChecked: true,
+      registryChecked: true,
+      vulnerabilities: [
+        {
+          id: 'GHSA-35jh-r3h4-6jhm',
+          package: 'lodash',
+          version: '4.17.20',
+          direct: false,
+        },
+      ],
+      outdated: [
+        {
+          name: 'react',
+          version: '16.14.0',
+          latestVersion: '19.0.0',
+          majorsBehind: 3,
+        },
+      ],
+      abandoned: [{ name: 'request', deprecated: true }],
+    })
+    // Development dependencies are not looked up
+    expect(registry.getPackageInfo).toHaveBeenCalledTimes(2)
+  })
+
+  it('should fall back to exact manifest pins without a lockfile', async () => {
+    const checker = new DependencyHealthChecker({
+      advisories: null,
+      registry: null,
+    })
+
+    const health = await checker.checkDependencies(snapshotOf({}), [
+      {
+        name: 'django',
+        version: '==4.2.1',
+        ecosystem: 'pypi',
+        dev: false,
+        manifest: 'requirements.txt',
+      },
+      {
+        name: 'flask',
+        version: '>=2.0',
+        ecosystem: 'pypi',
+        dev: false,
+        manifest: 'requirements.txt',
+      },
+    ])
+
+    expect(health).toMatchObject({
+      lockfiles: [],
+      packageCount: 1,
+      advisoriesChecked: false,
+      registryChecked: false,
+      vulnerabilities: [],
+    })
+  })
+  it('should not report a lockfile it could not read as clean', async () => {
+    const checker = new DependencyHealthChecker({
+      advisories: new AdvisoryDatabase([LODASH_ADVISORY]),
+      registry: null,
+    })
+
+    // Files over the contents API's size limit come back empty
+    const health = await checker.checkDependencies(
+      snapshotOf({ 'yarn.lock': '' }),
+      [dependency('lodash', '^4.17.0')]
+    )
+
+    expect(health).toMatchObject({
+      lockfiles: [],
+      packageCount: 0,
+      advisoriesChecked: false,
+    })
+  })
+})
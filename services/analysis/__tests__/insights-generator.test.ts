@@ -0,0 +1,141 @@
+// @vitest-environment node
+/**
+ * Insights Generator Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { InsightsGenerator } from '../insights-generator'
+import type { LLMProvider } from '../llm/types'
+import type { RepositorySnapshot } from '../repository-snapshot'
+
+const README = `# Todo App
+
+A tiny todo list built with Next.js and Prisma, backed by PostgreSQL.
+
+## Installation
+
+\`npm install\`
+`
+
+const SNAPSHOT = {
+  owner: 'owner',
+  repo: 'todo',
+  repository: { description: null },
+  commitSha: null,
+  tree: {
+    sha: 'sha',
+    url: '',
+    truncated: false,
+    tree: [
+      { path: 'README.md', mode: '100644', type: 'blob', sha: '1', url: '' },
+      { path: 'package.json', mode: '100644', type: 'blob', sha: '2', url: '' },
+      { path: 'src', mode: '040000', type: 'tree', sha: '3', url: '' },
+    ],
+  },
+  readme: { path: 'README.md', content: README },
+  commits: [],
+  files: {
+    'README.md': README,
+    'package.json': '{"dependencies": {"next": "14.2.0"}}',
+  },
+} as unknown as RepositorySnapshot
+
+function providerReturning(...responses: string[]): LLMProvider {
+  const completeJSON = vi.fn()
+  for (const response of responses) {
+    completeJSON.mockResolvedValueOnce(response)
+  }
+  return { name: 'openai', model: 'gpt-4o-mini', completeJSON }
+}
+
+const VALID_RESPONSE = JSON.stringify({
+  purpose: { text: 'Todo list app', sources: ['readme#Todo App'] },
+  techStack: [
+    { text: 'Next.js', sources: ['readme#Todo App', 'manifest:package.json'] },
+    { text: 'Prisma', sources: ['made-up-source'] },
+  ],
+  features: [],
+  improvements: [{ text: 'Add tests', sources: ['tree'] }],
+  mistakes: [],
+})
+
+describe('InsightsGenerator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  function generatorWith(provider: LLMProvider) {
+    return new InsightsGenerator({ provider })
+  }
+
+  it('should send a labelled digest and keep only known sources', async () => {
+    const provider = providerReturning(VALID_RESPONSE)
+
+    const insights = await generatorWith(provider).generateInsights(SNAPSHOT)
+
+    const prompt = vi.mocked(provider.completeJSON).mock.calls[0][0].prompt
+    expect(prompt).toContain('[readme#Installation]')
+    expect(prompt).toContain('[manifest:package.json]')
+    expect(prompt).toContain('[tree]\nREADME.md\npackage.json\nsrc/')
+
+    expect(insights.techStack).toEqual(['Next.js', 'Prisma'])
+    expect(insights.sources.techStack).toEqual([
+      {
+        text: 'Next.js',
+        sources: ['readme#Todo App', 'manifest:package.json'],
+      },
+      { text: 'Prisma', sources: [] },
+    ])
+    expect(insights.sources.improvements[0].sources).toEqual(['tree'])
+  })
+
+  it('should retry with the validation error when the response is invalid', async () => {
+    const provider = providerReturning(
+      '{"purpose": "Todo list app", "techStack": ["Next.js"]}',
+      VALID_RESPONSE
+    )
+
+    const insights = await generatorWith(provider).generateInsights(SNAPSHOT)
+
+    expect(provider.completeJSON).toHaveBeenCalledTimes(2)
+    const retryPrompt = vi.mocked(provider.completeJSON).mock.calls[1][0].prompt
+    expect(retryPrompt).toContain(
+      'Your previous response was invalid: purpose:'
+    )
+    expect(insights.purpose).toBe('Todo list app')
+  })
+
+  it('should trim long lists instead of retrying', async () => {
+    const provider = providerReturning(
+      JSON.stringify({
+        ...JSON.parse(VALID_RESPONSE),
+        mistakes: Array.from({ length: 6 }, (_, i) => ({
+          text: `Mistake ${i + 1}`,
+          sources: [],
+        })),
+      })
+    )
+
+    const insights = await generatorWith(provider).generateInsights(SNAPSHOT)
+
+    expect(provider.completeJSON).toHaveBeenCalledTimes(1)
+    expect(insights.mistakes).toEqual([
+      'Mistake 1',
+      'Mistake 2',
+      'Mistake 3',
+      'Mistake 4',
+    ])
+  })
+
+  it('should fall back to heuristics after repeated invalid responses', async () => {
+    const provider = providerReturning('not json', 'not json', 'not json')
+
+    const insights = await generatorWith(provider).generateInsights(SNAPSHOT)
+
+    expect(provider.completeJSON).toHaveBeenCalledTimes(3)
+    expect(insights.techStack).toEqual(['Next.js', 'Prisma', 'PostgreSQL'])
+    expect(insights.sources.techStack[0].sources).toEqual(['readme#Todo App'])
+  })
+})
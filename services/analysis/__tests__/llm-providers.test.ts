@@ -0,0 +1,136 @@
+// @vitest-environment node
+/**
+ * LLM Provider Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { createLLMProvider, resolveLLMConfig } from '../llm/factory'
+import { HeuristicProvider } from '../llm/heuristic-provider'
+import { splitReadme } from '../repository-digest'
+import type { LLMCompletionRequest } from '../llm/types'
+
+const README = `# Todo App
+
+A tiny todo list built with Next.js and Prisma, backed by PostgreSQL.
+
+## Features
+
+- **Drag and drop** reordering
+- Offline sync
+
+## Installation
+
+\`npm install\`
+`
+
+function requestFor(
+  readme: string,
+  description: string | null = null
+): LLMCompletionRequest {
+  return {
+    system: '',
+    prompt: '',
+    context: {
+      repoName: 'todo',
+      description,
+      ...Object.fromEntries(splitReadme(readme).map((s) => [s.id, s.content])),
+    },
+    temperature: 0.7,
+    maxTokens: 2000,
+  }
+}
+
+describe('resolveLLMConfig', () => {
+  it('should default to heuristics without any API key', () => {
+    expect(resolveLLMConfig({}).provider).toBe('heuristic')
+  })
+
+  it('should prefer OpenAI, then Anthropic, when keys are set', () => {
+    expect(
+      resolveLLMConfig({ OPENAI_API_KEY: 'sk', ANTHROPIC_API_KEY: 'ak' })
+    ).toMatchObject({
+      provider: 'openai',
+      apiKey: 'sk',
+    })
+    expect(resolveLLMConfig({ ANTHROPIC_API_KEY: 'ak' })).toMatchObject({
+      provider: 'anthropic',
+      apiKey: 'ak',
+    })
+  })
+
+  it('should only use LLM_BASE_URL for the local provider', () => {
+    const env = { LLM_BASE_URL: 'http://gpu-box:8080/v1', OPENAI_API_KEY: 'sk' }
+
+    expect(resolveLLMConfig(env).baseUrl).toBeUndefined()
+    expect(resolveLLMConfig({ ...env, LLM_PROVIDER: 'local' }).baseUrl).toBe(
+      'http://gpu-box:8080/v1'
+    )
+  })
+
+  it('should honor an explicit local provider', () => {
+    expect(
+      resolveLLMConfig({ LLM_PROVIDER: 'local', LLM_MODEL: 'qwen2.5-coder' })
+    ).toMatchObject({ provider: 'local', model: 'qwen2.5-coder' })
+  })
+})
+
+describe('createLLMProvider', () => {
+  it('should fall back to heuristics when the selected provider has no key', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(createLLMProvider({ provider: 'openai' }).name).toBe('heuristic')
+    expect(createLLMProvider({ provider: 'anthropic' }).name).toBe('heuristic')
+  })
+
+  it('should create a local provider without a key', () => {
+    const provider = createLLMProvider({ provider: 'local' })
+
+    expect(provider.name).toBe('local')
+    expect(provider.model).toBe('llama3.1')
+  })
+})
+
+describe('HeuristicProvider', () => {
+  it('should derive sourced insights from the README deterministically', async () => {
+    const provider = new HeuristicProvider()
+
+    const first = JSON.parse(await provider.completeJSON(requestFor(README)))
+    const second = JSON.parse(await provider.completeJSON(requestFor(README)))
+
+    expect(first).toEqual(second)
+    expect(first.purpose).toEqual({
+      text: 'A tiny todo list built with Next.js and Prisma, backed by PostgreSQL.',
+      sources: ['readme#Todo App'],
+    })
+    expect(first.techStack.map((item: { text: string }) => item.text)).toEqual([
+      'Next.js',
+      'Prisma',
+      'PostgreSQL',
+    ])
+    expect(first.features).toEqual([
+      { text: 'Drag and drop reordering', sources: ['readme#Features'] },
+      { text: 'Offline sync', sources: ['readme#Features'] },
+    ])
+    expect(
+      first.improvements.map((item: { text: string }) => item.text)
+    ).toEqual([
+      'Add usage examples to the README',
+      'Document how to run the test suite',
+      'Add contribution guidelines',
+      'State the license in the README',
+    ])
+  })
+
+  it('should prefer the repository description as purpose', async () => {
+    const insights = JSON.parse(
+      await new HeuristicProvider().completeJSON(
+        requestFor(README, 'Todos, but fast')
+      )
+    )
+
+    expect(insights.purpose).toEqual({
+      text: 'Todos, but fast',
+      sources: ['description'],
+    })
+  })
+})
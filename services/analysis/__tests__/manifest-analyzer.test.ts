@@ -0,0 +1,353 @@
+/**
+ * Manifest Analyzer Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  ManifestAnalyzer,
+  parseManifest,
+  summarizeManifests,
+  type ParsedManifest,
+} from '../manifest-analyzer'
+import type { RepositorySnapshot } from '../repository-snapshot'
+import type { GitHubTree } from '@/types/github'
+
+function parse(path: string, content: string): ParsedManifest {
+  const manifest = parseManifest(path, content)
+  if (!manifest) throw new Error(`Failed to parse ${path}`)
+  return manifest
+}
+
+function treeOf(...paths: string[]): GitHubTree {
+  return {
+    tree: paths.map((path) => ({ path, type: 'blob' })),
+  } as unknown as GitHubTree
+}
+
+describe('parseManifest', () => {
+  it('should parse package.json dependencies with versions', () => {
+    const manifest = parse(
+      'package.json',
+      JSON.stringify({
+        private: true,
+        engines: { node: '>=18' },
+        dependencies: { next: '^14.2.0', react: '^18.3.1' },
+        devDependencies: { vitest: '^1.6.0' },
+      })
+    )
+
+    expect(manifest.dependencies).toEqual([
+      {
+        name: 'next',
+        version: '^14.2.0',
+        ecosystem: 'npm',
+        dev: false,
+        manifest: 'package.json',
+      },
+      {
+        name: 'react',
+        version: '^18.3.1',
+        ecosystem: 'npm',
+        dev: false,
+        manifest: 'package.json',
+      },
+      {
+        name: 'vitest',
+        version: '^1.6.0',
+        ecosystem: 'npm',
+        dev: true,
+        manifest: 'package.json',
+      },
+    ])
+    expect(manifest).toMatchObject({
+      runtime: 'node',
+      runtimeVersion: '>=18',
+      library: false,
+    })
+  })
+
+  it('should parse requirements.txt and normalize names', () => {
+    const manifest = parse(
+      'requirements.txt',
+      [
+        '# web',
+        'Django>=4.2,<5  # LTS',
+        'python_dotenv==1.0.1',
+        'requests[socks]; python_version > "3.8"',
+        '-r dev.txt',
+        'git+https://github.com/org/pkg.git',
+      ].join('\n')
+    )
+
+    expect(
+      manifest.dependencies.map(({ name, version }) => [name, version])
+    ).toEqual([
+      ['django', '>=4.2,<5'],
+      ['python-dotenv', '==1.0.1'],
+      ['requests', null],
+    ])
+  })
+
+  it('should parse PEP 621 and Poetry pyproject.toml', () => {
+    const pep621 = parse(
+      'pyproject.toml',
+      `[project]
+name = "tool"
+requires-python = ">=3.10"
+dependencies = [
+  "fastapi>=0.110",  # api
+  "uvicorn[standard]",
+]
+
+[project.optional-dependencies]
+test = ["pytest>=8"]
+`
+    )
+    const poetry = parse(
+      'pyproject.toml',
+      `[tool.poetry.dependencies]
+python = "^3.11"
+Flask = "^3.0"
+sqlalchemy = { version = "^2.0", extras = ["asyncio"] }
+
+[tool.poetry.group.dev.dependencies]
+ruff = "^0.4"
+
+[tool.poetry.scripts]
+tool = "tool.cli:main"
+`
+    )
+
+    expect(pep621.runtimeVersion).toBe('>=3.10')
+    expect(pep621.dependencies.map(({ name, dev }) => [name, dev])).toEqual([
+      ['fastapi', false],
+      ['uvicorn', false],
+      ['pytest', true],
+    ])
+    expect(poetry).toMatchObject({ runtimeVersion: '^3.11', executable: true })
+    expect(
+      poetry.dependencies.map(({ name, version, dev }) => [name, version, dev])
+    ).toEqual([
+      ['flask', '^3.0', false],
+      ['sqlalchemy', '^2.0', false],
+      ['ruff', '^0.4', true],
+    ])
+  })
+
+  it('should parse Cargo.toml dependency tables', () => {
+    const manifest = parse(
+      'Cargo.toml',
+      `[package]
+name = "server"
+rust-version = "1.75"
+
+[dependencies]
+axum = "0.7"
+tokio = { version = "1", features = ["full"] }
+serde.workspace = true
+
+[dependencies.sqlx]
+version = "0.7"
+
+[dev-dependencies]
+insta = "1.39"
+`
+    )
+
+    expect(manifest.runtimeVersion).toBe('1.75')
+    expect(
+      manifest.dependencies.map(({ name, version, dev }) => [
+        name,
+        version,
+        dev,
+      ])
+    ).toEqual([
+      ['axum', '0.7', false],
+      ['tokio', '1', false],
+      ['sqlx', '0.7', false],
+      ['insta', '1.39', true],
+    ])
+  })
+
+  it('should parse direct go.mod requirements', () => {
+    const manifest = parse(
+      'go.mod',
+      `module example.com/api
+
+go 1.22
+
+require github.com/labstack/echo/v4 v4.12.0
+
+require (
+	github.com/spf13/cobra v1.8.0
+	golang.org/x/sys v0.20.0 // indirect
+)
+`
+    )
+
+    expect(manifest.runtimeVersion).toBe('1.22')
+    expect(
+      manifest.dependencies.map(({ name, version }) => [name, version])
+    ).toEqual([
+      ['github.com/labstack/echo/v4', 'v4.12.0'],
+      ['github.com/spf13/cobra', 'v1.8.0'],
+    ])
+  })
+
+  it('should parse Gemfile groups and composer.json', () => {
+    const gemfile = parse(
+      'Gemfile',
+      `source "https://rubygems.org"
+ruby "3.3.0"
+
+gem "rails", "~> 7.1"
+gem "pg"
+
+group :development, :test do
+  gem "rspec-rails"
+end
+`
+    )
+    const composer = parse(
+      'composer.json',
+      JSON.stringify({
+        require: { php: '^8.2', 'ext-json': '*', 'laravel/framework': '^11.0' },
+        'require-dev': { 'phpunit/phpunit': '^11.0' },
+      })
+    )
+
+    expect(gemfile.runtimeVersion).toBe('3.3.0')
+    expect(
+      gemfile.dependencies.map(({ name, version, dev }) => [name, version, dev])
+    ).toEqual([
+      ['rails', '~> 7.1', false],
+      ['pg', null, false],
+      ['rspec-rails', null, true],
+    ])
+    expect(composer.runtimeVersion).toBe('^8.2')
+    expect(composer.dependencies.map(({ name }) => name)).toEqual([
+      'laravel/framework',
+      'phpunit/phpunit',
+    ])
+  })
+
+  it('should reject malformed JSON manifests', () => {
+    expect(parseManifest('package.json', '{ not json')).toBeNull()
+  })
+})
+
+describe('summarizeManifests', () => {
+  it('should prefer meta-frameworks over the libraries they build on', () => {
+    const analysis = summarizeManifests([
+      parse(
+        'package.json',
+        JSON.stringify({ dependencies: { react: '18', next: '14' } })
+      ),
+    ])
+
+    expect(analysis).toMatchObject({
+      framework: 'nextjs',
+      runtime: 'node',
+      projectType: 'web',
+    })
+  })
+
+  it('should ignore frameworks that are only development dependencies', () => {
+    const analysis = summarizeManifests([
+      parse(
+        'package.json',
+        JSON.stringify({
+          main: 'dist/index.js',
+          peerDependencies: {},
+          devDependencies: { react: '18' },
+        })
+      ),
+    ])
+
+    expect(analysis).toMatchObject({ framework: null, projectType: 'library' })
+  })
+
+  it('should ignore frameworks that are only peer dependencies', () => {
+    const analysis = summarizeManifests([
+      parse(
+        'package.json',
+        JSON.stringify({
+          main: 'dist/index.js',
+          peerDependencies: { react: '>=18' },
+        })
+      ),
+    ])
+
+    expect(analysis).toMatchObject({ framework: null, projectType: 'library' })
+    expect(analysis.dependencies.map((dependency) => dependency.name)).toEqual([
+      'react',
+    ])
+  })
+
+  it('should detect frameworks that are also peer dependencies', () => {
+    const analysis = summarizeManifests([
+      parse(
+        'package.json',
+        JSON.stringify({
+          dependencies: { next: '14' },
+          peerDependencies: { next: '>=14' },
+        })
+      ),
+    ])
+
+    expect(analysis.framework).toBe('nextjs')
+  })
+
+  it('should take the runtime from the framework ecosystem', () => {
+    const analysis = summarizeManifests([
+      parse(
+        'package.json',
+        JSON.stringify({ devDependencies: { prettier: '3' } })
+      ),
+      parse('requirements.txt', 'fastapi==0.111.0'),
+    ])
+
+    expect(analysis).toMatchObject({
+      manifests: ['package.json', 'requirements.txt'],
+      framework: 'fastapi',
+      runtime: 'python',
+      projectType: 'api',
+    })
+  })
+
+  it('should infer command line tools from the tree and CLI packages', () => {
+    const rust = summarizeManifests(
+      [parse('Cargo.toml', '[package]\nname = "tool"\n')],
+      treeOf('Cargo.toml', 'src/main.rs')
+    )
+    const go = summarizeManifests([
+      parse('go.mod', 'module x\n\nrequire github.com/spf13/cobra v1.8.0\n'),
+    ])
+
+    expect(rust.projectType).toBe('cli')
+    expect(go.projectType).toBe('cli')
+  })
+})
+
+describe('ManifestAnalyzer', () => {
+  it('should only read manifests present at the root', () => {
+    const analyzer = new ManifestAnalyzer()
+    const tree = treeOf('go.mod', 'web/package.json')
+
+    const analysis = analyzer.analyzeManifests({
+      tree,
+      files: {
+        'go.mod':
+          'module x\n\ngo 1.22\n\nrequire github.com/gin-gonic/gin v1.10.0\n',
+        'web/package.json': '{"dependencies": {"next": "14.0.0"}}',
+      },
+    } as unknown as RepositorySnapshot)
+
+    expect(analyzer.selectFiles(tree)).toEqual(['go.mod'])
+    expect(analysis).toMatchObject({
+      framework: 'gin',
+      runtime: 'go',
+      runtimeVersion: '1.22',
+    })
+  })
+})
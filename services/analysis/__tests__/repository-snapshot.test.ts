@@ -0,0 +1,108 @@
+/**
+ * Repository Snapshot Unit Tests
+ *
+ * Stages run from a snapshot fixture, without a GitHub client
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  loadRepositorySnapshot,
+  snapshotFile,
+  README_FILES,
+} from '../repository-snapshot'
+import type { RepositorySnapshot } from '../repository-snapshot'
+import { AIDetector } from '../ai-detector'
+import { ManifestAnalyzer } from '../manifest-analyzer'
+import { TestQualityAnalyzer } from '../test-quality'
+import type { RepositorySource } from '@/services/integrations/repository-source'
+import { NotFoundError } from '@/lib/errors/github-errors'
+import fixture from './fixtures/nextjs-app.snapshot.json'
+
+const SNAPSHOT = fixture as unknown as RepositorySnapshot
+
+function createSource(files: Record<string, string>) {
+  return {
+    getRepository: vi.fn().mockResolvedValue(SNAPSHOT.repository),
+    getRepositoryTree: vi.fn().mockResolvedValue(SNAPSHOT.tree),
+    getFileContent: vi.fn(
+      async (_owner: string, _repo: string, path: string) => {
+        if (!(path in files)) throw new NotFoundError(path)
+        return files[path]
+      }
+    ),
+    getCommitHistory: vi.fn().mockResolvedValue(SNAPSHOT.commits),
+  }
+}
+
+describe('loadRepositorySnapshot', () => {
+  it('should fetch the tree, commits and each selected file once', async () => {
+    const source = createSource(SNAPSHOT.files)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const snapshot = await loadRepositorySnapshot(
+      source as RepositorySource,
+      'octo',
+      'todo-app',
+      {
+        commitSha: SNAPSHOT.commitSha,
+        selectFiles: () => [
+          'package.json',
+          'README.md',
+          'package.json',
+          'missing.json',
+        ],
+      }
+    )
+
+    expect(source.getRepositoryTree).toHaveBeenCalledTimes(1)
+    expect(source.getCommitHistory).toHaveBeenCalledTimes(1)
+    expect(source.getFileContent.mock.calls.map(([, , path]) => path)).toEqual([
+      'README.md',
+      'package.json',
+      'missing.json',
+    ])
+    expect(snapshot.readme).toEqual(SNAPSHOT.readme)
+    expect(snapshot.commitSha).toBe(SNAPSHOT.commitSha)
+    expect(snapshotFile(snapshot, 'package.json')).toBe(
+      SNAPSHOT.files['package.json']
+    )
+    expect(snapshotFile(snapshot, 'missing.json')).toBeNull()
+  })
+
+  it('should try README names in turn without a tree', async () => {
+    const source = createSource({ readme: '# Repo' })
+    source.getRepositoryTree.mockRejectedValue(new Error('tree too large'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const snapshot = await loadRepositorySnapshot(
+      source as RepositorySource,
+      'octo',
+      'todo-app',
+      { selectFiles: () => ['package.json'] }
+    )
+
+    expect(snapshot.tree).toBeNull()
+    expect(snapshot.readme).toEqual({ path: 'readme', content: '# Repo' })
+    expect(source.getFileContent).toHaveBeenCalledTimes(README_FILES.length)
+  })
+})
+
+describe('analysis stages on a snapshot fixture', () => {
+  it('should analyze the fixture without fetching', () => {
+    expect(new ManifestAnalyzer().analyzeManifests(SNAPSHOT)).toMatchObject({
+      manifests: ['package.json'],
+      framework: 'nextjs',
+      runtime: 'node',
+    })
+
+    const aiDetection = new AIDetector().detectAIUsage(SNAPSHOT)
+    expect(aiDetection.detected).toBe(true)
+    expect(aiDetection.provider).toBe('cursor')
+
+    expect(new TestQualityAnalyzer().analyzeTests(SNAPSHOT)).toMatchObject({
+      testFiles: 1,
+      testCases: 1,
+      testConfigs: ['vitest.config.ts'],
+    })
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * Scoring Profiles Unit Tests
+ */
+
+import { beforeEach, describe, it, expect, vi } from 'vitest'
+import {
+  SCORING_PROFILES,
+  getScoringProfile,
+  runProfileChecks,
+  selectScoringProfile,
+  type ProfileCheckContext,
+} from '../scoring-profiles'
+import type { ManifestDependency } from '../manifest-analyzer'
+import type { GitHubTree } from '@/types/github'
+
+const { headPublicUrl } = vi.hoisted(() => ({ headPublicUrl: vi.fn() }))
+
+vi.mock('@/lib/public-url', () => ({ headPublicUrl }))
+
+function treeOf(...paths: string[]): GitHubTree {
+  return {
+    tree: paths.map((path) => ({ path, type: 'blob', size: 100 })),
+  } as unknown as GitHubTree
+}
+
+function createContext(
+  overrides: Partial<ProfileCheckContext> = {},
+  files: Record<string, string> = {}
+): ProfileCheckContext {
+  return {
+    tree: treeOf(...Object.keys(files)),
+    dependencies: [],
+    deployedUrl: null,
+    registry: null,
+    readFile: (path) => files[path] ?? null,
+    ...overrides,
+  }
+}
+
+const torch: ManifestDependency = {
+  name: 'torch',
+  version: '>=2.0',
+  ecosystem: 'pypi',
+  dev: false,
+  manifest: 'requirements.txt',
+}
+
+describe('selectScoringProfile', () => {
+  it('should follow the project type unless the owner overrides it', () => {
+    const tree = treeOf('package.json')
+
+    expect(
+      selectScoringProfile({ projectType: 'cli', tree, dependencies: [] })
+    ).toBe('cli')
+    expect(
+      selectScoringProfile({
+        override: 'library',
+        projectType: 'cli',
+        tree,
+        dependencies: [],
+      })
+    ).toBe('library')
+    expect(
+      selectScoringProfile({
+        override: 'unknown',
+        projectType: 'mobile',
+        tree,
+        dependencies: [],
+      })
+    ).toBe('default')
+  })
+
+  it('should pick the ml profile for notebooks or ML packages', () => {
+    expect(
+      selectScoringProfile({
+        projectType: null,
+        tree: treeOf('notebooks/explore.ipynb'),
+        dependencies: [],
+      })
+    ).toBe('ml')
+    expect(
+      selectScoringProfile({
+        projectType: null,
+        tree: treeOf('train.py'),
+        dependencies: [torch],
+      })
+    ).toBe('ml')
+  })
+})
+
+describe('scoring profiles', () => {
+  it('should weight every profile to 100 points plus security', () => {
+    for (const name of SCORING_PROFILES) {
+      const { weights, checks } = getScoringProfile(name)
+      const total =
+        Object.values(weights).reduce((sum, weight) => sum + weight, 0) +
+        checks.reduce((sum, check) => sum + check.points, 0)
+
+      expect(total - weights.security).toBe(100)
+    }
+  })
+})
+
+describe('runProfileChecks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should check that the deployed web app is live', async () => {
+    headPublicUrl.mockResolvedValue(200)
+
+    const result = await runProfileChecks(
+      getScoringProfile('web'),
+      createContext({ deployedUrl: 'https://app.example.com' })
+    )
+
+    expect(headPublicUrl).toHaveBeenCalledWith(
+      'https://app.example.com',
+      expect.any(Number)
+    )
+    expect(result).toEqual({
+      score: 10,
+      maxScore: 15,
+      earned: ['Live at app.example.com'],
+      missed: ['Environment template (.env.example)'],
+    })
+  })
+
+  it('should skip the registry check when lookups are disabled', async () => {
+    const result = await runProfileChecks(
+      getScoringProfile('library'),
+      createContext(
+        {},
+        {
+          'package.json': JSON.stringify({
+            name: 'tiny-lib',
+            version: '1.0.0',
+            description: 'A tiny library',
+            license: 'MIT',
+            main: 'dist/index.js',
+          }),
+        }
+      )
+    )
+
+    expect(result).toEqual({
+      score: 0,
+      maxScore: 5,
+      earned: [],
+      missed: ['package.json metadata: repository'],
+    })
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * Test Quality Analyzer Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { TestQualityAnalyzer, countTestCases } from '../test-quality'
+import type { RepositorySnapshot } from '../repository-snapshot'
+import type { GitHubTree } from '@/types/github'
+
+function treeOf(...paths: string[]): GitHubTree {
+  return {
+    tree: paths.map((path) => ({ path, type: 'blob' })),
+  } as unknown as GitHubTree
+}
+
+describe('countTestCases', () => {
+  it('should count test cases per framework', () => {
+    expect(
+      countTestCases(
+        'src/math.test.ts',
+        [
+          "import { describe, it, expect } from 'vitest'",
+          "describe('add', () => {",
+          "  it('adds', () => {})",
+          "  it.each([[1, 2]])('adds %i', () => {})",
+          "  test('subtracts', () => {})",
+          '})',
+        ].join('\n')
+      )
+    ).toEqual({ framework: 'vitest', cases: 3 })
+
+    expect(
+      countTestCases(
+        'tests/test_models.py',
+        'def test_create():\n    pass\n\nasync def test_delete():\n    pass\n\ndef helper():\n    pass'
+      )
+    ).toEqual({ framework: 'pytest', cases: 2 })
+
+    expect(
+      countTestCases(
+        'pkg/store_test.go',
+        'func TestGet(t *testing.T) {}\nfunc TestPut(t *testing.T) {}\nfunc BenchmarkGet(b *testing.B) {}'
+      )
+    ).toEqual({ framework: 'go', cases: 2 })
+  })
+
+  it('should find no test cases in empty test files', () => {
+    expect(
+      countTestCases('src/app.test.js', "describe('app', () => {})")
+    ).toEqual({ framework: 'jest', cases: 0 })
+  })
+})
+
+describe('TestQualityAnalyzer', () => {
+  it('should measure test cases, configs and tested modules', () => {
+    const analyzer = new TestQualityAnalyzer()
+    const tree = treeOf(
+      'vitest.config.ts',
+      'src/index.ts',
+      'src/math.ts',
+      'src/format.ts',
+      'src/math.test.ts',
+      'src/empty.test.ts',
+      'node_modules/lib/lib.test.js'
+    )
+
+    const metrics = analyzer.analyzeTests({
+      tree,
+      files: {
+        'vitest.config.ts':
+          "export default { test: { coverage: { provider: 'v8' } } }",
+        'src/math.test.ts':
+          "import { it } from 'vitest'\nit('adds', () => {})\nit('subtracts', () => {})",
+        'src/empty.test.ts': '// TODO',
+      },
+    } as unknown as RepositorySnapshot)
+
+    expect(analyzer.selectFiles(tree)).toEqual([
+      'vitest.config.ts',
+      'src/math.test.ts',
+      'src/empty.test.ts',
+    ])
+
+    expect(metrics).toEqual({
+      testFiles: 2,
+      filesInspected: 2,
+      testCases: 2,
+      estimatedTestCases: 2,
+      emptyTestFiles: 1,
+      frameworks: { vitest: 2 },
+      testConfigs: ['vitest.config.ts'],
+      coverageConfigs: ['vitest.config.ts'],
+      // index.ts is an entry point; empty.test.ts has no module
+      sourceModules: 2,
+      testedModules: 1,
+      testedRatio: 0.5,
+    })
+  })
+})
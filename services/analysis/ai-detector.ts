@@ -3,25 +3,27 @@
  *
  * Detects AI tool usage in repositories by analyzing:
  * - File names and patterns (.cursor, .aider, CLAUDE.md, etc.)
- * - Commit messages for AI tool signatures
+ * - Commit trailers and messages for AI tool signatures
  * - README content for AI tool mentions
+ * - Config file contents (dependencies, recommended editor extensions)
+ * - Agent config files (CLAUDE.md, .cursorrules, ...), parsed and validated
  *
- * Supports detection of: Claude, GPT/ChatGPT, GitHub Copilot, Cursor, Aider, Windsurf
+ * Tools are described by detector plugins in `./detectors`; see
+ * `BUILT_IN_DETECTORS` for the supported set.
  */
 
-import { GitHubClient } from '@/services/integrations/github-client'
+import { detectorRegistry, DetectorRegistry } from './detectors/registry'
+import { parseAgentConfig } from './detectors/agent-config'
+import type {
+  AgentConfigEvidence,
+  AIProvider,
+  AIToolDetector,
+  DetectorMatch,
+} from './detectors/types'
+import { blobPaths, snapshotFile, type RepositorySnapshot } from './repository-snapshot'
+import type { GitHubCommit, GitHubTree } from '@/types/github'
 
-/**
- * AI provider types
- */
-export type AIProvider =
-  | 'claude'
-  | 'gpt'
-  | 'copilot'
-  | 'cursor'
-  | 'aider'
-  | 'windsurf'
-  | 'unknown'
+export type { AgentConfigEvidence, AIProvider } from './detectors/types'
 
 /**
  * AI detection evidence
@@ -30,6 +32,17 @@ export interface AIEvidence {
   files: string[]
   commits: string[]
   readme: string[]
+  config: string[]
+  agentConfigs: AgentConfigEvidence[]
+}
+
+/**
+ * Confidence and evidence attributed to a single provider
+ */
+export interface AIProviderAttribution {
+  provider: AIProvider
+  confidence: number // 0.0 to 1.0
+  evidence: AIEvidence
 }
 
 /**
@@ -37,129 +50,76 @@ export interface AIEvidence {
  */
 export interface AIDetectionResult {
   detected: boolean
-  provider: AIProvider | null
+  provider: AIProvider | null // Highest ranked provider
+  providers: AIProviderAttribution[] // All attributed providers, highest confidence first
   confidence: number // 0.0 to 1.0
   evidence: AIEvidence
 }
 
 /**
- * AI tool detection patterns
+ * Maximum number of config files inspected for content checks
+ */
+const MAX_CONFIG_FILES = 10
+
+/**
+ * Maximum number of agent config files parsed
  */
-const AI_PATTERNS = {
-  claude: {
-    files: [
-      'claude.md',
-      'CLAUDE.md',
-      '.claude',
-      'claude-config.json',
-      '.anthropic',
-    ],
-    keywords: ['claude', 'anthropic', 'claude-3', 'claude 3', 'sonnet', 'opus'],
-    commitPatterns: [
-      /claude/i,
-      /anthropic/i,
-      /claude\s*(3|sonnet|opus|haiku)/i,
-    ],
-  },
-  gpt: {
-    files: [
-      '.openai',
-      'chatgpt-config.json',
-      '.gpt',
-      'openai-config.json',
-    ],
-    keywords: [
-      'openai',
-      'gpt-4',
-      'gpt-3',
-      'chatgpt',
-      'gpt',
-      'chat gpt',
-      'dalle',
-      'dall-e',
-    ],
-    commitPatterns: [
-      /gpt-?[0-9]/i,
-      /chatgpt/i,
-      /openai/i,
-      /chat\s*gpt/i,
-    ],
-  },
-  copilot: {
-    files: ['.copilot', 'copilot-config.json'],
-    keywords: ['copilot', 'github copilot', 'gh copilot'],
-    commitPatterns: [/copilot/i, /github\s*copilot/i],
-  },
-  cursor: {
-    files: [
-      '.cursor',
-      '.cursorrc',
-      'cursor.ai',
-      '.cursor.json',
-      '.cursorrules',
-    ],
-    keywords: ['cursor', 'cursor.ai', 'cursor ai', 'cursor ide'],
-    commitPatterns: [/cursor/i, /cursor\.ai/i, /cursor\s*ai/i],
-  },
-  aider: {
-    files: [
-      '.aider',
-      '.aider.conf',
-      'aider.conf.yml',
-      '.aider.conf.yml',
-      '.aider-conventions.md',
-    ],
-    keywords: ['aider', 'aider.chat', 'aider ai', 'aider-chat'],
-    commitPatterns: [/aider/i, /aider\.chat/i, /aider\s*ai/i],
-  },
-  windsurf: {
-    files: [
-      '.windsurf',
-      'windsurf.config.json',
-      '.windsurf.json',
-      '.windsurfrules',
-    ],
-    keywords: ['windsurf', 'windsurf ai', 'windsurf ide'],
-    commitPatterns: [/windsurf/i, /windsurf\s*ai/i],
-  },
-} as const
+const MAX_AGENT_CONFIG_FILES = 10
+
+/**
+ * Minimum per-provider confidence for a provider to be attributed
+ * A single README mention or commit message is not enough on its own
+ */
+const MIN_PROVIDER_CONFIDENCE = 0.1
 
 /**
  * AI Tool Detector
  */
 export class AIDetector {
-  constructor(private githubClient: GitHubClient) {}
+  constructor(private registry: DetectorRegistry = detectorRegistry) {}
+
+  /**
+   * Files the detector inspects: config and agent config files
+   *
+   * @param tree - Repository tree
+   * @returns Paths to load into the snapshot
+   */
+  selectFiles(tree: GitHubTree): string[] {
+    return [
+      ...this.configFiles(tree),
+      ...this.agentConfigFiles(tree).map(({ path }) => path),
+    ]
+  }
 
   /**
    * Detect AI tool usage in a repository
    *
-   * @param owner - Repository owner
-   * @param repo - Repository name
+   * @param snapshot - Repository snapshot
    * @returns Detection result with provider, confidence, and evidence
    */
-  async detectAIUsage(owner: string, repo: string): Promise<AIDetectionResult> {
+  detectAIUsage(snapshot: RepositorySnapshot): AIDetectionResult {
     try {
       // Gather evidence from multiple sources
-      const [fileEvidence, commitEvidence, readmeEvidence] = await Promise.all([
-        this.detectFromFiles(owner, repo),
-        this.detectFromCommits(owner, repo),
-        this.detectFromReadme(owner, repo),
-      ])
+      const matches = [
+        ...this.detectFromFiles(snapshot.tree),
+        ...this.detectFromCommits(snapshot.commits),
+        ...this.detectFromReadme(snapshot.readme?.content ?? ''),
+        ...this.detectFromConfig(snapshot),
+        ...this.detectFromAgentConfigs(snapshot),
+      ]
 
       // Combine evidence
-      const evidence: AIEvidence = {
-        files: fileEvidence.files,
-        commits: commitEvidence.commits,
-        readme: readmeEvidence.mentions,
-      }
+      const evidence = collectEvidence(matches)
 
-      // Determine provider and confidence
-      const provider = this.determineProvider(evidence)
-      const confidence = this.calculateConfidence(evidence, provider)
+      // Rank providers and calculate overall confidence
+      const confidence = this.calculateConfidence(evidence)
+      const detected = confidence > 0.3 // 30% threshold for detection
+      const providers = detected ? this.rankProviders(matches) : []
 
       return {
-        detected: confidence > 0.3, // 30% threshold for detection
-        provider: confidence > 0.3 ? provider : null,
+        detected,
+        provider: detected ? providers[0]?.provider ?? 'unknown' : null,
+        providers,
         confidence,
         evidence,
       }
@@ -169,8 +129,9 @@ export class AIDetector {
       return {
         detected: false,
         provider: null,
+        providers: [],
         confidence: 0,
-        evidence: { files: [], commits: [], readme: [] },
+        evidence: { files: [], commits: [], readme: [], config: [], agentConfigs: [] },
       }
     }
   }
@@ -179,192 +140,224 @@ export class AIDetector {
    * Detect AI usage from repository files
    * @private
    */
-  private async detectFromFiles(
-    owner: string,
-    repo: string
-  ): Promise<{ files: string[] }> {
-    try {
-      const tree = await this.githubClient.getRepositoryTree(owner, repo)
-      const files: string[] = []
-
-      // Check each file path against AI patterns
-      for (const item of tree.tree) {
-        const path = item.path.toLowerCase()
-
-        // Check against all AI tool patterns
-        for (const [provider, patterns] of Object.entries(AI_PATTERNS)) {
-          if (patterns.files.some((pattern) => path.includes(pattern.toLowerCase()))) {
-            files.push(`${item.path} (${provider})`)
-          }
+  private detectFromFiles(tree: GitHubTree | null): DetectorMatch[] {
+    if (!tree) return []
+
+    const matches: DetectorMatch[] = []
+    const detectors = this.registry.list()
+
+    // Check each file path against every detector's file patterns
+    for (const item of tree.tree) {
+      // Agent config files only count once validated, see detectFromAgentConfigs
+      if (isAgentConfigPath(detectors, item.path)) continue
+
+      for (const detector of detectors) {
+        if (detector.files?.some((pattern) => pattern.test(item.path))) {
+          matches.push({
+            provider: detector.provider,
+            source: 'files',
+            evidence: `${item.path} (${detector.provider})`,
+          })
         }
       }
-
-      return { files }
-    } catch (error) {
-      console.error('File detection failed:', error)
-      return { files: [] }
     }
+
+    return matches
   }
 
   /**
-   * Detect AI usage from commit messages
+   * Detect AI usage from commit trailers and messages
    * @private
    */
-  private async detectFromCommits(
-    owner: string,
-    repo: string
-  ): Promise<{ commits: string[] }> {
-    try {
-      // Fetch recent commits (last 100)
-      const commits = await this.githubClient.getCommitHistory(owner, repo, {
-        per_page: 100,
-      })
-
-      const aiCommits: string[] = []
-
-      // Check commit messages against patterns
-      for (const commit of commits) {
-        const message = commit.commit.message.toLowerCase()
-
-        // Check against all AI tool patterns
-        for (const [provider, patterns] of Object.entries(AI_PATTERNS)) {
-          if (patterns.commitPatterns.some((pattern) => pattern.test(message))) {
-            aiCommits.push(
-              `${commit.sha.substring(0, 7)}: ${commit.commit.message.substring(0, 60)} (${provider})`
-            )
-            break // Only count once per commit
-          }
-        }
+  private detectFromCommits(commits: GitHubCommit[]): DetectorMatch[] {
+    const matches: DetectorMatch[] = []
+
+    for (const commit of commits) {
+      const message = commit.commit.message
+
+      // Trailers are the strongest commit signal, so check them first
+      const detector =
+        this.registry
+          .list()
+          .find((d) => d.commitTrailers?.some((pattern) => pattern.test(message))) ??
+        this.registry
+          .list()
+          .find((d) => d.commitPatterns?.some((pattern) => pattern.test(message)))
+
+      // Only count once per commit
+      if (detector) {
+        matches.push({
+          provider: detector.provider,
+          source: 'commits',
+          evidence: `${commit.sha.substring(0, 7)}: ${message.substring(0, 60)} (${detector.provider})`,
+        })
       }
-
-      return { commits: aiCommits }
-    } catch (error) {
-      console.error('Commit detection failed:', error)
-      return { commits: [] }
     }
+
+    return matches
   }
 
   /**
    * Detect AI usage from README content
    * @private
    */
-  private async detectFromReadme(
-    owner: string,
-    repo: string
-  ): Promise<{ mentions: string[] }> {
-    try {
-      let readmeContent = ''
-
-      // Try to fetch README (try multiple common names)
-      const readmeFiles = ['README.md', 'readme.md', 'README', 'readme']
+  private detectFromReadme(readmeContent: string): DetectorMatch[] {
+    if (!readmeContent) {
+      return []
+    }
 
-      for (const filename of readmeFiles) {
-        try {
-          readmeContent = await this.githubClient.getFileContent(owner, repo, filename)
-          break
-        } catch {
-          continue
+    const matches: DetectorMatch[] = []
+    const lowerContent = readmeContent.toLowerCase()
+
+    // Check against every detector's keywords
+    for (const detector of this.registry.list()) {
+      for (const keyword of detector.readmeKeywords ?? []) {
+        if (lowerContent.includes(keyword.toLowerCase())) {
+          matches.push({
+            provider: detector.provider,
+            source: 'readme',
+            evidence: `${keyword} (${detector.provider})`,
+          })
         }
       }
+    }
 
-      if (!readmeContent) {
-        return { mentions: [] }
-      }
-
-      const mentions: string[] = []
-      const lowerContent = readmeContent.toLowerCase()
+    return matches
+  }
 
-      // Check against all AI tool keywords
-      for (const [provider, patterns] of Object.entries(AI_PATTERNS)) {
-        for (const keyword of patterns.keywords) {
-          if (lowerContent.includes(keyword.toLowerCase())) {
-            mentions.push(`${keyword} (${provider})`)
-          }
+  /**
+   * Detect AI usage from config file contents
+   * @private
+   */
+  private detectFromConfig(snapshot: RepositorySnapshot): DetectorMatch[] {
+    if (!snapshot.tree) return []
+
+    const signatures = this.configSignatures()
+    const matches: DetectorMatch[] = []
+
+    for (const path of this.configFiles(snapshot.tree)) {
+      const content = snapshotFile(snapshot, path)
+      if (content === null) continue
+
+      for (const { detector, signature } of signatures) {
+        if (signature.path.test(path) && signature.pattern.test(content)) {
+          matches.push({
+            provider: detector.provider,
+            source: 'config',
+            evidence: `${path}: ${signature.description} (${detector.provider})`,
+          })
         }
       }
-
-      return { mentions }
-    } catch (error) {
-      console.error('README detection failed:', error)
-      return { mentions: [] }
     }
+
+    return matches
   }
 
   /**
-   * Determine the most likely AI provider from evidence
+   * Detect AI usage from parsed agent config files
    * @private
    */
-  private determineProvider(evidence: AIEvidence): AIProvider {
-    const scores: Record<AIProvider | 'unknown', number> = {
-      claude: 0,
-      gpt: 0,
-      copilot: 0,
-      cursor: 0,
-      aider: 0,
-      windsurf: 0,
-      unknown: 0,
+  private detectFromAgentConfigs(snapshot: RepositorySnapshot): DetectorMatch[] {
+    if (!snapshot.tree) return []
+
+    const detectors = this.registry.list()
+    const matches: DetectorMatch[] = []
+
+    for (const { path, provider, format } of this.agentConfigFiles(snapshot.tree)) {
+      const content = snapshotFile(snapshot, path)
+      if (content === null) continue
+
+      const agentConfig = parseAgentConfig(path, format, content, provider, detectors)
+      if (agentConfig) {
+        matches.push({
+          provider,
+          source: 'agentConfigs',
+          evidence: `${path} (${provider})`,
+          agentConfig,
+        })
+      }
     }
 
-    // Score based on evidence
-    const allEvidence = [
-      ...evidence.files,
-      ...evidence.commits,
-      ...evidence.readme,
-    ]
+    return matches
+  }
 
-    for (const item of allEvidence) {
-      const lowerItem = item.toLowerCase()
+  /**
+   * Config file content signatures of every detector
+   * @private
+   */
+  private configSignatures() {
+    return this.registry.list().flatMap((detector) =>
+      (detector.configContent ?? []).map((signature) => ({ detector, signature }))
+    )
+  }
 
-      if (lowerItem.includes('claude') || lowerItem.includes('anthropic')) {
-        scores.claude += 1
-      }
-      if (
-        lowerItem.includes('gpt') ||
-        lowerItem.includes('openai') ||
-        lowerItem.includes('chatgpt')
-      ) {
-        scores.gpt += 1
-      }
-      if (lowerItem.includes('copilot')) {
-        scores.copilot += 1
-      }
-      if (lowerItem.includes('cursor')) {
-        scores.cursor += 1
-      }
-      if (lowerItem.includes('aider')) {
-        scores.aider += 1
-      }
-      if (lowerItem.includes('windsurf')) {
-        scores.windsurf += 1
-      }
-    }
+  /**
+   * Config files any detector wants to inspect
+   * @private
+   */
+  private configFiles(tree: GitHubTree): string[] {
+    const signatures = this.configSignatures()
 
-    // Find provider with highest score
-    let maxScore = 0
-    let provider: AIProvider = 'unknown'
+    return blobPaths(tree)
+      .filter((path) => signatures.some(({ signature }) => signature.path.test(path)))
+      .slice(0, MAX_CONFIG_FILES)
+  }
 
-    for (const [key, score] of Object.entries(scores)) {
-      if (score > maxScore && key !== 'unknown') {
-        maxScore = score
-        provider = key as AIProvider
-      }
+  /**
+   * Agent config files, with the detector that owns each
+   * @private
+   */
+  private agentConfigFiles(tree: GitHubTree) {
+    const detectors = this.registry.list()
+
+    return blobPaths(tree)
+      .flatMap((path) => {
+        for (const detector of detectors) {
+          const signature = detector.agentConfigs?.find((s) => s.path.test(path))
+          if (signature) {
+            return [{ path, provider: detector.provider, format: signature.format }]
+          }
+        }
+        return []
+      })
+      .slice(0, MAX_AGENT_CONFIG_FILES)
+  }
+
+  /**
+   * Attribute detector matches to providers, highest confidence first
+   * @private
+   */
+  private rankProviders(matches: DetectorMatch[]): AIProviderAttribution[] {
+    const byProvider = new Map<AIProvider, DetectorMatch[]>()
+
+    for (const match of matches) {
+      byProvider.set(match.provider, [...(byProvider.get(match.provider) ?? []), match])
     }
 
-    return provider
+    return Array.from(byProvider, ([provider, providerMatches]) => {
+      const evidence = collectEvidence(providerMatches)
+      return { provider, confidence: this.calculateConfidence(evidence), evidence }
+    })
+      .filter((attribution) => attribution.confidence >= MIN_PROVIDER_CONFIDENCE)
+      .sort(
+        (a, b) =>
+          b.confidence - a.confidence ||
+          evidenceCount(b.evidence) - evidenceCount(a.evidence)
+      )
   }
 
   /**
    * Calculate confidence score (0.0 to 1.0)
    * @private
    */
-  private calculateConfidence(
-    evidence: AIEvidence,
-    _provider: AIProvider
-  ): number {
+  private calculateConfidence(evidence: AIEvidence): number {
     let score = 0
 
-    // File evidence is strongest (0.5 per file, max 1.0)
-    score += Math.min(evidence.files.length * 0.5, 1.0)
+    // File, config and validated agent config evidence is strongest (0.5 per item, max 1.0)
+    score += Math.min(
+      (evidence.files.length + evidence.config.length + evidence.agentConfigs.length) * 0.5,
+      1.0
+    )
 
     // Commit evidence is medium (0.1 per commit, max 0.5)
     score += Math.min(evidence.commits.length * 0.1, 0.5)
@@ -377,12 +370,57 @@ export class AIDetector {
   }
 }
 
+/**
+ * Group detector matches into evidence by source
+ */
+function collectEvidence(matches: DetectorMatch[]): AIEvidence {
+  return {
+    files: evidenceFor(matches, 'files'),
+    commits: evidenceFor(matches, 'commits'),
+    readme: evidenceFor(matches, 'readme'),
+    config: evidenceFor(matches, 'config'),
+    agentConfigs: matches.flatMap((match) => (match.agentConfig ? [match.agentConfig] : [])),
+  }
+}
+
+/**
+ * Total number of evidence items
+ */
+function evidenceCount(evidence: AIEvidence): number {
+  return (
+    evidence.files.length +
+    evidence.commits.length +
+    evidence.readme.length +
+    evidence.config.length +
+    evidence.agentConfigs.length
+  )
+}
+
+/**
+ * Whether a path is an agent config file of any detector
+ */
+function isAgentConfigPath(detectors: AIToolDetector[], path: string): boolean {
+  return detectors.some((detector) =>
+    detector.agentConfigs?.some((signature) => signature.path.test(path))
+  )
+}
+
+/**
+ * Evidence strings for a single source
+ */
+function evidenceFor(
+  matches: DetectorMatch[],
+  source: DetectorMatch['source']
+): string[] {
+  return matches.filter((match) => match.source === source).map((match) => match.evidence)
+}
+
 /**
  * Create AI detector instance
  *
- * @param githubClient - GitHub client instance
+ * @param registry - Detector registry (default: built-in detectors)
  * @returns AIDetector instance
  */
-export function createAIDetector(githubClient: GitHubClient): AIDetector {
-  return new AIDetector(githubClient)
+export function createAIDetector(registry?: DetectorRegistry): AIDetector {
+  return new AIDetector(registry)
 }
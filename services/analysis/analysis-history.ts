@@ -0,0 +1,123 @@
+/**
+ * Analysis History
+ *
+ * Compares two completed analysis runs of the same repository:
+ * - Completeness score delta (total and per category)
+ * - Tech stack entries added/removed
+ * - AI provider changes
+ */
+
+import type { CompletenessBreakdown } from './completeness-scorer'
+
+/**
+ * Fields of an analysis run needed to compute a diff
+ */
+export interface AnalysisRunSnapshot {
+  id: string
+  createdAt: Date | string
+  completenessScore: number | null
+  completenessBreakdown: unknown
+  aiDetected: boolean
+  aiProvider: string | null
+  aiConfidence: number | null
+  techStack: string[]
+}
+
+/**
+ * Difference between two analysis runs
+ */
+export interface AnalysisRunDiff {
+  fromRunId: string
+  toRunId: string
+  scoreDelta: number | null
+  categoryDeltas: Record<string, number>
+  techStack: {
+    added: string[]
+    removed: string[]
+  }
+  aiProvider: {
+    from: string | null
+    to: string | null
+    changed: boolean
+  }
+  aiConfidenceDelta: number | null
+}
+
+/**
+ * Compute the difference between two analysis runs
+ *
+ * @param from - Older run (baseline)
+ * @param to - Newer run
+ * @returns Per-field diff, deltas are `to - from`
+ */
+export function diffAnalysisRuns(
+  from: AnalysisRunSnapshot,
+  to: AnalysisRunSnapshot
+): AnalysisRunDiff {
+  const fromTech = new Set(from.techStack.map((t) => t.toLowerCase()))
+  const toTech = new Set(to.techStack.map((t) => t.toLowerCase()))
+
+  return {
+    fromRunId: from.id,
+    toRunId: to.id,
+    scoreDelta:
+      from.completenessScore !== null && to.completenessScore !== null
+        ? to.completenessScore - from.completenessScore
+        : null,
+    categoryDeltas: diffCategories(
+      asBreakdown(from.completenessBreakdown),
+      asBreakdown(to.completenessBreakdown)
+    ),
+    techStack: {
+      added: to.techStack.filter((t) => !fromTech.has(t.toLowerCase())),
+      removed: from.techStack.filter((t) => !toTech.has(t.toLowerCase())),
+    },
+    aiProvider: {
+      from: from.aiProvider,
+      to: to.aiProvider,
+      changed: from.aiProvider !== to.aiProvider,
+    },
+    aiConfidenceDelta:
+      from.aiConfidence !== null && to.aiConfidence !== null
+        ? Math.round((to.aiConfidence - from.aiConfidence) * 100) / 100
+        : null,
+  }
+}
+
+/**
+ * Per-category score deltas
+ * Categories missing from one side are treated as 0 points
+ */
+function diffCategories(
+  from: CompletenessBreakdown | null,
+  to: CompletenessBreakdown | null
+): Record<string, number> {
+  if (!from || !to) return {}
+
+  const categories = new Set([
+    ...Object.keys(from.details ?? {}),
+    ...Object.keys(to.details ?? {}),
+  ])
+
+  const deltas: Record<string, number> = {}
+  for (const category of categories) {
+    deltas[category] = categoryScore(to, category) - categoryScore(from, category)
+  }
+
+  return deltas
+}
+
+function categoryScore(breakdown: CompletenessBreakdown, category: string): number {
+  const value = (breakdown as unknown as Record<string, unknown>)[category]
+  return typeof value === 'number' ? value : 0
+}
+
+/**
+ * Narrow a stored JSON breakdown, ignoring analyses saved before breakdowns existed
+ */
+function asBreakdown(value: unknown): CompletenessBreakdown | null {
+  if (!value || typeof value !== 'object' || !('details' in value)) {
+    return null
+  }
+  return value as CompletenessBreakdown
+}
@@ -0,0 +1,297 @@
+/**
+ * Analysis Pipeline
+ *
+ * Runs the stages of an analysis run as separate queue jobs (see
+ * `./analysis-stages`), storing each stage's result so a retry resumes at
+ * the stage that failed instead of starting over. The run's own job then
+ * scores and saves the analysis from the stored results; a run where stages
+ * failed for good is saved as partial.
+ *
+ * Completed results are reused by later runs of the same commit for a day,
+ * so re-running a partial analysis only repeats the failed stages.
+ *
+ * The snapshot holds file contents, secrets included, so it is not stored
+ * with the results: it is kept in Redis for the run's stages only and
+ * deleted once the run is saved.
+ */
+
+import { Prisma } from '@prisma/client'
+import { UnrecoverableError } from 'bullmq'
+import { prisma } from '@/lib/prisma'
+import { redis } from '@/lib/redis'
+import {
+  SNAPSHOT_STAGES,
+  type AnalysisStage,
+  type SnapshotStageResults,
+} from './analysis-stages'
+import type {
+  AnalysisProgressCallback,
+  AnalysisResult,
+  RepositoryAnalyzer,
+} from './repository-analyzer'
+import type { RepositorySnapshot } from './repository-snapshot'
+
+/**
+ * How long completed stage results are reused by runs of the same commit
+ */
+export const STAGE_RESULT_REUSE_MS = 24 * 60 * 60 * 1000
+
+/**
+ * How long a run's snapshot is kept for its stages
+ * Runs that have not finished by then are drained as stale.
+ */
+const SNAPSHOT_TTL_SECONDS = 24 * 60 * 60
+
+/**
+ * Analysis run the stages belong to
+ */
+export interface AnalysisRunContext {
+  runId: string // Job ID of the run
+  repositoryId: string
+  owner: string
+  repo: string
+}
+
+/**
+ * Run one stage of an analysis run and store its result
+ * Does nothing when an earlier attempt already stored it.
+ *
+ * @param analyzer - Analyzer for the repository owner's token
+ * @param run - Analysis run
+ * @param stage - Stage to run
+ * @param onProgress - Optional progress callback
+ * @throws UnrecoverableError when the run has no snapshot to analyze
+ */
+export async function runAnalysisStage(
+  analyzer: RepositoryAnalyzer,
+  run: AnalysisRunContext,
+  stage: AnalysisStage,
+  onProgress?: AnalysisProgressCallback
+): Promise<void> {
+  const { runId, repositoryId, owner, repo } = run
+
+  const stored = await prisma.analysisStageResult.findUnique({
+    where: { runId_stage: { runId, stage } },
+    select: { status: true },
+  })
+  if (stored?.status === 'completed') return
+
+  if (stage === 'snapshot') {
+    await prisma.repository.update({
+      where: { id: repositoryId },
+      data: { analysisStatus: 'processing' },
+    })
+
+    const head = await analyzer.resolveHead(owner, repo, onProgress)
+    const snapshot = await analyzer.loadSnapshot(owner, repo, head, onProgress)
+
+    await redis.setex(
+      snapshotKey(runId),
+      SNAPSHOT_TTL_SECONDS,
+      JSON.stringify(snapshot)
+    )
+    // Only marks the snapshot as loaded
+    await storeStageResult(run, stage, head.commitSha, null)
+    return
+  }
+
+  const snapshot = await loadRunSnapshot(runId)
+  if (!snapshot) {
+    throw new UnrecoverableError('Repository snapshot unavailable')
+  }
+
+  const reusable = await findReusableResult(
+    repositoryId,
+    snapshot.commitSha,
+    stage
+  )
+  const result = reusable
+    ? reusable.result
+    : await analyzer.runStage(stage, snapshot, onProgress)
+
+  await storeStageResult(run, stage, snapshot.commitSha, result)
+}
+
+/**
+ * Record a stage that failed for good
+ * The run goes on without it and is saved as partial.
+ *
+ * @param run - Analysis run
+ * @param stage - Failed stage
+ * @param error - Last error
+ */
+export async function recordStageFailure(
+  run: AnalysisRunContext,
+  stage: AnalysisStage,
+  error: string
+): Promise<void> {
+  await prisma.analysisStageResult.upsert({
+    where: { runId_stage: { runId: run.runId, stage } },
+    create: {
+      runId: run.runId,
+      repositoryId: run.repositoryId,
+      stage,
+      status: 'failed',
+      error,
+    },
+    update: { status: 'failed', error },
+  })
+}
+
+/**
+ * Score and save an analysis run from its stored stage results
+ * Fails the analysis when the snapshot stage failed. The run's results are
+ * removed, except the completed results of a partial run, kept for a retry;
+ * so are results of any run too old to be reused.
+ *
+ * @param analyzer - Analyzer for the repository owner's token
+ * @param run - Analysis run
+ * @param onProgress - Optional progress callback
+ * @returns Analysis result
+ */
+export async function finalizeAnalysisRun(
+  analyzer: RepositoryAnalyzer,
+  run: AnalysisRunContext,
+  onProgress?: AnalysisProgressCallback
+): Promise<AnalysisResult> {
+  const { runId, repositoryId } = run
+
+  const stored = await prisma.analysisStageResult.findMany({
+    where: { runId },
+    select: { stage: true, status: true, result: true, error: true },
+  })
+  const completed = new Map(
+    stored
+      .filter(({ status }) => status === 'completed')
+      .map(({ stage, result }) => [stage, result])
+  )
+
+  const snapshot = completed.has('snapshot')
+    ? await loadRunSnapshot(runId)
+    : null
+  if (!snapshot) {
+    await prisma.repository.update({
+      where: { id: repositoryId },
+      data: { analysisStatus: 'failed' },
+    })
+    await prisma.analysisStageResult.deleteMany({ where: { runId } })
+    await redis.del(snapshotKey(runId))
+
+    return {
+      repositoryId,
+      analysisId: '',
+      success: false,
+      error:
+        stored.find(({ stage }) => stage === 'snapshot')?.error ??
+        'Repository snapshot unavailable',
+    }
+  }
+
+  const results: SnapshotStageResults = {}
+  for (const stage of SNAPSHOT_STAGES) {
+    if (completed.has(stage)) {
+      Object.assign(results, { [stage]: completed.get(stage) })
+    }
+  }
+
+  const result = await analyzer.saveAnalysis(
+    repositoryId,
+    snapshot,
+    results,
+    onProgress
+  )
+
+  const partial = (result.failedStages?.length ?? 0) > 0
+  await prisma.analysisStageResult.deleteMany({
+    where: {
+      runId,
+      ...(partial && { status: { not: 'completed' } }),
+    },
+  })
+  await prisma.analysisStageResult.deleteMany({
+    where: {
+      repositoryId,
+      createdAt: { lt: new Date(Date.now() - STAGE_RESULT_REUSE_MS) },
+    },
+  })
+  await redis.del(snapshotKey(runId))
+
+  return result
+}
+
+/**
+ * Snapshot loaded by a run's snapshot stage
+ * @private
+ */
+async function loadRunSnapshot(
+  runId: string
+): Promise<RepositorySnapshot | null> {
+  const stored = await redis.get(snapshotKey(runId))
+  return stored ? (JSON.parse(stored) as RepositorySnapshot) : null
+}
+
+/**
+ * Redis key of a run's snapshot
+ * @private
+ */
+function snapshotKey(runId: string): string {
+  return `analysis:snapshot:${runId}`
+}
+
+/**
+ * Recent completed result of a stage for the same commit
+ * Results of unpinned snapshots are never reused.
+ * @private
+ */
+async function findReusableResult(
+  repositoryId: string,
+  commitSha: string | null,
+  stage: AnalysisStage
+): Promise<{ result: unknown } | null> {
+  if (!commitSha) return null
+
+  const stored = await prisma.analysisStageResult.findFirst({
+    where: {
+      repositoryId,
+      commitSha,
+      stage,
+      status: 'completed',
+      createdAt: { gte: new Date(Date.now() - STAGE_RESULT_REUSE_MS) },
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { result: true },
+  })
+  return stored ? { result: stored.result } : null
+}
+
+/**
+ * Store a completed stage result
+ * @private
+ */
+async function storeStageResult(
+  run: AnalysisRunContext,
+  stage: AnalysisStage,
+  commitSha: string | null,
+  result: unknown
+): Promise<void> {
+  const data = {
+    commitSha,
+    status: 'completed',
+    result:
+      result === null
+        ? Prisma.JsonNull
+        : (result as unknown as Prisma.InputJsonValue),
+    error: null,
+  }
+
+  await prisma.analysisStageResult.upsert({
+    where: { runId_stage: { runId: run.runId, stage } },
+    create: {
+      runId: run.runId,
+      repositoryId: run.repositoryId,
+      stage,
+      ...data,
+    },
+    update: data,
+  })
+}
@@ -0,0 +1,89 @@
+/**
+ * Analysis Stages
+ *
+ * The stages an analysis run is split into. Each stage reads the repository
+ * snapshot and produces one JSON-serializable result, so stages can run as
+ * separate queue jobs and their results can be stored between attempts.
+ * Scoring and saving run once all stages have finished (see
+ * `RepositoryAnalyzer.saveAnalysis`).
+ */
+
+import type { RepositorySnapshot } from './repository-snapshot'
+import type { AIDetectionResult } from './ai-detector'
+import type { ManifestAnalysis } from './manifest-analyzer'
+import type { SecretScanResult } from './secret-scanner'
+import type { DependencyHealth } from './dependency-health'
+import type { CIHealth } from './ci-health'
+import type { CommitActivity } from './commit-activity'
+import type { AIAuthorship } from './commit-authorship'
+import type { RepositoryInsights } from './insights-generator'
+
+/**
+ * Stages in the order they run
+ * The snapshot is required; a run where any other stage failed is saved as
+ * a partial analysis.
+ */
+export const ANALYSIS_STAGES = [
+  'snapshot',
+  'detection',
+  'dependency_health',
+  'ci_health',
+  'commit_activity',
+  'authorship',
+  'insights',
+] as const
+
+export type AnalysisStage = (typeof ANALYSIS_STAGES)[number]
+
+/**
+ * Stage names shown to users
+ */
+export const STAGE_LABELS: Record<AnalysisStage, string> = {
+  snapshot: 'repository contents',
+  detection: 'AI tool and dependency detection',
+  dependency_health: 'dependency health',
+  ci_health: 'CI health',
+  commit_activity: 'commit activity',
+  authorship: 'commit authorship',
+  insights: 'AI insights',
+}
+
+/**
+ * Stages that run on a loaded snapshot
+ */
+export type SnapshotStage = Exclude<AnalysisStage, 'snapshot'>
+
+export const SNAPSHOT_STAGES = ANALYSIS_STAGES.filter(
+  (stage): stage is SnapshotStage => stage !== 'snapshot'
+)
+
+/**
+ * Results of the snapshot stages that completed
+ */
+export type SnapshotStageResults = Partial<
+  Pick<AnalysisStageResults, SnapshotStage>
+>
+
+/**
+ * Result of each stage
+ */
+export interface AnalysisStageResults {
+  snapshot: RepositorySnapshot
+  detection: {
+    aiDetection: AIDetectionResult
+    manifest: ManifestAnalysis
+    secretScan: SecretScanResult | null
+  }
+  dependency_health: DependencyHealth | null // null when nothing to check
+  ci_health: CIHealth | null // null without GitHub Actions runs
+  commit_activity: CommitActivity
+  authorship: AIAuthorship
+  insights: RepositoryInsights
+}
+
+/**
+ * Check whether a string names an analysis stage
+ */
+export function isAnalysisStage(value: string): value is AnalysisStage {
+  return (ANALYSIS_STAGES as readonly string[]).includes(value)
+}
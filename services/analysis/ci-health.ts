@@ -0,0 +1,208 @@
+/**
+ * CI Health Analyzer
+ *
+ * Measures GitHub Actions health on the default branch from recent
+ * workflow runs rather than the presence of workflow files:
+ * - Pass rate over completed runs that passed or failed
+ * - Last green build
+ * - Median run duration
+ * - Flaky workflows: a commit that both failed and passed, or a run that
+ *   only passed on a re-run attempt
+ *
+ * Cancelled, skipped and in-progress runs do not count either way.
+ */
+
+import { GitHubClient } from '@/services/integrations/github-client'
+import type { GitHubWorkflowRun } from '@/types/github'
+
+/**
+ * Health of a single workflow
+ */
+export interface WorkflowHealth {
+  name: string
+  runs: number // Runs that passed or failed
+  passRate: number // 0.0 to 1.0
+  flaky: boolean
+}
+
+/**
+ * CI health on a branch
+ */
+export interface CIHealth {
+  branch: string
+  runsAnalyzed: number // Runs that passed or failed
+  passRate: number // 0.0 to 1.0
+  lastRun: {
+    conclusion: string | null // null while still running
+    createdAt: string
+    url: string
+  } | null
+  lastGreenAt: string | null
+  lastGreenUrl: string | null
+  medianDurationSeconds: number | null
+  workflows: WorkflowHealth[]
+  flakyWorkflows: string[]
+  checkedAt: string
+}
+
+/**
+ * Recent runs fetched per analysis
+ */
+const RECENT_RUNS = 100
+
+const PASSED_CONCLUSIONS = new Set(['success'])
+const FAILED_CONCLUSIONS = new Set(['failure', 'timed_out', 'startup_failure'])
+
+/**
+ * CI Health Analyzer
+ */
+export class CIHealthAnalyzer {
+  constructor(private githubClient: GitHubClient) {}
+
+  /**
+   * Measure GitHub Actions health on a branch
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param branch - Branch to measure, usually the default branch
+   * @returns CI health, or null when the branch has no workflow runs
+   */
+  async analyzeCIHealth(
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<CIHealth | null> {
+    const runs = await this.githubClient.getWorkflowRuns(owner, repo, {
+      branch,
+      per_page: RECENT_RUNS,
+    })
+    return summarizeWorkflowRuns(runs, branch)
+  }
+}
+
+/**
+ * Summarize workflow runs into CI health
+ *
+ * @param runs - Workflow runs on the branch, newest first
+ * @param branch - Branch the runs belong to
+ * @param now - Time of the check
+ * @returns CI health, or null without runs
+ */
+export function summarizeWorkflowRuns(
+  runs: GitHubWorkflowRun[],
+  branch: string,
+  now: Date = new Date()
+): CIHealth | null {
+  if (runs.length === 0) {
+    return null
+  }
+
+  const decided = runs.filter((run) => isPassed(run) || isFailed(run))
+  const lastGreen = runs.find(isPassed) ?? null
+
+  // Group by workflow; names can change, ids cannot
+  const byWorkflow = new Map<number, GitHubWorkflowRun[]>()
+  for (const run of decided) {
+    byWorkflow.set(run.workflow_id, [
+      ...(byWorkflow.get(run.workflow_id) ?? []),
+      run,
+    ])
+  }
+  const workflows: WorkflowHealth[] = Array.from(byWorkflow.values())
+    .map((workflowRuns) => ({
+      name: workflowRuns[0].name ?? `Workflow ${workflowRuns[0].workflow_id}`,
+      runs: workflowRuns.length,
+      passRate: ratio(
+        workflowRuns.filter(isPassed).length,
+        workflowRuns.length
+      ),
+      flaky: isFlaky(workflowRuns),
+    }))
+    .sort((a, b) => b.runs - a.runs)
+
+  const durations = decided
+    .map(durationSeconds)
+    .filter((seconds): seconds is number => seconds !== null)
+
+  return {
+    branch,
+    runsAnalyzed: decided.length,
+    passRate: ratio(decided.filter(isPassed).length, decided.length),
+    lastRun: {
+      conclusion: runs[0].status === 'completed' ? runs[0].conclusion : null,
+      createdAt: runs[0].created_at,
+      url: runs[0].html_url,
+    },
+    lastGreenAt: lastGreen?.updated_at ?? null,
+    lastGreenUrl: lastGreen?.html_url ?? null,
+    medianDurationSeconds: median(durations),
+    workflows,
+    flakyWorkflows: workflows
+      .filter((workflow) => workflow.flaky)
+      .map((workflow) => workflow.name),
+    checkedAt: now.toISOString(),
+  }
+}
+
+function isPassed(run: GitHubWorkflowRun): boolean {
+  return (
+    run.status === 'completed' && PASSED_CONCLUSIONS.has(run.conclusion ?? '')
+  )
+}
+
+function isFailed(run: GitHubWorkflowRun): boolean {
+  return (
+    run.status === 'completed' && FAILED_CONCLUSIONS.has(run.conclusion ?? '')
+  )
+}
+
+/**
+ * A workflow is flaky when the same commit both failed and passed, or a run
+ * passed only after being re-run
+ */
+function isFlaky(runs: GitHubWorkflowRun[]): boolean {
+  if (runs.some((run) => isPassed(run) && (run.run_attempt ?? 1) > 1)) {
+    return true
+  }
+
+  const outcomes = new Map<string, Set<boolean>>()
+  for (const run of runs) {
+    const seen = outcomes.get(run.head_sha) ?? new Set<boolean>()
+    seen.add(isPassed(run))
+    outcomes.set(run.head_sha, seen)
+  }
+  return Array.from(outcomes.values()).some((seen) => seen.size > 1)
+}
+
+function durationSeconds(run: GitHubWorkflowRun): number | null {
+  const started = Date.parse(run.run_started_at ?? run.created_at)
+  const finished = Date.parse(run.updated_at)
+  return Number.isNaN(started) || Number.isNaN(finished) || finished < started
+    ? null
+    : Math.round((finished - started) / 1000)
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+}
+
+function ratio(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) / 100 : 0
+}
+
+/**
+ * Create CI health analyzer instance
+ *
+ * @param githubClient - GitHub client instance
+ * @returns CIHealthAnalyzer instance
+ */
+export function createCIHealthAnalyzer(
+  githubClient: GitHubClient
+): CIHealthAnalyzer {
+  return new CIHealthAnalyzer(githubClient)
+}
@@ -0,0 +1,255 @@
+/**
+ * Commit Activity Analyzer
+ *
+ * Measures a repository's whole history rather than the latest page of
+ * commits:
+ * - Total commits and the root commit, counted through pagination
+ * - Contributors, including commits not linked to a GitHub account
+ * - Weekly commit histogram over the last year
+ * - Active/dormant status from the latest commit
+ * - Bus factor: the fewest people who authored half of the commits
+ */
+
+import { GitHubClient } from '@/services/integrations/github-client'
+import type { RepositorySnapshot } from './repository-snapshot'
+import type {
+  GitHubCommit,
+  GitHubCommitActivityWeek,
+  GitHubContributor,
+} from '@/types/github'
+
+/**
+ * Whether a repository is still being worked on
+ */
+export type ActivityStatus = 'active' | 'dormant'
+
+/**
+ * Commits in one week
+ */
+export interface WeeklyCommits {
+  week: string // First day of the week (Sunday), YYYY-MM-DD
+  commits: number
+}
+
+/**
+ * Commit history and contributor statistics
+ */
+export interface CommitActivity {
+  totalCommits: number
+  contributorCount: number
+  firstCommitAt: string | null
+  lastCommitAt: string | null
+  weekly: WeeklyCommits[] // Last 52 weeks, oldest first
+  weeklyTruncated: boolean // Histogram built from recent commits only
+  status: ActivityStatus
+  busFactor: number | null // null without human contributors
+  busFactorContributors: string[] // Contributors making up the bus factor
+  checkedAt: string
+}
+
+/**
+ * History fetched for a commit activity summary
+ */
+export interface CommitActivityInputs {
+  totalCommits: number
+  firstCommit: GitHubCommit | null
+  recentCommits: GitHubCommit[] // Newest first
+  contributors: GitHubContributor[] // Most contributions first
+  contributorCount: number
+  weeklyStats: GitHubCommitActivityWeek[] | null // null while GitHub computes them
+  archived: boolean
+}
+
+/**
+ * Weeks in the histogram
+ */
+const HISTOGRAM_WEEKS = 52
+
+/**
+ * Days without commits after which a repository is dormant
+ */
+const DORMANT_AFTER_DAYS = 90
+
+/**
+ * Share of commits the bus factor contributors account for
+ */
+const BUS_FACTOR_SHARE = 0.5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+
+/**
+ * Commit Activity Analyzer
+ */
+export class CommitActivityAnalyzer {
+  constructor(private githubClient: GitHubClient) {}
+
+  /**
+   * Measure commit history and contributors
+   *
+   * @param snapshot - Repository snapshot, for the latest commits
+   * @returns Commit activity
+   */
+  async analyzeActivity(snapshot: RepositorySnapshot): Promise<CommitActivity> {
+    const { owner, repo } = snapshot
+    const [totals, { contributors, total }, weeklyStats] = await Promise.all([
+      this.githubClient.getCommitTotals(owner, repo),
+      this.githubClient.getContributors(owner, repo),
+      this.githubClient.getCommitActivity(owner, repo),
+    ])
+
+    return summarizeCommitActivity({
+      totalCommits: totals.count,
+      firstCommit: totals.firstCommit,
+      recentCommits: snapshot.commits,
+      contributors,
+      contributorCount: total,
+      weeklyStats,
+      archived: snapshot.repository.archived,
+    })
+  }
+}
+
+/**
+ * Summarize commit history into activity statistics
+ *
+ * @param inputs - Commit totals, contributors and weekly statistics
+ * @param now - Time of the check
+ * @returns Commit activity
+ */
+export function summarizeCommitActivity(
+  inputs: CommitActivityInputs,
+  now: Date = new Date()
+): CommitActivity {
+  const { recentCommits, firstCommit } = inputs
+  const lastCommitAt = recentCommits[0]?.commit.author.date ?? null
+  const firstCommitAt =
+    firstCommit?.commit.author.date ??
+    recentCommits[recentCommits.length - 1]?.commit.author.date ??
+    null
+
+  const { weekly, truncated } = inputs.weeklyStats
+    ? { weekly: weeklyFromStats(inputs.weeklyStats), truncated: false }
+    : weeklyFromCommits(recentCommits, inputs.totalCommits, now)
+
+  const dormant =
+    inputs.archived ||
+    !lastCommitAt ||
+    now.getTime() - new Date(lastCommitAt).getTime() >
+      DORMANT_AFTER_DAYS * DAY_MS
+  const busFactorContributors = estimateBusFactor(inputs.contributors)
+
+  return {
+    // A history can never be shorter than the commits already loaded
+    totalCommits: Math.max(inputs.totalCommits, recentCommits.length),
+    contributorCount: inputs.contributorCount,
+    firstCommitAt,
+    lastCommitAt,
+    weekly,
+    weeklyTruncated: truncated,
+    status: dormant ? 'dormant' : 'active',
+    busFactor: busFactorContributors.length || null,
+    busFactorContributors,
+    checkedAt: now.toISOString(),
+  }
+}
+
+/**
+ * Fewest human contributors who authored half of the commits
+ * Bots are left out; only the top 100 contributors are known
+ *
+ * @param contributors - Contributors, most contributions first
+ * @returns Names of the contributors, empty without human contributors
+ */
+export function estimateBusFactor(contributors: GitHubContributor[]): string[] {
+  const humans = contributors
+    .filter(({ type }) => type !== 'Bot')
+    .sort((a, b) => b.contributions - a.contributions)
+  const total = humans.reduce(
+    (sum, { contributions }) => sum + contributions,
+    0
+  )
+  if (total === 0) {
+    return []
+  }
+
+  const core: string[] = []
+  let covered = 0
+  for (const contributor of humans) {
+    core.push(
+      contributor.login ?? contributor.name ?? contributor.email ?? 'anonymous'
+    )
+    covered += contributor.contributions
+    if (covered >= total * BUS_FACTOR_SHARE) break
+  }
+  return core
+}
+
+/**
+ * Histogram from GitHub's weekly statistics
+ */
+function weeklyFromStats(stats: GitHubCommitActivityWeek[]): WeeklyCommits[] {
+  return stats.slice(-HISTOGRAM_WEEKS).map(({ week, total }) => ({
+    week: new Date(week * 1000).toISOString().slice(0, 10),
+    commits: total,
+  }))
+}
+
+/**
+ * Histogram from the commits already loaded, when statistics are not ready
+ * Truncated when older commits within the year were not loaded
+ */
+function weeklyFromCommits(
+  commits: GitHubCommit[],
+  totalCommits: number,
+  now: Date
+): { weekly: WeeklyCommits[]; truncated: boolean } {
+  const currentWeek = startOfWeek(now)
+  const firstWeek = currentWeek - (HISTOGRAM_WEEKS - 1) * WEEK_MS
+  const counts = new Array<number>(HISTOGRAM_WEEKS).fill(0)
+
+  for (const commit of commits) {
+    const week = startOfWeek(new Date(commit.commit.author.date))
+    if (week >= firstWeek && week <= currentWeek) {
+      counts[Math.round((week - firstWeek) / WEEK_MS)]++
+    }
+  }
+
+  const oldest = commits[commits.length - 1]
+  const truncated =
+    commits.length < totalCommits &&
+    !!oldest &&
+    new Date(oldest.commit.author.date).getTime() >= firstWeek
+
+  return {
+    weekly: counts.map((count, i) => ({
+      week: new Date(firstWeek + i * WEEK_MS).toISOString().slice(0, 10),
+      commits: count,
+    })),
+    truncated,
+  }
+}
+
+/**
+ * Midnight UTC of the Sunday starting a date's week, as GitHub counts weeks
+ */
+function startOfWeek(date: Date): number {
+  const day = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate()
+  )
+  return day - date.getUTCDay() * DAY_MS
+}
+
+/**
+ * Create commit activity analyzer instance
+ *
+ * @param githubClient - GitHub client instance
+ * @returns CommitActivityAnalyzer instance
+ */
+export function createCommitActivityAnalyzer(
+  githubClient: GitHubClient
+): CommitActivityAnalyzer {
+  return new CommitActivityAnalyzer(githubClient)
+}
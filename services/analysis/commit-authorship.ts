@@ -0,0 +1,254 @@
+/**
+ * Commit Authorship Analysis
+ *
+ * Walks the full commit history and attributes each commit to an AI agent
+ * or a human, based on:
+ * - Bot author emails used by coding agents
+ * - `Co-authored-by` trailers naming an AI tool or agent identity
+ * - Markers agents leave in generated commits and pull request merges
+ *
+ * Results are bucketed by month into a time series.
+ */
+
+import { GitHubClient } from '@/services/integrations/github-client'
+import { detectorRegistry, DetectorRegistry } from './detectors/registry'
+import type { AIProvider } from './detectors/types'
+import type { GitHubCommit } from '@/types/github'
+
+/**
+ * Signal a commit was attributed to an AI agent by
+ */
+export type AuthorshipSignal = 'author' | 'trailer' | 'marker'
+
+/**
+ * Attribution of a single commit
+ */
+export interface CommitAttribution {
+  sha: string
+  provider: AIProvider | null // null for human commits
+  signal: AuthorshipSignal | null
+}
+
+/**
+ * Commit counts for one month
+ */
+export interface AuthorshipPeriod {
+  period: string // YYYY-MM
+  aiCommits: number
+  humanCommits: number
+  aiLines: number | null // null when no commit in the period has line stats
+  humanLines: number | null
+}
+
+/**
+ * AI vs human authorship across the commit history
+ */
+export interface AIAuthorship {
+  totalCommits: number
+  aiCommits: number
+  humanCommits: number
+  aiCommitRatio: number // 0.0 to 1.0
+  aiLineRatio: number | null // null when line stats are unavailable
+  providers: Record<string, number> // AI commits per provider
+  series: AuthorshipPeriod[] // Oldest month first
+  truncated: boolean // History exceeded MAX_HISTORY_PAGES
+}
+
+/**
+ * Commits fetched per page (GitHub maximum)
+ */
+const PER_PAGE = 100
+
+/**
+ * Maximum pages of history fetched (5,000 commits) to bound API usage
+ */
+const MAX_HISTORY_PAGES = 50
+
+/**
+ * Commit Authorship Analyzer
+ */
+export class CommitAuthorshipAnalyzer {
+  constructor(
+    private githubClient: GitHubClient,
+    private registry: DetectorRegistry = detectorRegistry
+  ) {}
+
+  /**
+   * Compute AI vs human authorship over the full commit history
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Authorship totals and monthly time series
+   */
+  async analyzeAuthorship(owner: string, repo: string): Promise<AIAuthorship> {
+    const { commits, truncated } = await this.fetchHistory(owner, repo)
+
+    return summarizeAuthorship(
+      commits.map((commit) => ({ commit, attribution: this.attributeCommit(commit) })),
+      truncated
+    )
+  }
+
+  /**
+   * Attribute a commit to an AI agent or a human
+   *
+   * @param commit - Commit from the GitHub API
+   * @returns Attribution with the matching provider and signal
+   */
+  attributeCommit(commit: GitHubCommit): CommitAttribution {
+    const message = commit.commit.message
+    const authorEmail = commit.commit.author.email ?? ''
+    const coAuthorEmails = parseCoAuthors(message).map(({ email }) => email)
+    const detectors = this.registry.list()
+
+    const attribute = (
+      provider: AIProvider,
+      signal: AuthorshipSignal
+    ): CommitAttribution => ({ sha: commit.sha, provider, signal })
+
+    // The agent committed on its own
+    for (const detector of detectors) {
+      if (detector.authorEmails?.some((pattern) => pattern.test(authorEmail))) {
+        return attribute(detector.provider, 'author')
+      }
+    }
+
+    // A human committed together with an agent
+    for (const detector of detectors) {
+      const coAuthored =
+        detector.commitTrailers?.some((pattern) => pattern.test(message)) ||
+        coAuthorEmails.some((email) =>
+          detector.authorEmails?.some((pattern) => pattern.test(email))
+        )
+      if (coAuthored) {
+        return attribute(detector.provider, 'trailer')
+      }
+    }
+
+    // Generated commit or merged agent pull request
+    for (const detector of detectors) {
+      if (detector.prMarkers?.some((pattern) => pattern.test(message))) {
+        return attribute(detector.provider, 'marker')
+      }
+    }
+
+    return { sha: commit.sha, provider: null, signal: null }
+  }
+
+  /**
+   * Fetch the commit history page by page, newest first
+   * @private
+   */
+  private async fetchHistory(
+    owner: string,
+    repo: string
+  ): Promise<{ commits: GitHubCommit[]; truncated: boolean }> {
+    const commits: GitHubCommit[] = []
+
+    for (let page = 1; page <= MAX_HISTORY_PAGES; page++) {
+      const batch = await this.githubClient.getCommitHistory(owner, repo, {
+        per_page: PER_PAGE,
+        page,
+      })
+      commits.push(...batch)
+
+      if (batch.length < PER_PAGE) {
+        return { commits, truncated: false }
+      }
+    }
+
+    return { commits, truncated: true }
+  }
+}
+
+/**
+ * Parse `Co-authored-by: Name <email>` trailers from a commit message
+ *
+ * @param message - Full commit message
+ * @returns Co-author names and emails
+ */
+export function parseCoAuthors(message: string): Array<{ name: string; email: string }> {
+  const coAuthors: Array<{ name: string; email: string }> = []
+
+  for (const match of message.matchAll(/^co-authored-by:\s*(.*?)\s*<([^>]+)>\s*$/gim)) {
+    coAuthors.push({ name: match[1], email: match[2] })
+  }
+
+  return coAuthors
+}
+
+/**
+ * Aggregate commit attributions into totals and a monthly series
+ *
+ * @param attributed - Commits with their attribution
+ * @param truncated - Whether the history was cut off
+ * @returns Authorship summary
+ */
+export function summarizeAuthorship(
+  attributed: Array<{ commit: GitHubCommit; attribution: CommitAttribution }>,
+  truncated: boolean = false
+): AIAuthorship {
+  const periods = new Map<string, AuthorshipPeriod>()
+  const providers: Record<string, number> = {}
+  let aiCommits = 0
+  let aiLines: number | null = null
+  let humanLines: number | null = null
+
+  for (const { commit, attribution } of attributed) {
+    const key = commit.commit.author.date.slice(0, 7)
+    const period = periods.get(key) ?? {
+      period: key,
+      aiCommits: 0,
+      humanCommits: 0,
+      aiLines: null,
+      humanLines: null,
+    }
+    const lines = commit.stats ? commit.stats.additions + commit.stats.deletions : null
+
+    if (attribution.provider) {
+      aiCommits++
+      period.aiCommits++
+      providers[attribution.provider] = (providers[attribution.provider] ?? 0) + 1
+      if (lines !== null) {
+        period.aiLines = (period.aiLines ?? 0) + lines
+        aiLines = (aiLines ?? 0) + lines
+      }
+    } else {
+      period.humanCommits++
+      if (lines !== null) {
+        period.humanLines = (period.humanLines ?? 0) + lines
+        humanLines = (humanLines ?? 0) + lines
+      }
+    }
+
+    periods.set(key, period)
+  }
+
+  const totalCommits = attributed.length
+  const totalLines = (aiLines ?? 0) + (humanLines ?? 0)
+
+  return {
+    totalCommits,
+    aiCommits,
+    humanCommits: totalCommits - aiCommits,
+    aiCommitRatio: totalCommits > 0 ? aiCommits / totalCommits : 0,
+    aiLineRatio: totalLines > 0 ? (aiLines ?? 0) / totalLines : null,
+    providers,
+    series: Array.from(periods.values()).sort((a, b) => a.period.localeCompare(b.period)),
+    truncated,
+  }
+}
+
+/**
+ * Create commit authorship analyzer instance
+ *
+ * @param githubClient - GitHub client instance
+ * @param registry - Detector registry (default: built-in detectors)
+ * @returns CommitAuthorshipAnalyzer instance
+ */
+export function createCommitAuthorshipAnalyzer(
+  githubClient: GitHubClient,
+  registry?: DetectorRegistry
+): CommitAuthorshipAnalyzer {
+  return new CommitAuthorshipAnalyzer(githubClient, registry)
+}
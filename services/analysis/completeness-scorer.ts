@@ -4,87 +4,271 @@
  * Calculates a completeness score (0-100) for repositories based on:
  * - README presence and quality
  * - Package manager files
- * - Test presence
+ * - Test quality: test cases, runner/coverage config, tested modules
  * - Configuration files
  * - Documentation
  * - License
  * - Git maturity
  * - Contributor diversity
- * - CI/CD setup
+ * - CI/CD: configuration and pass rate of recent GitHub Actions runs
+ * - Security: leaked secrets and dependency health (optional, when either
+ *   was checked)
+ * - Project checks: extra checks of the scoring profile (optional, when the
+ *   profile has applicable checks)
+ *
+ * Category scores are weighted by the scoring profile selected for the
+ * project type (see scoring-profiles.ts). Optional categories only count
+ * when their inputs are available; the total is normalized to 100 over the
+ * categories that were scored.
  */
 
-import { GitHubClient } from '@/services/integrations/github-client'
-import type { GitHubRepository, GitHubCommit } from '@/types/github'
+import type { GitHubRepository, GitHubCommit, GitHubTree } from '@/types/github'
+import type { DependencyHealth } from './dependency-health'
+import type { CIHealth } from './ci-health'
+import type { CommitActivity } from './commit-activity'
+import type { ManifestDependency } from './manifest-analyzer'
+import {
+  HttpPackageRegistry,
+  type PackageRegistry,
+} from './dependencies/registry'
+import {
+  snapshotFile,
+  type RepositorySnapshot,
+  type SnapshotFile,
+} from './repository-snapshot'
+import {
+  getScoringProfile,
+  profileCheckFiles,
+  runProfileChecks,
+  selectScoringProfile,
+  type ScoringProfile,
+  type ScoringProfileName,
+} from './scoring-profiles'
+import type { SecretScanResult } from './secret-scanner'
+import {
+  TestQualityAnalyzer,
+  createTestQualityAnalyzer,
+  type TestMetrics,
+} from './test-quality'
+
+/**
+ * Completeness score categories
+ */
+export type CompletenessCategory =
+  | 'readme'
+  | 'packageManager'
+  | 'tests'
+  | 'config'
+  | 'documentation'
+  | 'license'
+  | 'gitMaturity'
+  | 'contributors'
+  | 'cicd'
+  | 'security'
+  | 'projectChecks'
+
+/**
+ * Signals behind a single category score
+ * `earned` lists the files/signals that awarded points,
+ * `missed` lists what would have awarded more
+ */
+export interface CategoryDetail {
+  maxScore: number
+  earned: string[]
+  missed: string[]
+}
+
+/**
+ * Scored category with its signals
+ */
+interface CategoryResult {
+  score: number
+  maxScore?: number // When it varies, e.g. with the applicable project checks
+  earned: string[]
+  missed: string[]
+}
+
+/**
+ * Maximum points per category before profile weighting
+ */
+export const CATEGORY_MAX_SCORES: Record<CompletenessCategory, number> = {
+  readme: 25,
+  packageManager: 10,
+  tests: 15,
+  config: 10,
+  documentation: 10,
+  license: 5,
+  gitMaturity: 10,
+  contributors: 5,
+  cicd: 10,
+  security: 10,
+  projectChecks: 15, // At most; scored out of the applicable checks
+}
+
+/**
+ * Categories scored only when their inputs are available
+ */
+export const OPTIONAL_CATEGORIES: CompletenessCategory[] = [
+  'security',
+  'projectChecks',
+]
+
+/**
+ * Analysis results from other stages used by optional categories
+ */
+export interface CompletenessInputs {
+  dependencyHealth?: DependencyHealth | null
+  secretScan?: SecretScanResult | null
+  ciHealth?: CIHealth | null
+  commitActivity?: CommitActivity | null // Full history totals
+  projectType?: string | null // Selects the scoring profile
+  scoringProfile?: string | null // Profile chosen by the owner, overrides projectType
+  deployedUrl?: string | null
+  dependencies?: ManifestDependency[]
+}
+
+/**
+ * Completeness scorer configuration
+ */
+interface CompletenessScorerConfig {
+  registry?: PackageRegistry | null // Default: public registries; null disables lookups
+}
+
+/**
+ * Points deducted per leaked secret
+ */
+const SECRET_PENALTY = 5
+
+/**
+ * Points deducted per vulnerability, by severity
+ */
+const VULNERABILITY_PENALTIES: Record<string, number> = {
+  critical: 5,
+  high: 3,
+  moderate: 2,
+  low: 1,
+  unknown: 1,
+}
+
+/**
+ * Maximum points deducted for outdated and for abandoned dependencies each
+ */
+const MAX_STALENESS_PENALTY = 3
 
 /**
  * Completeness score breakdown
+ * Points are weighted by the profile; `details[category].maxScore` holds
+ * each category's maximum (default profile maximums below)
  */
 export interface CompletenessBreakdown {
+  profile: ScoringProfileName // Scoring profile that produced the scores
   readme: number // 0-25 points (15 for presence, 10 for quality)
   packageManager: number // 0-10 points
-  tests: number // 0-15 points
+  tests: number // 0-15 points (7 test cases, 4 tested modules, 2 config, 2 coverage)
   config: number // 0-10 points
   documentation: number // 0-10 points
   license: number // 0-5 points
   gitMaturity: number // 0-10 points
   contributors: number // 0-5 points
-  cicd: number // 0-10 points
-  total: number // 0-100 points
+  cicd: number // 0-10 points (4 configuration, 6 pass rate of recent runs)
+  security?: number // 0-10 points, only when secrets or dependency health were checked
+  projectChecks?: number // Only for profiles with applicable checks
+  total: number // 0-100 points, normalized over the scored categories
+  details: Partial<Record<CompletenessCategory, CategoryDetail>>
+  testMetrics?: TestMetrics // Measured test suite behind the tests score
 }
 
 /**
  * Repository Completeness Scorer
  */
 export class CompletenessScorer {
-  constructor(private githubClient: GitHubClient) {}
+  private testQualityAnalyzer: TestQualityAnalyzer
+  private registry: PackageRegistry | null
+
+  constructor(config: CompletenessScorerConfig = {}) {
+    this.testQualityAnalyzer = createTestQualityAnalyzer()
+    this.registry =
+      config.registry === undefined
+        ? new HttpPackageRegistry()
+        : config.registry
+  }
+
+  /**
+   * Files scoring reads: test suite samples and profile check files
+   *
+   * @param tree - Repository tree
+   * @returns Paths to load into the snapshot
+   */
+  selectFiles(tree: GitHubTree): string[] {
+    return [
+      ...this.testQualityAnalyzer.selectFiles(tree),
+      ...profileCheckFiles(tree),
+    ]
+  }
 
   /**
    * Calculate completeness score for a repository
    *
-   * @param owner - Repository owner
-   * @param repo - Repository name
+   * @param snapshot - Repository snapshot
+   * @param inputs - Results of other stages, selecting the scoring profile
+   *   and enabling optional categories
    * @returns Completeness score (0-100) with breakdown
    */
   async calculateScore(
-    owner: string,
-    repo: string
+    snapshot: RepositorySnapshot,
+    inputs: CompletenessInputs = {}
   ): Promise<{ score: number; breakdown: CompletenessBreakdown }> {
     try {
-      // Fetch repository data in parallel
-      const [repository, tree, commits] = await Promise.all([
-        this.githubClient.getRepository(owner, repo),
-        this.githubClient.getRepositoryTree(owner, repo).catch(() => null),
-        this.githubClient
-          .getCommitHistory(owner, repo, { per_page: 100 })
-          .catch(() => []),
-      ])
+      const { repository, tree, commits } = snapshot
+      const { commitActivity = null } = inputs
+
+      const testMetrics = this.analyzeTests(snapshot)
 
       // Calculate individual scores
-      const breakdown: CompletenessBreakdown = {
-        readme: await this.scoreReadme(owner, repo, tree),
+      const results: Partial<Record<CompletenessCategory, CategoryResult>> = {
+        readme: this.scoreReadme(snapshot.readme),
         packageManager: this.scorePackageManager(tree),
-        tests: this.scoreTests(tree),
+        tests: this.scoreTests(testMetrics),
         config: this.scoreConfig(tree),
         documentation: this.scoreDocumentation(tree),
         license: this.scoreLicense(repository),
-        gitMaturity: this.scoreGitMaturity(commits),
-        contributors: await this.scoreContributors(commits),
-        cicd: this.scoreCICD(tree),
-        total: 0, // Will be calculated below
+        gitMaturity: this.scoreGitMaturity(commits, commitActivity),
+        contributors: this.scoreContributors(commits, commitActivity),
+        cicd: this.scoreCICD(tree, inputs.ciHealth ?? null),
+      }
+
+      const { secretScan = null } = inputs
+      const dependencyHealth =
+        inputs.dependencyHealth &&
+        (inputs.dependencyHealth.advisoriesChecked ||
+          inputs.dependencyHealth.registryChecked)
+          ? inputs.dependencyHealth
+          : null
+      if (secretScan || dependencyHealth) {
+        results.security = this.scoreSecurity(secretScan, dependencyHealth)
       }
 
-      // Calculate total score
-      breakdown.total = Math.round(
-        breakdown.readme +
-          breakdown.packageManager +
-          breakdown.tests +
-          breakdown.config +
-          breakdown.documentation +
-          breakdown.license +
-          breakdown.gitMaturity +
-          breakdown.contributors +
-          breakdown.cicd
+      const dependencies = inputs.dependencies ?? []
+      const profile = getScoringProfile(
+        selectScoringProfile({
+          override: inputs.scoringProfile,
+          projectType: inputs.projectType ?? null,
+          tree,
+          dependencies,
+        })
       )
+      const projectChecks = await runProfileChecks(profile, {
+        tree,
+        dependencies,
+        deployedUrl: inputs.deployedUrl ?? null,
+        registry: this.registry,
+        readFile: (path) => snapshotFile(snapshot, path),
+      })
+      if (projectChecks) {
+        results.projectChecks = projectChecks
+      }
+
+      const breakdown = buildBreakdown(results, profile, testMetrics)
 
       return {
         score: breakdown.total,
@@ -93,19 +277,21 @@ export class CompletenessScorer {
     } catch (error) {
       console.error('Completeness scoring failed:', error)
       // Return minimum score on error
-      const emptyBreakdown: CompletenessBreakdown = {
-        readme: 0,
-        packageManager: 0,
-        tests: 0,
-        config: 0,
-        documentation: 0,
-        license: 0,
-        gitMaturity: 0,
-        contributors: 0,
-        cicd: 0,
-        total: 0,
-      }
-      return { score: 0, breakdown: emptyBreakdown }
+      return { score: 0, breakdown: createEmptyBreakdown() }
+    }
+  }
+
+  /**
+   * Measure the test suite
+   * A failure here should not fail the whole score
+   * @private
+   */
+  private analyzeTests(snapshot: RepositorySnapshot): TestMetrics | null {
+    try {
+      return this.testQualityAnalyzer.analyzeTests(snapshot)
+    } catch (error) {
+      console.error('Test quality analysis failed:', error)
+      return null
     }
   }
 
@@ -115,50 +301,36 @@ export class CompletenessScorer {
    * - 0-10 points for quality based on word count
    * @private
    */
-  private async scoreReadme(
-    owner: string,
-    repo: string,
-    _tree: any
-  ): Promise<number> {
-    let score = 0
-
-    try {
-      // Check if README exists
-      const readmeFiles = ['README.md', 'readme.md', 'README', 'readme']
-      let readmeContent = ''
-
-      for (const filename of readmeFiles) {
-        try {
-          readmeContent = await this.githubClient.getFileContent(owner, repo, filename)
-          score += 15 // README exists
-          break
-        } catch {
-          continue
-        }
-      }
-
-      if (!readmeContent) {
-        return 0
+  private scoreReadme(readme: SnapshotFile | null): CategoryResult {
+    if (!readme) {
+      return {
+        score: 0,
+        earned: [],
+        missed: ['README.md file', 'README with 500+ words'],
       }
+    }
 
-      // Score quality based on word count
-      const wordCount = readmeContent.split(/\s+/).length
-
-      if (wordCount >= 500) {
-        score += 10 // Comprehensive README
-      } else if (wordCount >= 200) {
-        score += 7 // Good README
-      } else if (wordCount >= 100) {
-        score += 5 // Basic README
-      } else if (wordCount >= 50) {
-        score += 3 // Minimal README
-      } else {
-        score += 1 // Very minimal README
-      }
+    // Score quality based on word count
+    const wordCount = readme.content.split(/\s+/).length
+    const earned = [readme.path, `${wordCount} words in README`]
+
+    let qualityScore: number
+    if (wordCount >= 500) {
+      qualityScore = 10 // Comprehensive README
+    } else if (wordCount >= 200) {
+      qualityScore = 7 // Good README
+    } else if (wordCount >= 100) {
+      qualityScore = 5 // Basic README
+    } else if (wordCount >= 50) {
+      qualityScore = 3 // Minimal README
+    } else {
+      qualityScore = 1 // Very minimal README
+    }
 
-      return score
-    } catch (error) {
-      return 0
+    return {
+      score: 15 + qualityScore,
+      earned,
+      missed: wordCount >= 500 ? [] : ['README with 500+ words'],
     }
   }
 
@@ -166,8 +338,8 @@ export class CompletenessScorer {
    * Score package manager files (0-10 points)
    * @private
    */
-  private scorePackageManager(tree: any): number {
-    if (!tree) return 0
+  private scorePackageManager(tree: GitHubTree | null): CategoryResult {
+    if (!tree) return treeUnavailable()
 
     const packageFiles = [
       'package.json', // Node.js
@@ -184,55 +356,98 @@ export class CompletenessScorer {
       'pubspec.yaml', // Dart/Flutter
     ]
 
-    const hasPackageFile = tree.tree.some((item: any) =>
-      packageFiles.some((file) => item.path.toLowerCase() === file.toLowerCase())
-    )
+    const found = tree.tree
+      .filter((item) =>
+        packageFiles.some((file) => item.path.toLowerCase() === file.toLowerCase())
+      )
+      .map((item) => item.path)
+
+    if (found.length === 0) {
+      return {
+        score: 0,
+        earned: [],
+        missed: ['Root package manifest (package.json, requirements.txt, go.mod, ...)'],
+      }
+    }
 
-    return hasPackageFile ? 10 : 0
+    return { score: 10, earned: found, missed: [] }
   }
 
   /**
-   * Score test presence (0-15 points)
+   * Score test quality (0-15 points)
+   * - 0-7 points for test cases (not test files)
+   * - 0-4 points for source modules with a matching test
+   * - 2 points for test runner config, 2 for coverage config
    * @private
    */
-  private scoreTests(tree: any): number {
-    if (!tree) return 0
-
-    const testPatterns = [
-      /^tests?\//i,
-      /^__tests__\//i,
-      /^spec\//i,
-      /\.test\.(ts|js|tsx|jsx|py|rb|go)$/i,
-      /\.spec\.(ts|js|tsx|jsx|py|rb|go)$/i,
-      /_test\.go$/i,
-      /test_.*\.py$/i,
-    ]
+  private scoreTests(metrics: TestMetrics | null): CategoryResult {
+    if (!metrics) return treeUnavailable()
 
-    const hasTests = tree.tree.some((item: any) =>
-      testPatterns.some((pattern) => pattern.test(item.path))
-    )
+    if (metrics.testFiles === 0) {
+      return {
+        score: 0,
+        earned: [],
+        missed: ['Test files (*.test.*, *.spec.*, tests/)'],
+      }
+    }
 
-    if (!hasTests) return 0
+    const earned: string[] = []
+    const missed: string[] = []
+    let score = 0
 
-    // Count test files
-    const testFileCount = tree.tree.filter((item: any) =>
-      testPatterns.some((pattern) => pattern.test(item.path))
-    ).length
+    const cases = metrics.estimatedTestCases
+    const frameworks = Object.entries(metrics.frameworks)
+      .map(([framework, count]) => `${framework}: ${count}`)
+      .join(', ')
+    if (cases > 0) {
+      earned.push(
+        `~${cases} test cases in ${metrics.testFiles} test files${frameworks && ` (${frameworks})`}`
+      )
+    }
+    if (cases >= 50) score += 7
+    else if (cases >= 20) score += 5
+    else if (cases >= 5) score += 3
+    else if (cases >= 1) score += 1
+    if (cases < 50) missed.push('50+ test cases')
+    if (metrics.emptyTestFiles > 0) {
+      missed.push(`${metrics.emptyTestFiles} test files without test cases`)
+    }
+
+    const percent = Math.round(metrics.testedRatio * 100)
+    if (metrics.testedModules > 0) {
+      earned.push(
+        `${metrics.testedModules}/${metrics.sourceModules} source modules have a test (${percent}%)`
+      )
+    }
+    if (metrics.testedRatio >= 0.5) score += 4
+    else if (metrics.testedRatio >= 0.25) score += 3
+    else if (metrics.testedRatio >= 0.1) score += 2
+    else if (metrics.testedModules > 0) score += 1
+    if (metrics.testedRatio < 0.5) missed.push('Tests for half of source modules')
+
+    if (metrics.testConfigs.length > 0) {
+      score += 2
+      earned.push(...metrics.testConfigs.slice(0, 3))
+    } else {
+      missed.push('Test runner config (vitest.config, jest.config, pytest.ini)')
+    }
 
-    if (testFileCount >= 10) return 15
-    if (testFileCount >= 5) return 12
-    if (testFileCount >= 2) return 10
-    return 7 // At least one test file
+    if (metrics.coverageConfigs.length > 0) {
+      score += 2
+      earned.push(`Coverage: ${metrics.coverageConfigs.slice(0, 3).join(', ')}`)
+    } else {
+      missed.push('Coverage config (thresholds, codecov.yml, .coveragerc)')
+    }
+
+    return { score, earned, missed }
   }
 
   /**
    * Score configuration files (0-10 points)
    * @private
    */
-  private scoreConfig(tree: any): number {
-    if (!tree) return 0
-
-    let score = 0
+  private scoreConfig(tree: GitHubTree | null): CategoryResult {
+    if (!tree) return treeUnavailable()
 
     const configFiles = [
       '.env.example',
@@ -254,24 +469,34 @@ export class CompletenessScorer {
       'go.mod',
     ]
 
-    const foundConfigs = tree.tree.filter((item: any) =>
-      configFiles.some((file) => item.path.toLowerCase().endsWith(file.toLowerCase()))
-    )
+    const foundConfigs = tree.tree
+      .filter((item) =>
+        configFiles.some((file) => item.path.toLowerCase().endsWith(file.toLowerCase()))
+      )
+      .map((item) => item.path)
 
     // Score based on number of config files
+    let score = 0
     if (foundConfigs.length >= 5) score = 10
     else if (foundConfigs.length >= 3) score = 7
     else if (foundConfigs.length >= 1) score = 5
 
-    return score
+    const missed =
+      foundConfigs.length >= 5
+        ? []
+        : ['.env.example', 'Dockerfile', '.editorconfig', 'tsconfig.json', '.prettierrc'].filter(
+            (file) => !foundConfigs.some((path) => path.toLowerCase().endsWith(file.toLowerCase()))
+          )
+
+    return { score, earned: foundConfigs.slice(0, 10), missed }
   }
 
   /**
    * Score documentation folder (0-10 points)
    * @private
    */
-  private scoreDocumentation(tree: any): number {
-    if (!tree) return 0
+  private scoreDocumentation(tree: GitHubTree | null): CategoryResult {
+    if (!tree) return treeUnavailable()
 
     const docPatterns = [
       /^docs?\//i,
@@ -280,45 +505,80 @@ export class CompletenessScorer {
       /\.md$/i, // Markdown files
     ]
 
-    const docFiles = tree.tree.filter((item: any) =>
-      docPatterns.some((pattern) => pattern.test(item.path))
-    )
+    const docFiles = tree.tree
+      .filter((item) => docPatterns.some((pattern) => pattern.test(item.path)))
+      .map((item) => item.path)
+
+    if (docFiles.length === 0) {
+      return {
+        score: 0,
+        earned: [],
+        missed: ['docs/ folder or Markdown documentation'],
+      }
+    }
 
-    if (docFiles.length === 0) return 0
-    if (docFiles.length >= 10) return 10
-    if (docFiles.length >= 5) return 7
-    return 5
+    let score = 5
+    if (docFiles.length >= 10) score = 10
+    else if (docFiles.length >= 5) score = 7
+
+    return {
+      score,
+      earned: [`${docFiles.length} documentation files`, ...docFiles.slice(0, 5)],
+      missed: docFiles.length >= 10 ? [] : ['10+ documentation files'],
+    }
   }
 
   /**
    * Score license file (0-5 points)
    * @private
    */
-  private scoreLicense(repository: GitHubRepository): number {
-    return repository.license ? 5 : 0
+  private scoreLicense(repository: GitHubRepository): CategoryResult {
+    if (!repository.license) {
+      return { score: 0, earned: [], missed: ['LICENSE file'] }
+    }
+
+    return {
+      score: 5,
+      earned: [`${repository.license.spdx_id || repository.license.name} license`],
+      missed: [],
+    }
   }
 
   /**
    * Score git maturity (0-10 points)
-   * Based on commit count
+   * Based on commit count over the full history, else the loaded commits
    * @private
    */
-  private scoreGitMaturity(commits: GitHubCommit[]): number {
-    const commitCount = commits.length
-
-    if (commitCount >= 100) return 10
-    if (commitCount >= 50) return 8
-    if (commitCount >= 20) return 6
-    if (commitCount >= 10) return 5
-    if (commitCount >= 5) return 3
-    return 1
+  private scoreGitMaturity(
+    commits: GitHubCommit[],
+    activity: CommitActivity | null
+  ): CategoryResult {
+    const commitCount = activity?.totalCommits ?? commits.length
+    const atLeast = !activity && commitCount >= 100
+
+    let score = 1
+    if (commitCount >= 100) score = 10
+    else if (commitCount >= 50) score = 8
+    else if (commitCount >= 20) score = 6
+    else if (commitCount >= 10) score = 5
+    else if (commitCount >= 5) score = 3
+
+    return {
+      score,
+      earned: [`${commitCount}${atLeast ? '+' : ''} commits`],
+      missed: commitCount >= 100 ? [] : ['100+ commits'],
+    }
   }
 
   /**
    * Score contributor diversity (0-5 points)
+   * Based on all contributors, else authors of the loaded commits
    * @private
    */
-  private async scoreContributors(commits: GitHubCommit[]): Promise<number> {
+  private scoreContributors(
+    commits: GitHubCommit[],
+    activity: CommitActivity | null
+  ): CategoryResult {
     const uniqueAuthors = new Set<string>()
 
     for (const commit of commits) {
@@ -327,21 +587,32 @@ export class CompletenessScorer {
       }
     }
 
-    const contributorCount = uniqueAuthors.size
+    const contributorCount = activity?.contributorCount ?? uniqueAuthors.size
+
+    let score = 0 // Single contributor
+    if (contributorCount >= 10) score = 5
+    else if (contributorCount >= 5) score = 4
+    else if (contributorCount >= 3) score = 3
+    else if (contributorCount >= 2) score = 2
 
-    if (contributorCount >= 10) return 5
-    if (contributorCount >= 5) return 4
-    if (contributorCount >= 3) return 3
-    if (contributorCount >= 2) return 2
-    return 0 // Single contributor
+    return {
+      score,
+      earned: score > 0 ? [`${contributorCount} contributors`] : [],
+      missed: contributorCount >= 10 ? [] : ['10+ contributors'],
+    }
   }
 
   /**
-   * Score CI/CD setup (0-10 points)
+   * Score CI/CD setup and health (0-10 points)
+   * - 4 points for CI configuration
+   * - 0-6 points for the pass rate of recent GitHub Actions runs
    * @private
    */
-  private scoreCICD(tree: any): number {
-    if (!tree) return 0
+  private scoreCICD(
+    tree: GitHubTree | null,
+    ciHealth: CIHealth | null
+  ): CategoryResult {
+    if (!tree) return treeUnavailable()
 
     const cicdPatterns = [
       /^\.github\/workflows\//i, // GitHub Actions
@@ -354,22 +625,221 @@ export class CompletenessScorer {
       /^\.drone\.yml$/i, // Drone CI
     ]
 
-    const hasCICD = tree.tree.some((item: any) =>
-      cicdPatterns.some((pattern) => pattern.test(item.path))
+    const cicdFiles = tree.tree
+      .filter((item) => cicdPatterns.some((pattern) => pattern.test(item.path)))
+      .map((item) => item.path)
+
+    if (cicdFiles.length === 0) {
+      return {
+        score: 0,
+        earned: [],
+        missed: ['CI configuration (.github/workflows/, .gitlab-ci.yml, ...)'],
+      }
+    }
+
+    const earned = cicdFiles.slice(0, 5)
+    if (!ciHealth || ciHealth.runsAnalyzed === 0) {
+      return {
+        score: 4,
+        earned,
+        missed: ['Passing GitHub Actions runs on the default branch'],
+      }
+    }
+
+    const missed: string[] = []
+    earned.push(
+      `${Math.round(ciHealth.passRate * 100)}% of ${ciHealth.runsAnalyzed} recent runs on ${ciHealth.branch} passed`
     )
+    if (ciHealth.lastRun?.conclusion && ciHealth.lastRun.conclusion !== 'success') {
+      missed.push(`Latest run on ${ciHealth.branch}: ${ciHealth.lastRun.conclusion}`)
+    }
+    missed.push(
+      ...ciHealth.flakyWorkflows.map((name) => `Flaky workflow: ${name}`)
+    )
+
+    return {
+      score: 4 + Math.round(ciHealth.passRate * 6),
+      earned,
+      missed,
+    }
+  }
 
-    return hasCICD ? 10 : 0
+  /**
+   * Score security (0-10 points)
+   * Deducts points for committed secrets, known vulnerabilities, severely
+   * outdated majors and abandoned packages. Secret locations are private to
+   * the owner, so only their count appears here.
+   * @private
+   */
+  private scoreSecurity(
+    secretScan: SecretScanResult | null,
+    health: DependencyHealth | null
+  ): CategoryResult {
+    const earned: string[] = []
+    const missed: string[] = []
+    let penalty = 0
+
+    if (secretScan) {
+      const count = secretScan.findings.length
+      if (count === 0) {
+        earned.push(`No secrets found in ${secretScan.filesScanned} files`)
+      } else {
+        penalty += count * SECRET_PENALTY
+        missed.push(
+          `${count} potential secret${count === 1 ? '' : 's'} committed (locations sent to the owner)`
+        )
+      }
+    }
+
+    if (health?.advisoriesChecked) {
+      if (health.vulnerabilities.length === 0) {
+        earned.push(`No known vulnerabilities in ${health.packageCount} packages`)
+      }
+      for (const vulnerability of health.vulnerabilities) {
+        penalty += VULNERABILITY_PENALTIES[vulnerability.severity] ?? 1
+      }
+      missed.push(
+        ...health.vulnerabilities
+          .slice(0, 5)
+          .map((vuln) => `${vuln.package}@${vuln.version}: ${vuln.id} (${vuln.severity})`)
+      )
+    }
+
+    if (health?.registryChecked) {
+      if (health.outdated.length === 0) {
+        earned.push('No severely outdated dependencies')
+      }
+      if (health.abandoned.length === 0) {
+        earned.push('No abandoned dependencies')
+      }
+      penalty += Math.min(health.outdated.length, MAX_STALENESS_PENALTY)
+      penalty += Math.min(health.abandoned.length, MAX_STALENESS_PENALTY)
+      missed.push(
+        ...health.outdated
+          .slice(0, 3)
+          .map(
+            (dep) => `${dep.name} ${dep.version} is ${dep.majorsBehind} majors behind ${dep.latestVersion}`
+          ),
+        ...health.abandoned
+          .slice(0, 3)
+          .map((dep) => `${dep.name} is ${dep.deprecated ? 'deprecated' : 'unmaintained'}`)
+      )
+    }
+
+    return {
+      score: Math.max(0, CATEGORY_MAX_SCORES.security - penalty),
+      earned,
+      missed,
+    }
+  }
+}
+
+/**
+ * Result used when the repository tree could not be fetched
+ */
+function treeUnavailable(): CategoryResult {
+  return { score: 0, earned: [], missed: ['Repository tree unavailable'] }
+}
+
+/**
+ * Assemble a breakdown (with total) from per-category results
+ * Scores are rescaled to the profile's weights; optional categories without
+ * a result are left out of the total
+ */
+function buildBreakdown(
+  results: Partial<Record<CompletenessCategory, CategoryResult>>,
+  profile: ScoringProfile,
+  testMetrics: TestMetrics | null = null
+): CompletenessBreakdown {
+  const categories = (
+    Object.keys(CATEGORY_MAX_SCORES) as CompletenessCategory[]
+  ).filter((category) => results[category])
+
+  const weighted: Partial<Record<CompletenessCategory, number>> = {}
+  const details: Partial<Record<CompletenessCategory, CategoryDetail>> = {}
+  for (const category of categories) {
+    const result = results[category] as CategoryResult
+    const weight = categoryWeight(profile, category)
+    const maxScore = result.maxScore ?? CATEGORY_MAX_SCORES[category]
+    weighted[category] =
+      maxScore > 0 ? Math.round((result.score / maxScore) * weight) : 0
+    details[category] = {
+      maxScore: weight,
+      earned: result.earned,
+      missed: result.missed,
+    }
+  }
+
+  const maxTotal = categories.reduce(
+    (sum, category) => sum + categoryWeight(profile, category),
+    0
+  )
+  const total = categories.reduce(
+    (sum, category) => sum + (weighted[category] ?? 0),
+    0
+  )
+
+  return {
+    profile: profile.name,
+    readme: weighted.readme ?? 0,
+    packageManager: weighted.packageManager ?? 0,
+    tests: weighted.tests ?? 0,
+    config: weighted.config ?? 0,
+    documentation: weighted.documentation ?? 0,
+    license: weighted.license ?? 0,
+    gitMaturity: weighted.gitMaturity ?? 0,
+    contributors: weighted.contributors ?? 0,
+    cicd: weighted.cicd ?? 0,
+    ...(weighted.security !== undefined && { security: weighted.security }),
+    ...(weighted.projectChecks !== undefined && {
+      projectChecks: weighted.projectChecks,
+    }),
+    total: maxTotal > 0 ? Math.round((total / maxTotal) * 100) : 0,
+    details,
+    ...(testMetrics && { testMetrics }),
+  }
+}
+
+/**
+ * Points a category is worth under a profile
+ * Project checks are worth the points of all the profile's checks
+ */
+function categoryWeight(
+  profile: ScoringProfile,
+  category: CompletenessCategory
+): number {
+  return category === 'projectChecks'
+    ? profile.checks.reduce((sum, check) => sum + check.points, 0)
+    : profile.weights[category]
+}
+
+/**
+ * Create a breakdown with zero scores
+ *
+ * @param profile - Scoring profile the breakdown is for
+ */
+export function createEmptyBreakdown(
+  profile: ScoringProfileName = 'default'
+): CompletenessBreakdown {
+  const empty: Partial<Record<CompletenessCategory, CategoryResult>> = {}
+  for (const category of Object.keys(CATEGORY_MAX_SCORES) as CompletenessCategory[]) {
+    if (OPTIONAL_CATEGORIES.includes(category)) continue
+    empty[category] = { score: 0, earned: [], missed: [] }
   }
+  return buildBreakdown(empty, getScoringProfile(profile))
 }
 
 /**
  * Create completeness scorer instance
+ * Registry lookups can be disabled with DEPENDENCY_REGISTRY_LOOKUPS=false
  *
- * @param githubClient - GitHub client instance
  * @returns CompletenessScorer instance
  */
-export function createCompletenessScorer(
-  githubClient: GitHubClient
-): CompletenessScorer {
-  return new CompletenessScorer(githubClient)
+export function createCompletenessScorer(): CompletenessScorer {
+  return new CompletenessScorer({
+    registry:
+      process.env.DEPENDENCY_REGISTRY_LOOKUPS === 'false'
+        ? null
+        : new HttpPackageRegistry(),
+  })
 }
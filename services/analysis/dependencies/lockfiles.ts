@@ -0,0 +1,309 @@
+/**
+ * Lockfile Parsers
+ *
+ * Resolves the exact installed versions of every package, direct and
+ * transitive, from lockfiles at the repository root:
+ * - package-lock.json / npm-shrinkwrap.json, yarn.lock, pnpm-lock.yaml
+ * - poetry.lock, Pipfile.lock
+ * - Cargo.lock
+ * - Gemfile.lock
+ * - composer.lock
+ *
+ * Go modules have no lockfile: go.mod already pins exact versions.
+ */
+
+import type {
+  DependencyEcosystem,
+  ManifestDependency,
+} from '../manifest-analyzer'
+
+/**
+ * Package at an exact resolved version
+ */
+export interface LockedPackage {
+  name: string
+  version: string
+  ecosystem: DependencyEcosystem
+  direct: boolean // Declared in a manifest rather than pulled in transitively
+}
+
+/**
+ * Lockfiles and the ecosystem they resolve, in order of preference
+ */
+export const LOCKFILES: Array<{
+  path: string
+  ecosystem: DependencyEcosystem
+}> = [
+  { path: 'package-lock.json', ecosystem: 'npm' },
+  { path: 'npm-shrinkwrap.json', ecosystem: 'npm' },
+  { path: 'pnpm-lock.yaml', ecosystem: 'npm' },
+  { path: 'yarn.lock', ecosystem: 'npm' },
+  { path: 'poetry.lock', ecosystem: 'pypi' },
+  { path: 'Pipfile.lock', ecosystem: 'pypi' },
+  { path: 'Cargo.lock', ecosystem: 'cargo' },
+  { path: 'Gemfile.lock', ecosystem: 'rubygems' },
+  { path: 'composer.lock', ecosystem: 'packagist' },
+]
+
+/**
+ * Parse a lockfile by name
+ *
+ * @param path - Lockfile path
+ * @param content - Raw file contents
+ * @returns Resolved packages (not yet marked direct), or null when unsupported or malformed
+ */
+export function parseLockfile(
+  path: string,
+  content: string
+): Array<Omit<LockedPackage, 'direct'>> | null {
+  switch (path.split('/').pop()) {
+    case 'package-lock.json':
+    case 'npm-shrinkwrap.json':
+      return parsePackageLock(content)
+    case 'pnpm-lock.yaml':
+      return parsePnpmLock(content)
+    case 'yarn.lock':
+      return parseYarnLock(content)
+    case 'poetry.lock':
+      return parseTomlPackages(content, 'pypi')
+    case 'Pipfile.lock':
+      return parsePipfileLock(content)
+    case 'Cargo.lock':
+      return parseTomlPackages(content, 'cargo')
+    case 'Gemfile.lock':
+      return parseGemfileLock(content)
+    case 'composer.lock':
+      return parseComposerLock(content)
+    default:
+      return null
+  }
+}
+
+/**
+ * Locked packages for manifests whose declared versions are already exact:
+ * go.mod requirements and `==` pins in requirements.txt
+ *
+ * @param dependencies - Dependencies declared in manifests
+ * @returns Packages with an exact declared version
+ */
+export function pinnedDependencies(
+  dependencies: ManifestDependency[]
+): Array<Omit<LockedPackage, 'direct'>> {
+  return dependencies.flatMap(
+    ({ name, version, ecosystem }): Array<Omit<LockedPackage, 'direct'>> => {
+      if (!version) return []
+      if (ecosystem === 'go') {
+        return [{ name, version, ecosystem }]
+      }
+      const pin = ecosystem === 'pypi' && version.match(/^===?\s*([^,\s*]+)$/)
+      return pin ? [{ name, version: pin[1], ecosystem }] : []
+    }
+  )
+}
+
+/**
+ * package-lock.json, lockfile versions 1 to 3
+ */
+function parsePackageLock(
+  content: string
+): Array<Omit<LockedPackage, 'direct'>> | null {
+  const lock = parseJson(content) as {
+    packages?: Record<string, { version?: string; link?: boolean }>
+    dependencies?: Record<string, NpmV1Dependency>
+  } | null
+  if (!lock) return null
+
+  // v2/v3: flat map keyed by install path
+  if (lock.packages) {
+    return Object.entries(lock.packages).flatMap(([key, entry]) => {
+      const name = key.split('node_modules/').pop()
+      if (!key || !name || !entry.version || entry.link) return []
+      return [{ name, version: entry.version, ecosystem: 'npm' as const }]
+    })
+  }
+
+  // v1: nested dependency tree
+  const packages: Array<Omit<LockedPackage, 'direct'>> = []
+  const walk = (dependencies: Record<string, NpmV1Dependency> = {}) => {
+    for (const [name, entry] of Object.entries(dependencies)) {
+      if (entry.version) {
+        packages.push({ name, version: entry.version, ecosystem: 'npm' })
+      }
+      walk(entry.dependencies)
+    }
+  }
+  walk(lock.dependencies)
+  return packages
+}
+
+interface NpmV1Dependency {
+  version?: string
+  dependencies?: Record<string, NpmV1Dependency>
+}
+
+/**
+ * pnpm-lock.yaml package keys:
+ * `/name@1.0.0` (v6), `/name/1.0.0` (v5), `name@1.0.0` (v9)
+ */
+function parsePnpmLock(content: string): Array<Omit<LockedPackage, 'direct'>> {
+  const packages: Array<Omit<LockedPackage, 'direct'>> = []
+  let inPackages = false
+
+  for (const line of content.split('\n')) {
+    if (/^\S/.test(line)) {
+      inPackages = /^packages:\s*$/.test(line)
+      continue
+    }
+    const key = inPackages && line.match(/^ {2}['"]?\/?([^'"\s]+?)['"]?:\s*$/)
+    if (!key) continue
+
+    // Drop peer dependency suffixes: name@1.0.0(react@18.0.0)
+    const spec = key[1].replace(/\(.*$/, '')
+    const at = spec.lastIndexOf('@')
+    const separator = at > 0 ? at : spec.lastIndexOf('/')
+    const name = spec.slice(0, separator)
+    // v5 peer suffixes: 1.0.0_react@18.0.0
+    const version = spec.slice(separator + 1).replace(/_.*$/, '')
+    if (name && /^\d/.test(version)) {
+      packages.push({ name, version, ecosystem: 'npm' })
+    }
+  }
+
+  return packages
+}
+
+/**
+ * yarn.lock, classic and berry formats
+ */
+function parseYarnLock(content: string): Array<Omit<LockedPackage, 'direct'>> {
+  const packages: Array<Omit<LockedPackage, 'direct'>> = []
+  let name: string | null = null
+
+  for (const line of content.split('\n')) {
+    // Entry header: `"react@^18.0.0", react@^18.2.0:` or `"react@npm:^18.0.0":`
+    if (/^\S.*:$/.test(line) && !line.startsWith('__metadata')) {
+      const spec = line.split(',')[0].replace(/^"|":?$|:$/g, '')
+      const at = spec.indexOf('@', 1)
+      name = at > 0 ? spec.slice(0, at) : null
+      continue
+    }
+
+    const version = name && line.match(/^\s+version:?\s+"?([^"\s]+)"?/)
+    if (version && name) {
+      packages.push({ name, version: version[1], ecosystem: 'npm' })
+      name = null
+    }
+  }
+
+  return packages
+}
+
+/**
+ * `[[package]]` tables with name and version (poetry.lock, Cargo.lock)
+ */
+function parseTomlPackages(
+  content: string,
+  ecosystem: DependencyEcosystem
+): Array<Omit<LockedPackage, 'direct'>> {
+  return content
+    .split(/^\[\[package\]\]\s*$/m)
+    .slice(1)
+    .flatMap((block) => {
+      const name = block.match(/^name\s*=\s*"([^"]+)"/m)?.[1]
+      const version = block.match(/^version\s*=\s*"([^"]+)"/m)?.[1]
+      return name && version
+        ? [
+            {
+              name: ecosystem === 'pypi' ? pypiName(name) : name,
+              version,
+              ecosystem,
+            },
+          ]
+        : []
+    })
+}
+
+/**
+ * Pipfile.lock
+ */
+function parsePipfileLock(
+  content: string
+): Array<Omit<LockedPackage, 'direct'>> | null {
+  const lock = parseJson(content) as Record<
+    string,
+    Record<string, { version?: string }>
+  > | null
+  if (!lock) return null
+
+  return ['default', 'develop'].flatMap((section) =>
+    Object.entries(lock[section] ?? {}).flatMap(([name, entry]) =>
+      entry.version
+        ? [
+            {
+              name: pypiName(name),
+              version: entry.version.replace(/^==/, ''),
+              ecosystem: 'pypi' as const,
+            },
+          ]
+        : []
+    )
+  )
+}
+
+/**
+ * Gemfile.lock: gems are the 4-space indented entries under `specs:`
+ */
+function parseGemfileLock(
+  content: string
+): Array<Omit<LockedPackage, 'direct'>> {
+  return Array.from(
+    content.matchAll(/^ {4}([A-Za-z0-9_.-]+) \(([^)\s]+)\)\s*$/gm),
+    (match) => ({
+      name: match[1],
+      // Platform suffixes: nokogiri (1.16.0-x86_64-linux)
+      version: match[2].replace(/-(x86|arm|aarch|java|universal).*$/, ''),
+      ecosystem: 'rubygems' as const,
+    })
+  )
+}
+
+/**
+ * composer.lock
+ */
+function parseComposerLock(
+  content: string
+): Array<Omit<LockedPackage, 'direct'>> | null {
+  const lock = parseJson(content) as Record<
+    string,
+    Array<{ name?: string; version?: string }>
+  > | null
+  if (!lock) return null
+
+  return [...(lock.packages ?? []), ...(lock['packages-dev'] ?? [])].flatMap(
+    ({ name, version }) =>
+      name && version
+        ? [
+            {
+              name,
+              version: version.replace(/^v/, ''),
+              ecosystem: 'packagist' as const,
+            },
+          ]
+        : []
+  )
+}
+
+/**
+ * PEP 503 normalized package name
+ */
+function pypiName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-')
+}
+
+function parseJson(content: string): unknown {
+  try {
+    return JSON.parse(content)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * OSV Advisory Database
+ *
+ * Loads an offline dump of OSV advisories (https://ossf.github.io/osv-schema/)
+ * and matches locked package versions against affected ranges. No network
+ * access: point `OSV_DATABASE_PATH` at one of
+ * - a JSON file holding an array of advisories (or `{ "vulns": [...] }`)
+ * - a JSON Lines file with one advisory per line (.jsonl, .ndjson)
+ * - a directory of advisory JSON files, e.g. an extracted `all.zip` export
+ */
+
+import { readFile, readdir, stat } from 'fs/promises'
+import { join } from 'path'
+import type { DependencyEcosystem } from '../manifest-analyzer'
+import { compareVersions } from './versions'
+
+/**
+ * Normalized advisory severity
+ */
+export type AdvisorySeverity =
+  | 'critical'
+  | 'high'
+  | 'moderate'
+  | 'low'
+  | 'unknown'
+
+/**
+ * Advisory affecting a specific package version
+ */
+export interface AdvisoryMatch {
+  id: string // "GHSA-...", "PYSEC-...", "RUSTSEC-..."
+  aliases: string[] // CVE IDs and other identifiers
+  summary: string | null
+  severity: AdvisorySeverity
+  fixedVersion: string | null // Lowest fixed version above the affected one
+}
+
+/**
+ * Subset of the OSV schema used for matching
+ */
+interface OsvAdvisory {
+  id: string
+  aliases?: string[]
+  summary?: string
+  withdrawn?: string
+  database_specific?: { severity?: string }
+  affected?: Array<{
+    package?: { ecosystem?: string; name?: string }
+    ranges?: Array<{
+      type: string
+      events: Array<{
+        introduced?: string
+        fixed?: string
+        last_affected?: string
+      }>
+    }>
+    versions?: string[]
+    ecosystem_specific?: { severity?: string }
+  }>
+}
+
+/**
+ * OSV ecosystem names
+ */
+const OSV_ECOSYSTEMS: Record<DependencyEcosystem, string> = {
+  npm: 'npm',
+  pypi: 'PyPI',
+  cargo: 'crates.io',
+  go: 'Go',
+  rubygems: 'RubyGems',
+  packagist: 'Packagist',
+}
+
+const SEVERITY_ORDER: AdvisorySeverity[] = [
+  'critical',
+  'high',
+  'moderate',
+  'low',
+  'unknown',
+]
+
+/**
+ * In-memory advisory index keyed by ecosystem and package name
+ */
+export class AdvisoryDatabase {
+  private index = new Map<string, OsvAdvisory[]>()
+
+  constructor(advisories: OsvAdvisory[] = []) {
+    for (const advisory of advisories) {
+      if (advisory.withdrawn) continue
+      for (const affected of advisory.affected ?? []) {
+        const { ecosystem, name } = affected.package ?? {}
+        if (!ecosystem || !name) continue
+
+        const key = indexKey(ecosystem, name)
+        const entries = this.index.get(key) ?? []
+        if (!entries.includes(advisory)) {
+          entries.push(advisory)
+          this.index.set(key, entries)
+        }
+      }
+    }
+  }
+
+  /**
+   * Number of indexed packages
+   */
+  get size(): number {
+    return this.index.size
+  }
+
+  /**
+   * Load advisories from a file or directory
+   *
+   * @param path - OSV dump location
+   * @returns Advisory database
+   */
+  static async load(path: string): Promise<AdvisoryDatabase> {
+    const info = await stat(path)
+    const files = info.isDirectory() ? await listJsonFiles(path) : [path]
+
+    const advisories: OsvAdvisory[] = []
+    for (const file of files) {
+      advisories.push(...parseDump(await readFile(file, 'utf-8'), file))
+    }
+
+    return new AdvisoryDatabase(advisories)
+  }
+
+  /**
+   * Find advisories affecting a package version
+   *
+   * @param ecosystem - Package ecosystem
+   * @param name - Package name
+   * @param version - Exact installed version
+   * @returns Matching advisories, most severe first
+   */
+  query(
+    ecosystem: DependencyEcosystem,
+    name: string,
+    version: string
+  ): AdvisoryMatch[] {
+    const osvEcosystem = OSV_ECOSYSTEMS[ecosystem]
+    const advisories = this.index.get(indexKey(osvEcosystem, name)) ?? []
+
+    return advisories
+      .flatMap((advisory) => {
+        const affected = (advisory.affected ?? []).find(
+          (entry) =>
+            entry.package?.ecosystem === osvEcosystem &&
+            entry.package.name !== undefined &&
+            indexKey(osvEcosystem, entry.package.name) ===
+              indexKey(osvEcosystem, name) &&
+            isAffected(entry, version)
+        )
+        if (!affected) return []
+
+        return [
+          {
+            id: advisory.id,
+            aliases: advisory.aliases ?? [],
+            summary: advisory.summary ?? null,
+            severity: normalizeSeverity(
+              advisory.database_specific?.severity ??
+                affected.ecosystem_specific?.severity
+            ),
+            fixedVersion: fixedVersion(affected, version),
+          },
+        ]
+      })
+      .sort(
+        (a, b) =>
+          SEVERITY_ORDER.indexOf(a.severity) -
+          SEVERITY_ORDER.indexOf(b.severity)
+      )
+  }
+}
+
+let cached: {
+  path: string
+  database: Promise<AdvisoryDatabase | null>
+} | null = null
+
+/**
+ * Advisory database configured by `OSV_DATABASE_PATH`, loaded once per process
+ *
+ * @returns Advisory database, or null when none is configured or it fails to load
+ */
+export function getAdvisoryDatabase(
+  path: string | undefined = process.env.OSV_DATABASE_PATH
+): Promise<AdvisoryDatabase | null> {
+  if (!path) {
+    return Promise.resolve(null)
+  }
+  if (cached?.path !== path) {
+    cached = {
+      path,
+      database: AdvisoryDatabase.load(path).catch((error) => {
+        console.error(`Failed to load OSV database from ${path}:`, error)
+        return null
+      }),
+    }
+  }
+  return cached.database
+}
+
+/**
+ * Whether a version falls in an affected entry's versions or ranges
+ */
+function isAffected(
+  affected: NonNullable<OsvAdvisory['affected']>[number],
+  version: string
+): boolean {
+  if (affected.versions?.includes(version)) {
+    return true
+  }
+
+  // Events are ordered; walk them keeping the current affected state
+  return (affected.ranges ?? [])
+    .filter((range) => range.type === 'SEMVER' || range.type === 'ECOSYSTEM')
+    .some((range) => {
+      let inRange = false
+      for (const event of range.events) {
+        if (event.introduced !== undefined) {
+          if (
+            event.introduced === '0' ||
+            compareVersions(version, event.introduced) >= 0
+          ) {
+            inRange = true
+          }
+        } else if (event.fixed !== undefined) {
+          if (compareVersions(version, event.fixed) >= 0) inRange = false
+        } else if (event.last_affected !== undefined) {
+          if (compareVersions(version, event.last_affected) > 0) inRange = false
+        }
+      }
+      return inRange
+    })
+}
+
+/**
+ * Lowest fixed version above the affected version
+ */
+function fixedVersion(
+  affected: NonNullable<OsvAdvisory['affected']>[number],
+  version: string
+): string | null {
+  const fixes = (affected.ranges ?? [])
+    .flatMap((range) => range.events.map((event) => event.fixed))
+    .filter(
+      (fixed): fixed is string => !!fixed && compareVersions(fixed, version) > 0
+    )
+    .sort(compareVersions)
+
+  return fixes[0] ?? null
+}
+
+function normalizeSeverity(severity: string | undefined): AdvisorySeverity {
+  switch (severity?.toLowerCase()) {
+    case 'critical':
+      return 'critical'
+    case 'high':
+      return 'high'
+    case 'moderate':
+    case 'medium':
+      return 'moderate'
+    case 'low':
+      return 'low'
+    default:
+      return 'unknown'
+  }
+}
+
+/**
+ * Index key; PyPI names compare after PEP 503 normalization
+ */
+function indexKey(ecosystem: string, name: string): string {
+  return ecosystem === 'PyPI'
+    ? `${ecosystem}:${name.toLowerCase().replace(/[-_.]+/g, '-')}`
+    : `${ecosystem}:${name}`
+}
+
+/**
+ * Parse a dump file as a single advisory, an array, `{ vulns }` or JSON Lines
+ */
+function parseDump(content: string, file: string): OsvAdvisory[] {
+  if (/\.(jsonl|ndjson)$/.test(file)) {
+    return content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as OsvAdvisory)
+  }
+
+  const json = JSON.parse(content) as
+    | OsvAdvisory
+    | OsvAdvisory[]
+    | { vulns: OsvAdvisory[] }
+  if (Array.isArray(json)) return json
+  if ('vulns' in json) return json.vulns
+  return [json]
+}
+
+async function listJsonFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true })
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const path = join(directory, entry.name)
+      if (entry.isDirectory()) return listJsonFiles(path)
+      return Promise.resolve(
+        /\.(json|jsonl|ndjson)$/.test(entry.name) ? [path] : []
+      )
+    })
+  )
+  return files.flat()
+}
@@ -0,0 +1,188 @@
+/**
+ * Package Registry
+ *
+ * Looks up the latest release and last publish date of a package on its
+ * public registry, for staleness checks. Responses are cached for a day.
+ */
+
+import { cacheService, CACHE_TTL } from '@/lib/cache'
+import type { DependencyEcosystem } from '../manifest-analyzer'
+
+/**
+ * Registry metadata for a package
+ */
+export interface PackageInfo {
+  latestVersion: string | null
+  lastPublishedAt: string | null // ISO timestamp of the latest release
+  deprecated: boolean // Marked deprecated, abandoned or inactive by its maintainers
+}
+
+/**
+ * Source of package metadata
+ */
+export interface PackageRegistry {
+  getPackageInfo(
+    ecosystem: DependencyEcosystem,
+    name: string
+  ): Promise<PackageInfo | null>
+}
+
+/**
+ * Request timeout per registry call
+ */
+const REQUEST_TIMEOUT_MS = 5000
+
+/**
+ * Public registry APIs
+ */
+export class HttpPackageRegistry implements PackageRegistry {
+  async getPackageInfo(
+    ecosystem: DependencyEcosystem,
+    name: string
+  ): Promise<PackageInfo | null> {
+    const cacheKey = cacheService.packageRegistryKey(ecosystem, name)
+    const cached = await cacheService.get<PackageInfo>(cacheKey)
+    if (cached) {
+      return cached
+    }
+
+    try {
+      const info = await this.fetchPackageInfo(ecosystem, name)
+      if (info) {
+        await cacheService.set(cacheKey, info, CACHE_TTL.PACKAGE_METADATA)
+      }
+      return info
+    } catch (error) {
+      console.error(`Registry lookup failed for ${ecosystem}:${name}:`, error)
+      return null
+    }
+  }
+
+  private async fetchPackageInfo(
+    ecosystem: DependencyEcosystem,
+    name: string
+  ): Promise<PackageInfo | null> {
+    switch (ecosystem) {
+      case 'npm': {
+        // Abbreviated metadata keeps the response small
+        const data = await fetchJson<{
+          modified?: string
+          'dist-tags'?: { latest?: string }
+          versions?: Record<string, { deprecated?: string }>
+        }>(`https://registry.npmjs.org/${name.replace('/', '%2f')}`, {
+          Accept: 'application/vnd.npm.install-v1+json',
+        })
+        const latest = data?.['dist-tags']?.latest ?? null
+        return data
+          ? {
+              latestVersion: latest,
+              lastPublishedAt: data.modified ?? null,
+              deprecated: !!(latest && data.versions?.[latest]?.deprecated),
+            }
+          : null
+      }
+      case 'pypi': {
+        const data = await fetchJson<{
+          info?: { version?: string; classifiers?: string[] }
+          urls?: Array<{ upload_time_iso_8601?: string }>
+        }>(`https://pypi.org/pypi/${encodeURIComponent(name)}/json`)
+        return data
+          ? {
+              latestVersion: data.info?.version ?? null,
+              lastPublishedAt: data.urls?.[0]?.upload_time_iso_8601 ?? null,
+              deprecated: !!data.info?.classifiers?.includes(
+                'Development Status :: 7 - Inactive'
+              ),
+            }
+          : null
+      }
+      case 'cargo': {
+        const data = await fetchJson<{
+          crate?: {
+            max_stable_version?: string
+            max_version?: string
+            updated_at?: string
+          }
+        }>(`https://crates.io/api/v1/crates/${encodeURIComponent(name)}`)
+        return data?.crate
+          ? {
+              latestVersion:
+                data.crate.max_stable_version ?? data.crate.max_version ?? null,
+              lastPublishedAt: data.crate.updated_at ?? null,
+              deprecated: false,
+            }
+          : null
+      }
+      case 'go': {
+        const data = await fetchJson<{ Version?: string; Time?: string }>(
+          `https://proxy.golang.org/${escapeGoModule(name)}/@latest`
+        )
+        return data
+          ? {
+              latestVersion: data.Version ?? null,
+              lastPublishedAt: data.Time ?? null,
+              deprecated: false,
+            }
+          : null
+      }
+      case 'rubygems': {
+        const data = await fetchJson<{
+          version?: string
+          version_created_at?: string
+        }>(`https://rubygems.org/api/v1/gems/${encodeURIComponent(name)}.json`)
+        return data
+          ? {
+              latestVersion: data.version ?? null,
+              lastPublishedAt: data.version_created_at ?? null,
+              deprecated: false,
+            }
+          : null
+      }
+      case 'packagist': {
+        const data = await fetchJson<{
+          packages?: Record<
+            string,
+            Array<{ version?: string; time?: string; abandoned?: unknown }>
+          >
+        }>(`https://repo.packagist.org/p2/${name}.json`)
+        // Newest release first
+        const latest = data?.packages?.[name]?.[0]
+        return latest
+          ? {
+              latestVersion: latest.version?.replace(/^v/, '') ?? null,
+              lastPublishedAt: latest.time ?? null,
+              deprecated: !!latest.abandoned,
+            }
+          : null
+      }
+    }
+  }
+}
+
+/**
+ * Fetch JSON, treating 404 as a missing package
+ */
+async function fetchJson<T>(
+  url: string,
+  headers: Record<string, string> = {}
+): Promise<T | null> {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': 'vibeyard/1.0', ...headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status}`)
+  }
+  return (await response.json()) as T
+}
+
+/**
+ * Go module proxy path escaping: uppercase letters become `!` + lowercase
+ */
+function escapeGoModule(path: string): string {
+  return path.replace(/[A-Z]/g, (letter) => `!${letter.toLowerCase()}`)
+}
@@ -0,0 +1,84 @@
+/**
+ * Version Comparison
+ *
+ * Ecosystem-agnostic ordering good enough for semver (npm, Cargo, Go,
+ * Packagist), RubyGems and common PEP 440 versions: numeric release
+ * segments compare numerically, and a pre-release (`-beta.1`, `rc1`,
+ * `.dev0`) sorts before its release.
+ */
+
+interface ParsedVersion {
+  release: number[]
+  preRelease: string | null
+}
+
+/**
+ * Compare two versions
+ *
+ * @returns Negative when `a < b`, positive when `a > b`, 0 when equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a)
+  const right = parseVersion(b)
+
+  const length = Math.max(left.release.length, right.release.length)
+  for (let i = 0; i < length; i++) {
+    const difference = (left.release[i] ?? 0) - (right.release[i] ?? 0)
+    if (difference !== 0) return difference
+  }
+
+  if (left.preRelease === right.preRelease) return 0
+  if (left.preRelease === null) return 1
+  if (right.preRelease === null) return -1
+  return comparePreRelease(left.preRelease, right.preRelease)
+}
+
+/**
+ * Major version component
+ *
+ * @returns Major version, or null when the version has no numeric release
+ */
+export function majorVersion(version: string): number | null {
+  const { release } = parseVersion(version)
+  return release.length > 0 ? release[0] : null
+}
+
+function parseVersion(version: string): ParsedVersion {
+  const cleaned = version
+    .trim()
+    .replace(/^[v=]+/, '')
+    .replace(/\+.*$/, '') // Build metadata never affects ordering
+
+  const match = cleaned.match(/^(\d+(?:\.\d+)*)(.*)$/)
+  if (!match) {
+    return { release: [], preRelease: cleaned || null }
+  }
+
+  const suffix = match[2].replace(/^[-.]/, '')
+  return {
+    release: match[1].split('.').map(Number),
+    // Post releases (1.0.post1, 1.0-1) sort after the release
+    preRelease: !suffix || /^(post|p|r|rev)?\d*$/i.test(suffix) ? null : suffix,
+  }
+}
+
+function comparePreRelease(a: string, b: string): number {
+  const left = a.split(/[.-]/)
+  const right = b.split(/[.-]/)
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    if (left[i] === undefined) return -1
+    if (right[i] === undefined) return 1
+
+    const leftNumber = /^\d+$/.test(left[i]) ? Number(left[i]) : null
+    const rightNumber = /^\d+$/.test(right[i]) ? Number(right[i]) : null
+
+    if (leftNumber !== null && rightNumber !== null) {
+      if (leftNumber !== rightNumber) return leftNumber - rightNumber
+    } else if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1
+    }
+  }
+
+  return 0
+}
@@ -0,0 +1,394 @@
+/**
+ * Dependency Health Checker
+ *
+ * Checks resolved dependency versions for:
+ * - Known vulnerabilities, from an offline OSV advisory dump
+ * - Severely outdated majors, from registry metadata
+ * - Abandoned packages (deprecated, or no release in years)
+ *
+ * Versions come from root lockfiles (see `./dependencies/lockfiles`), or from
+ * manifests that already pin exact versions.
+ */
+
+import type { GitHubTree } from '@/types/github'
+import type {
+  DependencyEcosystem,
+  ManifestDependency,
+} from './manifest-analyzer'
+import {
+  LOCKFILES,
+  parseLockfile,
+  pinnedDependencies,
+  type LockedPackage,
+} from './dependencies/lockfiles'
+import {
+  getAdvisoryDatabase,
+  type AdvisoryDatabase,
+  type AdvisoryMatch,
+} from './dependencies/osv-database'
+import {
+  HttpPackageRegistry,
+  type PackageRegistry,
+} from './dependencies/registry'
+import { compareVersions, majorVersion } from './dependencies/versions'
+import { snapshotFile, type RepositorySnapshot } from './repository-snapshot'
+
+/**
+ * Known vulnerability in an installed package
+ */
+export interface DependencyVulnerability extends AdvisoryMatch {
+  package: string
+  version: string
+  ecosystem: DependencyEcosystem
+  direct: boolean
+}
+
+/**
+ * Direct dependency several major versions behind the latest release
+ */
+export interface OutdatedDependency {
+  name: string
+  ecosystem: DependencyEcosystem
+  version: string
+  latestVersion: string
+  majorsBehind: number
+}
+
+/**
+ * Direct dependency that is no longer maintained
+ */
+export interface AbandonedDependency {
+  name: string
+  ecosystem: DependencyEcosystem
+  version: string | null
+  lastPublishedAt: string | null
+  deprecated: boolean
+}
+
+/**
+ * Dependency health report
+ */
+export interface DependencyHealth {
+  lockfiles: string[]
+  packageCount: number // Resolved packages, direct and transitive
+  advisoriesChecked: boolean // False without an advisory database or packages
+  registryChecked: boolean // False when registry lookups are disabled
+  vulnerabilities: DependencyVulnerability[]
+  outdated: OutdatedDependency[]
+  abandoned: AbandonedDependency[]
+}
+
+/**
+ * Dependency health checker configuration
+ */
+interface DependencyHealthConfig {
+  advisories?: AdvisoryDatabase | null // Default: loaded from OSV_DATABASE_PATH
+  registry?: PackageRegistry | null // Default: public registries; null disables lookups
+  now?: () => Date
+}
+
+/**
+ * Majors behind the latest release before a dependency counts as outdated
+ */
+const MIN_MAJORS_BEHIND = 2
+
+/**
+ * Days without a release before a dependency counts as abandoned
+ */
+const ABANDONED_AFTER_DAYS = 2 * 365
+
+/**
+ * Maximum registry lookups per analysis, and how many run at once
+ */
+const MAX_REGISTRY_LOOKUPS = 40
+const REGISTRY_CONCURRENCY = 5
+
+/**
+ * Dependency Health Checker
+ */
+export class DependencyHealthChecker {
+  private advisories: AdvisoryDatabase | null | undefined
+  private registry: PackageRegistry | null
+  private now: () => Date
+
+  constructor(config: DependencyHealthConfig = {}) {
+    this.advisories = config.advisories
+    this.registry =
+      config.registry === undefined
+        ? new HttpPackageRegistry()
+        : config.registry
+    this.now = config.now ?? (() => new Date())
+  }
+
+  /**
+   * Lockfiles present in the tree, one per ecosystem in order of preference
+   *
+   * @param tree - Repository tree
+   * @returns Paths to load into the snapshot
+   */
+  selectFiles(tree: GitHubTree): string[] {
+    return lockfileCandidates(tree).map(({ path }) => path)
+  }
+
+  /**
+   * Check the health of a repository's dependencies
+   *
+   * @param snapshot - Repository snapshot
+   * @param dependencies - Dependencies declared in manifests
+   * @returns Health report, or null when there is nothing to check
+   */
+  async checkDependencies(
+    snapshot: RepositorySnapshot,
+    dependencies: ManifestDependency[]
+  ): Promise<DependencyHealth | null> {
+    const { lockfiles, packages } = this.resolvePackages(snapshot, dependencies)
+
+    if (packages.length === 0 && dependencies.length === 0) {
+      return null
+    }
+
+    const advisories =
+      this.advisories === undefined
+        ? await getAdvisoryDatabase()
+        : this.advisories
+
+    const vulnerabilities = advisories
+      ? packages.flatMap((pkg) =>
+          advisories
+            .query(pkg.ecosystem, pkg.name, pkg.version)
+            .map((advisory) => ({
+              ...advisory,
+              package: pkg.name,
+              version: pkg.version,
+              ecosystem: pkg.ecosystem,
+              direct: pkg.direct,
+            }))
+        )
+      : []
+
+    const { outdated, abandoned } = await this.checkStaleness(
+      dependencies,
+      packages
+    )
+
+    return {
+      lockfiles,
+      packageCount: packages.length,
+      // Without resolved versions nothing was checked, which is not clean
+      advisoriesChecked: !!advisories && packages.length > 0,
+      registryChecked: !!this.registry,
+      vulnerabilities,
+      outdated,
+      abandoned,
+    }
+  }
+
+  /**
+   * Resolve exact versions from lockfiles, falling back to pinned manifests
+   * Empty lockfiles, or ones listing no packages, count as unread: their
+   * ecosystem falls back to the manifests.
+   * @private
+   */
+  private resolvePackages(
+    snapshot: RepositorySnapshot,
+    dependencies: ManifestDependency[]
+  ): { lockfiles: string[]; packages: LockedPackage[] } {
+    const candidates = snapshot.tree ? lockfileCandidates(snapshot.tree) : []
+
+    const parsed = candidates.map(({ path, ecosystem }) => {
+      const content = snapshotFile(snapshot, path)
+      if (!content?.trim()) return null
+      try {
+        const packages = parseLockfile(path, content)
+        return packages?.length ? { path, ecosystem, packages } : null
+      } catch (error) {
+        console.error(`Lockfile parsing failed for ${path}:`, error)
+        return null
+      }
+    })
+    const locked = parsed.filter(
+      (lockfile): lockfile is NonNullable<typeof lockfile> => !!lockfile
+    )
+    const lockedEcosystems = new Set(locked.map(({ ecosystem }) => ecosystem))
+
+    const declared = new Set(
+      dependencies.map(({ ecosystem, name }) => `${ecosystem}:${name}`)
+    )
+    const seen = new Set<string>()
+    const packages: LockedPackage[] = []
+
+    for (const pkg of [
+      ...locked.flatMap(({ packages }) => packages),
+      ...pinnedDependencies(
+        dependencies.filter(({ ecosystem }) => !lockedEcosystems.has(ecosystem))
+      ),
+    ]) {
+      const key = `${pkg.ecosystem}:${pkg.name}@${pkg.version}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      packages.push({
+        ...pkg,
+        direct: declared.has(`${pkg.ecosystem}:${pkg.name}`),
+      })
+    }
+
+    return { lockfiles: locked.map(({ path }) => path), packages }
+  }
+
+  /**
+   * Compare direct runtime dependencies with their latest releases
+   * @private
+   */
+  private async checkStaleness(
+    dependencies: ManifestDependency[],
+    packages: LockedPackage[]
+  ): Promise<{
+    outdated: OutdatedDependency[]
+    abandoned: AbandonedDependency[]
+  }> {
+    const registry = this.registry
+    if (!registry) {
+      return { outdated: [], abandoned: [] }
+    }
+
+    const direct = dependencies
+      .filter((dependency) => !dependency.dev)
+      .slice(0, MAX_REGISTRY_LOOKUPS)
+
+    const outdated: OutdatedDependency[] = []
+    const abandoned: AbandonedDependency[] = []
+    const abandonedBefore =
+      this.now().getTime() - ABANDONED_AFTER_DAYS * 24 * 60 * 60 * 1000
+
+    await mapWithConcurrency(
+      direct,
+      REGISTRY_CONCURRENCY,
+      async (dependency) => {
+        const info = await registry.getPackageInfo(
+          dependency.ecosystem,
+          dependency.name
+        )
+        if (!info) return
+
+        const version = installedVersion(dependency, packages)
+
+        if (
+          info.deprecated ||
+          (info.lastPublishedAt &&
+            new Date(info.lastPublishedAt).getTime() < abandonedBefore)
+        ) {
+          abandoned.push({
+            name: dependency.name,
+            ecosystem: dependency.ecosystem,
+            version,
+            lastPublishedAt: info.lastPublishedAt,
+            deprecated: info.deprecated,
+          })
+        }
+
+        const current = version ? majorVersion(version) : null
+        const latest = info.latestVersion
+          ? majorVersion(info.latestVersion)
+          : null
+        if (
+          version &&
+          info.latestVersion &&
+          current !== null &&
+          latest !== null &&
+          latest - current >= MIN_MAJORS_BEHIND
+        ) {
+          outdated.push({
+            name: dependency.name,
+            ecosystem: dependency.ecosystem,
+            version,
+            latestVersion: info.latestVersion,
+            majorsBehind: latest - current,
+          })
+        }
+      }
+    )
+
+    // Lookups finish in any order; report in a stable one
+    return {
+      outdated: outdated.sort(
+        (a, b) =>
+          b.majorsBehind - a.majorsBehind || a.name.localeCompare(b.name)
+      ),
+      abandoned: abandoned.sort((a, b) => a.name.localeCompare(b.name)),
+    }
+  }
+}
+
+/**
+ * Root lockfiles, one per ecosystem in order of preference
+ */
+function lockfileCandidates(tree: GitHubTree): typeof LOCKFILES {
+  const paths = new Set(tree.tree.map((item) => item.path))
+
+  return LOCKFILES.filter(
+    ({ path, ecosystem }, index) =>
+      paths.has(path) &&
+      !LOCKFILES.slice(0, index).some(
+        (earlier) => earlier.ecosystem === ecosystem && paths.has(earlier.path)
+      )
+  )
+}
+
+/**
+ * Installed version of a declared dependency: the highest locked version,
+ * else the lower bound of the declared requirement
+ */
+function installedVersion(
+  dependency: ManifestDependency,
+  packages: LockedPackage[]
+): string | null {
+  const locked = packages
+    .filter(
+      (pkg) =>
+        pkg.direct &&
+        pkg.ecosystem === dependency.ecosystem &&
+        pkg.name === dependency.name
+    )
+    .map((pkg) => pkg.version)
+    .sort(compareVersions)
+  if (locked.length > 0) {
+    return locked[locked.length - 1]
+  }
+
+  return dependency.version?.match(/\d+(\.\d+)*/)?.[0] ?? null
+}
+
+/**
+ * Run an async function over items with bounded concurrency
+ */
+async function mapWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0
+  const workers = Array.from(
+    { length: Math.min(concurrency, items.length) },
+    async () => {
+      while (next < items.length) {
+        await fn(items[next++])
+      }
+    }
+  )
+  await Promise.all(workers)
+}
+
+/**
+ * Create dependency health checker instance
+ * Registry lookups can be disabled with DEPENDENCY_REGISTRY_LOOKUPS=false
+ *
+ * @returns DependencyHealthChecker instance
+ */
+export function createDependencyHealthChecker(): DependencyHealthChecker {
+  return new DependencyHealthChecker({
+    registry:
+      process.env.DEPENDENCY_REGISTRY_LOOKUPS === 'false'
+        ? null
+        : new HttpPackageRegistry(),
+  })
+}
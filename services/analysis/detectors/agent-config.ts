@@ -0,0 +1,273 @@
+/**
+ * Agent Config Parser
+ *
+ * Parses agent config files (CLAUDE.md, .cursorrules, .aider.conf.yml,
+ * .mcp.json, ...) into structured evidence. A file only counts as evidence
+ * when its contents validate: an empty or placeholder CLAUDE.md says nothing
+ * about how the project was built.
+ */
+
+import type {
+  AgentConfigEvidence,
+  AgentConfigFormat,
+  AIProvider,
+  AIToolDetector,
+} from './types'
+
+/**
+ * Minimum words for an instructions file to count as real content
+ */
+const MIN_INSTRUCTION_WORDS = 20
+
+/**
+ * Maximum conventions kept per file
+ */
+const MAX_CONVENTIONS = 10
+
+/**
+ * Maximum length of a single convention
+ */
+const MAX_CONVENTION_LENGTH = 120
+
+/**
+ * Model identifiers mentioned in instructions or settings
+ */
+const MODEL_PATTERN =
+  /\b(claude-(?:opus|sonnet|haiku|instant|\d)[\w.-]*|(?:gpt|o[134])-[\w.-]+|o[134](?:-mini)?|gemini-[\w.-]+|deepseek-[\w.-]+|qwen[\w.-]*|llama-?[\d][\w.-]*|codestral[\w.-]*|mistral-[\w.-]+)\b/gi
+
+/**
+ * MCP tool references in instructions, e.g. `mcp__github__create_issue`
+ */
+const MCP_TOOL_PATTERN = /\bmcp__([a-z0-9_-]+?)__/gi
+
+/**
+ * Aider settings that name a model
+ */
+const AIDER_MODEL_KEYS = new Set(['model', 'editor-model', 'weak-model'])
+
+/**
+ * Parse an agent config file
+ *
+ * @param path - File path in the repository
+ * @param format - Config file format
+ * @param content - Raw file contents
+ * @param provider - Provider owning the file
+ * @param detectors - Registered detectors, used to find other agents the file addresses
+ * @returns Structured evidence, or null when the contents do not validate
+ */
+export function parseAgentConfig(
+  path: string,
+  format: AgentConfigFormat,
+  content: string,
+  provider: AIProvider,
+  detectors: AIToolDetector[]
+): AgentConfigEvidence | null {
+  switch (format) {
+    case 'markdown':
+      return parseInstructions(path, content, provider, detectors)
+    case 'yaml':
+      return parseAiderSettings(path, content, provider)
+    case 'mcp-json':
+      return parseMcpServers(path, content, provider)
+  }
+}
+
+/**
+ * Parse free-form agent instructions (CLAUDE.md, AGENTS.md, .cursorrules, ...)
+ */
+function parseInstructions(
+  path: string,
+  content: string,
+  provider: AIProvider,
+  detectors: AIToolDetector[]
+): AgentConfigEvidence | null {
+  // Drop HTML comments, which templates use for placeholder text
+  const text = content.replace(/<!--[\s\S]*?-->/g, '')
+
+  const words = text.split(/\s+/).filter((word) => /\w/.test(word))
+  if (words.length < MIN_INSTRUCTION_WORDS) {
+    return null
+  }
+
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('```'))
+
+  // Prefer list items; fall back to plain lines for unstructured rules files
+  const bullets = lines
+    .filter((line) => /^([-*+]|\d+\.)\s+/.test(line))
+    .map((line) => line.replace(/^([-*+]|\d+\.)\s+/, ''))
+  const conventions = bullets.length > 0 ? bullets : lines.filter((line) => !line.startsWith('#'))
+
+  const lower = text.toLowerCase()
+  const agents = detectors
+    .filter(
+      (detector) =>
+        detector.provider === provider ||
+        (detector.readmeKeywords ?? []).some((keyword) => containsWord(lower, keyword))
+    )
+    .map((detector) => detector.provider)
+
+  return {
+    path,
+    provider,
+    agents: unique([provider, ...agents]),
+    mcpServers: unique(Array.from(text.matchAll(MCP_TOOL_PATTERN), (match) => match[1])),
+    models: extractModels(text),
+    conventions: truncateConventions(conventions),
+  }
+}
+
+/**
+ * Parse aider settings (.aider.conf.yml)
+ * Only flat `key: value` pairs and simple lists are needed
+ */
+function parseAiderSettings(
+  path: string,
+  content: string,
+  provider: AIProvider
+): AgentConfigEvidence | null {
+  const settings = new Map<string, string[]>()
+  let listKey: string | null = null
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '').trimEnd()
+    if (!line.trim() || line.trim().startsWith('#')) continue
+
+    const item = line.match(/^\s+-\s+(.+)$/)
+    if (item && listKey) {
+      settings.get(listKey)?.push(unquote(item[1]))
+      continue
+    }
+
+    const pair = line.match(/^([\w-]+):\s*(.*)$/)
+    if (!pair) continue
+
+    const [, key, value] = pair
+    listKey = value ? null : key
+    settings.set(key, value ? parseYamlValue(value) : [])
+  }
+
+  if (settings.size === 0) {
+    return null
+  }
+
+  const models: string[] = []
+  const conventions: string[] = []
+
+  for (const [key, values] of settings) {
+    if (AIDER_MODEL_KEYS.has(key)) {
+      models.push(...values.map((value) => value.toLowerCase()))
+    } else {
+      conventions.push(`${key}: ${values.join(', ')}`)
+    }
+  }
+
+  return {
+    path,
+    provider,
+    agents: [provider],
+    mcpServers: [],
+    models: unique(models),
+    conventions: truncateConventions(conventions),
+  }
+}
+
+/**
+ * Parse MCP server declarations (.mcp.json, .cursor/mcp.json)
+ */
+function parseMcpServers(
+  path: string,
+  content: string,
+  provider: AIProvider
+): AgentConfigEvidence | null {
+  let config: unknown
+  try {
+    config = JSON.parse(content)
+  } catch {
+    return null
+  }
+
+  const servers =
+    config && typeof config === 'object'
+      ? (config as { mcpServers?: unknown }).mcpServers
+      : undefined
+  if (!servers || typeof servers !== 'object' || Array.isArray(servers)) {
+    return null
+  }
+
+  const names = Object.keys(servers)
+  if (names.length === 0) {
+    return null
+  }
+
+  return {
+    path,
+    provider,
+    agents: [provider],
+    mcpServers: names,
+    models: [],
+    conventions: [],
+  }
+}
+
+/**
+ * Model identifiers mentioned in text, lowercased
+ */
+function extractModels(text: string): string[] {
+  return unique(
+    Array.from(text.matchAll(MODEL_PATTERN), (match) =>
+      match[1].toLowerCase().replace(/[.-]+$/, '')
+    )
+  )
+}
+
+/**
+ * Whole-word, case-insensitive keyword search
+ */
+function containsWord(lowerText: string, keyword: string): boolean {
+  const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(^|[^\\w.-])${escaped}($|[^\\w-])`).test(lowerText)
+}
+
+/**
+ * Parse a scalar or inline list YAML value
+ */
+function parseYamlValue(value: string): string[] {
+  const list = value.match(/^\[(.*)\]$/)
+  if (list) {
+    return list[1]
+      .split(',')
+      .map((item) => unquote(item.trim()))
+      .filter(Boolean)
+  }
+  return [unquote(value.trim())]
+}
+
+/**
+ * Strip surrounding quotes
+ */
+function unquote(value: string): string {
+  return value.replace(/^(['"])(.*)\1$/, '$2')
+}
+
+/**
+ * Limit conventions to a readable summary
+ */
+function truncateConventions(conventions: string[]): string[] {
+  return conventions
+    .slice(0, MAX_CONVENTIONS)
+    .map((convention) =>
+      convention.length > MAX_CONVENTION_LENGTH
+        ? `${convention.substring(0, MAX_CONVENTION_LENGTH - 3)}...`
+        : convention
+    )
+}
+
+/**
+ * Remove duplicates, keeping first occurrence order
+ */
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values))
+}
@@ -0,0 +1,304 @@
+/**
+ * Built-in AI Tool Detectors
+ *
+ * Signatures for the AI coding tools Vibeyard recognizes out of the box.
+ * File patterns are anchored to a path segment so that e.g. `db/cursor.ts`
+ * does not count as Cursor usage. Agent config files such as `CLAUDE.md`
+ * only count once their contents have been fetched and validated.
+ */
+
+import type { AIToolDetector } from './types'
+
+/**
+ * Match a file or directory name at any depth of the tree
+ */
+function pathSegment(name: string): RegExp {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(^|/)${escaped}(/|$)`, 'i')
+}
+
+/**
+ * Match a file with exactly this name at any depth of the tree
+ */
+function exactFile(name: string): RegExp {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(^|/)${escaped}$`, 'i')
+}
+
+/**
+ * Match a `Co-authored-by:` trailer of one of the tool's accounts
+ * Each pattern must match the whole name or the whole email, so people who
+ * share a name with a tool (Claude, Devin, ...) are not counted.
+ */
+function coAuthor(...patterns: string[]): RegExp {
+  const account = patterns.join('|')
+  return new RegExp(
+    `^co-authored-by:[ \\t]*((${account})[ \\t]*(<[^>\\n]*>)?|[^<\\n]*<(${account})>)[ \\t]*$`,
+    'im'
+  )
+}
+
+/**
+ * Name and noreply email of a GitHub App's bot account
+ */
+function githubBot(login: string): string[] {
+  return [`${login}\\[bot\\]`, `\\d+\\+${login}\\[bot\\]@users\\.noreply\\.github\\.com`]
+}
+
+export const claudeCodeDetector: AIToolDetector = {
+  provider: 'claude-code',
+  name: 'Claude Code',
+  files: [pathSegment('.claude')],
+  agentConfigs: [
+    { path: exactFile('CLAUDE.md'), format: 'markdown' },
+    { path: exactFile('.mcp.json'), format: 'mcp-json' },
+  ],
+  commitTrailers: [coAuthor('noreply@anthropic\\.com', ...githubBot('claude'))],
+  commitPatterns: [/generated with \[?claude code\]?/i],
+  authorEmails: [/^\d+\+claude\[bot\]@users\.noreply\.github\.com$/i],
+  prMarkers: [/🤖 generated with \[claude code\]/i],
+  readmeKeywords: ['claude code', 'claude-code'],
+  configContent: [
+    {
+      path: /(^|\/)package\.json$/,
+      pattern: /"@anthropic-ai\/claude-code"/,
+      description: '@anthropic-ai/claude-code dependency',
+    },
+  ],
+}
+
+export const claudeDetector: AIToolDetector = {
+  provider: 'claude',
+  name: 'Claude',
+  files: [pathSegment('claude-config.json'), pathSegment('.anthropic')],
+  commitPatterns: [/claude\s*(3|sonnet|opus|haiku)/i, /anthropic/i],
+  readmeKeywords: ['claude', 'anthropic', 'claude-3', 'claude 3', 'sonnet', 'opus'],
+}
+
+export const gptDetector: AIToolDetector = {
+  provider: 'gpt',
+  name: 'ChatGPT / OpenAI',
+  files: [
+    pathSegment('.openai'),
+    pathSegment('chatgpt-config.json'),
+    pathSegment('.gpt'),
+    pathSegment('openai-config.json'),
+  ],
+  commitPatterns: [/gpt-?[0-9]/i, /chatgpt/i, /chat\s*gpt/i],
+  readmeKeywords: ['openai', 'gpt-4', 'gpt-3', 'chatgpt', 'chat gpt', 'dall-e'],
+}
+
+export const codexDetector: AIToolDetector = {
+  provider: 'codex',
+  name: 'OpenAI Codex',
+  files: [pathSegment('.codex')],
+  agentConfigs: [{ path: exactFile('AGENTS.md'), format: 'markdown' }],
+  commitTrailers: [coAuthor(...githubBot('chatgpt-codex-connector'))],
+  commitPatterns: [/\bcodex\b/i],
+  authorEmails: [/chatgpt-codex-connector\[bot\]@users\.noreply\.github\.com$/i],
+  prMarkers: [/chatgpt\.com\/codex\/tasks\//i],
+  readmeKeywords: ['openai codex', 'codex cli'],
+  configContent: [
+    {
+      path: /(^|\/)package\.json$/,
+      pattern: /"@openai\/codex"/,
+      description: '@openai/codex dependency',
+    },
+  ],
+}
+
+export const copilotDetector: AIToolDetector = {
+  provider: 'copilot',
+  name: 'GitHub Copilot',
+  files: [pathSegment('.copilot'), pathSegment('copilot-config.json')],
+  agentConfigs: [
+    { path: /(^|\/)\.github\/copilot-instructions\.md$/i, format: 'markdown' },
+  ],
+  commitTrailers: [coAuthor('\\d+\\+copilot@users\\.noreply\\.github\\.com', ...githubBot('copilot'))],
+  commitPatterns: [/github\s*copilot/i],
+  authorEmails: [/\+copilot@users\.noreply\.github\.com$/i],
+  readmeKeywords: ['github copilot', 'gh copilot', 'copilot'],
+  configContent: [
+    {
+      path: /(^|\/)\.vscode\/extensions\.json$/,
+      pattern: /"github\.copilot(-chat)?"/i,
+      description: 'GitHub Copilot VS Code extension recommended',
+    },
+  ],
+}
+
+export const cursorDetector: AIToolDetector = {
+  provider: 'cursor',
+  name: 'Cursor',
+  files: [
+    pathSegment('.cursor'),
+    pathSegment('.cursorrc'),
+    pathSegment('.cursor.json'),
+    pathSegment('.cursorignore'),
+  ],
+  agentConfigs: [
+    { path: exactFile('.cursorrules'), format: 'markdown' },
+    { path: /(^|\/)\.cursor\/mcp\.json$/i, format: 'mcp-json' },
+  ],
+  commitTrailers: [coAuthor('cursoragent@cursor\\.com')],
+  commitPatterns: [/cursor\.ai/i, /cursor\s*ai/i],
+  authorEmails: [/^cursoragent@cursor\.com$/i],
+  readmeKeywords: ['cursor.ai', 'cursor ai', 'cursor ide', 'cursor.com'],
+}
+
+export const aiderDetector: AIToolDetector = {
+  provider: 'aider',
+  name: 'Aider',
+  files: [
+    pathSegment('.aider.conf'),
+    pathSegment('.aider-conventions.md'),
+    /(^|\/)\.aider[^/]*$/i,
+  ],
+  agentConfigs: [
+    { path: exactFile('.aider.conf.yml'), format: 'yaml' },
+    { path: exactFile('aider.conf.yml'), format: 'yaml' },
+  ],
+  commitTrailers: [coAuthor('noreply@aider\\.chat')],
+  commitPatterns: [/^aider:/im, /aider\.chat/i],
+  readmeKeywords: ['aider', 'aider.chat', 'aider-chat'],
+}
+
+export const windsurfDetector: AIToolDetector = {
+  provider: 'windsurf',
+  name: 'Windsurf',
+  files: [
+    pathSegment('.windsurf'),
+    pathSegment('windsurf.config.json'),
+    pathSegment('.windsurf.json'),
+  ],
+  agentConfigs: [{ path: exactFile('.windsurfrules'), format: 'markdown' }],
+  commitPatterns: [/windsurf/i],
+  readmeKeywords: ['windsurf', 'codeium'],
+}
+
+export const geminiDetector: AIToolDetector = {
+  provider: 'gemini',
+  name: 'Gemini CLI',
+  files: [pathSegment('.gemini')],
+  agentConfigs: [{ path: exactFile('GEMINI.md'), format: 'markdown' }],
+  commitTrailers: [coAuthor(...githubBot('gemini-code-assist'))],
+  commitPatterns: [/gemini[\s-]cli/i],
+  readmeKeywords: ['gemini cli', 'gemini-cli'],
+  configContent: [
+    {
+      path: /(^|\/)package\.json$/,
+      pattern: /"@google\/gemini-cli"/,
+      description: '@google/gemini-cli dependency',
+    },
+  ],
+}
+
+export const clineDetector: AIToolDetector = {
+  provider: 'cline',
+  name: 'Cline / Roo Code',
+  files: [
+    pathSegment('.clinerules'),
+    pathSegment('.clineignore'),
+    pathSegment('.roo'),
+    pathSegment('.roomodes'),
+    pathSegment('.roorules'),
+    pathSegment('.rooignore'),
+  ],
+  commitTrailers: [coAuthor(...githubBot('cline'), ...githubBot('roomote'))],
+  readmeKeywords: ['cline', 'roo code', 'roo-code'],
+  configContent: [
+    {
+      path: /(^|\/)\.vscode\/extensions\.json$/,
+      pattern: /"(saoudrizwan\.claude-dev|rooveterinaryinc\.roo-cline)"/i,
+      description: 'Cline/Roo VS Code extension recommended',
+    },
+  ],
+}
+
+export const continueDetector: AIToolDetector = {
+  provider: 'continue',
+  name: 'Continue',
+  files: [pathSegment('.continue'), pathSegment('.continuerc.json')],
+  readmeKeywords: ['continue.dev'],
+  configContent: [
+    {
+      path: /(^|\/)\.vscode\/extensions\.json$/,
+      pattern: /"continue\.continue"/i,
+      description: 'Continue VS Code extension recommended',
+    },
+  ],
+}
+
+export const devinDetector: AIToolDetector = {
+  provider: 'devin',
+  name: 'Devin',
+  files: [pathSegment('.devin')],
+  commitTrailers: [coAuthor(...githubBot('devin-ai-integration'))],
+  commitPatterns: [/devin-ai-integration/i, /devin run/i],
+  authorEmails: [/devin-ai-integration\[bot\]@users\.noreply\.github\.com$/i],
+  prMarkers: [/app\.devin\.ai\/sessions\//i],
+  readmeKeywords: ['devin.ai', 'devin ai'],
+}
+
+export const v0Detector: AIToolDetector = {
+  provider: 'v0',
+  name: 'v0',
+  commitTrailers: [coAuthor(...githubBot('v0'))],
+  commitPatterns: [/v0\[bot\]/i, /\bv0\.dev\b/i],
+  authorEmails: [/v0\[bot\]@users\.noreply\.github\.com$/i],
+  readmeKeywords: ['v0.dev', 'built with v0', 'v0.app'],
+}
+
+export const boltDetector: AIToolDetector = {
+  provider: 'bolt',
+  name: 'Bolt',
+  files: [pathSegment('.bolt')],
+  commitPatterns: [/bolt\.new/i],
+  readmeKeywords: ['bolt.new', 'stackblitz bolt'],
+}
+
+export const lovableDetector: AIToolDetector = {
+  provider: 'lovable',
+  name: 'Lovable',
+  commitTrailers: [coAuthor(...githubBot('gpt-engineer-app'), ...githubBot('lovable-dev'))],
+  commitPatterns: [/gpt-engineer-app\[bot\]/i, /lovable/i],
+  authorEmails: [/gpt-engineer-app\[bot\]@users\.noreply\.github\.com$/i],
+  readmeKeywords: ['lovable.dev', 'lovable.app', 'gpt engineer'],
+  configContent: [
+    {
+      path: /(^|\/)package\.json$/,
+      pattern: /"lovable-tagger"/,
+      description: 'lovable-tagger dependency',
+    },
+  ],
+}
+
+export const replitDetector: AIToolDetector = {
+  provider: 'replit',
+  name: 'Replit Agent',
+  files: [pathSegment('.replit'), pathSegment('replit.nix'), pathSegment('replit.md')],
+  commitTrailers: [/^replit-commit-author:\s*agent/im],
+  readmeKeywords: ['replit agent', 'replit.com'],
+}
+
+/**
+ * All built-in detectors, registered by default
+ */
+export const BUILT_IN_DETECTORS: AIToolDetector[] = [
+  claudeCodeDetector,
+  claudeDetector,
+  gptDetector,
+  codexDetector,
+  copilotDetector,
+  cursorDetector,
+  aiderDetector,
+  windsurfDetector,
+  geminiDetector,
+  clineDetector,
+  continueDetector,
+  devinDetector,
+  v0Detector,
+  boltDetector,
+  lovableDetector,
+  replitDetector,
+]
@@ -0,0 +1,65 @@
+/**
+ * AI Tool Detector Registry
+ *
+ * Holds the detector plugins evaluated by `AIDetector`.
+ * New tools are supported by registering a detector, without touching the
+ * detection pipeline itself.
+ */
+
+import { BUILT_IN_DETECTORS } from './built-in'
+import type { AIProvider, AIToolDetector } from './types'
+
+/**
+ * Detector Registry
+ */
+export class DetectorRegistry {
+  private detectors = new Map<AIProvider, AIToolDetector>()
+
+  constructor(detectors: AIToolDetector[] = []) {
+    for (const detector of detectors) {
+      this.register(detector)
+    }
+  }
+
+  /**
+   * Register a detector
+   * Replaces any detector already registered for the same provider
+   *
+   * @param detector - Detector plugin
+   */
+  register(detector: AIToolDetector): void {
+    if (detector.provider === 'unknown') {
+      throw new Error('Detector provider "unknown" is reserved')
+    }
+    this.detectors.set(detector.provider, detector)
+  }
+
+  /**
+   * Remove a detector
+   *
+   * @param provider - Provider identifier
+   */
+  unregister(provider: AIProvider): void {
+    this.detectors.delete(provider)
+  }
+
+  /**
+   * Get the detector for a provider
+   *
+   * @param provider - Provider identifier
+   * @returns Detector or undefined
+   */
+  get(provider: AIProvider): AIToolDetector | undefined {
+    return this.detectors.get(provider)
+  }
+
+  /**
+   * List all registered detectors
+   */
+  list(): AIToolDetector[] {
+    return Array.from(this.detectors.values())
+  }
+}
+
+// Export singleton registry with built-in detectors
+export const detectorRegistry = new DetectorRegistry(BUILT_IN_DETECTORS)
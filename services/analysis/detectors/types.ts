@@ -0,0 +1,122 @@
+/**
+ * AI Tool Detector Types
+ *
+ * A detector is a declarative plugin describing how one AI coding tool
+ * leaves traces in a repository. `AIDetector` evaluates every registered
+ * detector against the same repository data.
+ */
+
+/**
+ * Built-in AI provider identifiers
+ */
+export type BuiltInAIProvider =
+  | 'claude'
+  | 'claude-code'
+  | 'gpt'
+  | 'codex'
+  | 'copilot'
+  | 'cursor'
+  | 'aider'
+  | 'windsurf'
+  | 'gemini'
+  | 'cline'
+  | 'continue'
+  | 'devin'
+  | 'v0'
+  | 'bolt'
+  | 'lovable'
+  | 'replit'
+
+/**
+ * AI provider identifier
+ * Plugins may register providers beyond the built-in set
+ */
+export type AIProvider = BuiltInAIProvider | 'unknown' | (string & {})
+
+/**
+ * Config file whose contents identify a tool
+ */
+export interface ConfigContentSignature {
+  /** Path of the file to fetch, matched against tree paths */
+  path: RegExp
+  /** Pattern the file contents must match */
+  pattern: RegExp
+  /** Human-readable description stored as evidence */
+  description: string
+}
+
+/**
+ * Format of an agent config file
+ * - markdown: instructions prose (CLAUDE.md, AGENTS.md, .cursorrules, ...)
+ * - yaml: flat key/value settings (.aider.conf.yml)
+ * - mcp-json: MCP server declarations (.mcp.json)
+ */
+export type AgentConfigFormat = 'markdown' | 'yaml' | 'mcp-json'
+
+/**
+ * Agent config file that is fetched and parsed instead of matched by path
+ */
+export interface AgentConfigSignature {
+  /** Path of the file, matched against tree paths */
+  path: RegExp
+  /** How to parse and validate the contents */
+  format: AgentConfigFormat
+}
+
+/**
+ * Structured contents of a validated agent config file
+ */
+export interface AgentConfigEvidence {
+  path: string
+  provider: AIProvider
+  /** Providers the file declares or addresses */
+  agents: AIProvider[]
+  /** MCP servers the file configures or references */
+  mcpServers: string[]
+  /** Model identifiers the file pins or mentions */
+  models: string[]
+  /** Workflow rules and settings, first few only */
+  conventions: string[]
+}
+
+/**
+ * AI tool detector plugin
+ */
+export interface AIToolDetector {
+  /** Provider identifier stored on the analysis */
+  provider: AIProvider
+  /** Display name */
+  name: string
+  /** Paths (files or directories) that only this tool creates */
+  files?: RegExp[]
+  /** Commit trailer lines, e.g. `Co-Authored-By: Claude` */
+  commitTrailers?: RegExp[]
+  /** Patterns matched against the full commit message */
+  commitPatterns?: RegExp[]
+  /** Author emails the tool commits under when acting as an agent */
+  authorEmails?: RegExp[]
+  /** Markers the tool leaves in generated commits or pull request merges */
+  prMarkers?: RegExp[]
+  /** Lowercase keywords searched for in the README */
+  readmeKeywords?: string[]
+  /** Config files whose contents mention the tool */
+  configContent?: ConfigContentSignature[]
+  /** Agent config files owned by the tool, counted only when their contents validate */
+  agentConfigs?: AgentConfigSignature[]
+}
+
+/**
+ * Evidence source a detector matched on
+ */
+export type DetectorSignalSource = 'files' | 'commits' | 'readme' | 'config' | 'agentConfigs'
+
+/**
+ * Single detector match
+ */
+export interface DetectorMatch {
+  provider: AIProvider
+  source: DetectorSignalSource
+  evidence: string
+  /** Parsed contents, set for `agentConfigs` matches */
+  agentConfig?: AgentConfigEvidence
+}
@@ -1,16 +1,57 @@
 /**
  * AI-Powered Insights Generator
  *
- * Uses OpenAI GPT-4 to analyze repository README and generate:
+ * Uses the configured LLM provider (see `./llm/factory`) to analyze a
+ * structured repository digest (see `./repository-digest`) and generate:
  * - Project purpose
  * - Technology stack
  * - Notable features
  * - Improvement suggestions
  * - Common mistakes identified
+ *
+ * Responses are validated against a zod schema and retried when invalid.
+ * Every insight records the digest sources it was based on.
+ *
+ * Falls back to the offline heuristic provider when the model call fails,
+ * so analysis never depends on an LLM being available.
+ */
+
+import { z } from 'zod'
+import type { GitHubTree } from '@/types/github'
+import { createLLMProvider } from './llm/factory'
+import { HeuristicProvider } from './llm/heuristic-provider'
+import type { LLMCompletionRequest, LLMProvider } from './llm/types'
+import {
+  buildRepositoryDigest,
+  digestFiles,
+  digestSources,
+  renderDigest,
+  type RepositoryDigest,
+} from './repository-digest'
+import type { RepositorySnapshot } from './repository-snapshot'
+
+/**
+ * Insight fields
  */
+export type InsightField =
+  | 'purpose'
+  | 'techStack'
+  | 'features'
+  | 'improvements'
+  | 'mistakes'
+
+/**
+ * A single insight and the digest sources that informed it
+ */
+export interface InsightProvenance {
+  text: string
+  sources: string[] // Digest source IDs, e.g. "readme#Usage", "manifest:package.json"
+}
 
-import OpenAI from 'openai'
-import { GitHubClient } from '@/services/integrations/github-client'
+/**
+ * Provenance for every insight, per field
+ */
+export type InsightSources = Record<InsightField, InsightProvenance[]>
 
 /**
  * Repository insights generated by AI
@@ -21,67 +62,102 @@ export interface RepositoryInsights {
   features: string[]
   improvements: string[]
   mistakes: string[]
+  sources: InsightSources
 }
 
 /**
  * Insights Generator configuration
  */
 interface InsightsGeneratorConfig {
-  model?: string
+  provider?: LLMProvider // Default: selected from environment
   temperature?: number
   maxTokens?: number
+  maxAttempts?: number // Attempts per provider when the response fails validation
 }
 
+/**
+ * Expected model response
+ */
+const insightItemSchema = z.object({
+  text: z.string().trim().min(1),
+  sources: z.array(z.string()),
+})
+
+// Longer lists are cut rather than rejected; only shape errors are retried
+const insightItems = (max: number) =>
+  z.array(insightItemSchema).transform((items) => items.slice(0, max))
+
+export const insightsResponseSchema = z.object({
+  purpose: insightItemSchema,
+  techStack: insightItems(10),
+  features: insightItems(5),
+  improvements: insightItems(5),
+  mistakes: insightItems(4),
+})
+
+type InsightsResponse = z.infer<typeof insightsResponseSchema>
+
+/**
+ * System instructions for insights generation
+ */
+const SYSTEM_PROMPT =
+  'You are an expert software engineer analyzing GitHub repositories. Provide concise, actionable insights in valid JSON format.'
+
+/**
+ * Source ID for the GitHub repository description
+ */
+const DESCRIPTION_SOURCE = 'description'
+
 /**
  * Insights Generator
- * Uses OpenAI to analyze repository README and generate insights
+ * Uses an LLM provider to analyze a repository digest and generate insights
  */
 export class InsightsGenerator {
-  private openai: OpenAI
-  private model: string
+  private provider: LLMProvider
+  private fallback = new HeuristicProvider()
   private temperature: number
   private maxTokens: number
+  private maxAttempts: number
 
-  constructor(
-    private githubClient: GitHubClient,
-    config: InsightsGeneratorConfig = {}
-  ) {
-    const apiKey = process.env.OPENAI_API_KEY
-
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required')
-    }
-
-    this.openai = new OpenAI({ apiKey })
-    this.model = config.model || 'gpt-4o-mini' // Use GPT-4o-mini for cost efficiency
+  constructor(config: InsightsGeneratorConfig = {}) {
+    this.provider = config.provider ?? createLLMProvider()
     this.temperature = config.temperature || 0.7
     this.maxTokens = config.maxTokens || 2000
+    this.maxAttempts = config.maxAttempts || 3
+  }
+
+  /**
+   * Files the digest reads: manifests and entry points
+   *
+   * @param tree - Repository tree
+   * @returns Paths to load into the snapshot
+   */
+  selectFiles(tree: GitHubTree): string[] {
+    return digestFiles(tree)
   }
 
   /**
    * Generate insights for a repository
    *
-   * @param owner - Repository owner
-   * @param repo - Repository name
-   * @param description - Repository description from GitHub
+   * @param snapshot - Repository snapshot
    * @returns AI-generated insights
    */
   async generateInsights(
-    owner: string,
-    repo: string,
-    description: string | null
+    snapshot: RepositorySnapshot
   ): Promise<RepositoryInsights> {
+    const { description } = snapshot.repository
+    const { repo } = snapshot
+
     try {
-      // Fetch README content
-      const readmeContent = await this.fetchReadme(owner, repo)
+      const digest = buildRepositoryDigest(snapshot)
 
-      if (!readmeContent) {
+      if (digest.readmeSections.length === 0) {
         // If no README, return minimal insights based on description
         return this.generateMinimalInsights(description)
       }
 
-      // Generate insights using OpenAI
-      const insights = await this.analyzeWithAI(readmeContent, description, repo)
+      // Generate insights using the LLM provider
+      const insights = await this.analyzeWithAI(digest, description, repo)
 
       return insights
     } catch (error) {
@@ -92,98 +168,110 @@ export class InsightsGenerator {
   }
 
   /**
-   * Fetch README content from repository
-   * @private
-   */
-  private async fetchReadme(owner: string, repo: string): Promise<string | null> {
-    const readmeFiles = ['README.md', 'readme.md', 'README', 'readme']
-
-    for (const filename of readmeFiles) {
-      try {
-        const content = await this.githubClient.getFileContent(owner, repo, filename)
-        return content
-      } catch {
-        continue
-      }
-    }
-
-    return null
-  }
-
-  /**
-   * Analyze repository with OpenAI
+   * Analyze repository with the LLM provider, degrading to heuristics
    * @private
    */
   private async analyzeWithAI(
-    readmeContent: string,
+    digest: RepositoryDigest,
     description: string | null,
     repoName: string
   ): Promise<RepositoryInsights> {
-    // Truncate README if too long (max 4000 chars to stay within token limits)
-    const truncatedReadme =
-      readmeContent.length > 4000
-        ? readmeContent.substring(0, 4000) + '...[truncated]'
-        : readmeContent
+    const sources = digestSources(digest)
 
-    const prompt = this.buildAnalysisPrompt(truncatedReadme, description, repoName)
+    const request: LLMCompletionRequest = {
+      system: SYSTEM_PROMPT,
+      prompt: this.buildAnalysisPrompt(
+        renderDigest(digest),
+        description,
+        repoName
+      ),
+      context: {
+        repoName,
+        [DESCRIPTION_SOURCE]: description,
+        ...Object.fromEntries(
+          sources.map((source) => [source.id, source.content])
+        ),
+      },
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+    }
+    const knownSources = new Set([
+      ...(description ? [DESCRIPTION_SOURCE] : []),
+      ...sources.map((source) => source.id),
+    ])
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are an expert software engineer analyzing GitHub repositories. Provide concise, actionable insights in valid JSON format.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: this.temperature,
-        max_tokens: this.maxTokens,
-        response_format: { type: 'json_object' },
-      })
+      return toInsights(
+        await this.completeValidated(this.provider, request),
+        knownSources
+      )
+    } catch (error) {
+      if (this.provider.name === 'heuristic') {
+        throw error
+      }
+      console.error(
+        `${this.provider.name} analysis failed, using heuristic insights:`,
+        error
+      )
+      return toInsights(
+        await this.completeValidated(this.fallback, request),
+        knownSources
+      )
+    }
+  }
 
-      const content = response.choices[0]?.message?.content
+  /**
+   * Request a completion until it passes schema validation
+   * Each retry tells the model what was wrong with its previous answer
+   * @private
+   */
+  private async completeValidated(
+    provider: LLMProvider,
+    request: LLMCompletionRequest
+  ): Promise<InsightsResponse> {
+    let prompt = request.prompt
+    let lastError = ''
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      const content = await provider.completeJSON({ ...request, prompt })
+      const result = parseInsightsResponse(content)
 
-      if (!content) {
-        throw new Error('No response from OpenAI')
+      if (result.success) {
+        return result.data
       }
 
-      // Parse JSON response
-      const parsed = JSON.parse(content)
+      lastError = result.error
+      console.warn(
+        `Invalid insights response from ${provider.name} (attempt ${attempt}/${this.maxAttempts}): ${lastError}`
+      )
+      prompt = `${request.prompt}
 
-      return {
-        purpose: parsed.purpose || 'Unknown purpose',
-        techStack: Array.isArray(parsed.techStack) ? parsed.techStack : [],
-        features: Array.isArray(parsed.features) ? parsed.features : [],
-        improvements: Array.isArray(parsed.improvements) ? parsed.improvements : [],
-        mistakes: Array.isArray(parsed.mistakes) ? parsed.mistakes : [],
-      }
-    } catch (error) {
-      console.error('OpenAI analysis failed:', error)
-      throw error
+Your previous response was invalid: ${lastError}
+Return ONLY valid JSON in the exact format described above.`
     }
+
+    throw new Error(
+      `Invalid insights response after ${this.maxAttempts} attempts: ${lastError}`
+    )
   }
 
   /**
-   * Build analysis prompt for OpenAI
+   * Build analysis prompt
    * @private
    */
   private buildAnalysisPrompt(
-    readme: string,
+    digest: string,
     description: string | null,
     repoName: string
   ): string {
     return `Analyze this GitHub repository and provide insights in JSON format.
 
 Repository: ${repoName}
-${description ? `Description: ${description}` : ''}
+${description ? `[${DESCRIPTION_SOURCE}]\n${description}\n` : ''}
+The repository content below is split into labelled sources. Each source starts
+with its ID in square brackets, e.g. [readme#Installation] or [manifest:package.json].
 
-README Content:
-${readme}
+${digest}
 
 Please analyze the repository and provide:
 
@@ -193,16 +281,19 @@ Please analyze the repository and provide:
 4. **improvements**: Array of 3-5 specific suggestions for improvement (focus on code quality, documentation, testing, architecture)
 5. **mistakes**: Array of 2-4 common mistakes or anti-patterns identified (be constructive)
 
+Every item has a "text" and the IDs of the sources it is based on in "sources".
+Only cite source IDs that appear above.
+
 Return ONLY valid JSON in this exact format:
 {
-  "purpose": "string",
-  "techStack": ["string"],
-  "features": ["string"],
-  "improvements": ["string"],
-  "mistakes": ["string"]
+  "purpose": { "text": "string", "sources": ["source-id"] },
+  "techStack": [{ "text": "string", "sources": ["source-id"] }],
+  "features": [{ "text": "string", "sources": ["source-id"] }],
+  "improvements": [{ "text": "string", "sources": ["source-id"] }],
+  "mistakes": [{ "text": "string", "sources": ["source-id"] }]
 }
 
-Be specific, actionable, and constructive. Focus on what you can determine from the README.`
+Be specific, actionable, and constructive. Focus on what you can determine from the sources.`
   }
 
   /**
@@ -212,30 +303,108 @@ Be specific, actionable, and constructive. Focus on what you can determine from
   private generateMinimalInsights(
     description: string | null
   ): RepositoryInsights {
+    const improvements = [
+      'Add a comprehensive README with project description',
+      'Include setup instructions and dependencies',
+      'Add usage examples and documentation',
+    ]
+    const mistakes = [
+      'Missing README file - critical for project discoverability',
+    ]
+    const purpose = description || 'No description available'
+
     return {
-      purpose: description || 'No description available',
+      purpose,
       techStack: [],
       features: [],
-      improvements: [
-        'Add a comprehensive README with project description',
-        'Include setup instructions and dependencies',
-        'Add usage examples and documentation',
-      ],
-      mistakes: ['Missing README file - critical for project discoverability'],
+      improvements,
+      mistakes,
+      sources: {
+        purpose: [
+          { text: purpose, sources: description ? [DESCRIPTION_SOURCE] : [] },
+        ],
+        techStack: [],
+        features: [],
+        improvements: improvements.map((text) => ({ text, sources: [] })),
+        mistakes: mistakes.map((text) => ({ text, sources: [] })),
+      },
     }
   }
 }
 
+/**
+ * Parse and validate a JSON completion
+ *
+ * @param content - Raw completion text
+ * @returns Validated response, or a readable error
+ */
+export function parseInsightsResponse(
+  content: string
+):
+  | { success: true; data: InsightsResponse }
+  | { success: false; error: string } {
+  let json: unknown
+  try {
+    json = JSON.parse(content)
+  } catch {
+    return { success: false, error: 'response is not valid JSON' }
+  }
+
+  const result = insightsResponseSchema.safeParse(json)
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.issues
+        .map(
+          (issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`
+        )
+        .join('; '),
+    }
+  }
+
+  return { success: true, data: result.data }
+}
+
+/**
+ * Convert a validated response into insights, dropping unknown source IDs
+ */
+function toInsights(
+  response: InsightsResponse,
+  knownSources: Set<string>
+): RepositoryInsights {
+  const withKnownSources = (item: InsightProvenance): InsightProvenance => ({
+    text: item.text,
+    sources: Array.from(
+      new Set(item.sources.filter((id) => knownSources.has(id)))
+    ),
+  })
+
+  const sources: InsightSources = {
+    purpose: [withKnownSources(response.purpose)],
+    techStack: response.techStack.map(withKnownSources),
+    features: response.features.map(withKnownSources),
+    improvements: response.improvements.map(withKnownSources),
+    mistakes: response.mistakes.map(withKnownSources),
+  }
+
+  return {
+    purpose: response.purpose.text,
+    techStack: response.techStack.map((item) => item.text),
+    features: response.features.map((item) => item.text),
+    improvements: response.improvements.map((item) => item.text),
+    mistakes: response.mistakes.map((item) => item.text),
+    sources,
+  }
+}
+
 /**
  * Create insights generator instance
  *
- * @param githubClient - GitHub client instance
  * @param config - Optional configuration
  * @returns InsightsGenerator instance
  */
 export function createInsightsGenerator(
-  githubClient: GitHubClient,
   config?: InsightsGeneratorConfig
 ): InsightsGenerator {
-  return new InsightsGenerator(githubClient, config)
+  return new InsightsGenerator(config)
 }
@@ -0,0 +1,85 @@
+/**
+ * Anthropic LLM Provider
+ *
+ * Calls the Anthropic Messages API over HTTP.
+ */
+
+import type { LLMCompletionRequest, LLMProvider } from './types'
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages'
+const ANTHROPIC_VERSION = '2023-06-01'
+
+/**
+ * Request timeout per completion
+ */
+const REQUEST_TIMEOUT_MS = 60 * 1000
+
+/**
+ * Anthropic provider configuration
+ */
+interface AnthropicProviderConfig {
+  model: string
+  apiKey: string
+}
+
+/**
+ * Anthropic Messages API response (fields used here)
+ */
+interface AnthropicMessageResponse {
+  content: Array<{ type: string; text?: string }>
+}
+
+/**
+ * Anthropic Provider
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const
+  readonly model: string
+  private apiKey: string
+
+  constructor(config: AnthropicProviderConfig) {
+    this.model = config.model
+    this.apiKey = config.apiKey
+  }
+
+  async completeJSON(request: LLMCompletionRequest): Promise<string> {
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system: request.system,
+        messages: [
+          { role: 'user', content: request.prompt },
+          // Prefill so the reply is the JSON object itself
+          { role: 'assistant', content: '{' },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      throw new Error(
+        `Anthropic API error: ${response.status} ${await response.text()}`
+      )
+    }
+
+    const data = (await response.json()) as AnthropicMessageResponse
+    const text = data.content
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('')
+
+    if (!text) {
+      throw new Error(`No response from anthropic model ${this.model}`)
+    }
+
+    return `{${text}`
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * LLM Provider Factory
+ *
+ * Selects the insights backend from configuration:
+ *
+ * - LLM_PROVIDER: openai | anthropic | local | heuristic
+ *   (default: openai when OPENAI_API_KEY is set, then anthropic when
+ *   ANTHROPIC_API_KEY is set, otherwise heuristic)
+ * - LLM_MODEL: model override
+ * - LLM_BASE_URL: OpenAI-compatible server for the local provider
+ *   (default: Ollama at http://localhost:11434/v1)
+ *
+ * A provider that is selected but not usable (e.g. missing API key) falls
+ * back to the heuristic provider instead of failing the analysis.
+ */
+
+import { AnthropicProvider } from './anthropic-provider'
+import { HeuristicProvider } from './heuristic-provider'
+import { OpenAIProvider } from './openai-provider'
+import type { LLMConfig, LLMProvider, LLMProviderName } from './types'
+
+/**
+ * Default model per provider
+ */
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4o-mini', // Cost efficient
+  anthropic: 'claude-3-5-haiku-latest',
+  local: 'llama3.1',
+  heuristic: 'heuristic',
+}
+
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'
+
+const PROVIDER_NAMES: LLMProviderName[] = [
+  'openai',
+  'anthropic',
+  'local',
+  'heuristic',
+]
+
+/**
+ * Resolve LLM configuration from environment variables
+ *
+ * @param env - Environment (default: process.env)
+ * @returns LLM configuration
+ */
+export function resolveLLMConfig(
+  env: Record<string, string | undefined> = process.env
+): LLMConfig {
+  const requested = env.LLM_PROVIDER?.toLowerCase()
+
+  if (requested && !PROVIDER_NAMES.includes(requested as LLMProviderName)) {
+    console.warn(
+      `Unknown LLM_PROVIDER "${env.LLM_PROVIDER}", using heuristic insights`
+    )
+    return { provider: 'heuristic' }
+  }
+
+  const provider: LLMProviderName =
+    (requested as LLMProviderName | undefined) ??
+    (env.OPENAI_API_KEY
+      ? 'openai'
+      : env.ANTHROPIC_API_KEY
+        ? 'anthropic'
+        : 'heuristic')
+
+  return {
+    provider,
+    model: env.LLM_MODEL || undefined,
+    apiKey:
+      provider === 'openai'
+        ? env.OPENAI_API_KEY
+        : provider === 'anthropic'
+          ? env.ANTHROPIC_API_KEY
+          : provider === 'local'
+            ? env.LLM_API_KEY
+            : undefined,
+    baseUrl: provider === 'local' ? env.LLM_BASE_URL || undefined : undefined,
+  }
+}
+
+/**
+ * Create an LLM provider
+ *
+ * @param config - LLM configuration (default: resolved from environment)
+ * @returns LLM provider, heuristic when the configured one is unusable
+ */
+export function createLLMProvider(
+  config: LLMConfig = resolveLLMConfig()
+): LLMProvider {
+  const model = config.model || DEFAULT_MODELS[config.provider]
+
+  switch (config.provider) {
+    case 'openai':
+      if (!config.apiKey) break
+      return new OpenAIProvider({ model, apiKey: config.apiKey })
+
+    case 'anthropic':
+      if (!config.apiKey) break
+      return new AnthropicProvider({ model, apiKey: config.apiKey })
+
+    case 'local':
+      return new OpenAIProvider({
+        name: 'local',
+        model,
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl || DEFAULT_LOCAL_BASE_URL,
+      })
+
+    case 'heuristic':
+      return new HeuristicProvider()
+  }
+
+  console.warn(
+    `LLM provider "${config.provider}" has no API key, using heuristic insights`
+  )
+  return new HeuristicProvider()
+}
@@ -0,0 +1,211 @@
+/**
+ * Heuristic LLM Provider
+ *
+ * Deterministic, offline stand-in for a model. Derives insights JSON from
+ * the README sections, source files and description in the request context
+ * using keyword and section matching. Used when no model is configured or
+ * reachable.
+ */
+
+import type { LLMCompletionRequest, LLMProvider } from './types'
+
+/**
+ * Technologies recognized in README text, matched as case-sensitive whole words
+ */
+const KNOWN_TECHNOLOGIES = [
+  'Next.js',
+  'React',
+  'Vue',
+  'Svelte',
+  'Angular',
+  'Astro',
+  'Remix',
+  'Express',
+  'Fastify',
+  'NestJS',
+  'Django',
+  'Flask',
+  'FastAPI',
+  'Rails',
+  'Laravel',
+  'Spring',
+  'TypeScript',
+  'JavaScript',
+  'Python',
+  'Golang',
+  'Rust',
+  'Ruby',
+  'PHP',
+  'Java',
+  'Kotlin',
+  'Swift',
+  'Node.js',
+  'Deno',
+  'Bun',
+  'Tailwind CSS',
+  'Prisma',
+  'Drizzle',
+  'PostgreSQL',
+  'MySQL',
+  'SQLite',
+  'MongoDB',
+  'Redis',
+  'Supabase',
+  'Firebase',
+  'GraphQL',
+  'Docker',
+  'Kubernetes',
+  'Electron',
+  'Tauri',
+  'OpenAI',
+  'LangChain',
+]
+
+/**
+ * README sections whose absence is worth pointing out, matched against headings
+ */
+const EXPECTED_SECTIONS: Array<{ pattern: RegExp; suggestion: string }> = [
+  {
+    pattern: /^(installation|install|setup|getting started|quick ?start)/i,
+    suggestion: 'Add installation or setup instructions to the README',
+  },
+  {
+    pattern: /^(usage|examples?|how to use)/i,
+    suggestion: 'Add usage examples to the README',
+  },
+  {
+    pattern: /^(tests?|testing|running tests)/i,
+    suggestion: 'Document how to run the test suite',
+  },
+  {
+    pattern: /^(contributing|contribute)/i,
+    suggestion: 'Add contribution guidelines',
+  },
+  {
+    pattern: /^licen[cs]e/i,
+    suggestion: 'State the license in the README',
+  },
+]
+
+const MAX_TECH_STACK = 10
+const MAX_FEATURES = 5
+const MAX_PURPOSE_LENGTH = 100
+
+/**
+ * Insight item in the response format
+ */
+interface InsightItem {
+  text: string
+  sources: string[]
+}
+
+/**
+ * Heuristic Provider
+ *
+ * Reads the request context keyed by digest source ID: `description`,
+ * `readme` / `readme#<heading>` sections and `file:<path>` source files.
+ */
+export class HeuristicProvider implements LLMProvider {
+  readonly name = 'heuristic' as const
+  readonly model = 'heuristic'
+
+  async completeJSON(request: LLMCompletionRequest): Promise<string> {
+    const sections = Object.entries(request.context).filter(
+      (entry): entry is [string, string] =>
+        (entry[0] === 'readme' || entry[0].startsWith('readme#')) && !!entry[1]
+    )
+    const files = Object.entries(request.context).filter(
+      (entry): entry is [string, string] =>
+        entry[0].startsWith('file:') && !!entry[1]
+    )
+    const description = request.context.description ?? null
+    const readmeSource = sections[0]?.[0]
+
+    const headings = sections.map(([id]) => id.slice('readme#'.length))
+    const improvements: InsightItem[] = EXPECTED_SECTIONS.filter(
+      ({ pattern }) => !headings.some((heading) => pattern.test(heading))
+    ).map(({ suggestion }) => ({
+      text: suggestion,
+      sources: readmeSource ? [readmeSource] : [],
+    }))
+
+    const intro = sections
+      .map(([id, content]) => ({ id, text: firstParagraph(content) }))
+      .find(({ text }) => text)
+
+    return JSON.stringify({
+      purpose: description
+        ? { text: truncate(description), sources: ['description'] }
+        : intro
+          ? { text: truncate(intro.text as string), sources: [intro.id] }
+          : { text: 'Unknown purpose', sources: [] },
+      techStack: detectTechnologies([...sections, ...files]),
+      features: extractFeatures(sections),
+      improvements,
+      mistakes:
+        improvements.length >= 3
+          ? [
+              {
+                text: 'README is missing several standard sections',
+                sources: readmeSource ? [readmeSource] : [],
+              },
+            ]
+          : [],
+    })
+  }
+}
+
+/**
+ * Technologies mentioned in any source, in list order, citing those sources
+ */
+function detectTechnologies(sources: Array<[string, string]>): InsightItem[] {
+  return KNOWN_TECHNOLOGIES.map((tech) => {
+    const escaped = tech.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const pattern = new RegExp(`(^|[^\\w.])${escaped}($|[^\\w])`)
+    return {
+      text: tech,
+      sources: sources
+        .filter(([, content]) => pattern.test(content))
+        .map(([id]) => id),
+    }
+  })
+    .filter((item) => item.sources.length > 0)
+    .slice(0, MAX_TECH_STACK)
+}
+
+/**
+ * List items in a "Features" section
+ */
+function extractFeatures(sections: Array<[string, string]>): InsightItem[] {
+  const section = sections.find(([id]) => /^readme#(key )?features/i.test(id))
+  if (!section) return []
+
+  const [id, content] = section
+  return content
+    .split('\n')
+    .map((line) => line.match(/^\s*([-*+]|\d+\.)\s+(.+)$/)?.[2])
+    .filter((item): item is string => !!item)
+    .map((item) => ({
+      text: item.replace(/\*\*|__|`/g, '').trim(),
+      sources: [id],
+    }))
+    .slice(0, MAX_FEATURES)
+}
+
+/**
+ * First prose paragraph of a README section, skipping badges and HTML
+ */
+function firstParagraph(content: string): string | null {
+  for (const block of content.split(/\n\s*\n/)) {
+    const text = block.trim()
+    if (!text || /^(#|!\[|\[!\[|<|```|[-*+]\s)/.test(text)) continue
+    return text.replace(/\s+/g, ' ').replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+  }
+  return null
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_PURPOSE_LENGTH
+    ? `${text.substring(0, MAX_PURPOSE_LENGTH - 3)}...`
+    : text
+}
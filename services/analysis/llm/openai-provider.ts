@@ -0,0 +1,69 @@
+/**
+ * OpenAI LLM Provider
+ *
+ * Uses the OpenAI chat completions API. With a `baseUrl` it talks to any
+ * OpenAI-compatible server, such as Ollama or the llama.cpp server.
+ */
+
+import OpenAI from 'openai'
+import type {
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMProviderName,
+} from './types'
+
+/**
+ * Request timeout per completion, long enough for local models on a CPU
+ */
+const REQUEST_TIMEOUT_MS = 2 * 60 * 1000
+
+/**
+ * OpenAI provider configuration
+ */
+interface OpenAIProviderConfig {
+  name?: Extract<LLMProviderName, 'openai' | 'local'>
+  model: string
+  apiKey?: string
+  baseUrl?: string
+}
+
+/**
+ * OpenAI / OpenAI-compatible Provider
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: Extract<LLMProviderName, 'openai' | 'local'>
+  readonly model: string
+  private client: OpenAI
+
+  constructor(config: OpenAIProviderConfig) {
+    this.name = config.name ?? 'openai'
+    this.model = config.model
+    this.client = new OpenAI({
+      // Local servers ignore the key, but the client requires one
+      apiKey: config.apiKey || 'local',
+      baseURL: config.baseUrl,
+      timeout: REQUEST_TIMEOUT_MS,
+    })
+  }
+
+  async completeJSON(request: LLMCompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt },
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: { type: 'json_object' },
+    })
+
+    const content = response.choices[0]?.message?.content
+
+    if (!content) {
+      throw new Error(`No response from ${this.name} model ${this.model}`)
+    }
+
+    return content
+  }
+}
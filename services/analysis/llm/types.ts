@@ -0,0 +1,53 @@
+/**
+ * LLM Provider Types
+ *
+ * A provider turns a prompt into a JSON completion. Network providers send
+ * the prompt to a model; the heuristic provider derives the same JSON shape
+ * from the raw source material in `context`, without any network access.
+ */
+
+/**
+ * LLM provider identifier
+ */
+export type LLMProviderName = 'openai' | 'anthropic' | 'local' | 'heuristic'
+
+/**
+ * JSON completion request
+ */
+export interface LLMCompletionRequest {
+  /** System instructions */
+  system: string
+  /** User prompt, already containing the source material */
+  prompt: string
+  /** Raw source material the prompt was built from, keyed by name (readme, description, ...) */
+  context: Record<string, string | null>
+  temperature: number
+  maxTokens: number
+}
+
+/**
+ * LLM provider
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  /** Model identifier, or 'heuristic' */
+  readonly model: string
+  /**
+   * Complete a prompt
+   *
+   * @param request - Completion request
+   * @returns Raw JSON text
+   */
+  completeJSON(request: LLMCompletionRequest): Promise<string>
+}
+
+/**
+ * LLM provider configuration
+ */
+export interface LLMConfig {
+  provider: LLMProviderName
+  model?: string
+  apiKey?: string
+  /** Base URL of an OpenAI-compatible server (local provider) */
+  baseUrl?: string
+}
@@ -0,0 +1,967 @@
+/**
+ * Manifest Analyzer
+ *
+ * Parses dependency manifests at the repository root into an exact
+ * dependency list:
+ * - package.json (npm)
+ * - pyproject.toml, requirements.txt (PyPI)
+ * - Cargo.toml (crates.io)
+ * - go.mod (Go modules)
+ * - Gemfile (RubyGems)
+ * - composer.json (Packagist)
+ *
+ * Framework, runtime and project type are derived from declared
+ * dependencies rather than from free-form text.
+ */
+
+import { snapshotFile, type RepositorySnapshot } from './repository-snapshot'
+import type { GitHubTree } from '@/types/github'
+
+/**
+ * Package registries dependencies are resolved against
+ */
+export type DependencyEcosystem =
+  | 'npm'
+  | 'pypi'
+  | 'cargo'
+  | 'go'
+  | 'rubygems'
+  | 'packagist'
+
+/**
+ * Single declared dependency
+ */
+export interface ManifestDependency {
+  name: string
+  version: string | null // Version requirement as declared, e.g. "^14.2.0", ">=2.0"
+  ecosystem: DependencyEcosystem
+  dev: boolean // Development, test or build-only dependency
+  manifest: string // Manifest path the dependency was declared in
+}
+
+/**
+ * Manifest analysis result
+ */
+export interface ManifestAnalysis {
+  manifests: string[]
+  dependencies: ManifestDependency[]
+  framework: string | null // "nextjs", "django", "axum", etc.
+  runtime: string | null // "node", "python", "rust", "go", "ruby", "php", "bun"
+  runtimeVersion: string | null // Version requirement, e.g. ">=18", "1.22"
+  projectType: string | null // "web", "api", "cli", "library", "mobile", "desktop"
+}
+
+/**
+ * Parsed contents of a single manifest
+ */
+export interface ParsedManifest {
+  path: string
+  ecosystem: DependencyEcosystem
+  dependencies: ManifestDependency[]
+  runtime: string
+  runtimeVersion: string | null
+  executable: boolean // Declares command line entry points
+  library: boolean // Declares itself as a publishable library
+  peers: string[] // Packages the host project provides (npm peerDependencies)
+}
+
+/**
+ * Manifest files, in order of preference
+ */
+export const MANIFEST_FILES = [
+  'package.json',
+  'pyproject.toml',
+  'requirements.txt',
+  'Cargo.toml',
+  'go.mod',
+  'Gemfile',
+  'composer.json',
+]
+
+/**
+ * Frameworks, in order of precedence: meta-frameworks before the libraries
+ * they build on, so a Next.js app is not reported as React
+ */
+const FRAMEWORKS: Array<{
+  framework: string
+  ecosystem: DependencyEcosystem
+  packages: string[]
+  projectType: string
+}> = [
+  {
+    framework: 'nextjs',
+    ecosystem: 'npm',
+    packages: ['next'],
+    projectType: 'web',
+  },
+  {
+    framework: 'nuxt',
+    ecosystem: 'npm',
+    packages: ['nuxt'],
+    projectType: 'web',
+  },
+  {
+    framework: 'sveltekit',
+    ecosystem: 'npm',
+    packages: ['@sveltejs/kit'],
+    projectType: 'web',
+  },
+  {
+    framework: 'remix',
+    ecosystem: 'npm',
+    packages: ['@remix-run/react'],
+    projectType: 'web',
+  },
+  {
+    framework: 'astro',
+    ecosystem: 'npm',
+    packages: ['astro'],
+    projectType: 'web',
+  },
+  {
+    framework: 'react-native',
+    ecosystem: 'npm',
+    packages: ['expo', 'react-native'],
+    projectType: 'mobile',
+  },
+  {
+    framework: 'electron',
+    ecosystem: 'npm',
+    packages: ['electron'],
+    projectType: 'desktop',
+  },
+  {
+    framework: 'angular',
+    ecosystem: 'npm',
+    packages: ['@angular/core'],
+    projectType: 'web',
+  },
+  { framework: 'vue', ecosystem: 'npm', packages: ['vue'], projectType: 'web' },
+  {
+    framework: 'svelte',
+    ecosystem: 'npm',
+    packages: ['svelte'],
+    projectType: 'web',
+  },
+  {
+    framework: 'react',
+    ecosystem: 'npm',
+    packages: ['react'],
+    projectType: 'web',
+  },
+  {
+    framework: 'nestjs',
+    ecosystem: 'npm',
+    packages: ['@nestjs/core'],
+    projectType: 'api',
+  },
+  {
+    framework: 'express',
+    ecosystem: 'npm',
+    packages: ['express'],
+    projectType: 'api',
+  },
+  {
+    framework: 'fastify',
+    ecosystem: 'npm',
+    packages: ['fastify'],
+    projectType: 'api',
+  },
+  {
+    framework: 'hono',
+    ecosystem: 'npm',
+    packages: ['hono'],
+    projectType: 'api',
+  },
+  {
+    framework: 'django',
+    ecosystem: 'pypi',
+    packages: ['django'],
+    projectType: 'web',
+  },
+  {
+    framework: 'fastapi',
+    ecosystem: 'pypi',
+    packages: ['fastapi'],
+    projectType: 'api',
+  },
+  {
+    framework: 'flask',
+    ecosystem: 'pypi',
+    packages: ['flask'],
+    projectType: 'api',
+  },
+  {
+    framework: 'streamlit',
+    ecosystem: 'pypi',
+    packages: ['streamlit'],
+    projectType: 'web',
+  },
+  {
+    framework: 'tauri',
+    ecosystem: 'cargo',
+    packages: ['tauri'],
+    projectType: 'desktop',
+  },
+  {
+    framework: 'actix',
+    ecosystem: 'cargo',
+    packages: ['actix-web'],
+    projectType: 'api',
+  },
+  {
+    framework: 'axum',
+    ecosystem: 'cargo',
+    packages: ['axum'],
+    projectType: 'api',
+  },
+  {
+    framework: 'rocket',
+    ecosystem: 'cargo',
+    packages: ['rocket'],
+    projectType: 'api',
+  },
+  {
+    framework: 'gin',
+    ecosystem: 'go',
+    packages: ['github.com/gin-gonic/gin'],
+    projectType: 'api',
+  },
+  {
+    framework: 'echo',
+    ecosystem: 'go',
+    packages: ['github.com/labstack/echo'],
+    projectType: 'api',
+  },
+  {
+    framework: 'fiber',
+    ecosystem: 'go',
+    packages: ['github.com/gofiber/fiber'],
+    projectType: 'api',
+  },
+  {
+    framework: 'rails',
+    ecosystem: 'rubygems',
+    packages: ['rails'],
+    projectType: 'web',
+  },
+  {
+    framework: 'sinatra',
+    ecosystem: 'rubygems',
+    packages: ['sinatra'],
+    projectType: 'api',
+  },
+  {
+    framework: 'laravel',
+    ecosystem: 'packagist',
+    packages: ['laravel/framework'],
+    projectType: 'web',
+  },
+  {
+    framework: 'symfony',
+    ecosystem: 'packagist',
+    packages: ['symfony/framework-bundle'],
+    projectType: 'web',
+  },
+]
+
+/**
+ * Argument parsing libraries that mark a command line tool
+ */
+const CLI_PACKAGES: Partial<Record<DependencyEcosystem, string[]>> = {
+  npm: ['commander', 'yargs', 'oclif', '@oclif/core', 'cac', 'meow'],
+  pypi: ['click', 'typer'],
+  cargo: ['clap'],
+  go: ['github.com/spf13/cobra', 'github.com/urfave/cli'],
+  rubygems: ['thor'],
+  packagist: ['symfony/console'],
+}
+
+/**
+ * Python extras that only hold development tooling
+ */
+const DEV_EXTRA_PATTERN =
+  /^(dev|develop|development|test|tests|testing|lint|docs|typing)$/i
+
+/**
+ * Manifest Analyzer
+ * Reads root manifests and summarizes declared dependencies
+ */
+export class ManifestAnalyzer {
+  /**
+   * Manifests present in the tree
+   *
+   * @param tree - Repository tree
+   * @returns Paths to load into the snapshot
+   */
+  selectFiles(tree: GitHubTree): string[] {
+    const paths = new Set(tree.tree.map((item) => item.path))
+    return MANIFEST_FILES.filter((path) => paths.has(path))
+  }
+
+  /**
+   * Analyze the dependency manifests of a repository
+   *
+   * @param snapshot - Repository snapshot
+   * @returns Combined manifest analysis; empty when no manifest is present
+   */
+  analyzeManifests(snapshot: RepositorySnapshot): ManifestAnalysis {
+    if (!snapshot.tree) {
+      throw new Error('Repository tree unavailable')
+    }
+
+    const parsed = this.selectFiles(snapshot.tree).map((path) => {
+      const content = snapshotFile(snapshot, path)
+      try {
+        return content === null ? null : parseManifest(path, content)
+      } catch (error) {
+        console.error(`Manifest parsing failed for ${path}:`, error)
+        return null
+      }
+    })
+
+    return summarizeManifests(
+      parsed.filter((manifest): manifest is ParsedManifest => !!manifest),
+      snapshot.tree
+    )
+  }
+}
+
+/**
+ * Parse a manifest file by name
+ *
+ * @param path - Manifest path
+ * @param content - Raw file contents
+ * @returns Parsed manifest, or null for unsupported or malformed files
+ */
+export function parseManifest(
+  path: string,
+  content: string
+): ParsedManifest | null {
+  switch (path.split('/').pop()) {
+    case 'package.json':
+      return parsePackageJson(path, content)
+    case 'pyproject.toml':
+      return parsePyproject(path, content)
+    case 'requirements.txt':
+      return parseRequirements(path, content)
+    case 'Cargo.toml':
+      return parseCargoToml(path, content)
+    case 'go.mod':
+      return parseGoMod(path, content)
+    case 'Gemfile':
+      return parseGemfile(path, content)
+    case 'composer.json':
+      return parseComposerJson(path, content)
+    default:
+      return null
+  }
+}
+
+/**
+ * Combine parsed manifests into a single analysis
+ *
+ * @param manifests - Parsed manifests, in order of preference
+ * @param tree - Repository tree, used to tell binaries from libraries
+ * @returns Manifest analysis
+ */
+export function summarizeManifests(
+  manifests: ParsedManifest[],
+  tree: GitHubTree | null = null
+): ManifestAnalysis {
+  const dependencies = manifests.flatMap((manifest) => manifest.dependencies)
+
+  const detected = detectFramework(manifests)
+
+  // The runtime follows the framework's ecosystem, else the preferred manifest
+  const primary =
+    manifests.find((manifest) => manifest.ecosystem === detected?.ecosystem) ??
+    manifests[0]
+
+  return {
+    manifests: manifests.map((manifest) => manifest.path),
+    dependencies,
+    framework: detected?.framework ?? null,
+    runtime: primary?.runtime ?? null,
+    runtimeVersion: primary?.runtimeVersion ?? null,
+    projectType:
+      detected?.projectType ??
+      (primary ? inferProjectType(primary, tree) : null),
+  }
+}
+
+/**
+ * First framework whose package is a runtime dependency
+ *
+ * Peer dependencies are left out: a library declaring a framework as a peer
+ * is built for it, not on it.
+ */
+function detectFramework(manifests: ParsedManifest[]) {
+  const runtimeDependencies = manifests.flatMap((manifest) =>
+    manifest.dependencies.filter(
+      (dependency) =>
+        !dependency.dev && !manifest.peers.includes(dependency.name)
+    )
+  )
+
+  return FRAMEWORKS.find(({ ecosystem, packages }) =>
+    runtimeDependencies.some(
+      (dependency) =>
+        dependency.ecosystem === ecosystem &&
+        packages.includes(normalizeName(dependency))
+    )
+  )
+}
+
+/**
+ * Project type of a manifest without a recognized framework
+ */
+function inferProjectType(
+  manifest: ParsedManifest,
+  tree: GitHubTree | null
+): string | null {
+  const paths = new Set(tree?.tree.map((item) => item.path) ?? [])
+  const cliPackages = CLI_PACKAGES[manifest.ecosystem] ?? []
+  const usesCliPackage = manifest.dependencies.some(
+    (dependency) =>
+      !dependency.dev && cliPackages.includes(normalizeName(dependency))
+  )
+
+  if (manifest.executable || usesCliPackage) {
+    return 'cli'
+  }
+  if (manifest.library) {
+    return 'library'
+  }
+
+  // Entry points in the tree when the manifest does not say
+  switch (manifest.ecosystem) {
+    case 'cargo':
+      if (paths.has('src/main.rs')) return 'cli'
+      if (paths.has('src/lib.rs')) return 'library'
+      return null
+    case 'go':
+      return paths.has('main.go') ||
+        Array.from(paths).some((path) => /^cmd\/[^/]+\/main\.go$/.test(path))
+        ? 'cli'
+        : 'library'
+    default:
+      return null
+  }
+}
+
+/**
+ * Dependency name comparable across version-suffixed module paths
+ */
+function normalizeName(dependency: ManifestDependency): string {
+  return dependency.ecosystem === 'go'
+    ? dependency.name.replace(/\/v\d+$/, '')
+    : dependency.name
+}
+
+/**
+ * package.json
+ */
+function parsePackageJson(
+  path: string,
+  content: string
+): ParsedManifest | null {
+  const pkg = parseJsonObject(content)
+  if (!pkg) return null
+
+  const engines = asRecord(pkg.engines)
+  const packageManager =
+    typeof pkg.packageManager === 'string' ? pkg.packageManager : ''
+  const isBun = 'bun' in engines || packageManager.startsWith('bun@')
+  const installed = {
+    ...asRecord(pkg.dependencies),
+    ...asRecord(pkg.optionalDependencies),
+  }
+
+  return {
+    path,
+    ecosystem: 'npm',
+    dependencies: [
+      ...recordDependencies(pkg.dependencies, 'npm', false, path),
+      ...recordDependencies(pkg.optionalDependencies, 'npm', false, path),
+      ...recordDependencies(pkg.peerDependencies, 'npm', false, path),
+      ...recordDependencies(pkg.devDependencies, 'npm', true, path),
+    ].filter(uniqueBy()),
+    runtime: isBun ? 'bun' : 'node',
+    runtimeVersion: stringOrNull(isBun ? engines.bun : engines.node),
+    executable: !!pkg.bin,
+    library:
+      pkg.private !== true &&
+      ['main', 'module', 'exports', 'types'].some((field) => field in pkg),
+    peers: Object.keys(asRecord(pkg.peerDependencies)).filter(
+      (name) => !(name in installed)
+    ),
+  }
+}
+
+/**
+ * composer.json
+ */
+function parseComposerJson(
+  path: string,
+  content: string
+): ParsedManifest | null {
+  const composer = parseJsonObject(content)
+  if (!composer) return null
+
+  // Platform requirements (php, ext-*) are not packages
+  const isPlatform = (dependency: ManifestDependency) =>
+    dependency.name !== 'php' && !/^(ext|lib)-/.test(dependency.name)
+
+  return {
+    path,
+    ecosystem: 'packagist',
+    dependencies: [
+      ...recordDependencies(composer.require, 'packagist', false, path),
+      ...recordDependencies(composer['require-dev'], 'packagist', true, path),
+    ].filter(isPlatform),
+    runtime: 'php',
+    runtimeVersion: stringOrNull(asRecord(composer.require).php),
+    executable: !!composer.bin,
+    library: composer.type === 'library',
+    peers: [],
+  }
+}
+
+/**
+ * requirements.txt
+ */
+function parseRequirements(path: string, content: string): ParsedManifest {
+  const dependencies = content
+    .split('\n')
+    .map((line) => line.replace(/(^|\s)#.*$/, '').trim())
+    // Skip options (-r, -e, --index-url) and direct URLs
+    .filter((line) => line && !line.startsWith('-') && !line.includes('://'))
+    .map((line) => parsePep508(line, false, path))
+    .filter((dependency): dependency is ManifestDependency => !!dependency)
+
+  return {
+    path,
+    ecosystem: 'pypi',
+    dependencies,
+    runtime: 'python',
+    runtimeVersion: null,
+    executable: false,
+    library: false,
+    peers: [],
+  }
+}
+
+/**
+ * pyproject.toml, PEP 621 and Poetry layouts
+ */
+function parsePyproject(path: string, content: string): ParsedManifest {
+  const tables = parseToml(content)
+  const project = tables.get('project') ?? new Map<string, string>()
+
+  const dependencies: ManifestDependency[] = [
+    ...tomlStringArray(project.get('dependencies')).map((spec) =>
+      parsePep508(spec, false, path)
+    ),
+    // Extras named after tooling (dev, test, lint, docs) are development-only
+    ...Array.from(tables.get('project.optional-dependencies') ?? []).flatMap(
+      ([extra, specs]) =>
+        tomlStringArray(specs).map((spec) =>
+          parsePep508(spec, DEV_EXTRA_PATTERN.test(extra), path)
+        )
+    ),
+  ].filter((dependency): dependency is ManifestDependency => !!dependency)
+
+  // Poetry keeps the Python requirement among the dependencies
+  const poetryDependencies = tables.get('tool.poetry.dependencies')
+  for (const [name, value] of poetryDependencies ?? []) {
+    if (name === 'python') continue
+    dependencies.push(
+      tableDependency(pypiName(name), value, 'pypi', false, path)
+    )
+  }
+  for (const [table, entries] of tables) {
+    if (
+      table === 'tool.poetry.dev-dependencies' ||
+      /^tool\.poetry\.group\.[^.]+\.dependencies$/.test(table)
+    ) {
+      for (const [name, value] of entries) {
+        dependencies.push(
+          tableDependency(pypiName(name), value, 'pypi', true, path)
+        )
+      }
+    }
+  }
+
+  return {
+    path,
+    ecosystem: 'pypi',
+    dependencies: dependencies.filter(uniqueBy()),
+    runtime: 'python',
+    runtimeVersion:
+      tomlString(project.get('requires-python')) ??
+      tomlString(poetryDependencies?.get('python')),
+    executable:
+      tables.has('project.scripts') || tables.has('tool.poetry.scripts'),
+    library: false,
+    peers: [],
+  }
+}
+
+/**
+ * Cargo.toml
+ */
+function parseCargoToml(path: string, content: string): ParsedManifest {
+  const tables = parseToml(content)
+  const dependencies: ManifestDependency[] = []
+
+  for (const [table, entries] of tables) {
+    // [dependencies], [dev-dependencies], [target.'cfg(...)'.dependencies], ...
+    const section = table.match(
+      /(?:^|\.)(dependencies|dev-dependencies|build-dependencies)$/
+    )
+    if (section && !table.startsWith('workspace')) {
+      const dev = section[1] !== 'dependencies'
+      for (const [key, value] of entries) {
+        // Dotted keys: serde.workspace = true, serde.version = "1"
+        const [name, subkey] = key.split('.')
+        if (subkey && subkey !== 'version') continue
+        dependencies.push(
+          subkey
+            ? dependency(name, tomlString(value), 'cargo', dev, path)
+            : tableDependency(name, value, 'cargo', dev, path)
+        )
+      }
+    }
+
+    // [dependencies.serde] with version = "1"
+    const named = table.match(
+      /^(dependencies|dev-dependencies|build-dependencies)\.(.+)$/
+    )
+    if (named) {
+      dependencies.push(
+        dependency(
+          unquote(named[2]),
+          tomlString(entries.get('version')),
+          'cargo',
+          named[1] !== 'dependencies',
+          path
+        )
+      )
+    }
+  }
+
+  return {
+    path,
+    ecosystem: 'cargo',
+    dependencies: dependencies.filter(uniqueBy()),
+    runtime: 'rust',
+    runtimeVersion: tomlString(tables.get('package')?.get('rust-version')),
+    executable: tables.has('bin'),
+    library: tables.has('lib') && !tables.has('bin'),
+    peers: [],
+  }
+}
+
+/**
+ * go.mod
+ */
+function parseGoMod(path: string, content: string): ParsedManifest {
+  const dependencies: ManifestDependency[] = []
+  let runtimeVersion: string | null = null
+  let inRequire = false
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim()
+    // Indirect requirements are pulled in by other modules
+    if (line.endsWith('// indirect')) continue
+    const text = line.replace(/\/\/.*$/, '').trim()
+
+    const go = text.match(/^go\s+(\S+)$/)
+    if (go) {
+      runtimeVersion = go[1]
+      continue
+    }
+
+    if (text === 'require (') {
+      inRequire = true
+      continue
+    }
+    if (inRequire && text === ')') {
+      inRequire = false
+      continue
+    }
+
+    const requirement = inRequire
+      ? text.match(/^(\S+)\s+(\S+)$/)
+      : text.match(/^require\s+(\S+)\s+(\S+)$/)
+    if (requirement) {
+      dependencies.push(
+        dependency(requirement[1], requirement[2], 'go', false, path)
+      )
+    }
+  }
+
+  return {
+    path,
+    ecosystem: 'go',
+    dependencies,
+    runtime: 'go',
+    runtimeVersion,
+    executable: false,
+    library: false,
+    peers: [],
+  }
+}
+
+/**
+ * Gemfile
+ */
+function parseGemfile(path: string, content: string): ParsedManifest {
+  const dependencies: ManifestDependency[] = []
+  let runtimeVersion: string | null = null
+  // Groups of the enclosing `group ... do` blocks
+  const groups: boolean[] = []
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim()
+
+    const ruby = line.match(/^ruby\s+['"]([^'"]+)['"]/)
+    if (ruby) {
+      runtimeVersion = ruby[1]
+      continue
+    }
+
+    if (/^group\b.*\bdo$/.test(line)) {
+      groups.push(/:(development|test)\b/.test(line))
+      continue
+    }
+    if (/\bdo(\s*\|[^|]*\|)?$/.test(line)) {
+      // Other blocks (platforms, source) only need matching `end`s
+      groups.push(groups[groups.length - 1] ?? false)
+      continue
+    }
+    if (line === 'end') {
+      groups.pop()
+      continue
+    }
+
+    const gem = line.match(/^gem\s+['"]([^'"]+)['"](.*)$/)
+    if (gem) {
+      const version = gem[2].match(/^\s*,\s*['"]([^'"]+)['"]/)?.[1] ?? null
+      const dev =
+        groups.some(Boolean) || /group:\s*\[?:(development|test)/.test(gem[2])
+      dependencies.push(dependency(gem[1], version, 'rubygems', dev, path))
+    }
+  }
+
+  return {
+    path,
+    ecosystem: 'rubygems',
+    dependencies,
+    runtime: 'ruby',
+    runtimeVersion,
+    executable: false,
+    library: /^gemspec\b/m.test(content),
+    peers: [],
+  }
+}
+
+/**
+ * PEP 508 requirement, e.g. `requests[socks]>=2.31; python_version > "3.8"`
+ */
+function parsePep508(
+  spec: string,
+  dev: boolean,
+  manifest: string
+): ManifestDependency | null {
+  const match = spec
+    .split(';')[0]
+    .trim()
+    .match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(\[[^\]]*\])?\s*(.*)$/)
+  if (!match) return null
+
+  return dependency(
+    pypiName(match[1]),
+    match[3].replace(/^\(|\)$/g, '').trim() || null,
+    'pypi',
+    dev,
+    manifest
+  )
+}
+
+/**
+ * PEP 503 normalized package name
+ */
+function pypiName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-')
+}
+
+/**
+ * Dependency declared as `name = "1.0"` or `name = { version = "1.0", ... }`
+ */
+function tableDependency(
+  name: string,
+  value: string,
+  ecosystem: DependencyEcosystem,
+  dev: boolean,
+  manifest: string
+): ManifestDependency {
+  const version = value.trim().startsWith('{')
+    ? tomlString(value.match(/\bversion\s*=\s*("[^"]*"|'[^']*')/)?.[1])
+    : tomlString(value)
+
+  return dependency(name, version, ecosystem, dev, manifest)
+}
+
+/**
+ * Dependencies from a JSON `{ name: version }` object
+ */
+function recordDependencies(
+  value: unknown,
+  ecosystem: DependencyEcosystem,
+  dev: boolean,
+  manifest: string
+): ManifestDependency[] {
+  return Object.entries(asRecord(value)).map(([name, version]) =>
+    dependency(name, stringOrNull(version), ecosystem, dev, manifest)
+  )
+}
+
+function dependency(
+  name: string,
+  version: string | null,
+  ecosystem: DependencyEcosystem,
+  dev: boolean,
+  manifest: string
+): ManifestDependency {
+  return { name, version, ecosystem, dev, manifest }
+}
+
+/**
+ * Keep the first declaration of each dependency name
+ */
+function uniqueBy() {
+  const seen = new Set<string>()
+  return (dependency: ManifestDependency) => {
+    if (seen.has(dependency.name)) return false
+    seen.add(dependency.name)
+    return true
+  }
+}
+
+/**
+ * Minimal TOML reader: raw `key = value` strings per table
+ * Covers what manifests use: tables, arrays of tables, multi-line arrays
+ * and inline tables. Values are parsed on demand by the `toml*` helpers.
+ */
+function parseToml(content: string): Map<string, Map<string, string>> {
+  const tables = new Map<string, Map<string, string>>([['', new Map()]])
+  let current = tables.get('') as Map<string, string>
+  let pending: { key: string; value: string } | null = null
+
+  for (const rawLine of content.split('\n')) {
+    const line = stripTomlComment(rawLine).trim()
+
+    if (pending) {
+      pending.value += ` ${line}`
+      if (isBalanced(pending.value)) {
+        current.set(pending.key, pending.value)
+        pending = null
+      }
+      continue
+    }
+    if (!line) continue
+
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/)
+    if (header) {
+      const name = header[1].replace(/\s*\.\s*/g, '.')
+      current = tables.get(name) ?? new Map()
+      tables.set(name, current)
+      continue
+    }
+
+    const pair = line.match(/^("[^"]+"|'[^']+'|[\w.-]+)\s*=\s*(.*)$/)
+    if (!pair) continue
+
+    const key = unquote(pair[1])
+    if (isBalanced(pair[2])) {
+      current.set(key, pair[2])
+    } else {
+      pending = { key, value: pair[2] }
+    }
+  }
+
+  return tables
+}
+
+function stripTomlComment(line: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quote) {
+      if (char === quote && line[i - 1] !== '\\') quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '#') {
+      return line.slice(0, i)
+    }
+  }
+  return line
+}
+
+/**
+ * Whether all brackets outside strings are closed
+ */
+function isBalanced(value: string): boolean {
+  const stripped = value.replace(/"[^"]*"|'[^']*'/g, '')
+  const opened = (stripped.match(/[[{]/g) ?? []).length
+  const closed = (stripped.match(/[\]}]/g) ?? []).length
+  return opened <= closed
+}
+
+function tomlString(value: string | undefined): string | null {
+  const match = value?.trim().match(/^("([^"]*)"|'([^']*)')$/)
+  return match ? (match[2] ?? match[3]) : null
+}
+
+function tomlStringArray(value: string | undefined): string[] {
+  return Array.from(
+    value?.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g) ?? [],
+    (match) => match[1] ?? match[2]
+  )
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(['"])(.*)\1$/, '$2')
+}
+
+function parseJsonObject(content: string): Record<string, unknown> | null {
+  try {
+    const json: unknown = JSON.parse(content)
+    return json && typeof json === 'object' && !Array.isArray(json)
+      ? (json as Record<string, unknown>)
+      : null
+  } catch {
+    return null
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' ? value : null
+}
+
+/**
+ * Create manifest analyzer instance
+ *
+ * @returns ManifestAnalyzer instance
+ */
+export function createManifestAnalyzer(): ManifestAnalyzer {
+  return new ManifestAnalyzer()
+}
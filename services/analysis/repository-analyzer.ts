@@ -1,20 +1,71 @@
 /**
  * Repository Analyzer
  *
- * Orchestrates the complete repository analysis process:
- * 1. AI tool detection
- * 2. Completeness scoring
- * 3. AI-powered insights generation
- * 4. Commit and contributor analysis
- * 5. Stores results in database
+ * Orchestrates the complete repository analysis process, pinned to the
+ * commit the default branch points to when the run starts. Repository
+ * contents are loaded once into a snapshot (see `./repository-snapshot`)
+ * that every stage reads from. Stages (see `./analysis-stages`) run one
+ * after the other, in process or as separate queue jobs:
+ * 1. Snapshot of the pinned commit
+ * 2. Detection: AI tools, dependency manifests (framework, runtime, project
+ *    type) and secret scanning (owner is notified privately)
+ * 3. Dependency health (vulnerabilities, outdated and abandoned packages)
+ * 4. CI health from recent GitHub Actions runs
+ * 5. Commit history totals, contributors, weekly activity and bus factor
+ * 6. Commit-level AI authorship across the full history
+ * 7. AI-powered insights generation
+ * Then completeness scoring, with the profile for the project type, and
+ * storing results in database (latest analysis + append-only run history).
+ * An analysis where a stage after the snapshot failed is stored as partial.
  */
 
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
+import { cacheService, CACHE_TTL } from '@/lib/cache'
+import { notifySecretLeak } from '@/services/notifications/notification-service'
 import { GitHubClient } from '@/services/integrations/github-client'
+import {
+  createRepositorySource,
+  RepositorySource,
+} from '@/services/integrations/repository-source'
 import { AIDetector, createAIDetector } from './ai-detector'
 import { CompletenessScorer, createCompletenessScorer } from './completeness-scorer'
 import { InsightsGenerator, createInsightsGenerator } from './insights-generator'
-import type { GitHubRepository } from '@/types/github'
+import {
+  loadRepositorySnapshot,
+  RepositorySnapshot,
+} from './repository-snapshot'
+import {
+  CommitAuthorshipAnalyzer,
+  createCommitAuthorshipAnalyzer,
+} from './commit-authorship'
+import {
+  ManifestAnalyzer,
+  createManifestAnalyzer,
+  type ManifestAnalysis,
+} from './manifest-analyzer'
+import {
+  DependencyHealthChecker,
+  createDependencyHealthChecker,
+} from './dependency-health'
+import {
+  SecretScanner,
+  createSecretScanner,
+  type SecretScanResult,
+} from './secret-scanner'
+import { CIHealthAnalyzer, createCIHealthAnalyzer } from './ci-health'
+import {
+  CommitActivityAnalyzer,
+  createCommitActivityAnalyzer,
+  type CommitActivity,
+} from './commit-activity'
+import {
+  SNAPSHOT_STAGES,
+  type AnalysisStageResults,
+  type SnapshotStage,
+  type SnapshotStageResults,
+} from './analysis-stages'
+import type { GitHubCommit, GitHubRepository } from '@/types/github'
 
 /**
  * Analysis result
@@ -23,13 +74,37 @@ export interface AnalysisResult {
   repositoryId: string
   analysisId: string
   success: boolean
+  failedStages?: SnapshotStage[] // Stages missing from a partial analysis
   error?: string
 }
 
 /**
  * Analysis progress callback
  */
-export type AnalysisProgressCallback = (progress: number, status: string) => void
+export type AnalysisProgressCallback = (
+  progress: number,
+  status: string
+) => void | Promise<void>
+
+/**
+ * Commit an analysis is pinned to
+ */
+export interface AnalysisHead {
+  repository: GitHubRepository
+  commitSha: string
+}
+
+/**
+ * Manifest analysis when nothing could be parsed
+ */
+const EMPTY_MANIFEST: ManifestAnalysis = {
+  manifests: [],
+  dependencies: [],
+  framework: null,
+  runtime: null,
+  runtimeVersion: null,
+  projectType: null,
+}
 
 /**
  * Repository Analyzer
@@ -37,19 +112,38 @@ export type AnalysisProgressCallback = (progress: number, status: string) => voi
  */
 export class RepositoryAnalyzer {
   private githubClient: GitHubClient
+  private source: RepositorySource
   private aiDetector: AIDetector
   private completenessScorer: CompletenessScorer
   private insightsGenerator: InsightsGenerator
+  private authorshipAnalyzer: CommitAuthorshipAnalyzer
+  private manifestAnalyzer: ManifestAnalyzer
+  private dependencyHealthChecker: DependencyHealthChecker
+  private secretScanner: SecretScanner
+  private ciHealthAnalyzer: CIHealthAnalyzer
+  private commitActivityAnalyzer: CommitActivityAnalyzer
 
   constructor(accessToken: string) {
     this.githubClient = new GitHubClient(accessToken)
-    this.aiDetector = createAIDetector(this.githubClient)
-    this.completenessScorer = createCompletenessScorer(this.githubClient)
-    this.insightsGenerator = createInsightsGenerator(this.githubClient)
+    // Snapshot reads; commit authorship and CI stay on the API
+    this.source = createRepositorySource(this.githubClient, accessToken)
+    this.aiDetector = createAIDetector()
+    this.completenessScorer = createCompletenessScorer()
+    this.insightsGenerator = createInsightsGenerator()
+    this.authorshipAnalyzer = createCommitAuthorshipAnalyzer(this.githubClient)
+    this.manifestAnalyzer = createManifestAnalyzer()
+    this.dependencyHealthChecker = createDependencyHealthChecker()
+    this.secretScanner = createSecretScanner()
+    this.ciHealthAnalyzer = createCIHealthAnalyzer(this.githubClient)
+    this.commitActivityAnalyzer = createCommitActivityAnalyzer(
+      this.githubClient
+    )
   }
 
   /**
    * Analyze a repository and store results
+   * Runs every stage in this process; a failed stage leaves its fields empty
+   * and marks the analysis partial instead of failing it.
    *
    * @param repositoryId - Repository ID in database
    * @param owner - Repository owner
@@ -72,157 +166,456 @@ export class RepositoryAnalyzer {
         data: { analysisStatus: 'processing' },
       })
 
-      onProgress?.(10, 'Fetching repository metadata')
+      const head = await this.resolveHead(owner, repo, onProgress)
+      const snapshot = await this.loadSnapshot(owner, repo, head, onProgress)
+
+      const results: SnapshotStageResults = {}
+      for (const stage of SNAPSHOT_STAGES) {
+        try {
+          Object.assign(results, {
+            [stage]: await this.runStage(stage, snapshot, onProgress),
+          })
+        } catch (error) {
+          console.error(`Analysis stage ${stage} failed:`, error)
+        }
+      }
 
-      // Fetch repository metadata
-      const repository = await this.githubClient.getRepository(owner, repo)
+      const result = await this.saveAnalysis(
+        repositoryId,
+        snapshot,
+        results,
+        onProgress
+      )
 
-      onProgress?.(20, 'Detecting AI tools')
+      console.log(`Analysis completed for ${owner}/${repo}`)
 
-      // AI Detection
-      const aiDetection = await this.aiDetector.detectAIUsage(owner, repo)
+      return result
+    } catch (error) {
+      console.error(`Analysis failed for ${owner}/${repo}:`, error)
 
-      onProgress?.(40, 'Calculating completeness score')
+      // Update repository status to failed
+      await prisma.repository.update({
+        where: { id: repositoryId },
+        data: { analysisStatus: 'failed' },
+      })
 
-      // Completeness Scoring
-      const { score: completenessScore } =
-        await this.completenessScorer.calculateScore(owner, repo)
+      return {
+        repositoryId,
+        analysisId: '',
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }
+    }
+  }
 
-      onProgress?.(60, 'Analyzing commits and contributors')
+  /**
+   * Resolve the commit the default branch points to and pin reads to it
+   * Every stage reads the same commit, even if the branch moves meanwhile
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param onProgress - Optional progress callback
+   * @returns Repository metadata and the pinned commit
+   */
+  async resolveHead(
+    owner: string,
+    repo: string,
+    onProgress?: AnalysisProgressCallback
+  ): Promise<AnalysisHead> {
+    await onProgress?.(10, 'Fetching repository metadata')
+
+    const repository = await this.githubClient.getRepository(owner, repo)
+    const commitSha = await this.githubClient.getBranchHeadSha(
+      owner,
+      repo,
+      repository.default_branch
+    )
+    this.githubClient.pinRepository(owner, repo, commitSha)
+
+    return { repository, commitSha }
+  }
 
-      // Commit and contributor analysis
-      const { firstCommitAt, lastCommitAt, commitCount, contributorCount } =
-        await this.analyzeCommits(owner, repo)
+  /**
+   * Load the snapshot every stage reads
+   * Tree, README, commits and the files stages read, fetched once
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param head - Commit resolved by resolveHead
+   * @param onProgress - Optional progress callback
+   * @returns Repository snapshot
+   */
+  async loadSnapshot(
+    owner: string,
+    repo: string,
+    head: AnalysisHead,
+    onProgress?: AnalysisProgressCallback
+  ): Promise<RepositorySnapshot> {
+    await onProgress?.(15, 'Loading repository contents')
+
+    return loadRepositorySnapshot(this.source, owner, repo, {
+      ...head,
+      selectFiles: (tree, localFiles) => [
+        ...this.aiDetector.selectFiles(tree),
+        ...this.manifestAnalyzer.selectFiles(tree),
+        ...this.dependencyHealthChecker.selectFiles(tree),
+        ...this.secretScanner.selectFiles(tree, localFiles),
+        ...this.insightsGenerator.selectFiles(tree),
+        ...this.completenessScorer.selectFiles(tree),
+      ],
+    })
+  }
+
+  /**
+   * Run a stage on a snapshot
+   * Errors are thrown, so the caller can retry the stage or record it as
+   * failed.
+   *
+   * @param stage - Stage to run
+   * @param snapshot - Snapshot from loadSnapshot, possibly of another process
+   * @param onProgress - Optional progress callback
+   * @returns Stage result
+   */
+  async runStage<S extends SnapshotStage>(
+    stage: S,
+    snapshot: RepositorySnapshot,
+    onProgress?: AnalysisProgressCallback
+  ): Promise<AnalysisStageResults[S]> {
+    const { owner, repo, repository } = snapshot
 
-      onProgress?.(70, 'Generating AI insights')
+    // API reads see the snapshot's commit, wherever the snapshot was loaded
+    if (snapshot.commitSha) {
+      this.githubClient.pinRepository(owner, repo, snapshot.commitSha)
+    }
 
+    const stages: {
+      [K in SnapshotStage]: () => Promise<AnalysisStageResults[K]>
+    } = {
+      detection: async () => {
+        await onProgress?.(20, 'Detecting AI tools')
+        const aiDetection = this.aiDetector.detectAIUsage(snapshot)
+
+        // Exact dependencies, framework and runtime
+        await onProgress?.(30, 'Parsing dependency manifests')
+        const manifest = this.analyzeManifests(snapshot)
+
+        // Committed API keys and credentials
+        await onProgress?.(35, 'Scanning for leaked secrets')
+        const secretScan = this.scanSecrets(snapshot)
+
+        return { aiDetection, manifest, secretScan }
+      },
+      // Vulnerable, outdated and abandoned dependencies
+      dependency_health: async () => {
+        await onProgress?.(40, 'Checking dependency health')
+        const { dependencies } = this.analyzeManifests(snapshot)
+        return this.dependencyHealthChecker.checkDependencies(
+          snapshot,
+          dependencies
+        )
+      },
+      // Pass rate, last green build and flaky workflows on the default branch
+      ci_health: async () => {
+        await onProgress?.(48, 'Checking CI health')
+        return this.ciHealthAnalyzer.analyzeCIHealth(
+          owner,
+          repo,
+          repository.default_branch
+        )
+      },
+      // Full history totals, weekly activity and bus factor
+      commit_activity: async () => {
+        await onProgress?.(50, 'Analyzing commits and contributors')
+        return this.commitActivityAnalyzer.analyzeActivity(snapshot)
+      },
+      // AI vs human authorship over the full history
+      authorship: async () => {
+        await onProgress?.(60, 'Attributing commit authorship')
+        return this.authorshipAnalyzer.analyzeAuthorship(owner, repo)
+      },
       // AI-powered insights
-      const insights = await this.insightsGenerator.generateInsights(
-        owner,
-        repo,
-        repository.description
-      )
+      insights: async () => {
+        await onProgress?.(70, 'Generating AI insights')
+        return this.insightsGenerator.generateInsights(snapshot)
+      },
+    }
 
-      onProgress?.(90, 'Saving analysis results')
+    return stages[stage]()
+  }
 
-      // Determine project type and framework
-      const { projectType, framework } = this.determineProjectType(
-        repository,
-        insights.techStack
-      )
+  /**
+   * Score the stage results and store the analysis
+   * Stages missing from the results failed: their fields are stored empty
+   * and the analysis is marked partial, listing them.
+   *
+   * @param repositoryId - Repository ID in database
+   * @param snapshot - Snapshot the stages read
+   * @param results - Results of the stages that completed
+   * @param onProgress - Optional progress callback
+   * @returns Analysis result
+   */
+  async saveAnalysis(
+    repositoryId: string,
+    snapshot: RepositorySnapshot,
+    results: SnapshotStageResults,
+    onProgress?: AnalysisProgressCallback
+  ): Promise<AnalysisResult> {
+    const failedStages = SNAPSHOT_STAGES.filter(
+      (stage) => results[stage] === undefined
+    )
+    const aiDetection = results.detection?.aiDetection ?? null
+    const manifest = results.detection?.manifest ?? EMPTY_MANIFEST
+    const secretScan = results.detection?.secretScan ?? null
+    const dependencyHealth = results.dependency_health ?? null
+    const ciHealth = results.ci_health ?? null
+    const commitActivity = results.commit_activity ?? null
+    const aiAuthorship = results.authorship ?? null
+    const insights = results.insights ?? null
+
+    const { firstCommitAt, lastCommitAt, commitCount, contributorCount } =
+      this.analyzeCommits(snapshot.commits, commitActivity)
+
+    // Manifests are authoritative; metadata only fills in what they lack
+    const fallback = this.determineProjectType(
+      snapshot.repository,
+      insights?.techStack ?? []
+    )
+    const framework = manifest.framework ?? fallback.framework
+    const projectType = manifest.projectType ?? fallback.projectType
+
+    await onProgress?.(80, 'Calculating completeness score')
+
+    // Completeness Scoring, weighted for the project type unless the owner
+    // picked a scoring profile
+    const { scoringProfile, deployedUrl } =
+      await prisma.repository.findUniqueOrThrow({
+        where: { id: repositoryId },
+        select: { scoringProfile: true, deployedUrl: true },
+      })
+    const { score: completenessScore, breakdown: completenessBreakdown } =
+      await this.completenessScorer.calculateScore(snapshot, {
+        dependencyHealth,
+        secretScan,
+        ciHealth,
+        commitActivity,
+        projectType,
+        scoringProfile,
+        deployedUrl,
+        dependencies: manifest.dependencies,
+      })
 
-      // Save to database (upsert)
-      const analysis = await prisma.repositoryAnalysis.upsert({
-        where: { repositoryId },
-        create: {
-          repositoryId,
-          // AI Detection
-          aiDetected: aiDetection.detected,
-          aiProvider: aiDetection.provider,
-          aiConfidence: aiDetection.confidence,
-          aiEvidence: {
+    await onProgress?.(90, 'Saving analysis results')
+
+    // Fields shared by the latest analysis and its history entry
+    const analysisData = {
+      // AI Detection
+      aiDetected: aiDetection?.detected ?? false,
+      aiProvider: aiDetection?.provider ?? null,
+      aiProviders:
+        aiDetection?.providers.map(({ provider }) => provider) ?? [],
+      aiProviderBreakdown: aiDetection
+        ? (aiDetection.providers as unknown as Prisma.InputJsonArray)
+        : Prisma.DbNull,
+      aiConfidence: aiDetection?.confidence ?? null,
+      aiEvidence: aiDetection
+        ? ({
             files: aiDetection.evidence.files,
             commits: aiDetection.evidence.commits,
             readme: aiDetection.evidence.readme,
-          },
-          // Analysis Results
-          projectType,
-          framework,
-          completenessScore,
-          // AI Insights
-          purpose: insights.purpose,
-          techStack: insights.techStack,
-          features: insights.features,
-          improvements: insights.improvements,
-          mistakes: insights.mistakes,
-          // Timeline
-          firstCommitAt,
-          lastCommitAt,
-          commitCount,
-          contributorCount,
+            config: aiDetection.evidence.config,
+            agentConfigs: aiDetection.evidence.agentConfigs,
+          } as unknown as Prisma.InputJsonObject)
+        : Prisma.DbNull,
+      aiAuthorship: aiAuthorship
+        ? (aiAuthorship as unknown as Prisma.InputJsonObject)
+        : Prisma.DbNull,
+      // Analysis Results
+      commitSha: snapshot.commitSha,
+      projectType,
+      framework,
+      runtime: manifest.runtime,
+      runtimeVersion: manifest.runtimeVersion,
+      dependencies: manifest.dependencies as unknown as Prisma.InputJsonArray,
+      dependencyNames: Array.from(
+        new Set(manifest.dependencies.map(({ name }) => name))
+      ),
+      dependencyHealth: dependencyHealth
+        ? (dependencyHealth as unknown as Prisma.InputJsonObject)
+        : Prisma.DbNull,
+      ciHealth: ciHealth
+        ? (ciHealth as unknown as Prisma.InputJsonObject)
+        : Prisma.DbNull,
+      completenessScore,
+      completenessBreakdown:
+        completenessBreakdown as unknown as Prisma.InputJsonObject,
+      scoringProfile: completenessBreakdown.profile,
+      // AI Insights
+      purpose: insights?.purpose ?? null,
+      techStack: insights?.techStack ?? [],
+      features: insights?.features ?? [],
+      improvements: insights?.improvements ?? [],
+      mistakes: insights?.mistakes ?? [],
+      insightSources: insights
+        ? (insights.sources as unknown as Prisma.InputJsonObject)
+        : Prisma.DbNull,
+      // Timeline
+      firstCommitAt,
+      lastCommitAt,
+      commitCount,
+      contributorCount,
+      commitActivity: commitActivity
+        ? (commitActivity as unknown as Prisma.InputJsonObject)
+        : Prisma.DbNull,
+      failedStages,
+    }
+
+    // Save latest analysis (upsert) and append it to the run history
+    const [analysis] = await prisma.$transaction([
+      prisma.repositoryAnalysis.upsert({
+        where: { repositoryId },
+        create: {
+          repositoryId,
+          ...analysisData,
         },
         update: {
-          // AI Detection
-          aiDetected: aiDetection.detected,
-          aiProvider: aiDetection.provider,
-          aiConfidence: aiDetection.confidence,
-          aiEvidence: {
-            files: aiDetection.evidence.files,
-            commits: aiDetection.evidence.commits,
-            readme: aiDetection.evidence.readme,
-          },
-          // Analysis Results
-          projectType,
-          framework,
-          completenessScore,
-          // AI Insights
-          purpose: insights.purpose,
-          techStack: insights.techStack,
-          features: insights.features,
-          improvements: insights.improvements,
-          mistakes: insights.mistakes,
-          // Timeline
-          firstCommitAt,
-          lastCommitAt,
-          commitCount,
-          contributorCount,
+          ...analysisData,
           updatedAt: new Date(),
         },
-      })
-
-      // Update repository status
-      await prisma.repository.update({
-        where: { id: repositoryId },
+      }),
+      prisma.analysisRun.create({
         data: {
-          analysisStatus: 'completed',
-          lastAnalyzedAt: new Date(),
+          repositoryId,
+          ...analysisData,
         },
-      })
+      }),
+    ])
+
+    // Update repository status
+    await prisma.repository.update({
+      where: { id: repositoryId },
+      data: {
+        analysisStatus: failedStages.length > 0 ? 'partial' : 'completed',
+        lastAnalyzedAt: new Date(),
+      },
+    })
+
+    // Secret locations go to the owner only, never into the analysis
+    if (secretScan && secretScan.findings.length > 0) {
+      await this.notifySecretLeaks(repositoryId, secretScan)
+    }
 
-      onProgress?.(100, 'Analysis complete')
+    await onProgress?.(
+      100,
+      failedStages.length > 0
+        ? `Analysis partially complete (failed: ${failedStages.join(', ')})`
+        : 'Analysis complete'
+    )
+
+    return {
+      repositoryId,
+      analysisId: analysis.id,
+      success: true,
+      failedStages,
+    }
+  }
 
-      console.log(`Analysis completed for ${owner}/${repo}`)
+  /**
+   * Parse dependency manifests
+   * A failure here should not fail the whole analysis
+   * @private
+   */
+  private analyzeManifests(snapshot: RepositorySnapshot): ManifestAnalysis {
+    try {
+      return this.manifestAnalyzer.analyzeManifests(snapshot)
+    } catch (error) {
+      console.error('Manifest analysis failed:', error)
+      return EMPTY_MANIFEST
+    }
+  }
 
-      return {
-        repositoryId,
-        analysisId: analysis.id,
-        success: true,
-      }
+  /**
+   * Scan committed files for secrets
+   * A failure here should not fail the whole analysis
+   * @private
+   */
+  private scanSecrets(snapshot: RepositorySnapshot): SecretScanResult | null {
+    try {
+      return this.secretScanner.scanRepository(snapshot)
     } catch (error) {
-      console.error(`Analysis failed for ${owner}/${repo}:`, error)
+      console.error('Secret scan failed:', error)
+      return null
+    }
+  }
 
-      // Update repository status to failed
-      await prisma.repository.update({
-        where: { id: repositoryId },
-        data: { analysisStatus: 'failed' },
-      })
+  /**
+   * Privately notify the repository owner of secrets not reported before
+   * @private
+   */
+  private async notifySecretLeaks(
+    repositoryId: string,
+    secretScan: SecretScanResult
+  ): Promise<void> {
+    try {
+      const cacheKey = cacheService.secretFingerprintsKey(repositoryId)
+      const reported = new Set(
+        (await cacheService.get<string[]>(cacheKey)) ?? []
+      )
+      const findings = secretScan.findings.filter(
+        ({ fingerprint }) => !reported.has(fingerprint)
+      )
 
-      return {
-        repositoryId,
-        analysisId: '',
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+      if (findings.length > 0) {
+        const repository = await prisma.repository.findUnique({
+          where: { id: repositoryId },
+          select: { userId: true, fullName: true, name: true, title: true },
+        })
+        if (repository) {
+          await notifySecretLeak(
+            repository.userId,
+            repositoryId,
+            repository.fullName ?? repository.name ?? repository.title ?? 'your repository',
+            findings
+          )
+        }
       }
+
+      await cacheService.set(
+        cacheKey,
+        secretScan.findings.map(({ fingerprint }) => fingerprint),
+        CACHE_TTL.SECRET_FINGERPRINTS
+      )
+    } catch (error) {
+      console.error('Secret leak notification failed:', error)
     }
   }
 
   /**
    * Analyze commits to extract timeline and contributor info
+   * Uses full history totals when available, else the loaded commits
    * @private
    */
-  private async analyzeCommits(
-    owner: string,
-    repo: string
-  ): Promise<{
+  private analyzeCommits(
+    commits: GitHubCommit[],
+    activity: CommitActivity | null
+  ): {
     firstCommitAt: Date | null
     lastCommitAt: Date | null
     commitCount: number
     contributorCount: number
-  }> {
+  } {
     try {
-      const commits = await this.githubClient.getCommitHistory(owner, repo, {
-        per_page: 100,
-      })
+      if (activity) {
+        return {
+          firstCommitAt: activity.firstCommitAt
+            ? new Date(activity.firstCommitAt)
+            : null,
+          lastCommitAt: activity.lastCommitAt
+            ? new Date(activity.lastCommitAt)
+            : null,
+          commitCount: activity.totalCommits,
+          contributorCount: activity.contributorCount,
+        }
+      }
 
       if (commits.length === 0) {
         return {
@@ -264,6 +657,7 @@ export class RepositoryAnalyzer {
 
   /**
    * Determine project type and framework from metadata
+   * Fallback for repositories without a recognized manifest
    * @private
    */
   private determineProjectType(
@@ -355,7 +749,8 @@ export class RepositoryAnalyzer {
    * Close all connections
    */
   async close(): Promise<void> {
-    // Clean up any resources if needed
+    // Remove local clone workspaces
+    await this.source.dispose?.()
     console.log('Repository analyzer closed')
   }
 }
@@ -0,0 +1,260 @@
+/**
+ * Repository Digest
+ *
+ * Collects the material insights are generated from, as labelled sources:
+ * - README, split into sections
+ * - Package manifest
+ * - Top-level file tree
+ * - Key source files (entry points)
+ * - Recent commit messages
+ *
+ * Each source has a stable ID (`readme#Usage`, `manifest:package.json`,
+ * `file:src/index.ts`, ...) that the model cites per insight, which is
+ * stored as provenance. File contents are redacted of secrets first.
+ */
+
+import type { GitHubTree } from '@/types/github'
+import { MANIFEST_FILES } from './manifest-analyzer'
+import {
+  blobPaths,
+  snapshotFile,
+  type RepositorySnapshot,
+  type SnapshotFile,
+} from './repository-snapshot'
+import { redactSecrets } from './secret-scanner'
+
+/**
+ * Single labelled source in the digest
+ */
+export interface DigestSource {
+  id: string
+  content: string
+}
+
+/**
+ * Structured repository digest
+ */
+export interface RepositoryDigest {
+  readmeSections: DigestSource[]
+  manifest: DigestSource | null
+  tree: DigestSource | null
+  sourceFiles: DigestSource[]
+  commits: DigestSource | null
+}
+
+/**
+ * Entry point files worth reading, in order of preference
+ */
+const KEY_SOURCE_FILES = [
+  /^src\/(index|main|app)\.(t|j)sx?$/,
+  /^(index|main|app|server)\.(t|j)sx?$/,
+  /^app\/(page|layout)\.(t|j)sx$/,
+  /^src\/app\/(page|layout)\.(t|j)sx$/,
+  /^pages\/index\.(t|j)sx?$/,
+  /^(src\/)?(main|app|__main__|cli)\.py$/,
+  /^[\w-]+\/__init__\.py$/,
+  /^(cmd\/[\w-]+\/)?main\.go$/,
+  /^src\/(main|lib)\.rs$/,
+]
+
+const MAX_README_CHARS = 8000
+const MAX_SECTION_CHARS = 2000
+const MAX_MANIFEST_CHARS = 2000
+const MAX_TREE_ENTRIES = 60
+const MAX_SOURCE_FILES = 3
+const MAX_SOURCE_FILE_CHARS = 1500
+const MAX_COMMITS = 30
+
+/**
+ * Files the digest reads besides the README: manifests and entry points
+ *
+ * @param tree - Repository tree
+ * @returns Paths to load into the snapshot
+ */
+export function digestFiles(tree: GitHubTree): string[] {
+  return [...manifestCandidates(tree), ...keySourceFiles(tree)]
+}
+
+/**
+ * Build a digest of a repository
+ *
+ * @param snapshot - Repository snapshot
+ * @returns Repository digest; sources missing from the snapshot are omitted
+ */
+export function buildRepositoryDigest(
+  snapshot: RepositorySnapshot
+): RepositoryDigest {
+  const { tree, readme } = snapshot
+  const manifest = firstFile(snapshot, manifestCandidates(tree))
+  const commits = snapshot.commits
+    .slice(0, MAX_COMMITS)
+    .map((commit) => `- ${commit.commit.message.split('\n')[0]}`)
+
+  return {
+    readmeSections: readme
+      ? splitReadme(redactSecrets(readme.path, readme.content))
+      : [],
+    manifest: manifest
+      ? {
+          id: `manifest:${manifest.path}`,
+          content: truncate(manifest.content, MAX_MANIFEST_CHARS),
+        }
+      : null,
+    tree: tree ? { id: 'tree', content: topLevelTree(tree) } : null,
+    sourceFiles: readSourceFiles(snapshot),
+    commits:
+      commits.length > 0
+        ? { id: 'commits', content: commits.join('\n') }
+        : null,
+  }
+}
+
+/**
+ * All sources in the digest, in prompt order
+ *
+ * @param digest - Repository digest
+ * @returns Flat list of sources
+ */
+export function digestSources(digest: RepositoryDigest): DigestSource[] {
+  return [
+    ...digest.readmeSections,
+    ...(digest.manifest ? [digest.manifest] : []),
+    ...(digest.tree ? [digest.tree] : []),
+    ...digest.sourceFiles,
+    ...(digest.commits ? [digest.commits] : []),
+  ]
+}
+
+/**
+ * Render the digest as labelled prompt blocks
+ *
+ * @param digest - Repository digest
+ * @returns Prompt text with one `[source-id]` block per source
+ */
+export function renderDigest(digest: RepositoryDigest): string {
+  return digestSources(digest)
+    .map((source) => `[${source.id}]\n${source.content}`)
+    .join('\n\n')
+}
+
+/**
+ * Split README into sections by heading, within the README budget
+ * Text before the first heading is the `readme` intro section
+ */
+export function splitReadme(readme: string): DigestSource[] {
+  const sections: DigestSource[] = []
+  const seen = new Map<string, number>()
+  let heading: string | null = null
+  let lines: string[] = []
+  let budget = MAX_README_CHARS
+
+  const flush = () => {
+    const content = lines.join('\n').trim()
+    if (content && budget > 0) {
+      const base = heading ? `readme#${heading}` : 'readme'
+      const count = seen.get(base) ?? 0
+      seen.set(base, count + 1)
+
+      const section = truncate(content, Math.min(MAX_SECTION_CHARS, budget))
+      budget -= section.length
+      sections.push({
+        id: count > 0 ? `${base} (${count + 1})` : base,
+        content: section,
+      })
+    }
+    lines = []
+  }
+
+  for (const line of readme.split('\n')) {
+    const match = line.match(/^#{1,3}\s+(.+?)\s*#*\s*$/)
+    if (match) {
+      flush()
+      heading = match[1].replace(/[`*_[\]]/g, '').trim()
+    } else {
+      lines.push(line)
+    }
+  }
+  flush()
+
+  return sections
+}
+
+/**
+ * Manifest paths present at the repository root
+ */
+function manifestCandidates(tree: GitHubTree | null): string[] {
+  if (!tree) return []
+  const paths = new Set(tree.tree.map((item) => item.path))
+  return MANIFEST_FILES.filter((path) => paths.has(path))
+}
+
+/**
+ * Top-level files and directories, directories marked with a trailing slash
+ */
+function topLevelTree(tree: GitHubTree): string {
+  const entries = tree.tree
+    .filter((item) => !item.path.includes('/'))
+    .map((item) => (item.type === 'tree' ? `${item.path}/` : item.path))
+
+  return entries.length > MAX_TREE_ENTRIES
+    ? [
+        ...entries.slice(0, MAX_TREE_ENTRIES),
+        `... ${entries.length - MAX_TREE_ENTRIES} more`,
+      ].join('\n')
+    : entries.join('\n')
+}
+
+/**
+ * First candidate present in the snapshot, redacted
+ */
+function firstFile(
+  snapshot: RepositorySnapshot,
+  paths: string[]
+): SnapshotFile | null {
+  for (const path of paths) {
+    const content = snapshotFile(snapshot, path)
+    if (content !== null) {
+      return { path, content: redactSecrets(path, content) }
+    }
+  }
+  return null
+}
+
+/**
+ * Entry point source files, in order of preference
+ */
+function keySourceFiles(tree: GitHubTree): string[] {
+  const blobs = blobPaths(tree)
+  const paths = KEY_SOURCE_FILES.flatMap((pattern) =>
+    blobs.filter((path) => pattern.test(path))
+  )
+  return Array.from(new Set(paths)).slice(0, MAX_SOURCE_FILES)
+}
+
+/**
+ * Entry point source files present in the snapshot
+ */
+function readSourceFiles(snapshot: RepositorySnapshot): DigestSource[] {
+  if (!snapshot.tree) return []
+
+  return keySourceFiles(snapshot.tree).flatMap((path) => {
+    const content = snapshotFile(snapshot, path)
+    return content === null
+      ? []
+      : [
+          {
+            id: `file:${path}`,
+            content: truncate(
+              redactSecrets(path, content),
+              MAX_SOURCE_FILE_CHARS
+            ),
+          },
+        ]
+  })
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars
+    ? `${text.substring(0, maxChars)}...[truncated]`
+    : text
+}
@@ -0,0 +1,187 @@
+/**
+ * Repository Snapshot
+ *
+ * Everything the analysis stages read from a repository, loaded once per
+ * run instead of by each stage:
+ * - Repository metadata and the analyzed commit
+ * - File tree
+ * - README
+ * - Recent commits
+ * - Contents of the files stages inspect (manifests, lockfiles, configs,
+ *   test and source samples), selected from the tree by the stages
+ *
+ * Stages are functions of the snapshot, so they can be tested from fixture
+ * JSON without a GitHub client.
+ */
+
+import type { RepositorySource } from '@/services/integrations/repository-source'
+import type { GitHubCommit, GitHubRepository, GitHubTree } from '@/types/github'
+
+/**
+ * File with its contents
+ */
+export interface SnapshotFile {
+  path: string
+  content: string
+}
+
+/**
+ * Repository contents shared by every analysis stage
+ */
+export interface RepositorySnapshot {
+  owner: string
+  repo: string
+  repository: GitHubRepository
+  commitSha: string | null // Analyzed commit, null when not pinned
+  tree: GitHubTree | null // null when the tree could not be fetched
+  readme: SnapshotFile | null
+  commits: GitHubCommit[] // Latest first, at most SNAPSHOT_COMMITS
+  files: Record<string, string> // Contents by path; unreadable files are absent
+}
+
+/**
+ * Snapshot loading options
+ */
+interface SnapshotOptions {
+  repository?: GitHubRepository // Already fetched metadata
+  commitSha?: string | null
+  // Files the stages read; fewer when each costs an API request
+  selectFiles?: (tree: GitHubTree, localFiles: boolean) => string[]
+}
+
+/**
+ * README names, in order of preference
+ */
+export const README_FILES = ['README.md', 'readme.md', 'README', 'readme']
+
+/**
+ * Recent commits loaded per analysis
+ */
+export const SNAPSHOT_COMMITS = 100
+
+/**
+ * File contents fetched at once
+ */
+const FETCH_CONCURRENCY = 5
+
+/**
+ * Load a repository snapshot
+ *
+ * @param source - Repository source
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param options - Metadata already fetched and the files to load
+ * @returns Repository snapshot; parts that cannot be fetched are left empty
+ */
+export async function loadRepositorySnapshot(
+  source: RepositorySource,
+  owner: string,
+  repo: string,
+  options: SnapshotOptions = {}
+): Promise<RepositorySnapshot> {
+  const [repository, tree, commits] = await Promise.all([
+    options.repository ?? source.getRepository(owner, repo),
+    source.getRepositoryTree(owner, repo).catch((error) => {
+      console.error('Tree fetch failed:', error)
+      return null
+    }),
+    source
+      .getCommitHistory(owner, repo, { per_page: SNAPSHOT_COMMITS })
+      .catch((error) => {
+        console.error('Commit fetch failed:', error)
+        return [] as GitHubCommit[]
+      }),
+  ])
+
+  const readme = await fetchReadme(source, owner, repo, tree)
+  const files: Record<string, string> = readme
+    ? { [readme.path]: readme.content }
+    : {}
+
+  const localFiles =
+    !!tree && !!(await source.readsFilesLocally?.(owner, repo))
+  const paths = Array.from(
+    new Set(
+      tree && options.selectFiles ? options.selectFiles(tree, localFiles) : []
+    )
+  ).filter((path) => !hasFile(files, path))
+
+  for (let i = 0; i < paths.length; i += FETCH_CONCURRENCY) {
+    await Promise.all(
+      paths.slice(i, i + FETCH_CONCURRENCY).map(async (path) => {
+        try {
+          files[path] = await source.getFileContent(owner, repo, path)
+        } catch (error) {
+          console.error(`File fetch failed for ${path}:`, error)
+        }
+      })
+    )
+  }
+
+  return {
+    owner,
+    repo,
+    repository,
+    commitSha: options.commitSha ?? null,
+    tree,
+    readme,
+    commits,
+    files,
+  }
+}
+
+/**
+ * Contents of a file in the snapshot
+ *
+ * @param snapshot - Repository snapshot
+ * @param path - File path
+ * @returns File contents, or null when the file was not loaded
+ */
+export function snapshotFile(
+  snapshot: RepositorySnapshot,
+  path: string
+): string | null {
+  return hasFile(snapshot.files, path) ? snapshot.files[path] : null
+}
+
+/**
+ * Blob paths in a tree
+ *
+ * @param tree - Repository tree
+ * @returns Paths of files, without directories and submodules
+ */
+export function blobPaths(tree: GitHubTree | null): string[] {
+  return (
+    tree?.tree
+      .filter((item) => item.type === 'blob')
+      .map((item) => item.path) ?? []
+  )
+}
+
+/**
+ * First README present, looked up in the tree when available
+ */
+async function fetchReadme(
+  source: RepositorySource,
+  owner: string,
+  repo: string,
+  tree: GitHubTree | null
+): Promise<SnapshotFile | null> {
+  const blobs = new Set(blobPaths(tree))
+  const candidates = tree
+    ? README_FILES.filter((path) => blobs.has(path))
+    : README_FILES
+
+  for (const path of candidates) {
+    try {
+      return { path, content: await source.getFileContent(owner, repo, path) }
+    } catch {
+      continue
+    }
+  }
+  return null
+}
+
+function hasFile(files: Record<string, string>, path: string): boolean {
+  return Object.prototype.hasOwnProperty.call(files, path)
+}
@@ -0,0 +1,583 @@
+/**
+ * Completeness Scoring Profiles
+ *
+ * A CLI, a library, a notebook-based ML project and a deployed web app are
+ * not complete in the same way. Each profile sets its own category weights
+ * and adds project-type checks:
+ * - web: live `deployedUrl`, environment template
+ * - api: API specification, container or deploy config
+ * - cli: usage and install instructions
+ * - library: published package metadata, package on its registry
+ * - ml: pinned environment, data/model documentation, lean notebooks
+ *
+ * The profile is selected from the detected project type unless the owner
+ * overrides it.
+ */
+
+import { headPublicUrl } from '@/lib/public-url'
+import type { GitHubTree } from '@/types/github'
+import type { CompletenessCategory } from './completeness-scorer'
+import type {
+  DependencyEcosystem,
+  ManifestDependency,
+} from './manifest-analyzer'
+import type { PackageRegistry } from './dependencies/registry'
+
+/**
+ * Scoring profile names
+ */
+export const SCORING_PROFILES = [
+  'default',
+  'web',
+  'api',
+  'cli',
+  'library',
+  'ml',
+] as const
+
+export type ScoringProfileName = (typeof SCORING_PROFILES)[number]
+
+/**
+ * What a profile check can look at
+ */
+export interface ProfileCheckContext {
+  tree: GitHubTree | null
+  dependencies: ManifestDependency[]
+  deployedUrl: string | null
+  registry: PackageRegistry | null
+  readFile: (path: string) => string | null // Contents from the snapshot
+}
+
+/**
+ * Outcome of a profile check, or null when it does not apply
+ */
+type ProfileCheckResult = { passed: boolean; detail: string } | null
+
+/**
+ * Extra check scored under the `projectChecks` category
+ */
+interface ProfileCheck {
+  points: number
+  run: (context: ProfileCheckContext) => Promise<ProfileCheckResult>
+}
+
+/**
+ * Scoring profile
+ */
+export interface ScoringProfile {
+  name: ScoringProfileName
+  label: string
+  weights: Record<Exclude<CompletenessCategory, 'projectChecks'>, number>
+  checks: ProfileCheck[]
+}
+
+/**
+ * Request timeout when checking a deployment is live
+ */
+const LIVE_CHECK_TIMEOUT_MS = 5000
+
+/**
+ * Notebooks above this size most likely carry committed outputs
+ */
+const MAX_NOTEBOOK_SIZE = 1024 * 1024
+
+/**
+ * Packages that mark a Python project as machine learning
+ */
+const ML_PACKAGES = new Set([
+  'torch',
+  'tensorflow',
+  'keras',
+  'jax',
+  'scikit-learn',
+  'transformers',
+  'xgboost',
+  'lightgbm',
+  'pytorch-lightning',
+])
+
+/**
+ * Files checks read: README and root package manifests
+ */
+const README_PATTERN = /^readme(\.(md|markdown|rst|txt))?$/i
+const CHECKED_MANIFESTS = [
+  'package.json',
+  'pyproject.toml',
+  'Cargo.toml',
+  'requirements.txt',
+]
+
+const liveDeployment: ProfileCheck = {
+  points: 10,
+  run: async ({ deployedUrl }) => {
+    if (!deployedUrl) {
+      return { passed: false, detail: 'Live URL (deployedUrl)' }
+    }
+    const host = new URL(deployedUrl).host
+    return (await isLive(deployedUrl))
+      ? { passed: true, detail: `Live at ${host}` }
+      : { passed: false, detail: `${host} is not responding` }
+  },
+}
+
+const environmentTemplate: ProfileCheck = {
+  points: 5,
+  run: async ({ tree }) => {
+    const template = findPath(tree, /^\.env\.(example|sample|template)$/)
+    return template
+      ? { passed: true, detail: template }
+      : { passed: false, detail: 'Environment template (.env.example)' }
+  },
+}
+
+const apiSpecification: ProfileCheck = {
+  points: 5,
+  run: async ({ tree, dependencies }) => {
+    const spec = findPath(tree, /(^|\/)(openapi|swagger)\.(json|ya?ml)$/i)
+    if (spec) return { passed: true, detail: spec }
+    // Frameworks that serve a generated spec
+    const generated = dependencies.find(({ name }) =>
+      ['fastapi', '@nestjs/swagger', 'drf-spectacular', 'utoipa'].includes(name)
+    )
+    return generated
+      ? { passed: true, detail: `OpenAPI spec generated by ${generated.name}` }
+      : { passed: false, detail: 'API specification (openapi.yaml)' }
+  },
+}
+
+const deployConfig: ProfileCheck = {
+  points: 5,
+  run: async ({ tree }) => {
+    const config = findPath(
+      tree,
+      /^(Dockerfile|docker-compose\.ya?ml|compose\.ya?ml|fly\.toml|render\.yaml|Procfile|vercel\.json|serverless\.ya?ml|app\.yaml)$/
+    )
+    return config
+      ? { passed: true, detail: config }
+      : { passed: false, detail: 'Container or deploy config (Dockerfile)' }
+  },
+}
+
+const usageInstructions: ProfileCheck = {
+  points: 5,
+  run: async (context) => {
+    const readme = readReadme(context)
+    return readme && /^#+\s*(usage|commands|options|examples?)\b/im.test(readme)
+      ? { passed: true, detail: 'Usage section in README' }
+      : { passed: false, detail: 'Usage section in README' }
+  },
+}
+
+const installInstructions: ProfileCheck = {
+  points: 5,
+  run: async (context) => {
+    const readme = readReadme(context)
+    return readme &&
+      /\b(npm (i|install) (-g|--global)|npx |pipx? install|cargo install|go install|brew install|gem install)\b/.test(
+        readme
+      )
+      ? { passed: true, detail: 'Install command in README' }
+      : { passed: false, detail: 'Install command in README' }
+  },
+}
+
+const packageMetadata: ProfileCheck = {
+  points: 5,
+  run: async (context) => {
+    const pkg = readPackage(context)
+    if (!pkg) return { passed: false, detail: 'Package manifest' }
+    return pkg.missing.length === 0
+      ? { passed: true, detail: `${pkg.manifest} metadata complete` }
+      : {
+          passed: false,
+          detail: `${pkg.manifest} metadata: ${pkg.missing.join(', ')}`,
+        }
+  },
+}
+
+const publishedPackage: ProfileCheck = {
+  points: 5,
+  run: async (context) => {
+    const pkg = readPackage(context)
+    if (!context.registry || !pkg?.name) return null
+    const info = await context.registry.getPackageInfo(pkg.ecosystem, pkg.name)
+    return info
+      ? {
+          passed: true,
+          detail: `Published as ${pkg.name}${info.latestVersion ? `@${info.latestVersion}` : ''}`,
+        }
+      : { passed: false, detail: `${pkg.name} published to its registry` }
+  },
+}
+
+const pinnedEnvironment: ProfileCheck = {
+  points: 5,
+  run: async (context) => {
+    const lockfile = findPath(
+      context.tree,
+      /^(environment\.ya?ml|poetry\.lock|uv\.lock|Pipfile\.lock|conda-lock\.yml)$/
+    )
+    if (lockfile) return { passed: true, detail: lockfile }
+    const requirements = context.readFile('requirements.txt')
+    return requirements && /==/.test(requirements)
+      ? { passed: true, detail: 'Pinned requirements.txt' }
+      : {
+          passed: false,
+          detail: 'Pinned environment (environment.yml, lockfile)',
+        }
+  },
+}
+
+const dataDocumentation: ProfileCheck = {
+  points: 5,
+  run: async (context) => {
+    const card = findPath(
+      context.tree,
+      /(^|\/)(MODEL_CARD|DATA|DATASET)S?\.md$/i
+    )
+    if (card) return { passed: true, detail: card }
+    const readme = readReadme(context)
+    return readme &&
+      /^#+\s*(data(set)?s?|model|training|evaluation|results)\b/im.test(readme)
+      ? { passed: true, detail: 'Data/model section in README' }
+      : {
+          passed: false,
+          detail: 'Data and model documentation (MODEL_CARD.md)',
+        }
+  },
+}
+
+const leanNotebooks: ProfileCheck = {
+  points: 5,
+  run: async ({ tree }) => {
+    const notebooks =
+      tree?.tree.filter((item) => item.path.endsWith('.ipynb')) ?? []
+    if (notebooks.length === 0) return null
+    const heavy = notebooks.filter(
+      (item) => (item.size ?? 0) > MAX_NOTEBOOK_SIZE
+    )
+    return heavy.length === 0
+      ? {
+          passed: true,
+          detail: `${notebooks.length} notebooks without bulky outputs`,
+        }
+      : { passed: false, detail: `Clear outputs in ${heavy[0].path}` }
+  },
+}
+
+const PROFILES: Record<ScoringProfileName, ScoringProfile> = {
+  default: {
+    name: 'default',
+    label: 'General',
+    weights: {
+      readme: 25,
+      packageManager: 10,
+      tests: 15,
+      config: 10,
+      documentation: 10,
+      license: 5,
+      gitMaturity: 10,
+      contributors: 5,
+      cicd: 10,
+      security: 10,
+    },
+    checks: [],
+  },
+  web: {
+    name: 'web',
+    label: 'Web app',
+    weights: {
+      readme: 15,
+      packageManager: 10,
+      tests: 15,
+      config: 10,
+      documentation: 5,
+      license: 5,
+      gitMaturity: 10,
+      contributors: 5,
+      cicd: 10,
+      security: 10,
+    },
+    checks: [liveDeployment, environmentTemplate],
+  },
+  api: {
+    name: 'api',
+    label: 'API service',
+    weights: {
+      readme: 20,
+      packageManager: 10,
+      tests: 20,
+      config: 10,
+      documentation: 5,
+      license: 5,
+      gitMaturity: 5,
+      contributors: 5,
+      cicd: 10,
+      security: 10,
+    },
+    checks: [apiSpecification, deployConfig],
+  },
+  cli: {
+    name: 'cli',
+    label: 'CLI tool',
+    weights: {
+      readme: 20,
+      packageManager: 10,
+      tests: 15,
+      config: 5,
+      documentation: 10,
+      license: 10,
+      gitMaturity: 5,
+      contributors: 5,
+      cicd: 10,
+      security: 10,
+    },
+    checks: [usageInstructions, installInstructions],
+  },
+  library: {
+    name: 'library',
+    label: 'Library',
+    weights: {
+      readme: 15,
+      packageManager: 5,
+      tests: 20,
+      config: 5,
+      documentation: 10,
+      license: 10,
+      gitMaturity: 5,
+      contributors: 5,
+      cicd: 15,
+      security: 10,
+    },
+    checks: [packageMetadata, publishedPackage],
+  },
+  ml: {
+    name: 'ml',
+    label: 'ML / notebooks',
+    weights: {
+      readme: 20,
+      packageManager: 10,
+      tests: 5,
+      config: 5,
+      documentation: 15,
+      license: 10,
+      gitMaturity: 10,
+      contributors: 5,
+      cicd: 5,
+      security: 10,
+    },
+    checks: [pinnedEnvironment, dataDocumentation, leanNotebooks],
+  },
+}
+
+/**
+ * Get a scoring profile by name
+ *
+ * @param name - Profile name
+ * @returns Scoring profile
+ */
+export function getScoringProfile(name: ScoringProfileName): ScoringProfile {
+  return PROFILES[name]
+}
+
+/**
+ * Whether a value is a scoring profile name
+ */
+export function isScoringProfileName(
+  value: unknown
+): value is ScoringProfileName {
+  return SCORING_PROFILES.includes(value as ScoringProfileName)
+}
+
+/**
+ * Select the scoring profile for a repository
+ *
+ * @param options.override - Profile chosen by the owner, if any
+ * @param options.projectType - Detected project type
+ * @param options.tree - Repository tree, for notebook detection
+ * @param options.dependencies - Declared dependencies, for ML detection
+ * @returns Profile name
+ */
+export function selectScoringProfile({
+  override,
+  projectType,
+  tree,
+  dependencies,
+}: {
+  override?: string | null
+  projectType: string | null
+  tree: GitHubTree | null
+  dependencies: ManifestDependency[]
+}): ScoringProfileName {
+  if (isScoringProfileName(override)) {
+    return override
+  }
+  if (
+    projectType === 'web' ||
+    projectType === 'api' ||
+    projectType === 'cli' ||
+    projectType === 'library'
+  ) {
+    return projectType
+  }
+
+  const hasNotebooks = !!tree?.tree.some((item) => item.path.endsWith('.ipynb'))
+  const usesMlPackages = dependencies.some(
+    ({ ecosystem, name }) => ecosystem === 'pypi' && ML_PACKAGES.has(name)
+  )
+  return hasNotebooks || usesMlPackages ? 'ml' : 'default'
+}
+
+/**
+ * Files profile checks read: README and root package manifests
+ *
+ * @param tree - Repository tree
+ * @returns Paths to load into the snapshot
+ */
+export function profileCheckFiles(tree: GitHubTree): string[] {
+  const readme = findPath(tree, README_PATTERN)
+  return [
+    ...(readme ? [readme] : []),
+    ...CHECKED_MANIFESTS.filter((path) =>
+      tree.tree.some((item) => item.path === path)
+    ),
+  ]
+}
+
+/**
+ * Run a profile's extra checks
+ *
+ * @param profile - Scoring profile
+ * @param context - Repository data the checks look at
+ * @returns Points earned out of the applicable checks, or null without checks
+ */
+export async function runProfileChecks(
+  profile: ScoringProfile,
+  context: ProfileCheckContext
+): Promise<{
+  score: number
+  maxScore: number
+  earned: string[]
+  missed: string[]
+} | null> {
+  const results = await Promise.all(
+    profile.checks.map(async (check) => {
+      try {
+        return { check, result: await check.run(context) }
+      } catch (error) {
+        console.error(`Profile check failed for ${profile.name}:`, error)
+        return { check, result: { passed: false, detail: 'Check failed' } }
+      }
+    })
+  )
+  const applicable = results.filter(
+    (
+      entry
+    ): entry is {
+      check: ProfileCheck
+      result: NonNullable<ProfileCheckResult>
+    } => entry.result !== null
+  )
+  if (applicable.length === 0) {
+    return null
+  }
+
+  return {
+    score: applicable
+      .filter(({ result }) => result.passed)
+      .reduce((sum, { check }) => sum + check.points, 0),
+    maxScore: applicable.reduce((sum, { check }) => sum + check.points, 0),
+    earned: applicable
+      .filter(({ result }) => result.passed)
+      .map(({ result }) => result.detail),
+    missed: applicable
+      .filter(({ result }) => !result.passed)
+      .map(({ result }) => result.detail),
+  }
+}
+
+/**
+ * Whether a URL responds without an error status
+ * The URL is the owner's: private and internal hosts count as not responding.
+ */
+async function isLive(url: string): Promise<boolean> {
+  try {
+    const status = await headPublicUrl(url, LIVE_CHECK_TIMEOUT_MS)
+    // Some hosts reject HEAD; anything but a server error means it is up
+    return status < 500 && status !== 404
+  } catch {
+    return false
+  }
+}
+
+function findPath(tree: GitHubTree | null, pattern: RegExp): string | null {
+  return tree?.tree.find((item) => pattern.test(item.path))?.path ?? null
+}
+
+function readReadme(context: ProfileCheckContext): string | null {
+  const path = findPath(context.tree, README_PATTERN)
+  return path ? context.readFile(path) : null
+}
+
+/**
+ * Root package manifest with the metadata a published package needs
+ */
+function readPackage(context: ProfileCheckContext): {
+  manifest: string
+  ecosystem: DependencyEcosystem
+  name: string | null
+  missing: string[]
+} | null {
+  const packageJson = context.readFile('package.json')
+  if (packageJson) {
+    let pkg: Record<string, unknown>
+    try {
+      pkg = JSON.parse(packageJson)
+    } catch {
+      return null
+    }
+    const missing = ['name', 'version', 'description', 'license', 'repository']
+      .filter((field) => !pkg[field])
+      .concat(pkg.main || pkg.exports || pkg.module ? [] : ['main/exports'])
+      .concat(pkg.private ? ['not private'] : [])
+    return {
+      manifest: 'package.json',
+      ecosystem: 'npm',
+      name: typeof pkg.name === 'string' ? pkg.name : null,
+      missing,
+    }
+  }
+
+  for (const [manifest, ecosystem, section] of [
+    ['pyproject.toml', 'pypi', /^\[project\]/m],
+    ['Cargo.toml', 'cargo', /^\[package\]/m],
+  ] as const) {
+    const content = context.readFile(manifest)
+    if (!content || !section.test(content)) continue
+
+    // Fields of the package table only
+    const table = content.split(section)[1].split(/^\[/m)[0]
+    const field = (key: string) =>
+      table.match(new RegExp(`^${key}\\s*=\\s*["']([^"']*)["']`, 'm'))?.[1] ??
+      (new RegExp(`^${key}\\s*=`, 'm').test(table) ? '' : null)
+    const required =
+      ecosystem === 'pypi'
+        ? ['name', 'version', 'description', 'license', 'readme']
+        : ['name', 'version', 'description', 'license', 'repository']
+    const dynamic = table.match(/^dynamic\s*=\s*\[([^\]]*)\]/m)?.[1] ?? ''
+
+    return {
+      manifest,
+      ecosystem,
+      name: field('name') || null,
+      missing: required.filter(
+        (key) =>
+          field(key) === null &&
+          !dynamic.includes(key) &&
+          !(key === 'license' && field('license-file') !== null)
+      ),
+    }
+  }
+
+  return null
+}
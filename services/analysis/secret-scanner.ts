@@ -0,0 +1,386 @@
+/**
+ * Secret Scanner
+ *
+ * Scans committed files for leaked credentials:
+ * - Known key formats: OpenAI, Anthropic, AWS, GitHub tokens, Stripe, private keys
+ * - High-entropy values assigned to secret-looking names (`API_KEY=...`)
+ *
+ * Findings carry a file/line location and a masked preview only; the secret
+ * itself is never stored or returned. Locations are meant for the repository
+ * owner alone and must not be shown publicly.
+ */
+
+import { createHash } from 'crypto'
+import type { GitHubTree } from '@/types/github'
+import { snapshotFile, type RepositorySnapshot } from './repository-snapshot'
+
+/**
+ * Kind of leaked secret
+ */
+export type SecretType =
+  | 'openai'
+  | 'anthropic'
+  | 'aws'
+  | 'github'
+  | 'stripe'
+  | 'private-key'
+  | 'high-entropy'
+
+/**
+ * Potential secret found in a file
+ */
+export interface SecretFinding {
+  path: string
+  line: number // 1-based
+  type: SecretType
+  preview: string // Masked, e.g. "sk-p…9f2c"
+  fingerprint: string // Truncated SHA-256 of the secret, for deduplication
+}
+
+/**
+ * Secret scan result
+ */
+export interface SecretScanResult {
+  filesScanned: number
+  findings: SecretFinding[]
+}
+
+/**
+ * Known key formats, checked in order (Anthropic before the broader OpenAI `sk-`)
+ */
+const SECRET_PATTERNS: Array<{ type: SecretType; pattern: RegExp }> = [
+  {
+    type: 'anthropic',
+    pattern: /\bsk-ant-(?:api|admin)\d{2}-[A-Za-z0-9_-]{80,}/g,
+  },
+  {
+    type: 'openai',
+    pattern:
+      /\bsk-(?!ant-)(?:(?:proj|svcacct|admin)-[A-Za-z0-9_-]{40,}|[A-Za-z0-9]{20}T3BlbkFJ[A-Za-z0-9]{20}|[A-Za-z0-9]{48})\b/g,
+  },
+  { type: 'aws', pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+  {
+    type: 'aws',
+    pattern:
+      /(?<=aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+]{40}\b/gi,
+  },
+  {
+    type: 'github',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{80,})\b/g,
+  },
+  { type: 'stripe', pattern: /\b(?:sk|rk)_live_[A-Za-z0-9]{24,}\b/g },
+  {
+    type: 'private-key',
+    pattern:
+      /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP )?PRIVATE KEY( BLOCK)?-----/g,
+  },
+]
+
+/**
+ * `NAME = "value"` / `NAME: value` / `NAME=value` where the name looks like a secret
+ */
+const ASSIGNMENT_PATTERN =
+  /\b([A-Za-z0-9_.-]*(?:secret|token|api_?key|apikey|password|passwd|private_?key|access_?key|auth|credential)[A-Za-z0-9_.-]*)["']?\s*[:=]\s*["'`]?([^\s"'`,;]{16,})/gi
+
+/**
+ * Values that are obviously not real secrets
+ */
+const PLACEHOLDER_PATTERN =
+  /your|example|changeme|placeholder|dummy|sample|xxxx|\*\*\*|<|>|\$\{|\{\{|process\.env|os\.environ|getenv|env\(|import\.meta/i
+
+/**
+ * Minimum Shannon entropy (bits per character) for an assigned value to count
+ * `.env` files are held to a lower bar: anything there was meant to stay local
+ */
+const MIN_ENTROPY = 4.0
+const MIN_ENV_FILE_ENTROPY = 3.5
+
+/**
+ * File selection limits
+ * Through the API each file is a request, so only `.env` and config files
+ * are read, and fewer of them
+ */
+const MAX_FILES_SCANNED = 200
+const MAX_API_FILES_SCANNED = 20
+const MAX_FILE_SIZE = 256 * 1024
+
+/**
+ * Files worth scanning, by extension or exact name
+ */
+const CONFIG_EXTENSIONS = new Set([
+  'json',
+  'yml',
+  'yaml',
+  'toml',
+  'ini',
+  'cfg',
+  'conf',
+  'properties',
+  'xml',
+  'tf',
+  'tfvars',
+  'pem',
+  'key',
+])
+const SOURCE_EXTENSIONS = new Set([
+  'js',
+  'jsx',
+  'mjs',
+  'cjs',
+  'ts',
+  'tsx',
+  'py',
+  'rb',
+  'go',
+  'rs',
+  'php',
+  'java',
+  'kt',
+  'cs',
+  'swift',
+  'sh',
+  'bash',
+  'zsh',
+  'ps1',
+  'ipynb',
+])
+const SCANNED_FILENAMES = new Set([
+  '.npmrc',
+  '.pypirc',
+  '.netrc',
+  'credentials',
+  'Dockerfile',
+  'docker-compose.yml',
+  'id_rsa',
+  'id_ed25519',
+])
+
+const SKIPPED_PATHS =
+  /(^|\/)(node_modules|vendor|dist|build|out|\.next|coverage|__snapshots__|fixtures?)\//
+
+const SKIPPED_FILENAMES =
+  /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|composer\.lock|Cargo\.lock|poetry\.lock|Pipfile\.lock|[^/]+\.min\.js)$/
+
+/**
+ * Secret Scanner
+ */
+export class SecretScanner {
+  /**
+   * Files likely to hold secrets, `.env` and config files first
+   * Source files only when reads are local
+   *
+   * @param tree - Repository tree
+   * @param localFiles - Whether file reads are local (no request each)
+   * @returns Paths to load into the snapshot
+   */
+  selectFiles(tree: GitHubTree, localFiles: boolean = false): string[] {
+    return selectFiles(tree, localFiles)
+  }
+
+  /**
+   * Scan a repository's files for leaked secrets
+   *
+   * @param snapshot - Repository snapshot
+   * @returns Scan result, or null when the tree is unavailable
+   */
+  scanRepository(snapshot: RepositorySnapshot): SecretScanResult | null {
+    if (!snapshot.tree) {
+      return null
+    }
+
+    const findings: SecretFinding[] = []
+    let filesScanned = 0
+
+    // Whatever the snapshot loaded of the files
+    for (const path of selectFiles(snapshot.tree, true)) {
+      const content = snapshotFile(snapshot, path)
+      if (content === null) continue
+      filesScanned++
+      findings.push(...scanContent(path, content))
+    }
+
+    return { filesScanned, findings }
+  }
+}
+
+/**
+ * Scan file contents for secrets
+ *
+ * @param path - File path, used for location and `.env` handling
+ * @param content - Raw file contents
+ * @returns Findings, one per distinct secret per line
+ */
+export function scanContent(path: string, content: string): SecretFinding[] {
+  const findings: SecretFinding[] = []
+  const seen = new Set<string>()
+  const envFile = isEnvFile(path)
+
+  const add = (
+    line: number,
+    type: SecretType,
+    secret: string,
+    preview = mask(secret)
+  ) => {
+    const fingerprint = createHash('sha256')
+      .update(secret)
+      .digest('hex')
+      .slice(0, 16)
+    if (seen.has(fingerprint)) return
+    seen.add(fingerprint)
+    findings.push({ path, line, type, preview, fingerprint })
+  }
+
+  content.split('\n').forEach((text, index) => {
+    const line = index + 1
+    for (const { type, secret } of findSecrets(text, envFile)) {
+      if (type === 'private-key') {
+        // The header is not secret itself; the key body follows it
+        add(line, type, `${path}:${line}`, secret)
+      } else {
+        add(line, type, secret)
+      }
+    }
+  })
+
+  return findings
+}
+
+/**
+ * Replace secrets in file contents before they leave the analyzer
+ * (e.g. in the digest sent to an LLM for public insights)
+ *
+ * @param path - File path, used for `.env` handling
+ * @param content - Raw file contents
+ * @returns Contents with secrets and private key blocks redacted
+ */
+export function redactSecrets(path: string, content: string): string {
+  const envFile = isEnvFile(path)
+
+  return content
+    .replace(
+      /-----BEGIN ([A-Z ]*)PRIVATE KEY( BLOCK)?-----[\s\S]*?(-----END [A-Z ]*PRIVATE KEY( BLOCK)?-----|$)/g,
+      '[REDACTED PRIVATE KEY]'
+    )
+    .split('\n')
+    .map((text) =>
+      findSecrets(text, envFile).reduce(
+        (redacted, { secret }) => redacted.split(secret).join('[REDACTED]'),
+        text
+      )
+    )
+    .join('\n')
+}
+
+/**
+ * Secrets on a single line: known formats first, then high-entropy assignments
+ */
+function findSecrets(
+  text: string,
+  envFile: boolean
+): Array<{ type: SecretType; secret: string }> {
+  // Minified bundles and data blobs are not worth scanning
+  if (text.length > 2000) return []
+
+  const secrets: Array<{ type: SecretType; secret: string }> = []
+  for (const { type, pattern } of SECRET_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      secrets.push({ type, secret: match[0] })
+    }
+  }
+
+  for (const match of text.matchAll(ASSIGNMENT_PATTERN)) {
+    const value = match[2]
+    if (
+      secrets.some(
+        ({ secret }) => secret.includes(value) || value.includes(secret)
+      ) ||
+      PLACEHOLDER_PATTERN.test(value) ||
+      /^[a-z]+(?:[._-][a-z]+)*$/i.test(value) || // identifiers, not secrets
+      entropy(value) < (envFile ? MIN_ENV_FILE_ENTROPY : MIN_ENTROPY)
+    ) {
+      continue
+    }
+    secrets.push({ type: 'high-entropy', secret: value })
+  }
+
+  return secrets
+}
+
+/**
+ * Pick files worth scanning: `.env` files first, then config, then source
+ * (source files only when reads are local)
+ */
+function selectFiles(tree: GitHubTree, localFiles: boolean): string[] {
+  const rank = (path: string): number => {
+    if (isEnvFile(path)) return 0
+    return CONFIG_EXTENSIONS.has(extension(path)) ||
+      SCANNED_FILENAMES.has(basename(path))
+      ? 1
+      : 2
+  }
+
+  return tree.tree
+    .filter(
+      (item) =>
+        item.type === 'blob' &&
+        (item.size ?? 0) <= MAX_FILE_SIZE &&
+        !SKIPPED_PATHS.test(item.path) &&
+        !SKIPPED_FILENAMES.test(item.path) &&
+        (isEnvFile(item.path) ||
+          SCANNED_FILENAMES.has(basename(item.path)) ||
+          CONFIG_EXTENSIONS.has(extension(item.path)) ||
+          (localFiles && SOURCE_EXTENSIONS.has(extension(item.path))))
+    )
+    .map((item) => item.path)
+    .sort((a, b) => rank(a) - rank(b))
+    .slice(0, localFiles ? MAX_FILES_SCANNED : MAX_API_FILES_SCANNED)
+}
+
+/**
+ * `.env`, `.env.local`, `.env.production`, ... (templates count too: real
+ * values end up in them by mistake)
+ */
+function isEnvFile(path: string): boolean {
+  return /^\.env(\.[\w-]+)?$/.test(basename(path))
+}
+
+function basename(path: string): string {
+  return path.split('/').pop() ?? path
+}
+
+function extension(path: string): string {
+  return basename(path).split('.').pop() ?? ''
+}
+
+/**
+ * Shannon entropy in bits per character
+ */
+function entropy(value: string): number {
+  const counts = new Map<string, number>()
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1)
+  }
+
+  let bits = 0
+  for (const count of counts.values()) {
+    const p = count / value.length
+    bits -= p * Math.log2(p)
+  }
+  return bits
+}
+
+/**
+ * Keep just enough of a secret to recognize it
+ */
+function mask(secret: string): string {
+  return secret.length > 12 ? `${secret.slice(0, 4)}…${secret.slice(-4)}` : '…'
+}
+
+/**
+ * Create secret scanner instance
+ *
+ * @returns SecretScanner instance
+ */
+export function createSecretScanner(): SecretScanner {
+  return new SecretScanner()
+}
@@ -0,0 +1,362 @@
+/**
+ * Test Quality Analyzer
+ *
+ * Measures a test suite rather than counting test filenames:
+ * - Test cases per framework, counted in the test files themselves
+ *   (vitest/jest/mocha `it(`/`test(`, pytest `def test_`, go `func Test`,
+ *   rspec `it '...'`, rust `#[test]`)
+ * - Test runner and coverage configuration
+ * - Ratio of source modules with a matching test file
+ *
+ * Ten empty test files now score like no tests at all.
+ */
+
+import type { GitHubTree } from '@/types/github'
+import {
+  blobPaths,
+  snapshotFile,
+  type RepositorySnapshot,
+} from './repository-snapshot'
+
+/**
+ * Test framework a test case was counted for
+ */
+export type TestFramework =
+  | 'vitest'
+  | 'jest'
+  | 'mocha'
+  | 'pytest'
+  | 'go'
+  | 'rspec'
+  | 'rust'
+
+/**
+ * Test suite metrics
+ */
+export interface TestMetrics {
+  testFiles: number
+  filesInspected: number // Test files whose contents were read
+  testCases: number // Counted in inspected files
+  estimatedTestCases: number // Extrapolated to every test file
+  emptyTestFiles: number // Inspected files without a single test case
+  frameworks: Partial<Record<TestFramework, number>> // Test cases per framework
+  testConfigs: string[]
+  coverageConfigs: string[]
+  sourceModules: number
+  testedModules: number // Source modules with a matching test file
+  testedRatio: number // 0.0 to 1.0
+}
+
+/**
+ * Test files whose contents are inspected per analysis
+ */
+const MAX_TEST_FILES_INSPECTED = 30
+
+const TEST_FILE_PATTERNS = [
+  /(^|\/)(tests?|__tests__|spec)\//i,
+  /\.(test|spec)\.[cm]?[jt]sx?$/i,
+  /\.(test|spec)\.(py|rb)$/i,
+  /_test\.(go|py)$/i,
+  /(^|\/)test_[^/]*\.py$/i,
+  /_spec\.rb$/i,
+]
+
+const SOURCE_FILE_PATTERN = /\.([cm]?[jt]sx?|py|go|rb|rs)$/i
+
+const VENDORED_PATHS = /(^|\/)(node_modules|vendor|dist|build|out|\.next)\//
+
+const SKIPPED_SOURCE_PATHS =
+  /(^|\/)(coverage|migrations|scripts|examples?|docs?|fixtures?)\//
+
+/**
+ * Entry points and boilerplate that rarely get their own test
+ */
+const UNTESTED_MODULE_NAMES = new Set([
+  'index',
+  '__init__',
+  'main',
+  'mod',
+  'lib',
+  'setup',
+  'conftest',
+  'manage',
+  'page',
+  'layout',
+  'route',
+  'loading',
+  'error',
+  'not-found',
+  'middleware',
+])
+
+/**
+ * Test runner configuration files
+ */
+const TEST_CONFIG_PATTERNS = [
+  /(^|\/)vitest\.config\.[cm]?[jt]s$/,
+  /(^|\/)vitest\.workspace\.[cm]?[jt]s$/,
+  /(^|\/)jest\.config\.[cm]?[jt]s(on)?$/,
+  /(^|\/)\.mocharc(\.[a-z]+)?$/,
+  /(^|\/)karma\.conf\.[jt]s$/,
+  /(^|\/)playwright\.config\.[jt]s$/,
+  /(^|\/)cypress\.config\.[jt]s$/,
+  /(^|\/)pytest\.ini$/,
+  /(^|\/)conftest\.py$/,
+  /(^|\/)tox\.ini$/,
+  /(^|\/)\.rspec$/,
+  /(^|\/)phpunit\.xml(\.dist)?$/,
+]
+
+/**
+ * Coverage configuration files
+ */
+const COVERAGE_CONFIG_PATTERNS = [
+  /(^|\/)\.?codecov\.ya?ml$/,
+  /(^|\/)\.coveragerc$/,
+  /(^|\/)\.nycrc(\.[a-z]+)?$/,
+  /(^|\/)\.c8rc(\.[a-z]+)?$/,
+  /(^|\/)\.simplecov$/,
+  /(^|\/)tarpaulin\.toml$/,
+]
+
+/**
+ * Test Quality Analyzer
+ */
+export class TestQualityAnalyzer {
+  /**
+   * Test runner and package configs, and a sample of test files
+   *
+   * @param tree - Repository tree
+   * @returns Paths to load into the snapshot
+   */
+  selectFiles(tree: GitHubTree): string[] {
+    const blobs = blobPaths(tree)
+    return [
+      ...configFiles(blobs),
+      ...blobs.filter(isTestFile).slice(0, MAX_TEST_FILES_INSPECTED),
+    ]
+  }
+
+  /**
+   * Measure a repository's test suite
+   *
+   * @param snapshot - Repository snapshot
+   * @returns Test metrics, or null when the tree is unavailable
+   */
+  analyzeTests(snapshot: RepositorySnapshot): TestMetrics | null {
+    if (!snapshot.tree) return null
+
+    const blobs = blobPaths(snapshot.tree)
+
+    const testFiles = blobs.filter(isTestFile)
+    const testConfigs = blobs.filter((path) =>
+      TEST_CONFIG_PATTERNS.some((pattern) => pattern.test(path))
+    )
+    const coverageConfigs = blobs.filter((path) =>
+      COVERAGE_CONFIG_PATTERNS.some((pattern) => pattern.test(path))
+    )
+
+    // Coverage is often configured inside the test runner or package config
+    for (const path of configFiles(blobs)) {
+      const content = snapshotFile(snapshot, path)
+      if (!content) continue
+      if (path === 'pyproject.toml' && /^\[tool\.pytest/m.test(content)) {
+        testConfigs.push(path)
+      }
+      if (
+        isCoverageConfigured(path, content) &&
+        !coverageConfigs.includes(path)
+      ) {
+        coverageConfigs.push(path)
+      }
+    }
+
+    // Count test cases in a sample of test files
+    const counts = testFiles.slice(0, MAX_TEST_FILES_INSPECTED).map((path) => {
+      const content = snapshotFile(snapshot, path)
+      return content === null ? null : countTestCases(path, content)
+    })
+
+    const frameworks: Partial<Record<TestFramework, number>> = {}
+    let testCases = 0
+    let emptyTestFiles = 0
+    let filesInspected = 0
+    for (const count of counts) {
+      if (!count) continue
+      filesInspected++
+      testCases += count.cases
+      if (count.cases === 0) {
+        emptyTestFiles++
+      } else {
+        frameworks[count.framework] =
+          (frameworks[count.framework] ?? 0) + count.cases
+      }
+    }
+
+    const { sourceModules, testedModules } = matchSourceModules(
+      blobs,
+      testFiles
+    )
+
+    return {
+      testFiles: testFiles.length,
+      filesInspected,
+      testCases,
+      estimatedTestCases:
+        filesInspected > 0
+          ? Math.round((testCases / filesInspected) * testFiles.length)
+          : 0,
+      emptyTestFiles,
+      frameworks,
+      testConfigs,
+      coverageConfigs,
+      sourceModules,
+      testedModules,
+      testedRatio:
+        sourceModules > 0
+          ? Math.round((testedModules / sourceModules) * 100) / 100
+          : 0,
+    }
+  }
+}
+
+/**
+ * Whether a path is a test file
+ */
+export function isTestFile(path: string): boolean {
+  return (
+    SOURCE_FILE_PATTERN.test(path) &&
+    !VENDORED_PATHS.test(path) &&
+    TEST_FILE_PATTERNS.some((pattern) => pattern.test(path))
+  )
+}
+
+/**
+ * Count test cases in a test file
+ *
+ * @param path - Test file path, selects the language
+ * @param content - Test file contents
+ * @returns Number of test cases and the framework they were written for
+ */
+export function countTestCases(
+  path: string,
+  content: string
+): { framework: TestFramework; cases: number } {
+  const count = (pattern: RegExp) => content.match(pattern)?.length ?? 0
+
+  if (/\.py$/.test(path)) {
+    return {
+      framework: 'pytest',
+      cases: count(/^\s*(async\s+)?def test\w*\s*\(/gm),
+    }
+  }
+  if (/\.go$/.test(path)) {
+    return {
+      framework: 'go',
+      cases: count(/^func Test\w*\s*\(\s*\w+\s+\*testing\.T\s*\)/gm),
+    }
+  }
+  if (/\.rb$/.test(path)) {
+    return {
+      framework: 'rspec',
+      cases: count(/^\s*(it|specify|scenario)\s*(\(|['"]|do\b|\{)/gm),
+    }
+  }
+  if (/\.rs$/.test(path)) {
+    return { framework: 'rust', cases: count(/#\[(tokio::)?test\]/g) }
+  }
+
+  // JavaScript/TypeScript: it(), test(), it.each(...)(), test.concurrent()
+  const cases = count(
+    /(^|[^\w.])(it|test)(\.(only|concurrent|each\s*\([^)]*\)|each`[^`]*`))?\s*\(\s*['"`]/gm
+  )
+  const framework: TestFramework =
+    /from ['"]vitest['"]|require\(['"]vitest['"]\)/.test(content)
+      ? 'vitest'
+      : /from ['"](mocha|chai)['"]|require\(['"](mocha|chai)['"]\)/.test(
+            content
+          )
+        ? 'mocha'
+        : 'jest'
+
+  return { framework, cases }
+}
+
+/**
+ * Configs that may enable coverage or pytest: vitest/jest configs and root
+ * package configs
+ */
+function configFiles(blobs: string[]): string[] {
+  return [
+    ...blobs.filter(
+      (path) =>
+        /(vitest|jest)\.config/.test(path) &&
+        TEST_CONFIG_PATTERNS.some((pattern) => pattern.test(path))
+    ),
+    ...['package.json', 'pyproject.toml', 'setup.cfg'].filter((path) =>
+      blobs.includes(path)
+    ),
+  ]
+}
+
+/**
+ * Whether a config file enables coverage collection or thresholds
+ */
+function isCoverageConfigured(path: string, content: string): boolean {
+  if (path === 'package.json') {
+    return /"coverageThreshold"|"collectCoverage"|--coverage|\b(c8|nyc) /.test(
+      content
+    )
+  }
+  if (path === 'pyproject.toml' || path === 'setup.cfg') {
+    return /^\[(tool\.)?coverage[:.]/m.test(content) || /--cov\b/.test(content)
+  }
+  return /\bcoverage(Threshold)?\s*:/.test(content)
+}
+
+/**
+ * Count source modules and those with a test named after them
+ * (`user-service.ts` ↔ `user-service.test.ts`, `utils.go` ↔ `utils_test.go`,
+ * `models.py` ↔ `test_models.py`)
+ */
+function matchSourceModules(
+  blobs: string[],
+  testFiles: string[]
+): { sourceModules: number; testedModules: number } {
+  const testedNames = new Set(testFiles.map(moduleName))
+  const modules = blobs.filter(
+    (path) =>
+      SOURCE_FILE_PATTERN.test(path) &&
+      !isTestFile(path) &&
+      !/\.d\.ts$|\.config\.[cm]?[jt]s$/.test(path) &&
+      !VENDORED_PATHS.test(path) &&
+      !SKIPPED_SOURCE_PATHS.test(path) &&
+      !UNTESTED_MODULE_NAMES.has(moduleName(path))
+  )
+
+  return {
+    sourceModules: modules.length,
+    testedModules: modules.filter((path) => testedNames.has(moduleName(path)))
+      .length,
+  }
+}
+
+/**
+ * Module name without directories, extension and test affixes
+ */
+function moduleName(path: string): string {
+  return (path.split('/').pop() ?? path)
+    .replace(/\.[^.]+$/, '')
+    .replace(/[._](test|spec)$/i, '')
+    .replace(/^test_/i, '')
+    .toLowerCase()
+}
+
+/**
+ * Create test quality analyzer instance
+ *
+ * @returns TestQualityAnalyzer instance
+ */
+export function createTestQualityAnalyzer(): TestQualityAnalyzer {
+  return new TestQualityAnalyzer()
+}
@@ -24,13 +24,17 @@ const mockOctokitInstance = {
   repos: {
     listForAuthenticatedUser: vi.fn(),
     get: vi.fn(),
+    getBranch: vi.fn(),
     getContent: vi.fn(),
     listCommits: vi.fn(),
     getAllTopics: vi.fn(),
     listLanguages: vi.fn(),
+    listContributors: vi.fn(),
+    getCommitActivityStats: vi.fn(),
   },
   git: {
     getTree: vi.fn(),
+    getBlob: vi.fn(),
   },
   rateLimit: {
     get: vi.fn(),
@@ -305,6 +309,42 @@ describe('GitHubClient', () => {
       expect(result).toBe('Hello World')
     })
 
+    it('should read files over 1 MB as git blobs', async () => {
+      mockOctokit.repos.getContent.mockResolvedValue({
+        data: {
+          type: 'file',
+          encoding: 'none',
+          content: '',
+          size: 2 * 1024 * 1024,
+          sha: 'blob-sha',
+          name: 'yarn.lock',
+          path: 'yarn.lock',
+        },
+      })
+      mockOctokit.git.getBlob.mockResolvedValue({
+        data: {
+          encoding: 'base64',
+          content: Buffer.from('lodash@^4.17.0:').toString('base64'),
+        },
+      })
+      mockOctokit.rateLimit.get.mockResolvedValue({
+        data: {
+          resources: {
+            core: { limit: 5000, remaining: 4999, reset: Date.now() / 1000 + 3600 },
+          },
+        },
+      })
+
+      const result = await client.getFileContent('owner', 'repo', 'yarn.lock')
+
+      expect(result).toBe('lodash@^4.17.0:')
+      expect(mockOctokit.git.getBlob).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        file_sha: 'blob-sha',
+      })
+    })
+
     it('should throw error for directory path', async () => {
       mockOctokit.repos.getContent.mockResolvedValue({
         data: [
@@ -532,12 +572,12 @@ describe('GitHubClient', () => {
         },
       })
 
-      const result = await client.getRepositoryTree('owner', 'repo')
+      const result = await client.getRepositoryTree('owner', 'repo', 'main')
 
       expect(result).toEqual(mockTree)
     })
 
-    it('should fallback to master branch if main fails', async () => {
+    it('should read the default branch when no ref is given', async () => {
       const mockTree = {
         sha: 'tree123',
         url: 'url',
@@ -545,10 +585,10 @@ describe('GitHubClient', () => {
         truncated: false,
       }
 
-      mockOctokit.git.getTree
-        .mockRejectedValueOnce({ status: 404, message: 'Not Found' })
-        .mockResolvedValueOnce({ data: mockTree })
-
+      mockOctokit.repos.get.mockResolvedValue({
+        data: { ...mockRepository, default_branch: 'develop' },
+      })
+      mockOctokit.git.getTree.mockResolvedValue({ data: mockTree })
       mockOctokit.rateLimit.get.mockResolvedValue({
         data: {
           resources: {
@@ -557,10 +597,100 @@ describe('GitHubClient', () => {
         },
       })
 
-      const result = await client.getRepositoryTree('owner', 'repo', 'main')
+      const result = await client.getRepositoryTree('owner', 'repo')
 
       expect(result).toEqual(mockTree)
-      expect(mockOctokit.git.getTree).toHaveBeenCalledTimes(2)
+      expect(mockOctokit.git.getTree).toHaveBeenCalledTimes(1)
+      expect(mockOctokit.git.getTree).toHaveBeenCalledWith(
+        expect.objectContaining({ tree_sha: 'develop' })
+      )
+    })
+  })
+
+  describe('getCommitTotals', () => {
+    it('should count commits from the last page link and fetch the root commit', async () => {
+      const rootCommit = { sha: 'root', commit: { message: 'Initial commit' } }
+      mockOctokit.repos.listCommits
+        .mockResolvedValueOnce({
+          data: [{ sha: 'head' }],
+          headers: {
+            link:
+              '<https://api.github.com/repositories/1/commits?per_page=1&page=2>; rel="next", ' +
+              '<https://api.github.com/repositories/1/commits?per_page=1&page=1234>; rel="last"',
+          },
+        })
+        .mockResolvedValueOnce({ data: [rootCommit], headers: {} })
+      mockOctokit.rateLimit.get.mockResolvedValue({
+        data: {
+          resources: {
+            core: { limit: 5000, remaining: 4999, reset: Date.now() / 1000 + 3600 },
+          },
+        },
+      })
+
+      const totals = await client.getCommitTotals('owner', 'repo')
+
+      expect(totals).toEqual({ count: 1234, firstCommit: rootCommit })
+      expect(mockOctokit.repos.listCommits).toHaveBeenLastCalledWith(
+        expect.objectContaining({ per_page: 1, page: 1234 })
+      )
+    })
+  })
+
+  describe('getCommitActivity', () => {
+    it('should retry while GitHub computes statistics', async () => {
+      const weeks = [{ week: 1760227200, total: 3, days: [0, 1, 2, 0, 0, 0, 0] }]
+      mockOctokit.repos.getCommitActivityStats
+        .mockResolvedValueOnce({ status: 202, data: {} })
+        .mockResolvedValueOnce({ status: 200, data: weeks })
+      mockOctokit.rateLimit.get.mockResolvedValue({
+        data: {
+          resources: {
+            core: { limit: 5000, remaining: 4999, reset: Date.now() / 1000 + 3600 },
+          },
+        },
+      })
+
+      await expect(client.getCommitActivity('owner', 'repo')).resolves.toEqual(weeks)
+      expect(mockOctokit.repos.getCommitActivityStats).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('pinRepository', () => {
+    it('should read trees, contents and history at the pinned commit', async () => {
+      mockOctokit.repos.getBranch.mockResolvedValue({
+        data: { name: 'trunk', commit: { sha: 'abc123' } },
+      })
+      mockOctokit.git.getTree.mockResolvedValue({ data: { tree: [] } })
+      mockOctokit.repos.getContent.mockResolvedValue({
+        data: { type: 'file', encoding: 'base64', content: '' },
+      })
+      mockOctokit.repos.listCommits.mockResolvedValue({ data: [] })
+      mockOctokit.rateLimit.get.mockResolvedValue({
+        data: {
+          resources: {
+            core: { limit: 5000, remaining: 4999, reset: Date.now() / 1000 + 3600 },
+          },
+        },
+      })
+
+      const sha = await client.getBranchHeadSha('owner', 'repo', 'trunk')
+      client.pinRepository('owner', 'repo', sha)
+
+      await client.getRepositoryTree('owner', 'repo')
+      await client.getFileContent('owner', 'repo', 'README.md')
+      await client.getCommitHistory('owner', 'repo')
+
+      expect(mockOctokit.repos.get).not.toHaveBeenCalled()
+      expect(mockOctokit.git.getTree).toHaveBeenCalledWith(
+        expect.objectContaining({ tree_sha: 'abc123' })
+      )
+      expect(mockOctokit.repos.getContent).toHaveBeenCalledWith(
+        expect.objectContaining({ path: 'README.md', ref: 'abc123' })
+      )
+      expect(mockOctokit.repos.listCommits).toHaveBeenCalledWith(
+        expect.objectContaining({ sha: 'abc123' })
+      )
     })
   })
 })
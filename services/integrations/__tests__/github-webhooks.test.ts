@@ -0,0 +1,166 @@
+/**
+ * GitHub Webhooks Unit Tests
+ */
+
+import { createHmac } from 'crypto'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  handleWebhookEvent,
+  verifyWebhookSignature,
+  REANALYSIS_DEBOUNCE_MS,
+  type WebhookPayload,
+} from '../github-webhooks'
+import { prisma } from '@/lib/prisma'
+import { cacheService } from '@/lib/cache'
+import { analysisQueue } from '@/services/queue/analysis-queue'
+
+// Mock dependencies
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    repository: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}))
+vi.mock('@/lib/cache', () => ({
+  cacheService: { invalidateGitHubRepoCache: vi.fn() },
+}))
+vi.mock('@/services/queue/analysis-queue', () => ({
+  analysisQueue: { scheduleAnalysisJob: vi.fn() },
+}))
+
+function payloadOf(overrides: Partial<WebhookPayload> = {}): WebhookPayload {
+  return {
+    ref: 'refs/heads/main',
+    repository: {
+      id: 42,
+      name: 'todo-app',
+      full_name: 'ada/todo-app',
+      owner: { login: 'ada', avatar_url: 'https://avatars.example/ada' },
+      html_url: 'https://github.com/ada/todo-app',
+      description: 'Todos, but vibed',
+      language: 'TypeScript',
+      topics: ['nextjs'],
+      stargazers_count: 12,
+      forks_count: 3,
+      open_issues_count: 1,
+      license: { spdx_id: 'MIT' },
+      private: false,
+      default_branch: 'main',
+    },
+    ...overrides,
+  }
+}
+
+describe('verifyWebhookSignature', () => {
+  const body = '{"zen":"Keep it logically awesome."}'
+  const signature = `sha256=${createHmac('sha256', 'secret').update(body).digest('hex')}`
+
+  it('should accept bodies signed with the secret', () => {
+    expect(verifyWebhookSignature(body, signature, 'secret')).toBe(true)
+  })
+
+  it('should reject missing, malformed and foreign signatures', () => {
+    expect(verifyWebhookSignature(body, null, 'secret')).toBe(false)
+    expect(verifyWebhookSignature(body, 'sha256=abc', 'secret')).toBe(false)
+    expect(verifyWebhookSignature(body, signature, 'other')).toBe(false)
+    expect(verifyWebhookSignature(`${body} `, signature, 'secret')).toBe(false)
+  })
+})
+
+describe('handleWebhookEvent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.repository.findUnique).mockResolvedValue({
+      id: 'repo-1',
+      owner: 'ada',
+      name: 'todo',
+      description: 'My own description',
+      userId: 'user-1',
+    } as never)
+  })
+
+  it('should refresh metadata and schedule a debounced re-analysis on push', async () => {
+    const outcome = await handleWebhookEvent('push', payloadOf())
+
+    expect(outcome).toBe('reanalysis_scheduled')
+    expect(cacheService.invalidateGitHubRepoCache).toHaveBeenCalledWith(
+      'ada',
+      'todo'
+    )
+    expect(cacheService.invalidateGitHubRepoCache).toHaveBeenCalledWith(
+      'ada',
+      'todo-app'
+    )
+    expect(prisma.repository.update).toHaveBeenCalledWith({
+      where: { id: 'repo-1' },
+      data: expect.objectContaining({
+        name: 'todo-app',
+        stargazersCount: 12,
+        topics: ['nextjs'],
+        license: 'MIT',
+      }),
+    })
+    // The owner's own description is kept
+    expect(
+      vi.mocked(prisma.repository.update).mock.calls[0][0].data
+    ).not.toHaveProperty('description')
+    expect(analysisQueue.scheduleAnalysisJob).toHaveBeenCalledWith(
+      {
+        repositoryId: 'repo-1',
+        owner: 'ada',
+        repo: 'todo-app',
+        userId: 'user-1',
+      },
+      REANALYSIS_DEBOUNCE_MS,
+      expect.any(Number)
+    )
+  })
+
+  it('should not re-analyze pushes to other branches', async () => {
+    const outcome = await handleWebhookEvent(
+      'push',
+      payloadOf({ ref: 'refs/heads/feature' })
+    )
+
+    expect(outcome).toBe('updated')
+    expect(analysisQueue.scheduleAnalysisJob).not.toHaveBeenCalled()
+  })
+
+  it('should follow GitHub description edits matching the stored description', async () => {
+    await handleWebhookEvent(
+      'repository',
+      payloadOf({
+        action: 'edited',
+        changes: { description: { from: 'My own description' } },
+      })
+    )
+
+    expect(prisma.repository.update).toHaveBeenCalledWith({
+      where: { id: 'repo-1' },
+      data: expect.objectContaining({ description: 'Todos, but vibed' }),
+    })
+  })
+
+  it('should ignore repositories that are not vibes', async () => {
+    vi.mocked(prisma.repository.findUnique).mockResolvedValueOnce(null)
+
+    expect(await handleWebhookEvent('release', payloadOf())).toBe('ignored')
+    expect(prisma.repository.update).not.toHaveBeenCalled()
+  })
+  it('should mark the webhook removed when GitHub deletes the hook', async () => {
+    expect(
+      await handleWebhookEvent(
+        'meta',
+        payloadOf({ action: 'deleted', hook_id: 7 })
+      )
+    ).toBe('updated')
+    expect(prisma.repository.updateMany).toHaveBeenCalledWith({
+      where: { webhookId: 7 },
+      data: { webhookId: null },
+    })
+    expect(prisma.repository.update).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,135 @@
+/**
+ * Local Clone Repository Source Unit Tests
+ *
+ * Clones a throwaway repository over file:// instead of GitHub
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { LocalCloneSource } from '../local-clone-source'
+import { NotFoundError } from '@/lib/errors/github-errors'
+import type { GitHubClient } from '../github-client'
+
+describe('LocalCloneSource', () => {
+  let remote: string
+  let headSha: string
+
+  beforeAll(() => {
+    remote = mkdtempSync(join(tmpdir(), 'vibeyard-remote-'))
+    const dir = join(remote, 'owner', 'repo.git')
+    mkdirSync(join(dir, 'src'), { recursive: true })
+
+    const git = (...args: string[]) =>
+      execFileSync('git', args, {
+        cwd: dir,
+        env: {
+          ...process.env,
+          GIT_AUTHOR_NAME: 'Ada',
+          GIT_AUTHOR_EMAIL: 'ada@example.com',
+          GIT_COMMITTER_NAME: 'Ada',
+          GIT_COMMITTER_EMAIL: 'ada@example.com',
+        },
+      })
+        .toString()
+        .trim()
+
+    git('init', '--quiet', '--initial-branch=main')
+    writeFileSync(join(dir, 'README.md'), '# Repo\n')
+    git('add', '.')
+    git('commit', '--quiet', '-m', 'Initial commit')
+    writeFileSync(join(dir, 'src', 'index.ts'), 'export {}\n')
+    writeFileSync(join(dir, 'src', 'café.ts'), 'export {}\n')
+    git('add', '.')
+    git('commit', '--quiet', '-m', 'Add entry point\n\nWith a body')
+    headSha = git('rev-parse', 'HEAD')
+  })
+
+  afterAll(() => {
+    rmSync(remote, { recursive: true, force: true })
+  })
+
+  function createSource(size = 10) {
+    const githubClient = {
+      getRepository: vi
+        .fn()
+        .mockResolvedValue({ size, default_branch: 'main' }),
+      getPinnedRef: vi.fn().mockReturnValue(undefined),
+      getRepositoryTree: vi.fn().mockResolvedValue({ tree: [] }),
+      getFileContent: vi.fn().mockResolvedValue('from api'),
+      getCommitHistory: vi.fn().mockResolvedValue([]),
+    }
+    const source = new LocalCloneSource(
+      githubClient as unknown as GitHubClient,
+      'token',
+      { baseUrl: `file://${remote}`, maxRepositorySizeMb: 1 }
+    )
+    return { source, githubClient }
+  }
+
+  it('should serve tree, files and commits from the clone', async () => {
+    const { source, githubClient } = createSource()
+
+    const tree = await source.getRepositoryTree('owner', 'repo')
+    expect(tree.sha).toBe(headSha)
+    expect(tree.tree.map(({ path, type }) => [path, type])).toEqual([
+      ['README.md', 'blob'],
+      ['src', 'tree'],
+      ['src/café.ts', 'blob'],
+      ['src/index.ts', 'blob'],
+    ])
+    expect(tree.tree[0].size).toBe(7)
+
+    await expect(
+      source.getFileContent('owner', 'repo', 'src/index.ts')
+    ).resolves.toBe('export {}\n')
+    await expect(
+      source.getFileContent('owner', 'repo', 'missing.md')
+    ).rejects.toBeInstanceOf(NotFoundError)
+
+    const commits = await source.getCommitHistory('owner', 'repo')
+    expect(commits).toHaveLength(2)
+    expect(commits[0]).toMatchObject({
+      sha: headSha,
+      commit: {
+        message: 'Add entry point\n\nWith a body',
+        author: { name: 'Ada', email: 'ada@example.com' },
+      },
+      html_url: `https://github.com/owner/repo/commit/${headSha}`,
+      author: null,
+    })
+    expect(commits[0].parents[0].sha).toBe(commits[1].sha)
+
+    expect(githubClient.getRepositoryTree).not.toHaveBeenCalled()
+    expect(githubClient.getFileContent).not.toHaveBeenCalled()
+    expect(githubClient.getCommitHistory).not.toHaveBeenCalled()
+
+    const dirs = await workspaceDirs(source)
+    expect(dirs).toHaveLength(1)
+    expect(existsSync(dirs[0])).toBe(true)
+    await source.dispose()
+    expect(existsSync(dirs[0])).toBe(false)
+  })
+
+  it('should use the API for repositories over the size limit', async () => {
+    const { source, githubClient } = createSource(2048)
+
+    await expect(
+      source.getFileContent('owner', 'repo', 'README.md')
+    ).resolves.toBe('from api')
+    expect(githubClient.getFileContent).toHaveBeenCalled()
+  })
+})
+
+/**
+ * Workspace directories currently held by a source
+ */
+async function workspaceDirs(source: LocalCloneSource): Promise<string[]> {
+  const { workspaces } = source as unknown as {
+    workspaces: Map<string, Promise<{ dir: string } | null>>
+  }
+  const resolved = await Promise.all(workspaces.values())
+  return resolved.flatMap((workspace) => (workspace ? [workspace.dir] : []))
+}
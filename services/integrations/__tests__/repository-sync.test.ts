@@ -0,0 +1,203 @@
+/**
+ * Repository Sync Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { RepositorySyncService } from '../repository-sync'
+import { prisma } from '@/lib/prisma'
+import { createGitHubClient } from '@/services/integrations/github-client'
+import { analysisQueue } from '@/services/queue/analysis-queue'
+import { JOB_PRIORITIES } from '@/services/queue/queue-config'
+import { NotFoundError } from '@/lib/errors/github-errors'
+import type { GitHubRepository } from '@/types/github'
+
+// Mock dependencies
+vi.mock('@/lib/cache')
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    repository: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}))
+vi.mock('@/services/integrations/github-client', () => ({
+  createGitHubClient: vi.fn(),
+}))
+vi.mock('@/services/queue/analysis-queue', () => ({
+  analysisQueue: { addAnalysisJob: vi.fn() },
+}))
+
+const NOW = new Date('2026-10-19T00:00:00Z')
+
+const mockGitHubClient = {
+  getRateLimitStatus: vi.fn(),
+  getRepository: vi.fn(),
+}
+
+function vibe(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `repo-${id}`,
+    githubId: id,
+    owner: 'ada',
+    name: `app-${id}`,
+    userId: 'user-1',
+    analysisStatus: 'completed',
+    lastAnalyzedAt: new Date('2026-10-18T00:00:00Z'),
+    user: { githubAccessToken: 'gho_token' },
+    ...overrides,
+  }
+}
+
+function githubRepo(
+  id: number,
+  overrides: Partial<GitHubRepository> = {}
+): GitHubRepository {
+  return {
+    id,
+    name: `app-${id}`,
+    full_name: `ada/app-${id}`,
+    owner: { login: 'ada', avatar_url: 'https://avatars.example/ada' },
+    html_url: `https://github.com/ada/app-${id}`,
+    language: 'TypeScript',
+    topics: ['nextjs'],
+    stargazers_count: 7,
+    forks_count: 2,
+    open_issues_count: 0,
+    license: null,
+    private: false,
+    ...overrides,
+  } as GitHubRepository
+}
+
+function remaining(count: number) {
+  return { resources: { core: { remaining: count } } }
+}
+
+describe('RepositorySyncService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(createGitHubClient).mockReturnValue(mockGitHubClient as never)
+    mockGitHubClient.getRateLimitStatus.mockResolvedValue(remaining(5000))
+  })
+
+  it('should refresh metadata and mark renamed, private and deleted repositories', async () => {
+    vi.mocked(prisma.repository.findMany).mockResolvedValue([
+      vibe(1),
+      vibe(2),
+      vibe(3),
+      vibe(4),
+    ] as never)
+    mockGitHubClient.getRepository.mockImplementation(
+      async (_owner: string, name: string) => {
+        if (name === 'app-1') return githubRepo(1, { stargazers_count: 42 })
+        if (name === 'app-2')
+          return githubRepo(2, { name: 'renamed', full_name: 'ada/renamed' })
+        if (name === 'app-3') return githubRepo(3, { private: true })
+        throw new NotFoundError('ada/app-4')
+      }
+    )
+
+    const summary = await new RepositorySyncService().syncAll(NOW)
+
+    expect(summary).toMatchObject({
+      synced: 3,
+      renamed: 1,
+      private: 1,
+      deleted: 1,
+      skipped: 0,
+    })
+    const updates = vi
+      .mocked(prisma.repository.update)
+      .mock.calls.map(([args]) => args)
+    expect(updates).toEqual([
+      {
+        where: { id: 'repo-1' },
+        data: expect.objectContaining({
+          stargazersCount: 42,
+          githubStatus: 'active',
+          metadataSyncedAt: NOW,
+        }),
+      },
+      {
+        where: { id: 'repo-2' },
+        data: expect.objectContaining({
+          name: 'renamed',
+          fullName: 'ada/renamed',
+          githubStatus: 'renamed',
+        }),
+      },
+      {
+        where: { id: 'repo-3' },
+        data: expect.objectContaining({
+          isPrivate: true,
+          githubStatus: 'private',
+        }),
+      },
+      {
+        where: { id: 'repo-4' },
+        data: { githubStatus: 'deleted', metadataSyncedAt: NOW },
+      },
+    ])
+  })
+
+  it('should stop syncing when the token budget is spent', async () => {
+    vi.mocked(prisma.repository.findMany).mockResolvedValue([
+      vibe(1),
+      vibe(2),
+      vibe(3),
+    ] as never)
+    mockGitHubClient.getRepository.mockImplementation(
+      async (_owner: string, name: string) =>
+        githubRepo(Number(name.replace('app-', '')))
+    )
+    // Half of the remaining requests: 2 syncs
+    mockGitHubClient.getRateLimitStatus.mockResolvedValue(remaining(4))
+
+    const summary = await new RepositorySyncService().syncAll(NOW)
+
+    expect(summary).toMatchObject({ synced: 2, skipped: 1 })
+    expect(mockGitHubClient.getRepository).toHaveBeenCalledTimes(2)
+  })
+
+  it('should re-queue the oldest stale analyses at low priority within budget', async () => {
+    vi.mocked(prisma.repository.findMany).mockResolvedValue([
+      vibe(1, { lastAnalyzedAt: new Date('2026-08-01T00:00:00Z') }),
+      vibe(2, {
+        analysisStatus: 'partial',
+        lastAnalyzedAt: new Date('2026-07-01T00:00:00Z'),
+      }),
+      vibe(3),
+    ] as never)
+    mockGitHubClient.getRepository.mockImplementation(
+      async (_owner: string, name: string) =>
+        githubRepo(Number(name.replace('app-', '')))
+    )
+    // 3 syncs and a single analysis
+    mockGitHubClient.getRateLimitStatus.mockResolvedValue(remaining(210))
+
+    const summary = await new RepositorySyncService().syncAll(NOW)
+
+    expect(summary).toMatchObject({ synced: 3, analysesQueued: 1 })
+    expect(analysisQueue.addAnalysisJob).toHaveBeenCalledWith(
+      {
+        repositoryId: 'repo-2',
+        owner: 'ada',
+        repo: 'app-2',
+        userId: 'user-1',
+      },
+      JOB_PRIORITIES.LOW
+    )
+  })
+
+  it('should skip owners without a GitHub token', async () => {
+    vi.mocked(prisma.repository.findMany).mockResolvedValue([
+      vibe(1, { user: { githubAccessToken: null } }),
+    ] as never)
+
+    const summary = await new RepositorySyncService().syncAll(NOW)
+
+    expect(summary.skipped).toBe(1)
+    expect(createGitHubClient).not.toHaveBeenCalled()
+  })
+})
@@ -29,8 +29,25 @@ import type {
   CommitOptions,
   RepositoryListOptions,
   LanguageBreakdown,
+  GitHubWorkflowRun,
+  WorkflowRunOptions,
+  GitHubContributor,
+  GitHubCommitActivityWeek,
+  CommitTotals,
+  ContributorList,
+  RepositoryWebhookOptions,
 } from '@/types/github'
 
+/**
+ * Contributors fetched per page (GitHub maximum)
+ */
+const CONTRIBUTORS_PER_PAGE = 100
+
+/**
+ * Requests made for statistics GitHub is still computing
+ */
+const STATS_ATTEMPTS = 4
+
 /**
  * Configuration options for GitHubClient
  */
@@ -57,6 +74,7 @@ export class GitHubClient {
   private maxRetries: number
   private retryBaseDelay: number
   private enableLogging: boolean
+  private pinnedRefs = new Map<string, string>()
 
   constructor(
     private accessToken: string,
@@ -172,6 +190,50 @@ export class GitHubClient {
     return repository
   }
 
+  /**
+   * Get the commit SHA a branch currently points to
+   * Not cached: the point is to pin a moving branch
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param branch - Branch name
+   * @returns Commit SHA
+   */
+  async getBranchHeadSha(
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<string> {
+    this.log('Fetching branch head from GitHub', { owner, repo, branch })
+
+    const response = await this.executeWithRetry(async () => {
+      await this.checkRateLimit()
+      return this.octokit.repos.getBranch({ owner, repo, branch })
+    })
+
+    return response.data.commit.sha
+  }
+
+  /**
+   * Pin a repository to a commit for the lifetime of this client
+   * Tree, contents and commit history requests without an explicit ref read
+   * that commit, so every step of an analysis sees the same snapshot
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param sha - Commit SHA
+   */
+  pinRepository(owner: string, repo: string, sha: string): void {
+    this.pinnedRefs.set(`${owner}/${repo}`, sha)
+  }
+
+  /**
+   * Commit SHA a repository is pinned to, if any
+   */
+  getPinnedRef(owner: string, repo: string): string | undefined {
+    return this.pinnedRefs.get(`${owner}/${repo}`)
+  }
+
   // ===========================================================================
   // REPOSITORY CONTENTS
   // ===========================================================================
@@ -183,28 +245,30 @@ export class GitHubClient {
    * @param owner - Repository owner
    * @param repo - Repository name
    * @param path - File/directory path
+   * @param ref - Commit, branch or tag (default: pinned commit, else default branch)
    * @returns Content data
    */
   async getRepositoryContents(
     owner: string,
     repo: string,
-    path: string = ''
+    path: string = '',
+    ref: string | undefined = this.getPinnedRef(owner, repo)
   ): Promise<GitHubContent | GitHubContent[]> {
-    const cacheKey = cacheService.githubRepoContentsKey(owner, repo, path)
+    const cacheKey = cacheService.githubRepoContentsKey(owner, repo, path, ref)
 
     // Check cache
     const cached = await cacheService.get<GitHubContent | GitHubContent[]>(cacheKey)
     if (cached) {
-      this.log('Cache hit: repository contents', { owner, repo, path })
+      this.log('Cache hit: repository contents', { owner, repo, path, ref })
       return cached
     }
 
     // Fetch from GitHub
-    this.log('Fetching repository contents from GitHub', { owner, repo, path })
+    this.log('Fetching repository contents from GitHub', { owner, repo, path, ref })
 
     const response = await this.executeWithRetry(async () => {
       await this.checkRateLimit()
-      return this.octokit.repos.getContent({ owner, repo, path })
+      return this.octokit.repos.getContent({ owner, repo, path, ref })
     })
 
     const contents = response.data as GitHubContent | GitHubContent[]
@@ -222,10 +286,16 @@ export class GitHubClient {
    * @param owner - Repository owner
    * @param repo - Repository name
    * @param path - File path
+   * @param ref - Commit, branch or tag (default: pinned commit, else default branch)
    * @returns Decoded file content
    */
-  async getFileContent(owner: string, repo: string, path: string): Promise<string> {
-    const content = await this.getRepositoryContents(owner, repo, path)
+  async getFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string
+  ): Promise<string> {
+    const content = await this.getRepositoryContents(owner, repo, path, ref)
 
     // Ensure it's a file, not a directory
     if (Array.isArray(content)) {
@@ -236,6 +306,11 @@ export class GitHubClient {
       throw new Error(`Path "${path}" is not a file (type: ${content.type})`)
     }
 
+    // Files over 1 MB come without content; read them as a git blob
+    if (content.encoding === 'none' && content.size > 0) {
+      return this.getBlobContent(owner, repo, content.sha)
+    }
+
     // Decode base64 content
     if (content.encoding === 'base64' && content.content) {
       return Buffer.from(content.content, 'base64').toString('utf-8')
@@ -244,57 +319,80 @@ export class GitHubClient {
     return content.content || ''
   }
 
+  /**
+   * Get a git blob as decoded string
+   * The blob API serves files up to 100 MB
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param sha - Blob SHA
+   * @returns Decoded blob content
+   */
+  async getBlobContent(
+    owner: string,
+    repo: string,
+    sha: string
+  ): Promise<string> {
+    this.log('Fetching blob from GitHub', { owner, repo, sha })
+
+    const response = await this.executeWithRetry(async () => {
+      await this.checkRateLimit()
+      return this.octokit.git.getBlob({ owner, repo, file_sha: sha })
+    })
+
+    return Buffer.from(
+      response.data.content,
+      response.data.encoding === 'base64' ? 'base64' : 'utf-8'
+    ).toString('utf-8')
+  }
+
   /**
    * Get repository file tree
    * Cached for 1 hour
    *
    * @param owner - Repository owner
    * @param repo - Repository name
-   * @param branch - Branch name (default: 'main')
+   * @param ref - Commit, branch or tag (default: pinned commit, else the
+   *   repository's default branch)
    * @returns Git tree with file structure
    */
   async getRepositoryTree(
     owner: string,
     repo: string,
-    branch: string = 'main'
+    ref?: string
   ): Promise<GitHubTree> {
-    const cacheKey = cacheService.githubTreeKey(owner, repo, branch)
+    const treeRef =
+      ref ??
+      this.getPinnedRef(owner, repo) ??
+      (await this.getRepository(owner, repo)).default_branch
+    const cacheKey = cacheService.githubTreeKey(owner, repo, treeRef)
 
     // Check cache
     const cached = await cacheService.get<GitHubTree>(cacheKey)
     if (cached) {
-      this.log('Cache hit: repository tree', { owner, repo, branch })
+      this.log('Cache hit: repository tree', { owner, repo, ref: treeRef })
       return cached
     }
 
     // Fetch from GitHub
-    this.log('Fetching repository tree from GitHub', { owner, repo, branch })
+    this.log('Fetching repository tree from GitHub', { owner, repo, ref: treeRef })
 
-    try {
-      const response = await this.executeWithRetry(async () => {
-        await this.checkRateLimit()
-        return this.octokit.git.getTree({
-          owner,
-          repo,
-          tree_sha: branch,
-          recursive: 'true',
-        })
+    const response = await this.executeWithRetry(async () => {
+      await this.checkRateLimit()
+      return this.octokit.git.getTree({
+        owner,
+        repo,
+        tree_sha: treeRef,
+        recursive: 'true',
       })
+    })
 
-      const tree = response.data as GitHubTree
+    const tree = response.data as GitHubTree
 
-      // Cache for 1 hour
-      await cacheService.set(cacheKey, tree, CACHE_TTL.TREE)
+    // Cache for 1 hour
+    await cacheService.set(cacheKey, tree, CACHE_TTL.TREE)
 
-      return tree
-    } catch (error) {
-      // If 'main' branch doesn't exist, try 'master'
-      if (branch === 'main') {
-        this.log('main branch not found, trying master')
-        return this.getRepositoryTree(owner, repo, 'master')
-      }
-      throw error
-    }
+    return tree
   }
 
   // ===========================================================================
@@ -307,7 +405,8 @@ export class GitHubClient {
    *
    * @param owner - Repository owner
    * @param repo - Repository name
-   * @param options - Commit options (pagination, filters)
+   * @param options - Commit options (pagination, filters); history starts
+   *   at the pinned commit unless `sha` is given
    * @returns Array of commits
    */
   async getCommitHistory(
@@ -315,7 +414,13 @@ export class GitHubClient {
     repo: string,
     options: CommitOptions = {}
   ): Promise<GitHubCommit[]> {
-    const cacheKey = cacheService.githubCommitsKey(owner, repo, options.page ?? 1)
+    const sha = options.sha ?? this.getPinnedRef(owner, repo)
+    const cacheKey = cacheService.githubCommitsKey(
+      owner,
+      repo,
+      options.page ?? 1,
+      sha
+    )
 
     // Check cache
     const cached = await cacheService.get<GitHubCommit[]>(cacheKey)
@@ -332,7 +437,7 @@ export class GitHubClient {
       return this.octokit.repos.listCommits({
         owner,
         repo,
-        sha: options.sha,
+        sha,
         path: options.path,
         author: options.author,
         since: options.since,
@@ -350,6 +455,163 @@ export class GitHubClient {
     return commits
   }
 
+  // ===========================================================================
+  // COMMIT STATISTICS
+  // ===========================================================================
+
+  /**
+   * Count commits and find the root commit without walking the history
+   * Pages of one commit: the last page number is the count, and the last
+   * page holds the root commit
+   * Cached for 1 hour
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Commit count and root commit, at the pinned commit if any
+   */
+  async getCommitTotals(owner: string, repo: string): Promise<CommitTotals> {
+    const sha = this.getPinnedRef(owner, repo)
+    const cacheKey = cacheService.githubCommitTotalsKey(owner, repo, sha)
+
+    // Check cache
+    const cached = await cacheService.get<CommitTotals>(cacheKey)
+    if (cached) {
+      this.log('Cache hit: commit totals', { owner, repo })
+      return cached
+    }
+
+    // Fetch from GitHub
+    this.log('Fetching commit totals from GitHub', { owner, repo, sha })
+
+    const listCommits = (page: number) =>
+      this.executeWithRetry(async () => {
+        await this.checkRateLimit()
+        return this.octokit.repos.listCommits({ owner, repo, sha, per_page: 1, page })
+      })
+
+    const head = await listCommits(1)
+    const count = lastPage(head.headers.link) ?? head.data.length
+    const root = count > 1 ? (await listCommits(count)).data : head.data
+
+    const totals: CommitTotals = {
+      count,
+      firstCommit: (root[0] as GitHubCommit | undefined) ?? null,
+    }
+
+    // Cache for 1 hour
+    await cacheService.set(cacheKey, totals, CACHE_TTL.COMMIT_HISTORY)
+
+    return totals
+  }
+
+  /**
+   * Get contributors to the default branch, including anonymous ones
+   * Cached for 1 day
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Top 100 contributors and the total count
+   */
+  async getContributors(owner: string, repo: string): Promise<ContributorList> {
+    const cacheKey = cacheService.githubContributorsKey(owner, repo)
+
+    // Check cache
+    const cached = await cacheService.get<ContributorList>(cacheKey)
+    if (cached) {
+      this.log('Cache hit: contributors', { owner, repo })
+      return cached
+    }
+
+    // Fetch from GitHub
+    this.log('Fetching contributors from GitHub', { owner, repo })
+
+    const listContributors = async (page: number) => {
+      const response = await this.executeWithRetry(async () => {
+        await this.checkRateLimit()
+        return this.octokit.repos.listContributors({
+          owner,
+          repo,
+          anon: 'true',
+          per_page: CONTRIBUTORS_PER_PAGE,
+          page,
+        })
+      })
+      // Empty repositories answer 204 without a body
+      return {
+        contributors: Array.isArray(response.data)
+          ? (response.data as GitHubContributor[])
+          : [],
+        pages: lastPage(response.headers.link),
+      }
+    }
+
+    const { contributors, pages } = await listContributors(1)
+    const total =
+      pages && pages > 1
+        ? (pages - 1) * CONTRIBUTORS_PER_PAGE +
+          (await listContributors(pages)).contributors.length
+        : contributors.length
+
+    const list: ContributorList = { contributors, total }
+
+    // Cache for 1 day
+    await cacheService.set(cacheKey, list, CACHE_TTL.REPO_STATS)
+
+    return list
+  }
+
+  /**
+   * Get weekly commit counts of the default branch over the last year
+   * GitHub computes statistics in the background and answers 202 until
+   * they are ready, so the request is repeated a few times
+   * Cached for 1 day once computed
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns 52 weeks, oldest first, or null while GitHub is still computing
+   */
+  async getCommitActivity(
+    owner: string,
+    repo: string
+  ): Promise<GitHubCommitActivityWeek[] | null> {
+    const cacheKey = cacheService.githubCommitActivityKey(owner, repo)
+
+    // Check cache
+    const cached = await cacheService.get<GitHubCommitActivityWeek[]>(cacheKey)
+    if (cached) {
+      this.log('Cache hit: commit activity', { owner, repo })
+      return cached
+    }
+
+    // Fetch from GitHub
+    this.log('Fetching commit activity from GitHub', { owner, repo })
+
+    for (let attempt = 0; attempt < STATS_ATTEMPTS; attempt++) {
+      const response = await this.executeWithRetry(async () => {
+        await this.checkRateLimit()
+        return this.octokit.repos.getCommitActivityStats({ owner, repo })
+      })
+
+      if (response.status !== 202) {
+        // Empty repositories answer 204 without a body
+        const weeks = Array.isArray(response.data)
+          ? (response.data as GitHubCommitActivityWeek[])
+          : []
+
+        // Cache for 1 day
+        await cacheService.set(cacheKey, weeks, CACHE_TTL.REPO_STATS)
+
+        return weeks
+      }
+
+      const delay = this.retryBaseDelay * 2 ** attempt
+      this.log('Commit activity not ready, retrying', { attempt: attempt + 1, delay })
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+
+    return null
+  }
+
   // ===========================================================================
   // TOPICS AND METADATA
   // ===========================================================================
@@ -425,6 +687,119 @@ export class GitHubClient {
     return languages
   }
 
+  // ===========================================================================
+  // GITHUB ACTIONS
+  // ===========================================================================
+
+  /**
+   * Get recent GitHub Actions workflow runs, newest first
+   * Pull request runs are excluded
+   * Cached for 5 minutes
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param options - Branch filter and page size
+   * @returns Array of workflow runs
+   */
+  async getWorkflowRuns(
+    owner: string,
+    repo: string,
+    options: WorkflowRunOptions = {}
+  ): Promise<GitHubWorkflowRun[]> {
+    const cacheKey = cacheService.githubWorkflowRunsKey(
+      owner,
+      repo,
+      options.branch ?? '*'
+    )
+
+    // Check cache
+    const cached = await cacheService.get<GitHubWorkflowRun[]>(cacheKey)
+    if (cached) {
+      this.log('Cache hit: workflow runs', { owner, repo, branch: options.branch })
+      return cached
+    }
+
+    // Fetch from GitHub
+    this.log('Fetching workflow runs from GitHub', { owner, repo, options })
+
+    const response = await this.executeWithRetry(async () => {
+      await this.checkRateLimit()
+      return this.octokit.actions.listWorkflowRunsForRepo({
+        owner,
+        repo,
+        branch: options.branch,
+        exclude_pull_requests: true,
+        per_page: options.per_page ?? 100,
+      })
+    })
+
+    const runs = response.data.workflow_runs as GitHubWorkflowRun[]
+
+    // Cache for 5 minutes
+    await cacheService.set(cacheKey, runs, CACHE_TTL.WORKFLOW_RUNS)
+
+    return runs
+  }
+
+  // ===========================================================================
+  // WEBHOOKS
+  // ===========================================================================
+
+  /**
+   * Create a repository webhook delivering JSON payloads
+   * Requires the admin:repo_hook scope and admin access to the repository
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param options - Delivery URL, signing secret and events
+   * @returns Webhook ID
+   */
+  async createRepositoryWebhook(
+    owner: string,
+    repo: string,
+    options: RepositoryWebhookOptions
+  ): Promise<number> {
+    this.log('Creating repository webhook', { owner, repo, events: options.events })
+
+    const response = await this.executeWithRetry(async () => {
+      await this.checkRateLimit()
+      return this.octokit.repos.createWebhook({
+        owner,
+        repo,
+        active: true,
+        events: options.events,
+        config: {
+          url: options.url,
+          content_type: 'json',
+          secret: options.secret,
+          insecure_ssl: '0',
+        },
+      })
+    })
+
+    return response.data.id
+  }
+
+  /**
+   * Delete a repository webhook
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param hookId - Webhook ID
+   */
+  async deleteRepositoryWebhook(
+    owner: string,
+    repo: string,
+    hookId: number
+  ): Promise<void> {
+    this.log('Deleting repository webhook', { owner, repo, hookId })
+
+    await this.executeWithRetry(async () => {
+      await this.checkRateLimit()
+      return this.octokit.repos.deleteWebhook({ owner, repo, hook_id: hookId })
+    })
+  }
+
   // ===========================================================================
   // RATE LIMITING
   // ===========================================================================
@@ -558,6 +933,17 @@ export class GitHubClient {
   }
 }
 
+/**
+ * Last page number in a `Link` response header
+ *
+ * @param link - Link header, absent when everything fit on one page
+ * @returns Page number of `rel="last"`, or null
+ */
+function lastPage(link?: string): number | null {
+  const match = link?.match(/[?&]page=(\d+)[^>]*>;\s*rel="last"/)
+  return match ? Number(match[1]) : null
+}
+
 /**
  * Create a new GitHub client instance
  * Convenience factory function
@@ -0,0 +1,235 @@
+/**
+ * GitHub Webhooks
+ *
+ * Keeps GitHub-linked vibes in sync from signed repository webhooks:
+ * - Verifies deliveries against GITHUB_WEBHOOK_SECRET (X-Hub-Signature-256)
+ * - Refreshes stored metadata (stars, forks, topics, description, ...)
+ * - Invalidates cached GitHub responses for the repository
+ * - Re-analyzes after pushes to the default branch and published releases,
+ *   debounced so a burst of pushes results in a single analysis
+ *
+ * @see https://docs.github.com/en/webhooks
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { cacheService } from '@/lib/cache'
+import { analysisQueue } from '@/services/queue/analysis-queue'
+import { JOB_PRIORITIES } from '@/services/queue/queue-config'
+import {
+  githubStatusOf,
+  repositoryMetadata,
+  type GitHubStatus,
+} from './repository-sync'
+
+/**
+ * Events a repository webhook subscribes to
+ */
+export const WEBHOOK_EVENTS = ['push', 'release', 'repository', 'meta'] as const
+
+/**
+ * Quiet period after the last push or release before re-analyzing
+ */
+export const REANALYSIS_DEBOUNCE_MS = 2 * 60 * 1000
+
+/**
+ * Repository as sent in webhook payloads
+ */
+interface WebhookRepository {
+  id: number
+  name: string
+  full_name: string
+  owner: { login: string; avatar_url: string }
+  html_url: string
+  description: string | null
+  language: string | null
+  topics?: string[]
+  stargazers_count: number
+  forks_count: number
+  open_issues_count: number
+  license: { spdx_id: string | null } | null
+  private: boolean
+  default_branch: string
+}
+
+/**
+ * Fields of push, release, repository and meta payloads used here
+ */
+export interface WebhookPayload {
+  action?: string
+  ref?: string // push
+  hook_id?: number // meta
+  repository?: WebhookRepository
+  changes?: {
+    description?: { from: string | null } // repository edited
+  }
+}
+
+/**
+ * What a delivery led to
+ */
+export type WebhookOutcome = 'ignored' | 'updated' | 'reanalysis_scheduled'
+
+/**
+ * Verify a delivery's X-Hub-Signature-256 header
+ *
+ * @param body - Raw request body
+ * @param signature - Header value (sha256=<hex digest>)
+ * @param secret - Webhook secret
+ * @returns True when the body was signed with the secret
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature?.startsWith('sha256=')) {
+    return false
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+  )
+  const received = Buffer.from(signature)
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  )
+}
+
+/**
+ * URL GitHub delivers webhook events to
+ */
+export function webhookUrl(): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
+  return `${baseUrl.replace(/\/$/, '')}/api/webhooks/github`
+}
+
+/**
+ * Apply a verified webhook delivery
+ *
+ * @param event - X-GitHub-Event header
+ * @param payload - Parsed delivery body
+ * @returns What the delivery led to
+ */
+export async function handleWebhookEvent(
+  event: string,
+  payload: WebhookPayload
+): Promise<WebhookOutcome> {
+  // Hook removed on GitHub: stop showing it as installed
+  if (event === 'meta') {
+    if (payload.action !== 'deleted' || !payload.hook_id) {
+      return 'ignored'
+    }
+    await prisma.repository.updateMany({
+      where: { webhookId: payload.hook_id },
+      data: { webhookId: null },
+    })
+    return 'updated'
+  }
+
+  const githubRepo = payload.repository
+  if (!githubRepo || !isSubscribedEvent(event)) {
+    return 'ignored'
+  }
+
+  const repository = await prisma.repository.findUnique({
+    where: { githubId: githubRepo.id },
+    select: {
+      id: true,
+      owner: true,
+      name: true,
+      fullName: true,
+      description: true,
+      userId: true,
+    },
+  })
+
+  if (!repository) {
+    return 'ignored'
+  }
+
+  // Drop cached responses under both the old and the new name
+  if (repository.owner && repository.name) {
+    await cacheService.invalidateGitHubRepoCache(
+      repository.owner,
+      repository.name
+    )
+  }
+  await cacheService.invalidateGitHubRepoCache(
+    githubRepo.owner.login,
+    githubRepo.name
+  )
+
+  await prisma.repository.update({
+    where: { id: repository.id },
+    data: {
+      ...repositoryMetadata(githubRepo),
+      githubStatus: githubStatusFor(event, payload, repository.fullName),
+      ...(followsGitHubDescription(repository.description, payload) && {
+        description: githubRepo.description,
+      }),
+      webhookDeliveredAt: new Date(),
+    },
+  })
+
+  if (!changesAnalyzedCode(event, payload)) {
+    return 'updated'
+  }
+
+  await analysisQueue.scheduleAnalysisJob(
+    {
+      repositoryId: repository.id,
+      owner: githubRepo.owner.login,
+      repo: githubRepo.name,
+      userId: repository.userId,
+    },
+    REANALYSIS_DEBOUNCE_MS,
+    JOB_PRIORITIES.LOW
+  )
+
+  return 'reanalysis_scheduled'
+}
+
+/**
+ * GitHub status after a delivery; deleted repositories still send a final
+ * repository event
+ */
+function githubStatusFor(
+  event: string,
+  payload: WebhookPayload,
+  storedFullName: string | null
+): GitHubStatus {
+  if (event === 'repository' && payload.action === 'deleted') {
+    return 'deleted'
+  }
+  return githubStatusOf(payload.repository!, storedFullName)
+}
+
+function isSubscribedEvent(event: string): boolean {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(event)
+}
+
+/**
+ * Whether a delivery changes what an analysis reads: a push to the default
+ * branch or a newly published release
+ */
+function changesAnalyzedCode(event: string, payload: WebhookPayload): boolean {
+  if (event === 'push') {
+    return payload.ref === `refs/heads/${payload.repository?.default_branch}`
+  }
+  return event === 'release' && payload.action === 'published'
+}
+
+/**
+ * Whether an edited GitHub description should replace the vibe's
+ * Owners may have written their own description when adding the vibe;
+ * only one still matching GitHub's previous description is replaced.
+ */
+function followsGitHubDescription(
+  current: string | null,
+  payload: WebhookPayload
+): boolean {
+  const change = payload.changes?.description
+  return !!change && (current ?? null) === (change.from ?? null)
+}
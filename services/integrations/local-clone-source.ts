@@ -0,0 +1,360 @@
+/**
+ * Local Clone Repository Source
+ *
+ * Serves the tree, file contents and recent commit log from a shallow clone
+ * in a temp workspace instead of one REST call per file:
+ * - Fetches only the analyzed commit (the pinned SHA, else the default
+ *   branch) with the last 100 commits of history
+ * - Skips cloning repositories larger than the size limit (GitHub's
+ *   reported size); those are read through the API instead
+ * - Falls back to the API when cloning fails, and for requests a shallow
+ *   clone cannot answer (other refs, older or filtered history)
+ *
+ * Workspaces live until `dispose()`; the token is passed per command and
+ * never written to the workspace.
+ */
+
+import { execFile } from 'child_process'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { promisify } from 'util'
+import { NotFoundError } from '@/lib/errors/github-errors'
+import { GitHubClient } from './github-client'
+import type { RepositorySource } from './repository-source'
+import type {
+  CommitOptions,
+  GitHubCommit,
+  GitHubRepository,
+  GitHubTree,
+} from '@/types/github'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * Local clone configuration
+ */
+interface LocalCloneOptions {
+  maxRepositorySizeMb?: number // Default: 500
+  baseUrl?: string // Default: https://github.com
+}
+
+/**
+ * Cloned repository
+ */
+interface Workspace {
+  dir: string
+  sha: string
+  tree: GitHubTree
+}
+
+/**
+ * Commits of history fetched with the analyzed commit
+ */
+const CLONE_DEPTH = 100
+
+/**
+ * Limits per clone and per file read
+ */
+const DEFAULT_MAX_REPOSITORY_SIZE_MB = 500
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+const CLONE_TIMEOUT_MS = 120_000
+const GIT_TIMEOUT_MS = 30_000
+
+/**
+ * Separators for `git log` output
+ */
+const FIELD_SEPARATOR = '\x1f'
+const RECORD_SEPARATOR = '\x1e'
+
+/**
+ * Local Clone Repository Source
+ */
+export class LocalCloneSource implements RepositorySource {
+  private workspaces = new Map<string, Promise<Workspace | null>>()
+  private maxRepositorySizeKb: number
+  private baseUrl: string
+
+  constructor(
+    private githubClient: GitHubClient,
+    private accessToken: string,
+    options: LocalCloneOptions = {}
+  ) {
+    this.maxRepositorySizeKb =
+      (options.maxRepositorySizeMb ?? DEFAULT_MAX_REPOSITORY_SIZE_MB) * 1024
+    this.baseUrl = options.baseUrl ?? 'https://github.com'
+  }
+
+  async getRepository(owner: string, repo: string): Promise<GitHubRepository> {
+    return this.githubClient.getRepository(owner, repo)
+  }
+
+  async getRepositoryTree(
+    owner: string,
+    repo: string,
+    ref?: string
+  ): Promise<GitHubTree> {
+    const workspace = await this.workspace(owner, repo, ref)
+    return workspace
+      ? workspace.tree
+      : this.githubClient.getRepositoryTree(owner, repo, ref)
+  }
+
+  async getFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string
+  ): Promise<string> {
+    const workspace = await this.workspace(owner, repo, ref)
+    if (!workspace) {
+      return this.githubClient.getFileContent(owner, repo, path, ref)
+    }
+
+    const object = `${workspace.sha}:${path}`
+    const type = await this.git(workspace.dir, [
+      'cat-file',
+      '-t',
+      object,
+    ]).catch(() => null)
+    if (type?.trim() !== 'blob') {
+      throw new NotFoundError(`${owner}/${repo}/${path}`)
+    }
+    const size = Number(
+      await this.git(workspace.dir, ['cat-file', '-s', object])
+    )
+    if (size > MAX_FILE_SIZE) {
+      throw new Error(`File "${path}" is too large to read (${size} bytes)`)
+    }
+
+    return this.git(workspace.dir, ['cat-file', 'blob', object])
+  }
+
+  async getCommitHistory(
+    owner: string,
+    repo: string,
+    options: CommitOptions = {}
+  ): Promise<GitHubCommit[]> {
+    const perPage = options.per_page ?? 100
+    const page = options.page ?? 1
+    const filtered =
+      options.path || options.author || options.since || options.until
+    const workspace =
+      filtered || page * perPage > CLONE_DEPTH
+        ? null
+        : await this.workspace(owner, repo, options.sha)
+    if (!workspace) {
+      return this.githubClient.getCommitHistory(owner, repo, options)
+    }
+
+    const output = await this.git(workspace.dir, [
+      'log',
+      `--skip=${(page - 1) * perPage}`,
+      `--max-count=${perPage}`,
+      `--format=${['%H', '%an', '%ae', '%aI', '%cn', '%ce', '%cI', '%T', '%P', '%B'].join(FIELD_SEPARATOR)}${RECORD_SEPARATOR}`,
+      workspace.sha,
+    ])
+
+    return output
+      .split(RECORD_SEPARATOR)
+      .map((record) => record.replace(/^\n/, ''))
+      .filter(Boolean)
+      .map((record) => toGitHubCommit(owner, repo, record))
+  }
+
+  /**
+   * Whether file contents come from the clone
+   * False when the repository is read through the API instead
+   */
+  async readsFilesLocally(owner: string, repo: string): Promise<boolean> {
+    return (await this.workspace(owner, repo)) !== null
+  }
+
+  /**
+   * Remove all workspaces
+   */
+  async dispose(): Promise<void> {
+    const workspaces = await Promise.all(this.workspaces.values())
+    this.workspaces.clear()
+    await Promise.all(
+      workspaces.map(
+        (workspace) =>
+          workspace && rm(workspace.dir, { recursive: true, force: true })
+      )
+    )
+  }
+
+  /**
+   * Workspace for a repository, cloned on first use
+   * Null when a request must go through the API instead
+   */
+  private async workspace(
+    owner: string,
+    repo: string,
+    ref?: string
+  ): Promise<Workspace | null> {
+    const key = `${owner}/${repo}`
+    if (!this.workspaces.has(key)) {
+      this.workspaces.set(key, this.clone(owner, repo))
+    }
+    const workspace = await this.workspaces.get(key)!
+
+    // The clone holds a single commit
+    return workspace && (!ref || ref === workspace.sha) ? workspace : null
+  }
+
+  private async clone(owner: string, repo: string): Promise<Workspace | null> {
+    const repository = await this.githubClient.getRepository(owner, repo)
+    if (repository.size > this.maxRepositorySizeKb) {
+      console.log(
+        `${owner}/${repo} is ${repository.size} KB, reading it through the API`
+      )
+      return null
+    }
+
+    const ref =
+      this.githubClient.getPinnedRef(owner, repo) ?? repository.default_branch
+    const dir = await mkdtemp(join(tmpdir(), 'vibeyard-clone-'))
+    const credentials = Buffer.from(
+      `x-access-token:${this.accessToken}`
+    ).toString('base64')
+
+    try {
+      await this.git(dir, ['init', '--quiet'])
+      // The token goes through the environment, not the process arguments
+      await this.git(
+        dir,
+        [
+          'fetch',
+          '--quiet',
+          '--no-tags',
+          `--depth=${CLONE_DEPTH}`,
+          `${this.baseUrl}/${owner}/${repo}.git`,
+          ref,
+        ],
+        CLONE_TIMEOUT_MS,
+        {
+          GIT_CONFIG_COUNT: '1',
+          GIT_CONFIG_KEY_0: 'http.extraHeader',
+          GIT_CONFIG_VALUE_0: `Authorization: Basic ${credentials}`,
+        }
+      )
+      const sha = (await this.git(dir, ['rev-parse', 'FETCH_HEAD'])).trim()
+      const listing = await this.git(dir, [
+        'ls-tree',
+        '-r',
+        '-t',
+        '-l',
+        '-z',
+        sha,
+      ])
+
+      return { dir, sha, tree: parseTree(sha, listing) }
+    } catch (error) {
+      console.error(`Cloning ${owner}/${repo} failed, using the API:`, error)
+      await rm(dir, { recursive: true, force: true })
+      return null
+    }
+  }
+
+  private async git(
+    dir: string,
+    args: string[],
+    timeout: number = GIT_TIMEOUT_MS,
+    env: Record<string, string> = {}
+  ): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: dir,
+      timeout,
+      maxBuffer: MAX_FILE_SIZE + 1024 * 1024,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0', ...env },
+    })
+    return stdout
+  }
+}
+
+/**
+ * Parse `git ls-tree -r -t -l -z` output into a GitHub tree
+ * Entries end with NUL and paths are unquoted, so any path reads as is.
+ */
+function parseTree(sha: string, listing: string): GitHubTree {
+  const tree = listing
+    .split('\0')
+    .filter(Boolean)
+    .map((entry) => {
+      // <mode> <type> <object> <size>\t<path>
+      const tab = entry.indexOf('\t')
+      const path = entry.slice(tab + 1)
+      const [mode, type, objectSha, size] = entry.slice(0, tab).split(/\s+/)
+      return {
+        path,
+        mode,
+        type: type as 'blob' | 'tree' | 'commit',
+        sha: objectSha,
+        ...(size !== '-' && { size: Number(size) }),
+        url: '',
+      }
+    })
+
+  return { sha, url: '', tree, truncated: false }
+}
+
+/**
+ * Map a `git log` record to the REST API's commit shape
+ * GitHub account fields are unknown locally and left null
+ */
+function toGitHubCommit(
+  owner: string,
+  repo: string,
+  record: string
+): GitHubCommit {
+  const [
+    sha,
+    authorName,
+    authorEmail,
+    authorDate,
+    committerName,
+    committerEmail,
+    committerDate,
+    treeSha,
+    parents,
+    message,
+  ] = record.split(FIELD_SEPARATOR)
+  const htmlUrl = `https://github.com/${owner}/${repo}/commit/${sha}`
+
+  return {
+    sha,
+    node_id: '',
+    commit: {
+      author: { name: authorName, email: authorEmail, date: authorDate },
+      committer: {
+        name: committerName,
+        email: committerEmail,
+        date: committerDate,
+      },
+      message: message.trimEnd(),
+      tree: { sha: treeSha, url: '' },
+      url: '',
+      comment_count: 0,
+      verification: {
+        verified: false,
+        reason: 'unknown',
+        signature: null,
+        payload: null,
+      },
+    },
+    url: '',
+    html_url: htmlUrl,
+    comments_url: '',
+    author: null,
+    committer: null,
+    parents: parents
+      .split(' ')
+      .filter(Boolean)
+      .map((parent) => ({
+        sha: parent,
+        url: '',
+        html_url: `https://github.com/${owner}/${repo}/commit/${parent}`,
+      })),
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Repository Source
+ *
+ * Where analysis stages read a repository from. `GitHubClient` serves it
+ * through the REST API; `LocalCloneSource` from a shallow clone in a temp
+ * workspace, which avoids most API calls (and rate limits) on large repos.
+ *
+ * Select the backend with ANALYSIS_SOURCE=api|clone (default: api).
+ */
+
+import { GitHubClient } from './github-client'
+import { LocalCloneSource } from './local-clone-source'
+import type {
+  GitHubCommit,
+  GitHubRepository,
+  GitHubTree,
+  CommitOptions,
+} from '@/types/github'
+
+/**
+ * Read access to a repository's metadata, tree, files and commit log
+ */
+export interface RepositorySource {
+  getRepository(owner: string, repo: string): Promise<GitHubRepository>
+  getRepositoryTree(
+    owner: string,
+    repo: string,
+    ref?: string
+  ): Promise<GitHubTree>
+  getFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string
+  ): Promise<string>
+  getCommitHistory(
+    owner: string,
+    repo: string,
+    options?: CommitOptions
+  ): Promise<GitHubCommit[]>
+  /** Whether file contents are read locally rather than one request each */
+  readsFilesLocally?(owner: string, repo: string): Promise<boolean>
+  /** Release local resources (workspaces), if any */
+  dispose?(): Promise<void>
+}
+
+/**
+ * Create the configured repository source
+ *
+ * @param githubClient - GitHub client, for metadata and as fallback
+ * @param accessToken - GitHub access token, for cloning
+ * @returns Repository source
+ */
+export function createRepositorySource(
+  githubClient: GitHubClient,
+  accessToken: string
+): RepositorySource {
+  return process.env.ANALYSIS_SOURCE === 'clone'
+    ? new LocalCloneSource(githubClient, accessToken, {
+        maxRepositorySizeMb: process.env.LOCAL_CLONE_MAX_SIZE_MB
+          ? Number(process.env.LOCAL_CLONE_MAX_SIZE_MB)
+          : undefined,
+      })
+    : githubClient
+}
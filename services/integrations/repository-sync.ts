@@ -0,0 +1,379 @@
+/**
+ * Repository Sync
+ *
+ * Periodic refresh of GitHub-linked vibes, run by the repository sync worker:
+ * - Syncs metadata (stars, forks, open issues, topics, ...) from GitHub
+ * - Marks repositories renamed, made private or deleted on GitHub
+ * - Re-queues analyses older than a configurable age at LOW priority
+ *
+ * Requests are made with each owner's token and limited to a share of the
+ * token's remaining rate limit, so the sync never starves the owner's own
+ * requests. Repositories left over are synced first on the next run.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { cacheService } from '@/lib/cache'
+import {
+  GitHubClient,
+  createGitHubClient,
+} from '@/services/integrations/github-client'
+import { analysisQueue } from '@/services/queue/analysis-queue'
+import { JOB_PRIORITIES } from '@/services/queue/queue-config'
+import { NotFoundError, RateLimitError } from '@/lib/errors/github-errors'
+import type {
+  GitHubLicense,
+  GitHubRepository,
+  GitHubUser,
+} from '@/types/github'
+
+/**
+ * Where a vibe's repository stands on GitHub
+ * - renamed: moved to a new owner or name since the previous check
+ * - private: no longer public
+ * - deleted: gone, or no longer visible to the owner's token
+ */
+export type GitHubStatus = 'active' | 'renamed' | 'private' | 'deleted'
+
+/**
+ * Repository fields the stored metadata is copied from
+ * Satisfied by both API responses and webhook payloads
+ */
+export type RepositoryMetadataSource = Pick<
+  GitHubRepository,
+  | 'name'
+  | 'full_name'
+  | 'html_url'
+  | 'language'
+  | 'stargazers_count'
+  | 'forks_count'
+  | 'open_issues_count'
+  | 'private'
+> & {
+  owner: Pick<GitHubUser, 'login' | 'avatar_url'>
+  license: Pick<GitHubLicense, 'spdx_id'> | null
+  topics?: string[]
+}
+
+/**
+ * Outcome of a sync run
+ */
+export interface RepositorySyncSummary {
+  synced: number
+  renamed: number
+  private: number
+  deleted: number
+  skipped: number // Out of rate-limit budget, without a token or failed
+  analysesQueued: number
+}
+
+interface RepositorySyncOptions {
+  /** Analyses older than this are re-queued (default: 30 days) */
+  staleAnalysisAgeDays?: number
+  /** Share of a token's remaining requests the sync may use (default: 0.5) */
+  budgetShare?: number
+  /** Analyses re-queued per run at most (default: 50) */
+  maxAnalysesPerRun?: number
+}
+
+/**
+ * GitHub requests an analysis is estimated to make through the API:
+ * metadata, tree and commits, up to ~70 files read by the stages (20 of
+ * them for the secret scan), CI runs and commit history pages
+ */
+const ANALYSIS_REQUEST_COST = 100
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type SyncedRepository = {
+  id: string
+  githubId: number | null
+  owner: string | null
+  name: string | null
+  userId: string
+  analysisStatus: string
+  lastAnalyzedAt: Date | null
+  user: { githubAccessToken: string | null }
+}
+
+/**
+ * Repository Sync Service
+ */
+export class RepositorySyncService {
+  private staleAnalysisAgeDays: number
+  private budgetShare: number
+  private maxAnalysesPerRun: number
+
+  constructor(options: RepositorySyncOptions = {}) {
+    this.staleAnalysisAgeDays = options.staleAnalysisAgeDays ?? 30
+    this.budgetShare = options.budgetShare ?? 0.5
+    this.maxAnalysesPerRun = options.maxAnalysesPerRun ?? 50
+  }
+
+  /**
+   * Sync every GitHub-linked vibe and re-queue stale analyses
+   *
+   * @param now - Time of the run
+   * @returns Counts of what the run did
+   */
+  async syncAll(now: Date = new Date()): Promise<RepositorySyncSummary> {
+    const summary: RepositorySyncSummary = {
+      synced: 0,
+      renamed: 0,
+      private: 0,
+      deleted: 0,
+      skipped: 0,
+      analysesQueued: 0,
+    }
+
+    // Least recently synced first, so a run cut short by rate limits is
+    // continued by the next one
+    const repositories: SyncedRepository[] = await prisma.repository.findMany({
+      where: {
+        githubId: { not: null },
+        owner: { not: null },
+        name: { not: null },
+      },
+      select: {
+        id: true,
+        githubId: true,
+        owner: true,
+        name: true,
+        userId: true,
+        analysisStatus: true,
+        lastAnalyzedAt: true,
+        user: { select: { githubAccessToken: true } },
+      },
+      orderBy: { metadataSyncedAt: { sort: 'asc', nulls: 'first' } },
+    })
+
+    for (const group of groupByOwner(repositories)) {
+      const token = group[0].user.githubAccessToken
+      if (!token) {
+        summary.skipped += group.length
+        continue
+      }
+
+      await this.syncOwnerRepositories(
+        createGitHubClient(token),
+        group,
+        summary,
+        now
+      )
+    }
+
+    return summary
+  }
+
+  /**
+   * Sync one owner's repositories within their token's budget
+   */
+  private async syncOwnerRepositories(
+    githubClient: GitHubClient,
+    repositories: SyncedRepository[],
+    summary: RepositorySyncSummary,
+    now: Date
+  ): Promise<void> {
+    let budget = await this.requestBudget(githubClient)
+    const current: Array<SyncedRepository & { status: GitHubStatus }> = []
+
+    for (const repository of repositories) {
+      if (budget < 1) {
+        summary.skipped++
+        continue
+      }
+      budget--
+
+      try {
+        const synced = await this.syncRepository(githubClient, repository, now)
+        if (synced.status !== 'deleted') summary.synced++
+        if (synced.status !== 'active') summary[synced.status]++
+        current.push({ ...repository, ...synced })
+      } catch (error) {
+        summary.skipped++
+        if (error instanceof RateLimitError) {
+          budget = 0
+        } else {
+          console.error(
+            `Failed to sync repository ${repository.owner}/${repository.name}:`,
+            error
+          )
+        }
+      }
+    }
+
+    // Analyses take many requests; queue them only from what is left
+    const cutoff = now.getTime() - this.staleAnalysisAgeDays * DAY_MS
+    const stale = current
+      .filter(
+        ({ status, analysisStatus, lastAnalyzedAt }) =>
+          (status === 'active' || status === 'renamed') &&
+          (analysisStatus === 'completed' || analysisStatus === 'partial') &&
+          !!lastAnalyzedAt &&
+          lastAnalyzedAt.getTime() < cutoff
+      )
+      .sort((a, b) => a.lastAnalyzedAt!.getTime() - b.lastAnalyzedAt!.getTime())
+
+    for (const repository of stale) {
+      if (
+        budget < ANALYSIS_REQUEST_COST ||
+        summary.analysesQueued >= this.maxAnalysesPerRun
+      ) {
+        break
+      }
+      budget -= ANALYSIS_REQUEST_COST
+
+      await analysisQueue.addAnalysisJob(
+        {
+          repositoryId: repository.id,
+          owner: repository.owner!,
+          repo: repository.name!,
+          userId: repository.userId,
+        },
+        JOB_PRIORITIES.LOW
+      )
+      summary.analysesQueued++
+    }
+  }
+
+  /**
+   * Refresh one repository's metadata and GitHub status
+   *
+   * @returns Status and current owner/name
+   */
+  private async syncRepository(
+    githubClient: GitHubClient,
+    repository: SyncedRepository,
+    now: Date
+  ): Promise<{ status: GitHubStatus; owner: string; name: string }> {
+    const owner = repository.owner!
+    const name = repository.name!
+
+    try {
+      // Bypass the metadata cache; the fresh response replaces it
+      await cacheService.del(cacheService.githubRepoKey(owner, name))
+      // Renamed repositories are redirected to their new name
+      const githubRepo = await githubClient.getRepository(owner, name)
+
+      // Another repository took over the name
+      if (githubRepo.id !== repository.githubId) {
+        return this.markDeleted(repository, now)
+      }
+
+      const status = githubStatusOf(githubRepo, `${owner}/${name}`)
+      await prisma.repository.update({
+        where: { id: repository.id },
+        data: {
+          ...repositoryMetadata(githubRepo),
+          githubStatus: status,
+          metadataSyncedAt: now,
+        },
+      })
+
+      return { status, owner: githubRepo.owner.login, name: githubRepo.name }
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return this.markDeleted(repository, now)
+      }
+      throw error
+    }
+  }
+
+  private async markDeleted(
+    repository: SyncedRepository,
+    now: Date
+  ): Promise<{ status: GitHubStatus; owner: string; name: string }> {
+    await prisma.repository.update({
+      where: { id: repository.id },
+      data: { githubStatus: 'deleted', metadataSyncedAt: now },
+    })
+    return {
+      status: 'deleted',
+      owner: repository.owner!,
+      name: repository.name!,
+    }
+  }
+
+  /**
+   * Requests the sync may make with a token
+   */
+  private async requestBudget(githubClient: GitHubClient): Promise<number> {
+    try {
+      const { resources } = await githubClient.getRateLimitStatus()
+      return Math.floor(resources.core.remaining * this.budgetShare)
+    } catch (error) {
+      console.error('Failed to fetch rate limit for sync:', error)
+      return 0
+    }
+  }
+}
+
+/**
+ * Stored metadata columns for a GitHub repository
+ *
+ * @param githubRepo - Repository from the API or a webhook payload
+ * @returns Repository fields to update
+ */
+export function repositoryMetadata(githubRepo: RepositoryMetadataSource) {
+  return {
+    name: githubRepo.name,
+    fullName: githubRepo.full_name,
+    owner: githubRepo.owner.login,
+    ownerAvatarUrl: githubRepo.owner.avatar_url,
+    htmlUrl: githubRepo.html_url,
+    language: githubRepo.language,
+    ...(githubRepo.topics && { topics: githubRepo.topics }),
+    stargazersCount: githubRepo.stargazers_count,
+    forksCount: githubRepo.forks_count,
+    openIssuesCount: githubRepo.open_issues_count,
+    license: githubRepo.license?.spdx_id ?? null,
+    isPrivate: githubRepo.private,
+  }
+}
+
+/**
+ * GitHub status of a repository that still exists
+ *
+ * @param githubRepo - Repository as GitHub returns it now
+ * @param storedFullName - owner/name stored for the vibe
+ * @returns private, renamed or active
+ */
+export function githubStatusOf(
+  githubRepo: RepositoryMetadataSource,
+  storedFullName: string | null
+): GitHubStatus {
+  if (githubRepo.private) return 'private'
+  // GitHub names are case-insensitive
+  if (
+    storedFullName &&
+    storedFullName.toLowerCase() !== githubRepo.full_name.toLowerCase()
+  ) {
+    return 'renamed'
+  }
+  return 'active'
+}
+
+/**
+ * Group repositories by owning user, keeping their order
+ */
+function groupByOwner(repositories: SyncedRepository[]): SyncedRepository[][] {
+  const groups = new Map<string, SyncedRepository[]>()
+  for (const repository of repositories) {
+    const group = groups.get(repository.userId) ?? []
+    group.push(repository)
+    groups.set(repository.userId, group)
+  }
+  return [...groups.values()]
+}
+
+/**
+ * Create repository sync service instance
+ *
+ * @returns RepositorySyncService instance
+ */
+export function createRepositorySyncService(): RepositorySyncService {
+  return new RepositorySyncService({
+    staleAnalysisAgeDays: process.env.ANALYSIS_STALE_AFTER_DAYS
+      ? Number(process.env.ANALYSIS_STALE_AFTER_DAYS)
+      : undefined,
+  })
+}
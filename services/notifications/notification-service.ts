@@ -260,6 +260,30 @@ export async function notifyAnalysisComplete(
   })
 }
 
+/**
+ * Create notification for secrets found in the owner's repository
+ * Only masked previews are included; the notification is private to the owner
+ */
+export async function notifySecretLeak(
+  ownerId: string,
+  repositoryId: string,
+  repositoryName: string,
+  findings: Array<{ path: string; line: number; type: string; preview: string }>
+) {
+  const shown = findings
+    .slice(0, 10)
+    .map((finding) => `${finding.path}:${finding.line} (${finding.type}, ${finding.preview})`)
+  const more = findings.length > shown.length ? `; and ${findings.length - shown.length} more` : ''
+
+  return await createNotification({
+    userId: ownerId,
+    type: 'SECRET_LEAK_DETECTED',
+    title: 'Possible secrets committed to your repository',
+    message: `Rotate these credentials and remove them from ${repositoryName}'s history: ${shown.join('; ')}${more}`,
+    repositoryId,
+  })
+}
+
 /**
  * Create notification for new comment on user's repository
  */
@@ -0,0 +1,133 @@
+/**
+ * Analysis Job Events Unit Tests
+ */
+
+import { EventEmitter } from 'events'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  stageFromLog,
+  watchAnalysisJob,
+  type AnalysisJobEvent,
+} from '../analysis-events'
+
+const { queueEvents, mockQueue } = vi.hoisted(() => ({
+  queueEvents: { current: null as EventEmitter | null },
+  mockQueue: {
+    getJob: vi.fn(),
+    getJobLogs: vi.fn(),
+  },
+}))
+
+// Mock dependencies
+vi.mock('bullmq', async () => {
+  const { EventEmitter } = await import('events')
+  return {
+    QueueEvents: class extends EventEmitter {
+      constructor() {
+        super()
+        queueEvents.current = this
+      }
+    },
+  }
+})
+vi.mock('../queue-config', () => ({
+  redisConnection: {},
+  QUEUE_NAMES: { REPOSITORY_ANALYSIS: 'repository-analysis' },
+}))
+vi.mock('../analysis-queue', () => ({
+  analysisQueue: { getQueue: () => mockQueue },
+}))
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('stageFromLog', () => {
+  it('should read the stage from progress log lines', () => {
+    expect(stageFromLog('Progress: 45% - Scanning for leaked secrets')).toBe(
+      'Scanning for leaked secrets'
+    )
+    expect(stageFromLog('Analysis completed successfully')).toBeNull()
+  })
+})
+
+describe('watchAnalysisJob', () => {
+  const logs: string[] = []
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    logs.length = 0
+    logs.push('Progress: 10% - Fetching repository metadata')
+    mockQueue.getJob.mockResolvedValue({
+      progress: 10,
+      getState: vi.fn().mockResolvedValue('active'),
+    })
+    mockQueue.getJobLogs.mockImplementation(
+      async (_jobId: string, start = 0) => ({
+        logs: logs.slice(start),
+        count: logs.length,
+      })
+    )
+  })
+
+  it('should send the state, then new log lines with each progress event', async () => {
+    const events: AnalysisJobEvent[] = []
+    const unwatch = watchAnalysisJob('job-1', (event) => events.push(event))
+    await flush()
+
+    logs.push('Progress: 20% - Detecting AI tools')
+    queueEvents.current!.emit('progress', { jobId: 'job-2', data: 90 })
+    queueEvents.current!.emit('progress', { jobId: 'job-1', data: 20 })
+    await flush()
+
+    logs.push('Analysis completed successfully')
+    queueEvents.current!.emit('completed', {
+      jobId: 'job-1',
+      returnvalue: { success: true, analysisId: 'analysis-1' },
+    })
+    await flush()
+    unwatch()
+
+    expect(events).toEqual([
+      {
+        type: 'state',
+        state: 'active',
+        progress: 10,
+        stage: 'Fetching repository metadata',
+        logs: ['Progress: 10% - Fetching repository metadata'],
+      },
+      { type: 'log', line: 'Progress: 20% - Detecting AI tools' },
+      { type: 'progress', progress: 20, stage: 'Detecting AI tools' },
+      { type: 'log', line: 'Analysis completed successfully' },
+      { type: 'completed', analysisId: 'analysis-1' },
+    ])
+  })
+
+  it('should report analyses the worker completed unsuccessfully as failed', async () => {
+    const events: AnalysisJobEvent[] = []
+    const unwatch = watchAnalysisJob('job-1', (event) => events.push(event))
+    await flush()
+
+    queueEvents.current!.emit('completed', {
+      jobId: 'job-1',
+      returnvalue: { success: false, error: 'Repository not found' },
+    })
+    await flush()
+    unwatch()
+
+    expect(events.at(-1)).toEqual({
+      type: 'failed',
+      error: 'Repository not found',
+    })
+  })
+
+  it('should stop sending events once unwatched', async () => {
+    const events: AnalysisJobEvent[] = []
+    const unwatch = watchAnalysisJob('job-1', (event) => events.push(event))
+    await flush()
+    unwatch()
+
+    queueEvents.current!.emit('progress', { jobId: 'job-1', data: 50 })
+    await flush()
+
+    expect(events.map(({ type }) => type)).toEqual(['state'])
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Repository Analysis Queue Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { analysisQueue } from '../analysis-queue'
+
+const { mockQueue, mockFlowProducer, mockRunIndex } = vi.hoisted(() => ({
+  mockQueue: { getJob: vi.fn(), on: vi.fn() },
+  mockFlowProducer: { add: vi.fn() },
+  mockRunIndex: {
+    claim: vi.fn(),
+    discard: vi.fn(),
+    getRecentRuns: vi.fn(),
+    countPending: vi.fn(),
+  },
+}))
+
+// Mock dependencies
+vi.mock('bullmq', () => ({
+  Queue: vi.fn(() => mockQueue),
+  FlowProducer: vi.fn(() => mockFlowProducer),
+}))
+vi.mock('../queue-config', () => ({
+  defaultQueueOptions: {},
+  analysisJobOptions: {},
+  analysisStageJobOptions: {},
+  redisConnection: {},
+  QUEUE_NAMES: { REPOSITORY_ANALYSIS: 'repository-analysis' },
+  JOB_NAMES: {
+    ANALYZE_REPOSITORY: 'analyze-repository',
+    ANALYSIS_STAGE: 'analysis-stage',
+  },
+  JOB_PRIORITIES: { NORMAL: 10, LOW: 20 },
+}))
+vi.mock('../analysis-run-index', () => ({
+  AnalysisRunIndex: vi.fn(() => mockRunIndex),
+}))
+
+const data = {
+  repositoryId: 'repo-1',
+  owner: 'ada',
+  repo: 'app',
+  userId: 'user-1',
+}
+
+const runJob = (id: string, state: string) => ({
+  id,
+  data,
+  getState: vi.fn().mockResolvedValue(state),
+})
+
+describe('RepositoryAnalysisQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockRunIndex.countPending.mockResolvedValue(0)
+    mockFlowProducer.add.mockImplementation(async (flow) => ({
+      job: { id: flow.opts.jobId, data: flow.data },
+    }))
+  })
+
+  it('should return the pending run instead of adding another', async () => {
+    const pending = runJob('analysis-repo-1-1', 'waiting-children')
+    mockRunIndex.claim.mockResolvedValue({ runId: pending.id, claimedAt: 0 })
+    mockQueue.getJob.mockResolvedValue(pending)
+
+    const { job, created } = await analysisQueue.addAnalysisJob(data)
+
+    expect(job).toBe(pending)
+    expect(created).toBe(false)
+    expect(mockFlowProducer.add).not.toHaveBeenCalled()
+  })
+
+  it('should replace a pending run that already finished', async () => {
+    const finished = runJob('analysis-repo-1-1', 'completed')
+    mockRunIndex.claim
+      .mockResolvedValueOnce({ runId: finished.id, claimedAt: 0 })
+      .mockResolvedValueOnce(null)
+    mockQueue.getJob.mockResolvedValue(finished)
+    mockRunIndex.countPending.mockResolvedValue(2)
+
+    const { job, created } = await analysisQueue.addAnalysisJob(data)
+
+    const runId = mockRunIndex.claim.mock.calls[0][2]
+    expect(mockRunIndex.claim).toHaveBeenLastCalledWith(
+      'repo-1',
+      'user-1',
+      runId,
+      finished.id
+    )
+    expect(job.id).toBe(runId)
+    expect(created).toBe(true)
+    // Pushed back by the user's other pending runs
+    expect(mockFlowProducer.add).toHaveBeenCalledWith(
+      expect.objectContaining({
+        opts: expect.objectContaining({ priority: 12 }),
+      })
+    )
+  })
+
+  it('should wait for a run another request is still adding', async () => {
+    const adding = runJob('analysis-repo-1-1', 'waiting-children')
+    mockRunIndex.claim.mockResolvedValue({
+      runId: adding.id,
+      claimedAt: Date.now(),
+    })
+    // Not in the queue until the other request's add finishes
+    mockQueue.getJob.mockResolvedValueOnce(undefined).mockResolvedValue(adding)
+
+    const { job, created } = await analysisQueue.addAnalysisJob(data)
+
+    expect(job).toBe(adding)
+    expect(created).toBe(false)
+    expect(mockRunIndex.claim).toHaveBeenCalledTimes(2)
+    expect(mockRunIndex.claim).toHaveBeenLastCalledWith(
+      'repo-1',
+      'user-1',
+      expect.any(String),
+      undefined
+    )
+    expect(mockFlowProducer.add).not.toHaveBeenCalled()
+  })
+
+  it('should replace a claimed run that was never added', async () => {
+    mockRunIndex.claim
+      .mockResolvedValueOnce({
+        runId: 'analysis-repo-1-1',
+        claimedAt: Date.now() - 60 * 1000,
+      })
+      .mockResolvedValueOnce(null)
+    mockQueue.getJob.mockResolvedValue(undefined)
+
+    const { job } = await analysisQueue.addAnalysisJob(data)
+
+    expect(mockRunIndex.claim).toHaveBeenLastCalledWith(
+      'repo-1',
+      'user-1',
+      job.id,
+      'analysis-repo-1-1'
+    )
+    expect(mockFlowProducer.add).toHaveBeenCalled()
+  })
+
+  it('should free the repository when the run could not be added', async () => {
+    mockRunIndex.claim.mockResolvedValue(null)
+    mockFlowProducer.add.mockRejectedValue(new Error('Redis down'))
+
+    await expect(analysisQueue.addAnalysisJob(data)).rejects.toThrow(
+      'Redis down'
+    )
+    expect(mockRunIndex.discard).toHaveBeenCalledWith(
+      'repo-1',
+      'user-1',
+      mockRunIndex.claim.mock.calls[0][2]
+    )
+  })
+
+  it('should find the latest run still in the queue', async () => {
+    const latest = runJob('analysis-repo-1-1', 'failed')
+    mockRunIndex.getRecentRuns.mockResolvedValue([
+      'analysis-repo-1-2', // Removed from the queue
+      latest.id,
+    ])
+    mockQueue.getJob.mockImplementation(async (id: string) =>
+      id === latest.id ? latest : undefined
+    )
+
+    expect(await analysisQueue.getLatestRepositoryJob('repo-1')).toBe(latest)
+  })
+})
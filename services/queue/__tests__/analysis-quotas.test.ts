@@ -0,0 +1,83 @@
+/**
+ * Analysis Quotas Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  AnalysisQuotaExceededError,
+  AnalysisQuotaService,
+  quotaHeaders,
+} from '../analysis-quotas'
+
+const { store } = vi.hoisted(() => ({ store: new Map<string, number>() }))
+
+// Mock dependencies
+vi.mock('@/lib/redis', () => ({
+  redis: {
+    get: vi.fn(async (key: string) => store.get(key)?.toString() ?? null),
+    incr: vi.fn(async (key: string) => {
+      store.set(key, (store.get(key) ?? 0) + 1)
+      return store.get(key)
+    }),
+    decr: vi.fn(async (key: string) => {
+      store.set(key, (store.get(key) ?? 0) - 1)
+      return store.get(key)
+    }),
+    expire: vi.fn(),
+    del: vi.fn(async (key: string) => store.delete(key)),
+  },
+}))
+
+const NOW = new Date('2026-10-19T18:00:00Z')
+
+describe('AnalysisQuotaService', () => {
+  beforeEach(() => {
+    store.clear()
+  })
+
+  it('should count analyses per user and day', async () => {
+    const quotas = new AnalysisQuotaService({ dailyLimit: 2 })
+
+    await quotas.consume('user-1', NOW)
+    const quota = await quotas.consume('user-1', NOW)
+
+    expect(quota).toEqual({
+      limit: 2,
+      remaining: 0,
+      resetAt: new Date('2026-10-20T00:00:00Z'),
+    })
+    expect((await quotas.getQuota('user-2', NOW)).remaining).toBe(2)
+    expect(
+      (await quotas.getQuota('user-1', new Date('2026-10-20T01:00:00Z')))
+        .remaining
+    ).toBe(2)
+  })
+
+  it('should refuse analyses over the quota without counting them', async () => {
+    const quotas = new AnalysisQuotaService({ dailyLimit: 1 })
+    await quotas.consume('user-1', NOW)
+
+    await expect(quotas.consume('user-1', NOW)).rejects.toThrow(
+      AnalysisQuotaExceededError
+    )
+    expect((await quotas.getQuota('user-1', NOW)).remaining).toBe(0)
+
+    await quotas.refund('user-1', NOW)
+    expect((await quotas.getQuota('user-1', NOW)).remaining).toBe(1)
+  })
+})
+
+describe('quotaHeaders', () => {
+  it('should report the quota and when to retry once it is used up', () => {
+    const resetAt = new Date('2026-10-20T00:00:00Z')
+
+    expect(quotaHeaders({ limit: 20, remaining: 3, resetAt }, NOW)).toEqual({
+      'X-RateLimit-Limit': '20',
+      'X-RateLimit-Remaining': '3',
+      'X-RateLimit-Reset': String(resetAt.getTime() / 1000),
+    })
+    expect(
+      quotaHeaders({ limit: 20, remaining: 0, resetAt }, NOW)['Retry-After']
+    ).toBe(String(6 * 60 * 60))
+  })
+})
@@ -0,0 +1,210 @@
+/**
+ * Analysis Queue Administration Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  drainStaleRuns,
+  failureType,
+  getFailureGroups,
+  retryFailedJobs,
+} from '../queue-admin'
+import { prisma } from '@/lib/prisma'
+
+const { mockQueue, mockAnalysisQueue, quotas } = vi.hoisted(() => {
+  const mockQueue = {
+    getFailed: vi.fn(),
+    getCompleted: vi.fn(),
+    getJobs: vi.fn(),
+  }
+  return {
+    mockQueue,
+    mockAnalysisQueue: {
+      getQueue: () => mockQueue,
+      addAnalysisJob: vi.fn(),
+      releaseRun: vi.fn(),
+      releaseSlot: vi.fn(),
+      cleanOldJobs: vi.fn(),
+    },
+    quotas: {},
+  }
+})
+
+// Mock dependencies
+vi.mock('@/lib/prisma', () => ({
+  prisma: { repository: { findMany: vi.fn(), updateMany: vi.fn() } },
+}))
+vi.mock('../analysis-queue', () => ({ analysisQueue: mockAnalysisQueue }))
+vi.mock('../analysis-quotas', () => ({
+  createAnalysisQuotaService: () => quotas,
+}))
+vi.mock('../queue-config', () => ({
+  JOB_NAMES: { ANALYZE_REPOSITORY: 'analyze-repository' },
+  JOB_PRIORITIES: { LOW: 20 },
+}))
+
+describe('failureType', () => {
+  it('should group failures that differ only in their details', () => {
+    expect(
+      failureType(
+        'GitHub API rate limit exceeded. Resets at 2026-10-19T18:00:00Z'
+      )
+    ).toBe(
+      failureType(
+        'GitHub API rate limit exceeded. Resets at 2026-10-19T19:30:00Z'
+      )
+    )
+    expect(failureType('Commit 3f9a2c1d not found in "ada/app"')).toBe(
+      'Commit <sha> not found in "…"'
+    )
+    expect(failureType('timeout of 30000ms exceeded')).toBe(
+      'timeout of Nms exceeded'
+    )
+    expect(failureType(undefined)).toBe('Unknown error')
+  })
+})
+
+describe('getFailureGroups', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should count failed jobs and failed runs by error type', async () => {
+    mockQueue.getFailed.mockResolvedValue([
+      {
+        id: 'stage-1',
+        failedReason: 'timeout of 30000ms exceeded',
+        finishedOn: 3,
+      },
+      {
+        id: 'stage-2',
+        failedReason: 'timeout of 5000ms exceeded',
+        finishedOn: 1,
+      },
+    ])
+    mockQueue.getCompleted.mockResolvedValue([
+      {
+        id: 'run-1',
+        returnvalue: { success: false, error: 'Repository not found' },
+        finishedOn: 2,
+      },
+      { id: 'run-2', returnvalue: { success: true }, finishedOn: 4 },
+    ])
+
+    const groups = await getFailureGroups()
+
+    expect(groups).toEqual([
+      {
+        type: 'timeout of Nms exceeded',
+        count: 2,
+        lastFailedAt: new Date(3).toISOString(),
+        jobIds: ['stage-1', 'stage-2'],
+      },
+      {
+        type: 'Repository not found',
+        count: 1,
+        lastFailedAt: new Date(2).toISOString(),
+        jobIds: ['run-1'],
+      },
+    ])
+  })
+})
+
+describe('retryFailedJobs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const job = (repositoryId: string, fields: Record<string, unknown> = {}) => ({
+    data: { repositoryId, owner: 'ada', repo: repositoryId, userId: 'user-1' },
+    remove: vi.fn(),
+    ...fields,
+  })
+
+  it('should re-queue the repositories of failed jobs and failed runs', async () => {
+    const failedStage = job('repo-1', { name: 'analysis-stage' })
+    const failedRun = job('repo-2', {
+      name: 'analyze-repository',
+      returnvalue: { success: false, error: 'Repository not found' },
+    })
+    const succeededRun = job('repo-3', {
+      name: 'analyze-repository',
+      returnvalue: { success: true },
+    })
+    mockQueue.getFailed.mockResolvedValue([failedStage])
+    mockQueue.getCompleted.mockResolvedValue([failedRun, succeededRun])
+    vi.mocked(prisma.repository.findMany).mockResolvedValue([
+      { id: 'repo-1' },
+      { id: 'repo-2' },
+    ] as never)
+
+    const result = await retryFailedJobs()
+
+    expect(result).toEqual({ requeued: 2, failed: 0 })
+    expect(mockAnalysisQueue.addAnalysisJob).toHaveBeenCalledWith(
+      failedStage.data,
+      20
+    )
+    expect(mockAnalysisQueue.addAnalysisJob).toHaveBeenCalledWith(
+      failedRun.data,
+      20
+    )
+    expect(mockAnalysisQueue.addAnalysisJob).toHaveBeenCalledTimes(2)
+    expect(failedStage.remove).toHaveBeenCalled()
+    expect(failedRun.remove).toHaveBeenCalled()
+    expect(succeededRun.remove).not.toHaveBeenCalled()
+  })
+
+  it('should skip repositories analyzed since and keep jobs it could not re-queue', async () => {
+    const analyzedSince = job('repo-1', { name: 'analysis-stage' })
+    const unqueued = job('repo-2', { name: 'analysis-stage' })
+    const queued = job('repo-3', { name: 'analysis-stage' })
+    mockQueue.getFailed.mockResolvedValue([analyzedSince, unqueued, queued])
+    mockQueue.getCompleted.mockResolvedValue([])
+    vi.mocked(prisma.repository.findMany).mockResolvedValue([
+      { id: 'repo-2' },
+      { id: 'repo-3' },
+    ] as never)
+    mockAnalysisQueue.addAnalysisJob
+      .mockRejectedValueOnce(new Error('Redis down'))
+      .mockResolvedValueOnce({})
+
+    const result = await retryFailedJobs()
+
+    expect(result).toEqual({ requeued: 1, failed: 1 })
+    expect(mockAnalysisQueue.addAnalysisJob).not.toHaveBeenCalledWith(
+      analyzedSince.data,
+      20
+    )
+    expect(analyzedSince.remove).toHaveBeenCalled()
+    expect(unqueued.remove).not.toHaveBeenCalled()
+    expect(queued.remove).toHaveBeenCalled()
+  })
+})
+
+describe('drainStaleRuns', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should free the slots of the runs it removes', async () => {
+    const stale = {
+      name: 'analyze-repository',
+      timestamp: 0,
+      data: { repositoryId: 'repo-1', userId: 'user-1' },
+      remove: vi.fn(),
+    }
+    mockQueue.getJobs.mockResolvedValue([stale])
+
+    const result = await drainStaleRuns()
+
+    expect(result).toEqual({ removed: 1 })
+    expect(mockAnalysisQueue.releaseRun).toHaveBeenCalledWith(stale)
+    expect(mockAnalysisQueue.releaseSlot).toHaveBeenCalledWith(stale, quotas)
+    expect(prisma.repository.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ id: { in: ['repo-1'] } }),
+      })
+    )
+  })
+})
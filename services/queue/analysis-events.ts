@@ -0,0 +1,207 @@
+/**
+ * Analysis Job Events
+ *
+ * Live progress of analysis jobs, read from BullMQ QueueEvents for
+ * streaming to clients. One QueueEvents connection is shared by every
+ * watcher; log lines the worker writes with job.log are fetched as
+ * progress events arrive.
+ */
+
+import { QueueEvents } from 'bullmq'
+import { redisConnection, QUEUE_NAMES } from './queue-config'
+import { analysisQueue, type AnalysisJobResult } from './analysis-queue'
+
+/**
+ * Event sent to analysis watchers
+ * - state: job state, progress and logs so far (always sent first)
+ * - progress: percentage and stage name
+ * - log: a line written by the worker
+ * - completed / failed: the job finished; no more events follow (a partial
+ *   analysis completes, listing its failed stages)
+ */
+export type AnalysisJobEvent =
+  | {
+      type: 'state'
+      state: string
+      progress: number
+      stage: string | null
+      logs: string[]
+    }
+  | { type: 'progress'; progress: number; stage: string | null }
+  | { type: 'log'; line: string }
+  | { type: 'completed'; analysisId?: string; failedStages?: string[] }
+  | { type: 'failed'; error: string }
+
+/**
+ * Log line the worker writes for each analysis stage
+ */
+const PROGRESS_LOG = /^Progress: (\d+)% - (.+)$/
+
+let queueEvents: QueueEvents | null = null
+
+/**
+ * Shared QueueEvents connection, opened on first use
+ */
+function getQueueEvents(): QueueEvents {
+  if (!queueEvents) {
+    queueEvents = new QueueEvents(QUEUE_NAMES.REPOSITORY_ANALYSIS, {
+      connection: redisConnection,
+    })
+    queueEvents.setMaxListeners(0) // One set of listeners per watcher
+    queueEvents.on('error', (error: Error) => {
+      console.error('Queue events error:', error)
+    })
+  }
+  return queueEvents
+}
+
+/**
+ * Stage name from an analysis log line
+ *
+ * @param line - Log line
+ * @returns Stage name, or null for other lines
+ */
+export function stageFromLog(line: string): string | null {
+  return PROGRESS_LOG.exec(line)?.[2] ?? null
+}
+
+/**
+ * Watch an analysis job
+ * Sends the current state first, then progress and log lines until the job
+ * completes or fails.
+ *
+ * @param jobId - Job identifier
+ * @param onEvent - Called for each event, in order
+ * @returns Function that stops watching
+ */
+export function watchAnalysisJob(
+  jobId: string,
+  onEvent: (event: AnalysisJobEvent) => void
+): () => void {
+  const events = getQueueEvents()
+  const queue = analysisQueue.getQueue()
+  let logCursor = 0
+  let stage: string | null = null
+  let stopped = false
+
+  // Handlers fetch logs asynchronously; chain them to keep events in order
+  let pending = Promise.resolve()
+  const enqueue = (task: () => Promise<void>) => {
+    pending = pending
+      .then(() => (stopped ? undefined : task()))
+      .catch((error) => console.error(`Failed to watch job ${jobId}:`, error))
+  }
+
+  const flushLogs = async () => {
+    const { logs } = await queue.getJobLogs(jobId, logCursor)
+    logCursor += logs.length
+    for (const line of logs) {
+      stage = stageFromLog(line) ?? stage
+      onEvent({ type: 'log', line })
+    }
+  }
+
+  const onProgress = ({
+    jobId: id,
+    data,
+  }: {
+    jobId: string
+    data: unknown
+  }) => {
+    if (id !== jobId) return
+    enqueue(async () => {
+      await flushLogs()
+      onEvent({
+        type: 'progress',
+        progress: typeof data === 'number' ? data : 0,
+        stage,
+      })
+    })
+  }
+
+  const onCompleted = ({
+    jobId: id,
+    returnvalue,
+  }: {
+    jobId: string
+    returnvalue: unknown
+  }) => {
+    if (id !== jobId) return
+    enqueue(async () => {
+      await flushLogs()
+      onEvent(finishedEvent(returnvalue as AnalysisJobResult))
+    })
+  }
+
+  const onFailed = ({
+    jobId: id,
+    failedReason,
+  }: {
+    jobId: string
+    failedReason: string
+  }) => {
+    if (id !== jobId) return
+    enqueue(async () => {
+      await flushLogs()
+      onEvent({ type: 'failed', error: failedReason })
+    })
+  }
+
+  events.on('progress', onProgress)
+  events.on('completed', onCompleted)
+  events.on('failed', onFailed)
+
+  // Listen before reading the state, so nothing happens in between unseen
+  enqueue(async () => {
+    const job = await queue.getJob(jobId)
+    if (!job) {
+      onEvent({ type: 'failed', error: 'Analysis job not found' })
+      return
+    }
+
+    const [state, { logs }] = await Promise.all([
+      job.getState(),
+      queue.getJobLogs(jobId),
+    ])
+    logCursor = logs.length
+    stage = logs.map(stageFromLog).filter(Boolean).pop() ?? null
+
+    onEvent({
+      type: 'state',
+      state,
+      progress: typeof job.progress === 'number' ? job.progress : 0,
+      stage,
+      logs,
+    })
+
+    if (state === 'completed') {
+      onEvent(finishedEvent(job.returnvalue))
+    } else if (state === 'failed') {
+      onEvent({ type: 'failed', error: job.failedReason || 'Analysis failed' })
+    }
+  })
+
+  return () => {
+    stopped = true
+    events.off('progress', onProgress)
+    events.off('completed', onCompleted)
+    events.off('failed', onFailed)
+  }
+}
+
+/**
+ * Final event for a finished job
+ * The worker completes jobs whose analysis failed with success: false
+ */
+function finishedEvent(
+  result: AnalysisJobResult | undefined
+): AnalysisJobEvent {
+  if (result && !result.success) {
+    return { type: 'failed', error: result.error || 'Analysis failed' }
+  }
+  return {
+    type: 'completed',
+    analysisId: result?.analysisId,
+    failedStages: result?.failedStages,
+  }
+}
@@ -3,16 +3,32 @@
  *
  * BullMQ queue for managing repository analysis jobs.
  * Handles job creation, status tracking, and queue management.
+ *
+ * Each analysis run is a flow: the run job waits on a chain of stage jobs
+ * (see `@/services/analysis/analysis-stages`), each the child of the next,
+ * so stages run in order and retry on their own. The run job gets the
+ * progress and logs of its stages.
+ *
+ * Runs are looked up through a Redis index (see `./analysis-run-index`)
+ * rather than by listing the queue's jobs.
  */
 
-import { Queue, Job } from 'bullmq'
+import { Queue, Job, FlowProducer, type FlowChildJob } from 'bullmq'
 import {
   defaultQueueOptions,
   analysisJobOptions,
+  analysisStageJobOptions,
+  redisConnection,
   QUEUE_NAMES,
   JOB_NAMES,
   JOB_PRIORITIES,
 } from './queue-config'
+import {
+  ANALYSIS_STAGES,
+  type AnalysisStage,
+} from '@/services/analysis/analysis-stages'
+import { AnalysisRunIndex } from './analysis-run-index'
+import type { AnalysisQuotaService } from './analysis-quotas'
 
 /**
  * Repository analysis job data
@@ -23,6 +39,8 @@ export interface AnalysisJobData {
   repo: string
   userId: string
   priority?: number
+  runId?: string // Stage jobs: job ID of their run
+  stage?: AnalysisStage // Stage jobs: stage to run
 }
 
 /**
@@ -32,77 +50,214 @@ export interface AnalysisJobResult {
   repositoryId: string
   success: boolean
   analysisId?: string
+  failedStages?: string[] // Stages missing from a partial analysis
   error?: string
   completedAt: Date
 }
 
+/**
+ * Run returned when adding an analysis job
+ */
+export interface QueuedAnalysisJob {
+  job: Job<AnalysisJobData, AnalysisJobResult>
+  created: boolean // False when the repository's pending run was joined
+}
+
+/**
+ * States of runs that have not finished
+ */
+const PENDING_STATES = [
+  'waiting',
+  'prioritized',
+  'waiting-children',
+  'active',
+  'delayed',
+] as const
+
+/**
+ * Times a new run tries to claim its repository before giving up
+ */
+const MAX_CLAIM_ATTEMPTS = 3
+
+/**
+ * Longest time adding a claimed run can take
+ * Until then, a claimed run whose job is not in the queue yet is still
+ * being added and is waited for rather than replaced.
+ */
+const ADD_RUN_TIMEOUT_MS = 15 * 1000
+
+/**
+ * Wait between checks for a claimed run being added
+ */
+const CLAIM_POLL_INTERVAL_MS = 200
+
 /**
  * Repository Analysis Queue
  * Manages background jobs for analyzing repositories
  */
 class RepositoryAnalysisQueue {
   private queue: Queue<AnalysisJobData, AnalysisJobResult>
+  private flowProducer: FlowProducer
+  private runIndex: AnalysisRunIndex
 
   constructor() {
     this.queue = new Queue<AnalysisJobData, AnalysisJobResult>(
       QUEUE_NAMES.REPOSITORY_ANALYSIS,
       defaultQueueOptions
     )
+    this.flowProducer = new FlowProducer({ connection: redisConnection })
+    this.runIndex = new AnalysisRunIndex()
 
     this.setupEventHandlers()
   }
 
   /**
    * Add a repository analysis job to the queue
+   * A repository has at most one pending run: while one is queued or
+   * running, it is returned instead of adding another.
    *
    * @param data - Job data containing repository information
    * @param priority - Job priority (default: NORMAL)
-   * @returns Created job
+   * @returns Created or already pending job, and whether it was created
    */
   async addAnalysisJob(
     data: AnalysisJobData,
     priority: number = JOB_PRIORITIES.NORMAL
-  ): Promise<Job<AnalysisJobData, AnalysisJobResult>> {
+  ): Promise<QueuedAnalysisJob> {
     try {
-      // Check if there's already a pending job for this repository
-      const existingJobs = await this.queue.getJobs(['waiting', 'active', 'delayed'])
-      const existingJob = existingJobs.find(
-        (job) => job.data.repositoryId === data.repositoryId
-      )
+      const runId = newRunId(data.repositoryId)
+      const pendingForUser = await this.runIndex.countPending(data.userId)
+
+      // Check for a pending run and claim the repository in one step
+      const existingJob = await this.claimRun(data, runId, isPending)
 
       if (existingJob) {
         console.log(
           `Analysis job already exists for repository ${data.repositoryId}:`,
           existingJob.id
         )
-        return existingJob
+        return { job: existingJob, created: false }
       }
 
-      // Create new job
-      const job = await this.queue.add(
-        JOB_NAMES.ANALYZE_REPOSITORY,
-        {
-          ...data,
-          priority,
-        },
-        {
-          ...analysisJobOptions,
-          priority,
-          jobId: `analysis-${data.repositoryId}-${Date.now()}`,
-        }
+      // Create new run; a user's backlog does not hold up other users
+      const job = await this.addRun(
+        data,
+        runId,
+        fairPriority(priority, pendingForUser)
       )
 
       console.log(
         `Added analysis job ${job.id} for repository ${data.owner}/${data.repo}`
       )
 
-      return job
+      return { job, created: true }
     } catch (error) {
       console.error('Failed to add analysis job:', error)
       throw error
     }
   }
 
+  /**
+   * Schedule a repository analysis job after a delay
+   * Repeated calls within the delay push the pending job back instead of
+   * adding another one, so a burst of events results in a single analysis.
+   * A running analysis does not count as pending: it may already have read
+   * the repository before the latest event, so the new run takes its place
+   * as the repository's pending run. The delay applies to the run's first
+   * stage.
+   *
+   * @param data - Job data containing repository information
+   * @param delayMs - Delay before the job runs
+   * @param priority - Job priority (default: LOW)
+   * @returns Scheduled or already pending job
+   */
+  async scheduleAnalysisJob(
+    data: AnalysisJobData,
+    delayMs: number,
+    priority: number = JOB_PRIORITIES.LOW
+  ): Promise<Job<AnalysisJobData, AnalysisJobResult>> {
+    try {
+      const runId = newRunId(data.repositoryId)
+      const pendingForUser = await this.runIndex.countPending(data.userId)
+
+      const existingJob = await this.claimRun(data, runId, async (run) => {
+        if ((await run.getState()) !== 'waiting-children') return false
+
+        // Pending until the first stage starts
+        const firstStage = await this.queue.getJob(
+          stageJobId(run.id!, ANALYSIS_STAGES[0])
+        )
+        const state = await firstStage?.getState()
+        if (state === 'delayed') {
+          await firstStage!.changeDelay(delayMs)
+        }
+        return (
+          state === 'delayed' || state === 'waiting' || state === 'prioritized'
+        )
+      })
+
+      if (existingJob) {
+        console.log(
+          `Analysis job already pending for repository ${data.repositoryId}:`,
+          existingJob.id
+        )
+        return existingJob
+      }
+
+      const job = await this.addRun(
+        data,
+        runId,
+        fairPriority(priority, pendingForUser),
+        delayMs
+      )
+
+      console.log(
+        `Scheduled analysis job ${job.id} for repository ${data.owner}/${data.repo} in ${delayMs}ms`
+      )
+
+      return job
+    } catch (error) {
+      console.error('Failed to schedule analysis job:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Release a finished run, so the next request for its repository adds a
+   * new one
+   *
+   * @param job - Run job
+   */
+  async releaseRun(job: Job<AnalysisJobData, AnalysisJobResult>): Promise<void> {
+    await this.runIndex.release(job.data.repositoryId, job.data.userId, job.id!)
+  }
+
+  /**
+   * Free a run's concurrency slot, and start the run of its user that has
+   * waited longest for one
+   *
+   * @param job - Run job
+   * @param quotas - Quota service holding the slots
+   */
+  async releaseSlot(
+    job: Job<AnalysisJobData, AnalysisJobResult>,
+    quotas: AnalysisQuotaService
+  ): Promise<void> {
+    const { userId } = job.data
+    await quotas.releaseSlot(userId, job.id!)
+
+    let jobId: string | null
+    while ((jobId = await quotas.takeWaitingJob(userId))) {
+      const waiting = await this.queue.getJob(jobId)
+      // Gone, or still active and about to see the free slot itself
+      if (!waiting || !(await waiting.isDelayed())) continue
+
+      // Already promoted when this fails
+      await waiting.promote().catch(() => undefined)
+      return
+    }
+  }
+
   /**
    * Get job by ID
    *
@@ -116,23 +271,22 @@ class RepositoryAnalysisQueue {
   }
 
   /**
-   * Get all jobs for a repository
+   * Get the recent jobs for a repository
+   * Looked up in the run index; runs already removed from the queue are
+   * left out.
    *
    * @param repositoryId - Repository identifier
-   * @returns Array of jobs
+   * @returns Array of jobs, newest first
    */
   async getRepositoryJobs(
     repositoryId: string
   ): Promise<Job<AnalysisJobData, AnalysisJobResult>[]> {
-    const allJobs = await this.queue.getJobs([
-      'waiting',
-      'active',
-      'completed',
-      'failed',
-      'delayed',
-    ])
+    const runIds = await this.runIndex.getRecentRuns(repositoryId)
+    const jobs = await Promise.all(runIds.map((id) => this.queue.getJob(id)))
 
-    return allJobs.filter((job) => job.data.repositoryId === repositoryId)
+    return jobs.filter(
+      (job): job is Job<AnalysisJobData, AnalysisJobResult> => !!job
+    )
   }
 
   /**
@@ -144,12 +298,11 @@ class RepositoryAnalysisQueue {
   async getLatestRepositoryJob(
     repositoryId: string
   ): Promise<Job<AnalysisJobData, AnalysisJobResult> | null> {
-    const jobs = await this.getRepositoryJobs(repositoryId)
-    if (jobs.length === 0) return null
-
-    // Sort by timestamp (newest first)
-    jobs.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0))
-    return jobs[0]
+    for (const runId of await this.runIndex.getRecentRuns(repositoryId)) {
+      const job = await this.queue.getJob(runId)
+      if (job) return job
+    }
+    return null
   }
 
   /**
@@ -203,25 +356,36 @@ class RepositoryAnalysisQueue {
    */
   async getQueueMetrics(): Promise<{
     waiting: number
+    prioritized: number
+    waitingChildren: number
     active: number
     completed: number
     failed: number
     delayed: number
+    paused: boolean
   }> {
-    const [waiting, active, completed, failed, delayed] = await Promise.all([
-      this.queue.getWaitingCount(),
-      this.queue.getActiveCount(),
-      this.queue.getCompletedCount(),
-      this.queue.getFailedCount(),
-      this.queue.getDelayedCount(),
+    const [counts, paused] = await Promise.all([
+      this.queue.getJobCounts(
+        'waiting',
+        'prioritized',
+        'waiting-children',
+        'active',
+        'completed',
+        'failed',
+        'delayed'
+      ),
+      this.queue.isPaused(),
     ])
 
     return {
-      waiting,
-      active,
-      completed,
-      failed,
-      delayed,
+      waiting: counts.waiting ?? 0,
+      prioritized: counts.prioritized ?? 0,
+      waitingChildren: counts['waiting-children'] ?? 0,
+      active: counts.active ?? 0,
+      completed: counts.completed ?? 0,
+      failed: counts.failed ?? 0,
+      delayed: counts.delayed ?? 0,
+      paused,
     }
   }
 
@@ -256,10 +420,103 @@ class RepositoryAnalysisQueue {
    * Close the queue connection
    */
   async close(): Promise<void> {
+    await this.flowProducer.close()
     await this.queue.close()
     console.log('Queue closed')
   }
 
+  /**
+   * Add an analysis run: the run job and its chain of stage jobs
+   * @private
+   */
+  private async addRun(
+    data: AnalysisJobData,
+    runId: string,
+    priority: number,
+    delayMs?: number
+  ): Promise<Job<AnalysisJobData, AnalysisJobResult>> {
+    // The first stage is the deepest child; each stage waits on the previous
+    let child: FlowChildJob | undefined
+    for (const stage of ANALYSIS_STAGES) {
+      child = {
+        name: JOB_NAMES.ANALYSIS_STAGE,
+        queueName: QUEUE_NAMES.REPOSITORY_ANALYSIS,
+        data: { ...data, priority, runId, stage },
+        opts: {
+          ...analysisStageJobOptions,
+          priority,
+          jobId: stageJobId(runId, stage),
+          ...(!child && delayMs ? { delay: delayMs } : {}),
+        },
+        children: child && [child],
+      }
+    }
+
+    const { job } = await this.flowProducer
+      .add({
+        name: JOB_NAMES.ANALYZE_REPOSITORY,
+        queueName: QUEUE_NAMES.REPOSITORY_ANALYSIS,
+        data: { ...data, priority },
+        opts: {
+          ...analysisJobOptions,
+          priority,
+          jobId: runId,
+        },
+        children: child && [child],
+      })
+      .catch(async (error) => {
+        // Nothing was queued: free the repository for the next request
+        await this.runIndex.discard(data.repositoryId, data.userId, runId)
+        throw error
+      })
+
+    return job as Job<AnalysisJobData, AnalysisJobResult>
+  }
+
+  /**
+   * Claim the repository's pending run for a new run, or return the pending
+   * run if it may be joined
+   * A pending run that finished, was removed, or may not be joined is
+   * replaced; the check is repeated if another request got there first. A
+   * run claimed moments ago may not be in the queue yet: it is waited for,
+   * and replaced only once adding it would have finished.
+   * @private
+   */
+  private async claimRun(
+    data: AnalysisJobData,
+    runId: string,
+    canJoin: (run: Job<AnalysisJobData, AnalysisJobResult>) => Promise<boolean>
+  ): Promise<Job<AnalysisJobData, AnalysisJobResult> | null> {
+    let replaces: string | undefined
+    let attempts = 0
+    while (attempts < MAX_CLAIM_ATTEMPTS) {
+      const claimed = await this.runIndex.claim(
+        data.repositoryId,
+        data.userId,
+        runId,
+        replaces
+      )
+      if (!claimed) return null
+
+      const pending = await this.queue.getJob(claimed.runId)
+      if (!pending && Date.now() - claimed.claimedAt < ADD_RUN_TIMEOUT_MS) {
+        // Another request is still adding it
+        await new Promise((resolve) =>
+          setTimeout(resolve, CLAIM_POLL_INTERVAL_MS)
+        )
+        continue
+      }
+
+      if (pending && (await canJoin(pending))) return pending
+      replaces = claimed.runId
+      attempts++
+    }
+
+    throw new Error(
+      `Could not claim analysis of repository ${data.repositoryId}`
+    )
+  }
+
   /**
    * Setup event handlers for queue monitoring
    * @private
@@ -282,6 +539,40 @@ class RepositoryAnalysisQueue {
   }
 }
 
+/**
+ * Priority of a user's new run
+ * Each run the user already has pending moves the new one back by one, so
+ * runs of different users at the same priority alternate instead of one
+ * user's backlog going first.
+ */
+function fairPriority(priority: number, pendingForUser: number): number {
+  return priority + pendingForUser
+}
+
+/**
+ * Whether a run has not finished
+ */
+async function isPending(
+  run: Job<AnalysisJobData, AnalysisJobResult>
+): Promise<boolean> {
+  const state = await run.getState()
+  return (PENDING_STATES as readonly string[]).includes(state)
+}
+
+/**
+ * Job ID of a new analysis run
+ */
+function newRunId(repositoryId: string): string {
+  return `analysis-${repositoryId}-${Date.now()}`
+}
+
+/**
+ * Job ID of a stage of an analysis run
+ */
+export function stageJobId(runId: string, stage: AnalysisStage): string {
+  return `${runId}-${stage}`
+}
+
 // Export singleton instance
 export const analysisQueue = new RepositoryAnalysisQueue()
 
@@ -291,12 +582,12 @@ export const analysisQueue = new RepositoryAnalysisQueue()
  *
  * @param data - Job data
  * @param priority - Job priority
- * @returns Created job
+ * @returns Created or already pending job, and whether it was created
  */
 export async function addAnalysisJob(
   data: AnalysisJobData,
   priority?: number
-): Promise<Job<AnalysisJobData, AnalysisJobResult>> {
+): Promise<QueuedAnalysisJob> {
   return analysisQueue.addAnalysisJob(data, priority)
 }
 
@@ -0,0 +1,301 @@
+/**
+ * Analysis Quotas
+ *
+ * Per-user limits on repository analyses, kept in Redis:
+ * - Daily quota: analyses a user may request per UTC day
+ * - Concurrency: analysis runs of one user processed at the same time
+ *
+ * Runs that would exceed a user's concurrency wait in the queue, so other
+ * users' runs go first. They are kept in a waiting list, oldest first, and
+ * woken as the user's runs finish.
+ */
+
+import { redis } from '@/lib/redis'
+
+/**
+ * Default analyses a user may request per day
+ */
+const DEFAULT_DAILY_LIMIT = 20
+
+/**
+ * Default runs of one user processed at the same time
+ */
+const DEFAULT_MAX_CONCURRENT = 2
+
+/**
+ * Time after which a run's slot is freed even if it was never released
+ * (e.g. the worker crashed mid-run)
+ */
+const SLOT_TTL_MS = 60 * 60 * 1000
+
+/**
+ * Take a concurrency slot if one is free, or join the waiting list
+ * KEYS[1]: user's slots (sorted set of run IDs by start time)
+ * KEYS[2]: user's waiting list (sorted set of job IDs by first wait)
+ * ARGV: now, expired before, max slots, run ID, waiting job ID
+ */
+const ACQUIRE_SLOT_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[2])
+if not redis.call('ZSCORE', KEYS[1], ARGV[4]) then
+  if redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[3]) then
+    redis.call('ZADD', KEYS[2], 'NX', ARGV[1], ARGV[5])
+    redis.call('PEXPIRE', KEYS[2], ${SLOT_TTL_MS})
+    return 0
+  end
+  redis.call('ZADD', KEYS[1], ARGV[1], ARGV[4])
+  redis.call('PEXPIRE', KEYS[1], ${SLOT_TTL_MS})
+end
+redis.call('ZREM', KEYS[2], ARGV[5])
+return 1
+`
+
+/**
+ * A user's daily quota
+ */
+export interface AnalysisQuota {
+  limit: number
+  remaining: number
+  resetAt: Date // Next UTC midnight
+}
+
+/**
+ * Thrown when a user has no analyses left today
+ */
+export class AnalysisQuotaExceededError extends Error {
+  constructor(public quota: AnalysisQuota) {
+    super(
+      `Daily analysis quota of ${quota.limit} reached. Resets at ${quota.resetAt.toISOString()}`
+    )
+    this.name = 'AnalysisQuotaExceededError'
+  }
+}
+
+/**
+ * Analysis quota configuration
+ */
+interface AnalysisQuotaOptions {
+  dailyLimit?: number
+  maxConcurrent?: number
+}
+
+/**
+ * Analysis Quota Service
+ */
+export class AnalysisQuotaService {
+  private dailyLimit: number
+  private maxConcurrent: number
+
+  constructor(options: AnalysisQuotaOptions = {}) {
+    this.dailyLimit = options.dailyLimit ?? DEFAULT_DAILY_LIMIT
+    this.maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT
+  }
+
+  /**
+   * Get a user's quota without using it
+   *
+   * @param userId - User ID
+   * @param now - Current time
+   * @returns Daily quota
+   */
+  async getQuota(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<AnalysisQuota> {
+    const used = Number(await redis.get(dailyKey(userId, now))) || 0
+    return this.quota(used, now)
+  }
+
+  /**
+   * Use one analysis of a user's daily quota
+   *
+   * @param userId - User ID
+   * @param now - Current time
+   * @returns Quota left after this analysis
+   * @throws AnalysisQuotaExceededError when none is left
+   */
+  async consume(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<AnalysisQuota> {
+    const key = dailyKey(userId, now)
+    const used = await redis.incr(key)
+    if (used === 1) {
+      // Outlive the day, so late requests still see the count
+      await redis.expire(key, 2 * 24 * 60 * 60)
+    }
+
+    if (used > this.dailyLimit) {
+      await redis.decr(key)
+      throw new AnalysisQuotaExceededError(this.quota(this.dailyLimit, now))
+    }
+
+    return this.quota(used, now)
+  }
+
+  /**
+   * Give back an analysis that was not queued after all
+   *
+   * @param userId - User ID
+   * @param consumedAt - Time passed to `consume`, so the analysis goes back to
+   * the day it was taken from
+   */
+  async refund(userId: string, consumedAt: Date): Promise<void> {
+    const key = dailyKey(userId, consumedAt)
+    if ((await redis.decr(key)) < 0) {
+      await redis.del(key)
+    }
+  }
+
+  /**
+   * Take one of a user's concurrency slots for a run
+   * Taking a slot the run already holds succeeds. Without a free slot, the
+   * job starting the run joins the user's waiting list.
+   *
+   * @param userId - User ID
+   * @param runId - Analysis run (job ID)
+   * @param jobId - Job that waits for the slot
+   * @param now - Current time
+   * @returns Whether the run may start
+   */
+  async acquireSlot(
+    userId: string,
+    runId: string,
+    jobId: string,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const acquired = await redis.eval(
+      ACQUIRE_SLOT_SCRIPT,
+      2,
+      slotsKey(userId),
+      waitingKey(userId),
+      now.getTime(),
+      now.getTime() - SLOT_TTL_MS,
+      this.maxConcurrent,
+      runId,
+      jobId
+    )
+    return acquired === 1
+  }
+
+  /**
+   * Whether a user has a concurrency slot free
+   *
+   * @param userId - User ID
+   * @param now - Current time
+   */
+  async hasFreeSlot(userId: string, now: Date = new Date()): Promise<boolean> {
+    const running = await redis.zcount(
+      slotsKey(userId),
+      now.getTime() - SLOT_TTL_MS,
+      '+inf'
+    )
+    return running < this.maxConcurrent
+  }
+
+  /**
+   * Take the job that has waited longest for one of a user's slots
+   *
+   * @param userId - User ID
+   * @returns Job ID, or null when none is waiting
+   */
+  async takeWaitingJob(userId: string): Promise<string | null> {
+    const [jobId] = await redis.zpopmin(waitingKey(userId))
+    return jobId ?? null
+  }
+
+  /**
+   * Free a run's concurrency slot
+   *
+   * @param userId - User ID
+   * @param runId - Analysis run (job ID)
+   */
+  async releaseSlot(userId: string, runId: string): Promise<void> {
+    await redis.zrem(slotsKey(userId), runId)
+  }
+
+  /**
+   * Quota after the given number of analyses today
+   * @private
+   */
+  private quota(used: number, now: Date): AnalysisQuota {
+    return {
+      limit: this.dailyLimit,
+      remaining: Math.max(0, this.dailyLimit - used),
+      resetAt: nextUtcMidnight(now),
+    }
+  }
+}
+
+/**
+ * Response headers describing a quota
+ *
+ * @param quota - Daily quota
+ * @param now - Current time
+ * @returns Rate limit headers, plus Retry-After when none is left
+ */
+export function quotaHeaders(
+  quota: AnalysisQuota,
+  now: Date = new Date()
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(quota.limit),
+    'X-RateLimit-Remaining': String(quota.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(quota.resetAt.getTime() / 1000)),
+  }
+  if (quota.remaining === 0) {
+    headers['Retry-After'] = String(
+      Math.max(1, Math.ceil((quota.resetAt.getTime() - now.getTime()) / 1000))
+    )
+  }
+  return headers
+}
+
+/**
+ * Redis key counting a user's analyses on a UTC day
+ * @private
+ */
+function dailyKey(userId: string, now: Date): string {
+  return `analysis:quota:${userId}:${now.toISOString().slice(0, 10)}`
+}
+
+/**
+ * Redis key of a user's running analyses
+ * @private
+ */
+function slotsKey(userId: string): string {
+  return `analysis:running:${userId}`
+}
+
+/**
+ * Redis key of a user's jobs waiting for a slot
+ * @private
+ */
+function waitingKey(userId: string): string {
+  return `analysis:waiting:${userId}`
+}
+
+/**
+ * Start of the next UTC day
+ * @private
+ */
+function nextUtcMidnight(now: Date): Date {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+  )
+}
+
+/**
+ * Create analysis quota service instance
+ *
+ * @returns AnalysisQuotaService instance
+ */
+export function createAnalysisQuotaService(): AnalysisQuotaService {
+  return new AnalysisQuotaService({
+    dailyLimit: process.env.ANALYSIS_DAILY_QUOTA
+      ? Number(process.env.ANALYSIS_DAILY_QUOTA)
+      : undefined,
+    maxConcurrent: process.env.ANALYSIS_MAX_CONCURRENT_PER_USER
+      ? Number(process.env.ANALYSIS_MAX_CONCURRENT_PER_USER)
+      : undefined,
+  })
+}
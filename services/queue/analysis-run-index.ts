@@ -0,0 +1,192 @@
+/**
+ * Analysis Run Index
+ *
+ * Redis index of analysis runs, so the queue never scans its jobs:
+ * - Pending run: the unfinished run of a repository new requests join
+ * - Recent runs: a repository's latest run IDs, newest first
+ * - User runs: a user's pending runs, for fair ordering
+ *
+ * Claiming a repository's pending run checks and sets it in one script, so
+ * concurrent requests cannot queue two runs of the same repository.
+ */
+
+import { redis } from '@/lib/redis'
+
+/**
+ * Time after which a pending run is dropped even if it was never released
+ * (e.g. its job was removed before it ran)
+ */
+const PENDING_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Time a repository's recent runs are kept; matches failed run retention
+ */
+const RECENT_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+/**
+ * Runs kept per repository
+ */
+const RECENT_RUNS = 20
+
+/**
+ * Claim a repository's pending run unless another run holds it
+ * KEYS[1]: repository's pending run, KEYS[2]: repository's recent runs,
+ * KEYS[3]: user's pending runs (sorted set of run IDs by claim time)
+ * ARGV: run ID, run it replaces (or ''), now
+ * Returns nothing when claimed, else the run holding the claim and when it
+ * was claimed (its score in the recent runs, 0 if no longer there).
+ */
+const CLAIM_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and current ~= ARGV[2] then
+  return {current, redis.call('ZSCORE', KEYS[2], current) or '0'}
+end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ${PENDING_TTL_MS})
+redis.call('ZADD', KEYS[2], ARGV[3], ARGV[1])
+redis.call('ZREMRANGEBYRANK', KEYS[2], 0, -${RECENT_RUNS + 1})
+redis.call('PEXPIRE', KEYS[2], ${RECENT_TTL_MS})
+redis.call('ZADD', KEYS[3], ARGV[3], ARGV[1])
+redis.call('PEXPIRE', KEYS[3], ${PENDING_TTL_MS})
+return false
+`
+
+/**
+ * Drop a run from the pending runs, unless another run replaced it
+ * KEYS[1]: repository's pending run, KEYS[2]: user's pending runs
+ * ARGV: run ID
+ */
+const RELEASE_SCRIPT = `
+redis.call('ZREM', KEYS[2], ARGV[1])
+if redis.call('GET', KEYS[1]) == ARGV[1] then redis.call('DEL', KEYS[1]) end
+return 1
+`
+
+/**
+ * Run holding a repository's claim
+ */
+export interface ClaimedRun {
+  runId: string
+  claimedAt: number // Epoch milliseconds
+}
+
+/**
+ * Analysis Run Index
+ */
+export class AnalysisRunIndex {
+  /**
+   * Make a run the pending run of its repository
+   * Fails while another run is pending, unless it is the run to replace
+   * (one found finished, removed, or otherwise not worth joining).
+   *
+   * @param repositoryId - Repository ID
+   * @param userId - User the run belongs to
+   * @param runId - Run (job ID) to claim for
+   * @param replaces - Pending run the new run may replace
+   * @param now - Current time
+   * @returns Null when claimed, else the pending run
+   */
+  async claim(
+    repositoryId: string,
+    userId: string,
+    runId: string,
+    replaces?: string,
+    now: Date = new Date()
+  ): Promise<ClaimedRun | null> {
+    const pending = await redis.eval(
+      CLAIM_SCRIPT,
+      3,
+      pendingKey(repositoryId),
+      recentKey(repositoryId),
+      userKey(userId),
+      runId,
+      replaces ?? '',
+      now.getTime()
+    )
+    if (!Array.isArray(pending)) return null
+
+    const [pendingId, claimedAt] = pending as [string, string]
+    return { runId: pendingId, claimedAt: Number(claimedAt) }
+  }
+
+  /**
+   * Release a run that finished
+   *
+   * @param repositoryId - Repository ID
+   * @param userId - User the run belongs to
+   * @param runId - Run (job ID)
+   */
+  async release(
+    repositoryId: string,
+    userId: string,
+    runId: string
+  ): Promise<void> {
+    await redis.eval(
+      RELEASE_SCRIPT,
+      2,
+      pendingKey(repositoryId),
+      userKey(userId),
+      runId
+    )
+  }
+
+  /**
+   * Release a claimed run that was never queued
+   *
+   * @param repositoryId - Repository ID
+   * @param userId - User the run belongs to
+   * @param runId - Run (job ID)
+   */
+  async discard(
+    repositoryId: string,
+    userId: string,
+    runId: string
+  ): Promise<void> {
+    await this.release(repositoryId, userId, runId)
+    await redis.zrem(recentKey(repositoryId), runId)
+  }
+
+  /**
+   * A repository's recent runs
+   *
+   * @param repositoryId - Repository ID
+   * @returns Run IDs, newest first
+   */
+  async getRecentRuns(repositoryId: string): Promise<string[]> {
+    return redis.zrevrange(recentKey(repositoryId), 0, RECENT_RUNS - 1)
+  }
+
+  /**
+   * Number of a user's pending runs
+   *
+   * @param userId - User ID
+   * @param now - Current time
+   * @returns Pending runs, not counting ones past their TTL
+   */
+  async countPending(userId: string, now: Date = new Date()): Promise<number> {
+    return redis.zcount(userKey(userId), now.getTime() - PENDING_TTL_MS, '+inf')
+  }
+}
+
+/**
+ * Redis key of a repository's pending run
+ * @private
+ */
+function pendingKey(repositoryId: string): string {
+  return `analysis:pending:${repositoryId}`
+}
+
+/**
+ * Redis key of a repository's recent runs
+ * @private
+ */
+function recentKey(repositoryId: string): string {
+  return `analysis:runs:${repositoryId}`
+}
+
+/**
+ * Redis key of a user's pending runs
+ * @private
+ */
+function userKey(userId: string): string {
+  return `analysis:pending-runs:${userId}`
+}
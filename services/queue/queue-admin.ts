@@ -0,0 +1,439 @@
+/**
+ * Analysis Queue Administration
+ *
+ * Operations behind the admin queue dashboard:
+ * - Overview: queue depth, throughput, and failures grouped by error type
+ * - Jobs: jobs in a state, and a job's logs
+ * - Actions: retry failed jobs, drain stale runs, re-queue failed repositories
+ *
+ * Pausing and resuming go through `analysisQueue` directly.
+ */
+
+import type { Job, JobState } from 'bullmq'
+import { prisma } from '@/lib/prisma'
+import {
+  analysisQueue,
+  type AnalysisJobData,
+  type AnalysisJobResult,
+} from './analysis-queue'
+import { createAnalysisQuotaService } from './analysis-quotas'
+import { JOB_NAMES, JOB_PRIORITIES } from './queue-config'
+
+/**
+ * Job states the dashboard lists
+ */
+export const LISTED_JOB_STATES = [
+  'waiting',
+  'prioritized',
+  'waiting-children',
+  'active',
+  'delayed',
+  'completed',
+  'failed',
+] as const
+
+export type ListedJobState = (typeof LISTED_JOB_STATES)[number]
+
+/**
+ * Jobs per page of the job list
+ */
+const JOBS_PAGE_SIZE = 25
+
+/**
+ * Most recent failed and completed jobs read for failure reasons
+ */
+const FAILURE_SAMPLE_SIZE = 500
+
+/**
+ * Unfinished runs older than this are stale (default for draining)
+ */
+export const STALE_RUN_AGE_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Unfinished jobs read when looking for stale runs
+ */
+const STALE_SCAN_LIMIT = 1000
+
+/**
+ * Failures retried per bulk retry
+ */
+const RETRY_LIMIT = 100
+
+/**
+ * Job as shown on the dashboard
+ */
+export interface QueueJobSummary {
+  id: string
+  name: string
+  repositoryId: string
+  repository: string // owner/repo
+  stage: string | null
+  state: string
+  attemptsMade: number
+  failedReason: string | null
+  createdAt: string
+  finishedAt: string | null
+}
+
+/**
+ * Failures sharing an error type
+ */
+export interface FailureGroup {
+  type: string
+  count: number
+  lastFailedAt: string
+  jobIds: string[] // Most recent first, at most 5
+}
+
+/**
+ * Queue overview
+ */
+export interface QueueOverview {
+  depth: Awaited<ReturnType<typeof analysisQueue.getQueueMetrics>>
+  throughput: {
+    completedLastHour: number
+    failedLastHour: number
+    completedLastDay: number
+    failedLastDay: number
+  }
+  failures: FailureGroup[]
+  failedRepositories: number
+}
+
+/**
+ * Get the queue overview
+ *
+ * @returns Depth, throughput, failures and failed repositories
+ */
+export async function getQueueOverview(): Promise<QueueOverview> {
+  const queue = analysisQueue.getQueue()
+
+  const [depth, completed, failed, failures, failedRepositories] =
+    await Promise.all([
+      analysisQueue.getQueueMetrics(),
+      queue.getMetrics('completed', 0, 24 * 60 - 1),
+      queue.getMetrics('failed', 0, 24 * 60 - 1),
+      getFailureGroups(),
+      prisma.repository.count({ where: { analysisStatus: 'failed' } }),
+    ])
+
+  // Per-minute counts, newest first
+  const sum = (counts: number[]) => counts.reduce((a, b) => a + b, 0)
+
+  return {
+    depth,
+    throughput: {
+      completedLastHour: sum(completed.data.slice(0, 60)),
+      failedLastHour: sum(failed.data.slice(0, 60)),
+      completedLastDay: sum(completed.data),
+      failedLastDay: sum(failed.data),
+    },
+    failures,
+    failedRepositories,
+  }
+}
+
+/**
+ * Failures of the most recent jobs, grouped by error type
+ * Covers failed jobs (stages out of attempts) and runs that completed
+ * without an analysis.
+ *
+ * @returns Groups, largest first
+ */
+export async function getFailureGroups(): Promise<FailureGroup[]> {
+  const queue = analysisQueue.getQueue()
+  const [failed, completed] = await Promise.all([
+    queue.getFailed(0, FAILURE_SAMPLE_SIZE - 1),
+    queue.getCompleted(0, FAILURE_SAMPLE_SIZE - 1),
+  ])
+
+  const failures = [
+    ...failed.map((job) => ({ job, reason: job.failedReason })),
+    ...completed
+      .filter((job) => job.returnvalue?.success === false)
+      .map((job) => ({ job, reason: job.returnvalue.error })),
+  ].sort((a, b) => (b.job.finishedOn ?? 0) - (a.job.finishedOn ?? 0))
+
+  const groups = new Map<string, FailureGroup>()
+  for (const { job, reason } of failures) {
+    const type = failureType(reason)
+    const group = groups.get(type)
+    if (group) {
+      group.count++
+      if (group.jobIds.length < 5) group.jobIds.push(job.id!)
+    } else {
+      groups.set(type, {
+        type,
+        count: 1,
+        lastFailedAt: new Date(job.finishedOn ?? job.timestamp).toISOString(),
+        jobIds: [job.id!],
+      })
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => b.count - a.count)
+}
+
+/**
+ * Error type of a failure reason
+ * Drops what differs between occurrences of the same error (URLs, quoted
+ * values, commit SHAs, numbers and dates), so they group together.
+ *
+ * @param reason - Failure reason
+ * @returns Error type
+ */
+export function failureType(reason?: string | null): string {
+  const type = (reason || '')
+    .split('\n')[0]
+    .replace(/https?:\/\/\S+/g, '<url>')
+    .replace(/"[^"]*"|'[^']*'|`[^`]*`/g, '"…"')
+    .replace(/\b(?=[0-9a-f]*[a-f])(?=[0-9a-f]*\d)[0-9a-f]{7,40}\b/gi, '<sha>')
+    .replace(/\d+([-:.T]\d+)*Z?/g, 'N')
+    .trim()
+    .slice(0, 160)
+
+  return type || 'Unknown error'
+}
+
+/**
+ * List jobs in a state
+ *
+ * @param state - Job state
+ * @param page - Page number, from 0
+ * @returns Jobs, newest first, and whether there are more
+ */
+export async function listQueueJobs(
+  state: ListedJobState,
+  page: number = 0
+): Promise<{ jobs: QueueJobSummary[]; hasMore: boolean }> {
+  const start = page * JOBS_PAGE_SIZE
+  // One more than a page, to tell whether there is a next one
+  const jobs = await analysisQueue
+    .getQueue()
+    .getJobs([state], start, start + JOBS_PAGE_SIZE)
+
+  const summaries = await Promise.all(
+    jobs
+      .filter(Boolean)
+      .slice(0, JOBS_PAGE_SIZE)
+      .map((job) => summarizeJob(job, state))
+  )
+
+  return { jobs: summaries, hasMore: jobs.length > JOBS_PAGE_SIZE }
+}
+
+/**
+ * Get a job and its logs
+ *
+ * @param jobId - Job ID
+ * @returns Job and log lines, or null if the job does not exist
+ */
+export async function getJobWithLogs(
+  jobId: string
+): Promise<{ job: QueueJobSummary; logs: string[] } | null> {
+  const job = await analysisQueue.getJob(jobId)
+  if (!job) return null
+
+  const [summary, { logs }] = await Promise.all([
+    summarizeJob(job),
+    analysisQueue.getQueue().getJobLogs(jobId),
+  ])
+
+  return { job: summary, logs }
+}
+
+/**
+ * Retry the most recent failed jobs
+ * Covers the failures shown on the dashboard: failed jobs, and runs that
+ * completed without an analysis. Neither is retried in place, since a
+ * stage's run already went on without it and a run's claim on its
+ * repository is released: their repositories are analyzed again through
+ * the queue (once per repository), and their failed jobs removed once
+ * queued. Repositories analyzed since are left alone.
+ *
+ * @returns Repositories re-queued, and ones that could not be
+ */
+export async function retryFailedJobs(): Promise<{
+  requeued: number
+  failed: number
+}> {
+  const queue = analysisQueue.getQueue()
+  const [failedJobs, completed] = await Promise.all([
+    queue.getFailed(0, RETRY_LIMIT - 1),
+    queue.getCompleted(0, FAILURE_SAMPLE_SIZE - 1),
+  ])
+
+  const failures = [
+    ...failedJobs,
+    ...completed.filter((job) => job.returnvalue?.success === false),
+  ].slice(0, RETRY_LIMIT)
+
+  const byRepository = new Map<string, typeof failures>()
+  for (const job of failures) {
+    const jobs = byRepository.get(job.data.repositoryId) ?? []
+    byRepository.set(job.data.repositoryId, [...jobs, job])
+  }
+
+  // Stage failures leave their repository partial
+  const retryable = await prisma.repository.findMany({
+    where: {
+      id: { in: [...byRepository.keys()] },
+      analysisStatus: { in: ['failed', 'partial'] },
+    },
+    select: { id: true },
+  })
+  const retryableIds = new Set(retryable.map(({ id }) => id))
+
+  let requeued = 0
+  let failed = 0
+  for (const [repositoryId, jobs] of byRepository) {
+    try {
+      if (retryableIds.has(repositoryId)) {
+        const { owner, repo, userId } = jobs[0].data
+        await analysisQueue.addAnalysisJob(
+          { repositoryId, owner, repo, userId },
+          JOB_PRIORITIES.LOW
+        )
+        requeued++
+      }
+
+      // Re-queued or analyzed since: later retries should skip them
+      for (const job of jobs) {
+        await job.remove()
+      }
+    } catch (error) {
+      failed++
+      console.error(`Failed to retry repository ${repositoryId}:`, error)
+    }
+  }
+
+  console.log(
+    `Retried ${failures.length} failures, re-queued ${requeued} repositories (${failed} failed)`
+  )
+
+  return { requeued, failed }
+}
+
+/**
+ * Remove runs that have waited too long to finish
+ * Their stages are removed with them and their repositories marked failed,
+ * so they can be analyzed again. Runs with a stage in progress are kept.
+ * Old completed and failed jobs are cleaned as well.
+ *
+ * @param olderThanMs - Age of the runs to remove
+ * @returns Runs removed
+ */
+export async function drainStaleRuns(
+  olderThanMs: number = STALE_RUN_AGE_MS
+): Promise<{ removed: number }> {
+  const cutoff = Date.now() - olderThanMs
+  const jobs = await analysisQueue
+    .getQueue()
+    .getJobs(
+      ['waiting', 'prioritized', 'waiting-children', 'delayed'],
+      0,
+      STALE_SCAN_LIMIT - 1
+    )
+
+  const quotas = createAnalysisQuotaService()
+  const removedRepositories: string[] = []
+  for (const job of jobs) {
+    if (job?.name !== JOB_NAMES.ANALYZE_REPOSITORY || job.timestamp >= cutoff) {
+      continue
+    }
+
+    try {
+      await job.remove()
+      await analysisQueue.releaseRun(job)
+      // The worker never finishes it, so the user's slot is freed here
+      await analysisQueue.releaseSlot(job, quotas)
+      removedRepositories.push(job.data.repositoryId)
+    } catch (error) {
+      // Locked by a stage in progress
+      console.error(`Failed to remove stale run ${job.id}:`, error)
+    }
+  }
+
+  if (removedRepositories.length > 0) {
+    await prisma.repository.updateMany({
+      where: {
+        id: { in: removedRepositories },
+        analysisStatus: { in: ['pending', 'processing'] },
+      },
+      data: { analysisStatus: 'failed' },
+    })
+  }
+
+  await analysisQueue.cleanOldJobs()
+
+  console.log(`Drained ${removedRepositories.length} stale analysis runs`)
+
+  return { removed: removedRepositories.length }
+}
+
+/**
+ * Queue an analysis of every repository whose analysis failed
+ * Repositories with a run pending keep it. A repository that cannot be
+ * queued does not stop the others.
+ *
+ * @returns Repositories queued, and ones that could not be
+ */
+export async function requeueFailedRepositories(): Promise<{
+  queued: number
+  failed: number
+}> {
+  const repositories = await prisma.repository.findMany({
+    where: {
+      analysisStatus: 'failed',
+      owner: { not: null },
+      name: { not: null },
+    },
+    select: { id: true, owner: true, name: true, userId: true },
+  })
+
+  let queued = 0
+  let failed = 0
+  for (const repository of repositories) {
+    try {
+      await analysisQueue.addAnalysisJob(
+        {
+          repositoryId: repository.id,
+          owner: repository.owner!,
+          repo: repository.name!,
+          userId: repository.userId,
+        },
+        JOB_PRIORITIES.LOW
+      )
+      queued++
+    } catch (error) {
+      failed++
+      console.error(`Failed to re-queue repository ${repository.id}:`, error)
+    }
+  }
+
+  console.log(`Re-queued ${queued} failed repositories (${failed} failed)`)
+
+  return { queued, failed }
+}
+
+/**
+ * Job as shown on the dashboard
+ * @private
+ */
+async function summarizeJob(
+  job: Job<AnalysisJobData, AnalysisJobResult>,
+  state?: JobState | 'unknown'
+): Promise<QueueJobSummary> {
+  return {
+    id: job.id!,
+    name: job.name,
+    repositoryId: job.data.repositoryId,
+    repository: `${job.data.owner}/${job.data.repo}`,
+    stage: job.data.stage ?? null,
+    state: state ?? (await job.getState()),
+    attemptsMade: job.attemptsMade,
+    failedReason: job.failedReason || job.returnvalue?.error || null,
+    createdAt: new Date(job.timestamp).toISOString(),
+    finishedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : null,
+  }
+}
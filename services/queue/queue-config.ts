@@ -56,8 +56,8 @@ export const defaultWorkerOptions: WorkerOptions = {
 }
 
 /**
- * Job options for repository analysis
- * Higher priority and custom retry settings
+ * Job options for repository analysis runs
+ * The run job scores and saves the analysis once its stage jobs finished
  */
 export const analysisJobOptions: JobsOptions = {
   attempts: 5, // More retries for analysis jobs
@@ -75,12 +75,51 @@ export const analysisJobOptions: JobsOptions = {
   },
 }
 
+/**
+ * Job options for the stages of an analysis run
+ * Retries repeat only the failed stage; a stage out of attempts is left out
+ * of the analysis instead of blocking the run
+ */
+export const analysisStageJobOptions: JobsOptions = {
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 5000, // 5 seconds base delay
+  },
+  ignoreDependencyOnFailure: true,
+  removeOnComplete: {
+    age: 7 * 24 * 3600, // Keep for 7 days
+    count: 5000,
+  },
+  removeOnFail: {
+    age: 30 * 24 * 3600, // Keep failed for 30 days
+    count: 10000,
+  },
+}
+
+/**
+ * Job options for the repository sync
+ * A missed run is picked up by the next one, so failures are not retried
+ */
+export const syncJobOptions: JobsOptions = {
+  attempts: 1,
+  removeOnComplete: {
+    age: 7 * 24 * 3600, // Keep for 7 days
+    count: 100,
+  },
+  removeOnFail: {
+    age: 30 * 24 * 3600, // Keep failed for 30 days
+    count: 100,
+  },
+}
+
 /**
  * Queue names
  * Centralized queue naming for consistency
  */
 export const QUEUE_NAMES = {
   REPOSITORY_ANALYSIS: 'repository-analysis',
+  REPOSITORY_SYNC: 'repository-sync',
 } as const
 
 /**
@@ -89,15 +128,18 @@ export const QUEUE_NAMES = {
  */
 export const JOB_NAMES = {
   ANALYZE_REPOSITORY: 'analyze-repository',
+  ANALYSIS_STAGE: 'analysis-stage',
+  SYNC_REPOSITORIES: 'sync-repositories',
 } as const
 
 /**
  * Job priorities
- * Higher number = higher priority
+ * BullMQ runs lower numbers first. Priorities are assigned on the server,
+ * never taken from requests.
  */
 export const JOB_PRIORITIES = {
-  LOW: 1,
-  NORMAL: 5,
-  HIGH: 10,
-  URGENT: 20,
+  URGENT: 1,
+  HIGH: 5,
+  NORMAL: 10, // Analyses requested by the owner
+  LOW: 20, // Webhook and scheduled re-analyses
 } as const
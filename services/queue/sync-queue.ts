@@ -0,0 +1,86 @@
+/**
+ * Repository Sync Queue
+ *
+ * BullMQ queue for the repeatable repository sync job, which refreshes
+ * GitHub metadata for every vibe and re-queues stale analyses.
+ */
+
+import { Queue, Job } from 'bullmq'
+import {
+  defaultQueueOptions,
+  syncJobOptions,
+  QUEUE_NAMES,
+  JOB_NAMES,
+} from './queue-config'
+import type { RepositorySyncSummary } from '@/services/integrations/repository-sync'
+
+/**
+ * Repository sync job data
+ */
+export interface RepositorySyncJobData {
+  trigger: 'schedule' | 'manual'
+}
+
+/**
+ * Repository Sync Queue
+ * Schedules the periodic repository sync
+ */
+class RepositorySyncQueue {
+  private queue: Queue<RepositorySyncJobData, RepositorySyncSummary>
+
+  constructor() {
+    this.queue = new Queue<RepositorySyncJobData, RepositorySyncSummary>(
+      QUEUE_NAMES.REPOSITORY_SYNC,
+      defaultQueueOptions
+    )
+
+    this.queue.on('error', (error: Error) => {
+      console.error('Sync queue error:', error)
+    })
+  }
+
+  /**
+   * Run the sync every interval
+   * Idempotent: calling it again replaces the interval
+   *
+   * @param intervalMs - Time between runs
+   */
+  async scheduleRepeatingSync(intervalMs: number): Promise<void> {
+    await this.queue.upsertJobScheduler(
+      JOB_NAMES.SYNC_REPOSITORIES,
+      { every: intervalMs },
+      {
+        name: JOB_NAMES.SYNC_REPOSITORIES,
+        data: { trigger: 'schedule' },
+        opts: syncJobOptions,
+      }
+    )
+
+    console.log(`Repository sync scheduled every ${intervalMs}ms`)
+  }
+
+  /**
+   * Queue a sync run now, outside the schedule
+   *
+   * @returns Created job
+   */
+  async triggerSync(): Promise<
+    Job<RepositorySyncJobData, RepositorySyncSummary>
+  > {
+    return this.queue.add(
+      JOB_NAMES.SYNC_REPOSITORIES,
+      { trigger: 'manual' },
+      syncJobOptions
+    )
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    await this.queue.close()
+  }
+}
+
+// Export singleton instance
+export const syncQueue = new RepositorySyncQueue()
@@ -2,20 +2,50 @@
  * Repository Analysis Worker
  *
  * BullMQ worker that processes repository analysis jobs.
- * Handles job execution, progress updates, error handling, and retries.
+ * Runs the stage jobs of each analysis run, then the run job, which scores
+ * and saves the analysis from the stored stage results. Handles progress
+ * updates, error handling, and retries. A run over its user's concurrency
+ * limit waits before its first stage until one of the user's runs finishes.
  */
 
-import { Worker, Job } from 'bullmq'
+import {
+  Worker,
+  Job,
+  DelayedError,
+  MetricsTime,
+  UnrecoverableError,
+} from 'bullmq'
 import { prisma } from '@/lib/prisma'
-import { createRepositoryAnalyzer } from '@/services/analysis/repository-analyzer'
+import {
+  createRepositoryAnalyzer,
+  type AnalysisProgressCallback,
+} from '@/services/analysis/repository-analyzer'
+import {
+  finalizeAnalysisRun,
+  recordStageFailure,
+  runAnalysisStage,
+} from '@/services/analysis/analysis-pipeline'
 import {
   defaultWorkerOptions,
+  JOB_NAMES,
   QUEUE_NAMES,
 } from '@/services/queue/queue-config'
-import type {
-  AnalysisJobData,
-  AnalysisJobResult,
+import {
+  analysisQueue,
+  type AnalysisJobData,
+  type AnalysisJobResult,
 } from '@/services/queue/analysis-queue'
+import {
+  createAnalysisQuotaService,
+  type AnalysisQuotaService,
+} from '@/services/queue/analysis-quotas'
+
+/**
+ * Longest wait of a run over its user's concurrency limit
+ * Waiting runs are woken when a slot is released; this only covers a
+ * wake-up that was missed (e.g. the worker stopped mid-release).
+ */
+const SLOT_WAIT_TIMEOUT_MS = 15 * 60 * 1000
 
 /**
  * Analysis Worker
@@ -23,14 +53,21 @@ import type {
  */
 class AnalysisWorker {
   private worker: Worker<AnalysisJobData, AnalysisJobResult>
+  private quotas: AnalysisQuotaService
 
   constructor() {
+    this.quotas = createAnalysisQuotaService()
+
     this.worker = new Worker<AnalysisJobData, AnalysisJobResult>(
       QUEUE_NAMES.REPOSITORY_ANALYSIS,
       this.processJob.bind(this),
       {
         ...defaultWorkerOptions,
+        // A run is several stage jobs, so a job rate limit would throttle
+        // runs by their stage count; concurrency and per-user slots bound them
+        limiter: undefined,
         concurrency: 3, // Process 3 analysis jobs concurrently
+        metrics: { maxDataPoints: MetricsTime.ONE_WEEK }, // Per-minute throughput
       }
     )
 
@@ -44,52 +81,124 @@ class AnalysisWorker {
    * @private
    */
   private async processJob(
-    job: Job<AnalysisJobData, AnalysisJobResult>
+    job: Job<AnalysisJobData, AnalysisJobResult>,
+    token?: string
   ): Promise<AnalysisJobResult> {
-    const { repositoryId, owner, repo, userId } = job.data
+    return job.name === JOB_NAMES.ANALYSIS_STAGE
+      ? this.processStage(job, token)
+      : this.processRun(job)
+  }
 
-    console.log(`Processing analysis job ${job.id} for ${owner}/${repo}`)
+  /**
+   * Run one stage of an analysis run
+   * Failures are thrown so the stage is retried on its own; once out of
+   * attempts the stage is recorded as failed and the run goes on without it.
+   * @private
+   */
+  private async processStage(
+    job: Job<AnalysisJobData, AnalysisJobResult>,
+    token?: string
+  ): Promise<AnalysisJobResult> {
+    const { repositoryId, owner, repo, userId, runId, stage } = job.data
+
+    if (!runId || !stage) {
+      throw new UnrecoverableError('Stage job without a run or stage')
+    }
+
+    // The run starts with its snapshot; the user's other runs may go first
+    if (
+      stage === 'snapshot' &&
+      !(await this.quotas.acquireSlot(userId, runId, job.id!))
+    ) {
+      await job.moveToDelayed(Date.now() + SLOT_WAIT_TIMEOUT_MS, token)
+      // A run that finished meanwhile could not wake this one while active
+      if (await this.quotas.hasFreeSlot(userId)) {
+        await job.promote()
+      }
+      throw new DelayedError()
+    }
+
+    const run = { runId, repositoryId, owner, repo }
+    console.log(`Processing analysis stage ${stage} of ${runId}`)
+
+    // Watchers follow the run job, so stages report on it
+    const runJob = await analysisQueue.getJob(runId)
+    const onProgress: AnalysisProgressCallback = async (progress, status) => {
+      await runJob?.log(`Progress: ${progress}% - ${status}`)
+      await runJob?.updateProgress(progress)
+    }
 
     try {
-      // Update job progress
-      await job.updateProgress(0)
+      const analyzer = createRepositoryAnalyzer(
+        await this.getAccessToken(userId)
+      )
+      await runAnalysisStage(analyzer, run, stage, onProgress).finally(() =>
+        analyzer.close()
+      )
 
-      // Get user's GitHub access token
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { githubAccessToken: true },
-      })
+      return { repositoryId, success: true, completedAt: new Date() }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
 
-      if (!user?.githubAccessToken) {
-        throw new Error('User GitHub access token not found')
+      console.error(`Analysis stage ${stage} of ${runId} failed:`, errorMessage)
+
+      await runJob?.log(`Stage ${stage} failed: ${errorMessage}`)
+
+      const attempts = job.opts.attempts ?? 1
+      if (
+        error instanceof UnrecoverableError ||
+        job.attemptsMade + 1 >= attempts
+      ) {
+        await recordStageFailure(run, stage, errorMessage)
       }
 
-      // Create analyzer instance
-      const analyzer = createRepositoryAnalyzer(user.githubAccessToken)
+      throw error
+    }
+  }
+
+  /**
+   * Score and save an analysis run once its stages have finished
+   * @private
+   */
+  private async processRun(
+    job: Job<AnalysisJobData, AnalysisJobResult>
+  ): Promise<AnalysisJobResult> {
+    const { repositoryId, owner, repo, userId } = job.data
+
+    console.log(`Processing analysis job ${job.id} for ${owner}/${repo}`)
+
+    try {
+      // Get user's GitHub access token
+      const analyzer = createRepositoryAnalyzer(
+        await this.getAccessToken(userId)
+      )
 
       // Progress callback
+      // Log first: progress events prompt watchers to read the new log lines
       const onProgress = async (progress: number, status: string) => {
-        await job.updateProgress(progress)
         await job.log(`Progress: ${progress}% - ${status}`)
+        await job.updateProgress(progress)
       }
 
-      // Execute analysis
-      const result = await analyzer.analyzeRepository(
-        repositoryId,
-        owner,
-        repo,
+      // Score and save from the stage results
+      const result = await finalizeAnalysisRun(
+        analyzer,
+        { runId: job.id!, repositoryId, owner, repo },
         onProgress
-      )
-
-      await analyzer.close()
+      ).finally(() => analyzer.close())
 
       // Return result
       if (result.success) {
-        await job.log('Analysis completed successfully')
+        await job.log(
+          result.failedStages?.length
+            ? `Analysis completed without stages: ${result.failedStages.join(', ')}`
+            : 'Analysis completed successfully'
+        )
         return {
           repositoryId,
           success: true,
           analysisId: result.analysisId,
+          failedStages: result.failedStages,
           completedAt: new Date(),
         }
       } else {
@@ -115,9 +224,36 @@ class AnalysisWorker {
         error: errorMessage,
         completedAt: new Date(),
       }
+    } finally {
+      // Let the user's next run start
+      await analysisQueue
+        .releaseSlot(job, this.quotas)
+        .catch((error) => console.error('Failed to release slot:', error))
+      // Let the next request for the repository add a new run
+      await analysisQueue
+        .releaseRun(job)
+        .catch((error) => console.error('Failed to release run:', error))
     }
   }
 
+  /**
+   * Get the job owner's GitHub access token
+   * @private
+   */
+  private async getAccessToken(userId: string): Promise<string> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { githubAccessToken: true },
+    })
+
+    if (!user?.githubAccessToken) {
+      // Retrying does not bring the token back
+      throw new UnrecoverableError('User GitHub access token not found')
+    }
+
+    return user.githubAccessToken
+  }
+
   /**
    * Setup event handlers for worker monitoring
    * @private
@@ -0,0 +1,113 @@
+/**
+ * Repository Sync Worker
+ *
+ * BullMQ worker that runs the repeatable repository sync: refreshes GitHub
+ * metadata for every vibe and re-queues stale analyses. Registers the
+ * schedule on start (every METADATA_SYNC_INTERVAL_MINUTES, default 6 hours).
+ */
+
+import { Worker, Job } from 'bullmq'
+import { createRepositorySyncService } from '@/services/integrations/repository-sync'
+import {
+  syncQueue,
+  type RepositorySyncJobData,
+} from '@/services/queue/sync-queue'
+import {
+  defaultWorkerOptions,
+  QUEUE_NAMES,
+} from '@/services/queue/queue-config'
+import type { RepositorySyncSummary } from '@/services/integrations/repository-sync'
+
+/**
+ * Default time between sync runs
+ */
+const DEFAULT_SYNC_INTERVAL_MINUTES = 6 * 60
+
+/**
+ * Sync Worker
+ * Processes repository sync jobs from the queue
+ */
+class SyncWorker {
+  private worker: Worker<RepositorySyncJobData, RepositorySyncSummary>
+
+  constructor() {
+    this.worker = new Worker<RepositorySyncJobData, RepositorySyncSummary>(
+      QUEUE_NAMES.REPOSITORY_SYNC,
+      this.processJob.bind(this),
+      {
+        ...defaultWorkerOptions,
+        concurrency: 1, // Runs must not overlap
+      }
+    )
+
+    this.worker.on('failed', (job, error) => {
+      console.error(`✗ Sync job ${job?.id} failed:`, error.message)
+    })
+
+    this.worker.on('error', (error) => {
+      console.error('Sync worker error:', error)
+    })
+
+    const intervalMinutes = process.env.METADATA_SYNC_INTERVAL_MINUTES
+      ? Number(process.env.METADATA_SYNC_INTERVAL_MINUTES)
+      : DEFAULT_SYNC_INTERVAL_MINUTES
+    syncQueue
+      .scheduleRepeatingSync(intervalMinutes * 60 * 1000)
+      .catch((error) => console.error('Failed to schedule sync:', error))
+
+    console.log('✓ Sync worker started')
+  }
+
+  /**
+   * Process a sync job
+   * @private
+   */
+  private async processJob(
+    job: Job<RepositorySyncJobData, RepositorySyncSummary>
+  ): Promise<RepositorySyncSummary> {
+    console.log(`Processing sync job ${job.id} (${job.data.trigger})`)
+
+    const summary = await createRepositorySyncService().syncAll()
+
+    await job.log(
+      `Synced ${summary.synced} (renamed ${summary.renamed}, private ${summary.private}), ` +
+        `deleted ${summary.deleted}, skipped ${summary.skipped}, ` +
+        `re-queued ${summary.analysesQueued} analyses`
+    )
+
+    return summary
+  }
+
+  /**
+   * Close the worker
+   */
+  async close(): Promise<void> {
+    await this.worker.close()
+    await syncQueue.close()
+    console.log('Sync worker closed')
+  }
+}
+
+// Export singleton instance
+export const syncWorker = new SyncWorker()
+
+/**
+ * Stop the sync worker
+ * Call this function to gracefully shutdown the worker
+ */
+export async function stopSyncWorker(): Promise<void> {
+  await syncWorker.close()
+}
+
+// Graceful shutdown handlers
+process.on('SIGINT', async () => {
+  console.log('Received SIGINT, shutting down sync worker...')
+  await stopSyncWorker()
+  process.exit(0)
+})
+
+process.on('SIGTERM', async () => {
+  console.log('Received SIGTERM, shutting down sync worker...')
+  await stopSyncWorker()
+  process.exit(0)
+})
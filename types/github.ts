@@ -155,6 +155,12 @@ export interface GitHubCommit {
     url: string
     html_url: string
   }>
+  // Only returned when fetching a single commit
+  stats?: {
+    additions: number
+    deletions: number
+    total: number
+  }
 }
 
 /**
@@ -163,7 +169,7 @@ export interface GitHubCommit {
  */
 export interface GitHubContent {
   type: 'file' | 'dir' | 'symlink' | 'submodule'
-  encoding?: 'base64' | 'utf-8'
+  encoding?: 'base64' | 'utf-8' | 'none' // none: over 1 MB, content empty
   size: number
   name: string
   path: string
@@ -198,6 +204,67 @@ export interface GitHubTree {
   truncated: boolean
 }
 
+/**
+ * GitHub Actions Workflow Run
+ * Represents a single run of a workflow
+ */
+export interface GitHubWorkflowRun {
+  id: number
+  name: string | null
+  workflow_id: number
+  head_branch: string | null
+  head_sha: string
+  event: string
+  status: string | null // queued, in_progress, completed, ...
+  conclusion: string | null // success, failure, cancelled, skipped, timed_out, ...
+  run_attempt?: number
+  html_url: string
+  created_at: string
+  updated_at: string
+  run_started_at?: string
+}
+
+/**
+ * GitHub Contributor
+ * Represents a contributor to the default branch; commits whose email is
+ * not linked to an account are listed as anonymous contributors
+ */
+export interface GitHubContributor {
+  login?: string
+  name?: string // Anonymous contributors only
+  email?: string // Anonymous contributors only
+  type: string // User, Bot or Anonymous
+  contributions: number // Commits on the default branch
+}
+
+/**
+ * GitHub Commit Activity
+ * Commits in one week of the default branch's last year
+ */
+export interface GitHubCommitActivityWeek {
+  week: number // Unix timestamp of the week's first day (Sunday)
+  total: number
+  days: number[] // Commits per day, Sunday first
+}
+
+/**
+ * Commit Totals
+ * Size of a commit history, counted without fetching every page
+ */
+export interface CommitTotals {
+  count: number
+  firstCommit: GitHubCommit | null // Root commit, null for empty histories
+}
+
+/**
+ * Contributor List
+ * Top contributors and the total number of contributors
+ */
+export interface ContributorList {
+  contributors: GitHubContributor[] // Most contributions first, at most 100
+  total: number
+}
+
 /**
  * GitHub Rate Limit
  * Represents GitHub API rate limit status
@@ -243,6 +310,25 @@ export interface CommitOptions {
   page?: number
 }
 
+/**
+ * Workflow Run Options
+ * Options for listing GitHub Actions workflow runs
+ */
+export interface WorkflowRunOptions {
+  branch?: string
+  per_page?: number
+}
+
+/**
+ * Repository Webhook Options
+ * Delivery settings for a repository webhook
+ */
+export interface RepositoryWebhookOptions {
+  url: string
+  secret: string // Signs deliveries (X-Hub-Signature-256)
+  events: string[] // e.g. push, release, repository
+}
+
 /**
  * Repository List Options
  * Options for listing user repositories